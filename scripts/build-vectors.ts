@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+import { DatabaseClient } from '../src/database/client.js';
+import { VECTOR_DIMENSIONS, buildVectorModel, embedText } from '../src/search/vectors.js';
+
+/** Decimal places kept when storing vector coordinates */
+const PRECISION = 6;
+
+/**
+ * Round coordinates so the stored JSON stays compact
+ */
+function serialize(vector: number[]): string {
+  return JSON.stringify(vector.map((x) => Number(x.toFixed(PRECISION))));
+}
+
+export class VectorIndexBuilder {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * Rebuild the LSA model and requirement vectors from the current requirements
+   */
+  buildVectors(dimensions: number = VECTOR_DIMENSIONS): {
+    documents: number;
+    terms: number;
+    dimensions: number;
+  } {
+    const requirements = this.db.query<{ id: number; text: string }>(
+      `SELECT id, COALESCE(title, '') || ' ' || COALESCE(description, '') || ' ' ||
+              COALESCE(rationale, '') AS text
+       FROM ot_requirements
+       ORDER BY id`
+    );
+    console.log(`Building vectors for ${requirements.length} requirements...`);
+
+    const model = buildVectorModel(
+      requirements.map((r) => r.text),
+      dimensions
+    );
+
+    // Full replace for idempotent re-runs
+    this.db.run(`DELETE FROM ot_vector_terms`);
+    this.db.run(`DELETE FROM ot_requirement_vectors`);
+
+    for (const [term, { idf, projection }] of model.terms) {
+      this.db.run(`INSERT INTO ot_vector_terms (term, idf, projection) VALUES (?, ?, ?)`, [
+        term,
+        idf,
+        serialize(projection),
+      ]);
+    }
+
+    let documents = 0;
+    for (const requirement of requirements) {
+      const embedding = embedText(requirement.text, model);
+      if (embedding) {
+        this.db.run(
+          `INSERT INTO ot_requirement_vectors (requirement_db_id, embedding) VALUES (?, ?)`,
+          [requirement.id, serialize(embedding)]
+        );
+        documents++;
+      }
+    }
+
+    this.db.run(
+      `INSERT OR REPLACE INTO db_metadata (key, value, updated_at)
+       VALUES ('vector_dimensions', ?, datetime('now'))`,
+      [String(model.dimensions)]
+    );
+
+    console.log(
+      `Embedded ${documents} requirements using ${model.terms.size} terms in ${model.dimensions} dimensions`
+    );
+    return { documents, terms: model.terms.size, dimensions: model.dimensions };
+  }
+
+  /**
+   * Build the vector index and record the run in the ingestion log
+   */
+  async buildAll(): Promise<void> {
+    console.log('Starting vector index build...\n');
+    const startTime = Date.now();
+
+    try {
+      let result = { documents: 0, terms: 0, dimensions: 0 };
+      this.db.transaction(() => {
+        result = this.buildVectors();
+      });
+
+      const duration = Date.now() - startTime;
+      this.db.run(
+        `
+        INSERT INTO ingestion_log (operation, status, record_count, duration_ms, notes)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+        [
+          'build:vectors',
+          'success',
+          result.documents,
+          duration,
+          `Requirements: ${result.documents}, Terms: ${result.terms}, Dimensions: ${result.dimensions}`,
+        ]
+      );
+
+      console.log('\n=== Build Complete ===');
+      console.log(`Requirements: ${result.documents}`);
+      console.log(`Terms: ${result.terms}`);
+      console.log(`Dimensions: ${result.dimensions}`);
+      console.log(`Duration: ${duration}ms`);
+      console.log('======================\n');
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.db.run(
+        `
+        INSERT INTO ingestion_log (operation, status, record_count, duration_ms, notes)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+        ['build:vectors', 'failed', 0, duration, String(error)]
+      );
+
+      console.error('\n=== Build Failed ===');
+      console.error('Error:', error);
+      throw error;
+    }
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const dbPath = process.env.OT_MCP_DB_PATH || 'data/ot-security.db';
+  const db = new DatabaseClient(dbPath);
+
+  const builder = new VectorIndexBuilder(db);
+
+  builder
+    .buildAll()
+    .then(() => {
+      db.close();
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      db.close();
+      process.exit(1);
+    });
+}
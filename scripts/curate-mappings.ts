@@ -0,0 +1,825 @@
+#!/usr/bin/env node
+
+import { DatabaseClient } from '../src/database/client.js';
+import {
+  canonicalRequirementId,
+  requirementKey,
+  requirementMappings,
+} from '../src/database/requirement-ids.js';
+import { inverseRelationship } from '../src/database/mapping-perspective.js';
+import { storedRequirements } from '../src/tools/validate-mappings.js';
+import {
+  CurationAction,
+  CurationLogEntry,
+  MappingSuggestionRow,
+  MappingType,
+  PendingMapping,
+  PendingMappingStatus,
+} from '../src/types/index.js';
+import {
+  CrossMappingsIngester,
+  IEC_NIST_MAPPING_FILE,
+  IecNistJson,
+  IecNistMapping,
+  MITRE_MAPPING_CONFIDENCE,
+  MITRE_NIST_MAPPING_FILE,
+  MitreMitigationMapping,
+  MitreNistJson,
+} from './ingest-cross-mappings.js';
+import { readFileSync, writeFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+
+/** Mapping types a curator can propose ('supersedes' comes from the NIST catalog) */
+const PROPOSABLE_MAPPING_TYPES: readonly MappingType[] = [
+  'exact_match',
+  'broader',
+  'narrower',
+  'partial',
+  'related',
+];
+
+/** Statuses accepted by --status */
+const PENDING_MAPPING_STATUSES: readonly PendingMappingStatus[] = [
+  'pending',
+  'accepted',
+  'rejected',
+];
+
+/** Mapping type every MITRE-NIST linkage is ingested with */
+const MITRE_MAPPING_TYPE: MappingType = 'related';
+
+/**
+ * A mapping proposed for curation
+ */
+export interface MappingProposal {
+  source_standard: string;
+  source_requirement: string;
+  target_standard: string;
+  target_requirement: string;
+  mapping_type: MappingType;
+  confidence?: number | null;
+  notes?: string | null;
+  source_document?: string | null;
+  source_version?: string | null;
+}
+
+/**
+ * Fields of a pending mapping a curator can change while it is pending
+ */
+export type MappingAnnotation = Partial<
+  Pick<
+    MappingProposal,
+    'mapping_type' | 'confidence' | 'notes' | 'source_document' | 'source_version'
+  >
+>;
+
+/** Fields annotate() may change, and so the only pending_mappings columns it updates */
+const ANNOTATION_FIELDS: ReadonlyArray<keyof MappingAnnotation> = [
+  'mapping_type',
+  'confidence',
+  'notes',
+  'source_document',
+  'source_version',
+];
+
+/**
+ * Mapping files accepted mappings are exported to, relative to the working directory
+ */
+export interface MappingFiles {
+  iecNist: string;
+  mitreNist: string;
+}
+
+/**
+ * Result of exporting the accepted mappings
+ */
+export interface MappingExport {
+  /** Entries added to or updated in the IEC-NIST mapping file */
+  iec_nist: number;
+  /** Entries added to the MITRE-NIST linkage file */
+  mitre_nist: number;
+  /** Accepted mappings neither file format can hold */
+  skipped: PendingMapping[];
+}
+
+/**
+ * Standards, requirements and type of a mapping
+ */
+type MappingEnds = Pick<
+  MappingProposal,
+  | 'source_standard'
+  | 'source_requirement'
+  | 'target_standard'
+  | 'target_requirement'
+  | 'mapping_type'
+>;
+
+/**
+ * Mapping turned around when written from NIST 800-53, so that it reads from
+ * the IEC 62443 or MITRE side as the mapping files do
+ */
+function orientToNist<T extends MappingEnds>(mapping: T): T {
+  return mapping.source_standard === 'nist-800-53'
+    ? {
+        ...mapping,
+        source_standard: mapping.target_standard,
+        source_requirement: mapping.target_requirement,
+        target_standard: mapping.source_standard,
+        target_requirement: mapping.source_requirement,
+        // Curators cannot propose 'supersedes', so the inverse is a mapping type
+        mapping_type: inverseRelationship(mapping.mapping_type) as MappingType,
+      }
+    : mapping;
+}
+
+/**
+ * Mapping file an oriented mapping is exported to, or null if neither file can hold it
+ */
+function exportFile(mapping: MappingEnds): 'iec_nist' | 'mitre_nist' | null {
+  if (mapping.target_standard !== 'nist-800-53') {
+    return null;
+  }
+  if (mapping.source_standard.startsWith('iec62443')) {
+    return 'iec_nist';
+  }
+  if (mapping.source_standard === 'mitre-ics' && mapping.mapping_type === MITRE_MAPPING_TYPE) {
+    return 'mitre_nist';
+  }
+  return null;
+}
+
+/**
+ * Serialize a mapping file the way the files in data/mappings are laid out:
+ * two-space indentation, lists of control IDs on one line
+ */
+function formatMappingFile(data: unknown): string {
+  return (
+    JSON.stringify(data, null, 2).replace(
+      /\[\n\s*("[^"\n]*"(?:,\n\s*"[^"\n]*")*)\n\s*\]/g,
+      (_match, items: string) => `[${items.replace(/,\n\s*/g, ', ')}]`
+    ) + '\n'
+  );
+}
+
+export class MappingCurator {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * Pending mapping by ID
+   */
+  get(id: number): PendingMapping {
+    const mapping = this.db.queryOne<PendingMapping>(
+      `SELECT * FROM pending_mappings WHERE id = ?`,
+      [id]
+    );
+    if (!mapping) {
+      throw new Error(`Pending mapping ${id} not found`);
+    }
+    return mapping;
+  }
+
+  /**
+   * Pending mappings, optionally with one status, oldest first
+   */
+  list(status?: PendingMappingStatus): PendingMapping[] {
+    return status
+      ? this.db.query<PendingMapping>(
+          `SELECT * FROM pending_mappings WHERE status = ? ORDER BY id`,
+          [status]
+        )
+      : this.db.query<PendingMapping>(`SELECT * FROM pending_mappings ORDER BY id`);
+  }
+
+  /**
+   * Audit trail of a pending mapping, oldest first
+   */
+  history(id: number): CurationLogEntry[] {
+    return this.db.query<CurationLogEntry>(
+      `SELECT * FROM mapping_curation_log WHERE pending_mapping_id = ? ORDER BY id`,
+      [id]
+    );
+  }
+
+  /**
+   * Record a curation action in the audit trail
+   */
+  private audit(
+    id: number,
+    action: CurationAction,
+    actor: string,
+    comment?: string,
+    changes?: Record<string, [unknown, unknown]>
+  ): void {
+    this.db.run(
+      `INSERT INTO mapping_curation_log (pending_mapping_id, action, actor, comment, changes)
+       VALUES (?, ?, ?, ?, ?)`,
+      [
+        id,
+        action,
+        actor,
+        comment ?? null,
+        changes && Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
+      ]
+    );
+  }
+
+  /**
+   * Validate the actor of a curation action
+   */
+  private requireActor(actor: string): string {
+    if (!actor || actor.trim() === '') {
+      throw new Error('Every curation action needs an actor (--by)');
+    }
+    return actor.trim();
+  }
+
+  /**
+   * Validate the fields of a proposal or annotation
+   */
+  private validateFields(fields: MappingAnnotation): void {
+    if (
+      fields.mapping_type !== undefined &&
+      !PROPOSABLE_MAPPING_TYPES.includes(fields.mapping_type)
+    ) {
+      throw new Error(`mapping_type must be one of ${PROPOSABLE_MAPPING_TYPES.join(', ')}`);
+    }
+    if (
+      fields.confidence !== undefined &&
+      fields.confidence !== null &&
+      (typeof fields.confidence !== 'number' ||
+        Number.isNaN(fields.confidence) ||
+        fields.confidence < 0 ||
+        fields.confidence > 1)
+    ) {
+      throw new Error('confidence must be between 0 and 1');
+    }
+  }
+
+  /**
+   * Check that a mapping can be exported once accepted: mappings the mapping
+   * files cannot hold, or whose confidence ingestion would replace, would
+   * never reach ot_mappings
+   */
+  private requireExportable(mapping: MappingEnds & { confidence?: number | null }): void {
+    const file = exportFile(orientToNist(mapping));
+    if (!file) {
+      throw new Error(
+        'Only IEC 62443 - NIST 800-53 mappings and MITRE - NIST 800-53 related mappings can be exported to the mapping files'
+      );
+    }
+    if (
+      file === 'mitre_nist' &&
+      mapping.confidence !== undefined &&
+      mapping.confidence !== null &&
+      mapping.confidence !== MITRE_MAPPING_CONFIDENCE
+    ) {
+      throw new Error(
+        `MITRE - NIST 800-53 mappings are ingested with confidence ${MITRE_MAPPING_CONFIDENCE}`
+      );
+    }
+  }
+
+  /**
+   * Propose a mapping for review
+   *
+   * Only mappings exportAccepted() can write to a mapping file are accepted,
+   * and MITRE linkages only with the confidence ingestion gives them.
+   * Requirement IDs are stored in canonical form, or as stored for the
+   * standard. A requirement a loaded standard does not have cannot be
+   * proposed; standards with no requirements loaded (IEC 62443 is
+   * user-supplied) are not checked, as in validate_mappings. A mapping curated
+   * mappings already hold cannot be proposed; proposing a rejected mapping
+   * again reopens it with the new values.
+   */
+  propose(
+    proposal: MappingProposal,
+    actor: string,
+    comment?: string,
+    suggestionId: number | null = null
+  ): PendingMapping {
+    const by = this.requireActor(actor);
+    const mapping: MappingProposal = {
+      ...proposal,
+      source_requirement: canonicalRequirementId(
+        proposal.source_standard,
+        proposal.source_requirement
+      ),
+      target_requirement: canonicalRequirementId(
+        proposal.target_standard,
+        proposal.target_requirement
+      ),
+    };
+
+    if (
+      !mapping.source_standard ||
+      !mapping.source_requirement ||
+      !mapping.target_standard ||
+      !mapping.target_requirement
+    ) {
+      throw new Error('A proposal needs a source and a target requirement');
+    }
+    if (mapping.source_standard === mapping.target_standard) {
+      throw new Error('Source and target must be in different standards');
+    }
+    this.validateFields(mapping);
+    this.requireExportable(mapping);
+
+    for (const side of ['source', 'target'] as const) {
+      const standard = mapping[`${side}_standard`];
+      const requirementId = mapping[`${side}_requirement`];
+      const stored = storedRequirements(this.db, standard);
+      if (stored && !stored.ids.has(requirementId)) {
+        const storedId = stored.byKey.get(requirementKey(requirementId));
+        if (!storedId) {
+          throw new Error(`${standard} has no requirement "${requirementId}"`);
+        }
+        mapping[`${side}_requirement`] = storedId;
+      }
+    }
+
+    const targetKey = requirementKey(mapping.target_requirement);
+    const curated = requirementMappings(
+      this.db,
+      mapping.source_standard,
+      mapping.source_requirement
+    ).some(
+      (m) =>
+        (m.target_standard === mapping.target_standard &&
+          requirementKey(m.target_requirement) === targetKey) ||
+        (m.source_standard === mapping.target_standard &&
+          requirementKey(m.source_requirement) === targetKey)
+    );
+    if (curated) {
+      throw new Error(
+        `${mapping.source_standard} ${mapping.source_requirement} is already mapped to ${mapping.target_standard} ${mapping.target_requirement}`
+      );
+    }
+
+    const values = [
+      mapping.mapping_type,
+      mapping.confidence ?? null,
+      mapping.notes ?? null,
+      mapping.source_document ?? null,
+      mapping.source_version ?? null,
+      suggestionId,
+      by,
+    ];
+
+    return this.db.transaction(() => {
+      const existing = this.db.queryOne<PendingMapping>(
+        `SELECT * FROM pending_mappings
+         WHERE source_standard = ? AND source_requirement = ? AND target_standard = ? AND target_requirement = ?`,
+        [
+          mapping.source_standard,
+          mapping.source_requirement,
+          mapping.target_standard,
+          mapping.target_requirement,
+        ]
+      );
+
+      let id: number;
+      if (existing) {
+        if (existing.status !== 'rejected') {
+          throw new Error(
+            `Mapping already proposed as pending mapping ${existing.id} (${existing.status})`
+          );
+        }
+        this.db.run(
+          `UPDATE pending_mappings SET
+             mapping_type = ?, confidence = ?, notes = ?, source_document = ?, source_version = ?,
+             suggestion_id = ?, proposed_by = ?, proposed_date = datetime('now'),
+             status = 'pending', decided_by = NULL, decided_date = NULL
+           WHERE id = ?`,
+          [...values, existing.id]
+        );
+        id = existing.id;
+      } else {
+        id = Number(
+          this.db.run(
+            `INSERT INTO pending_mappings (
+               source_standard, source_requirement, target_standard, target_requirement,
+               mapping_type, confidence, notes, source_document, source_version,
+               suggestion_id, proposed_by
+             ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            [
+              mapping.source_standard,
+              mapping.source_requirement,
+              mapping.target_standard,
+              mapping.target_requirement,
+              ...values,
+            ]
+          ).lastInsertRowid
+        );
+      }
+
+      this.audit(id, 'propose', by, comment);
+      return this.get(id);
+    });
+  }
+
+  /**
+   * Propose the mapping a stored suggestion (see suggest_mappings) stands for
+   */
+  proposeSuggestion(
+    suggestionId: number,
+    actor: string,
+    fields: MappingAnnotation = {},
+    comment?: string
+  ): PendingMapping {
+    const suggestion = this.db.queryOne<MappingSuggestionRow>(
+      `SELECT * FROM mapping_suggestions WHERE id = ?`,
+      [suggestionId]
+    );
+    if (!suggestion) {
+      throw new Error(`Mapping suggestion ${suggestionId} not found`);
+    }
+    if (suggestion.status !== 'pending') {
+      throw new Error(`Mapping suggestion ${suggestionId} is already ${suggestion.status}`);
+    }
+
+    return this.propose(
+      {
+        source_standard: suggestion.source_standard,
+        source_requirement: suggestion.source_requirement,
+        target_standard: suggestion.target_standard,
+        target_requirement: suggestion.target_requirement,
+        mapping_type: 'related',
+        ...fields,
+      },
+      actor,
+      comment ?? `From suggestion ${suggestionId} (score ${suggestion.score})`,
+      suggestionId
+    );
+  }
+
+  /**
+   * Accept or reject a pending mapping, passing the decision on to the
+   * suggestion it was proposed from
+   */
+  private decide(
+    id: number,
+    status: Exclude<PendingMappingStatus, 'pending'>,
+    actor: string,
+    comment?: string
+  ): PendingMapping {
+    const by = this.requireActor(actor);
+    return this.db.transaction(() => {
+      const mapping = this.get(id);
+      if (mapping.status !== 'pending') {
+        throw new Error(`Pending mapping ${id} is already ${mapping.status}`);
+      }
+      if (status === 'accepted') {
+        this.requireExportable(mapping);
+      }
+
+      this.db.run(
+        `UPDATE pending_mappings SET status = ?, decided_by = ?, decided_date = datetime('now')
+         WHERE id = ?`,
+        [status, by, id]
+      );
+      if (mapping.suggestion_id !== null) {
+        this.db.run(`UPDATE mapping_suggestions SET status = ? WHERE id = ?`, [
+          status,
+          mapping.suggestion_id,
+        ]);
+      }
+
+      this.audit(id, status === 'accepted' ? 'accept' : 'reject', by, comment);
+      return this.get(id);
+    });
+  }
+
+  /**
+   * Accept a pending mapping; it reaches ot_mappings once exported and ingested
+   */
+  accept(id: number, actor: string, comment?: string): PendingMapping {
+    return this.decide(id, 'accepted', actor, comment);
+  }
+
+  /**
+   * Reject a pending mapping
+   */
+  reject(id: number, actor: string, comment?: string): PendingMapping {
+    return this.decide(id, 'rejected', actor, comment);
+  }
+
+  /**
+   * Comment on a pending mapping and, while it is pending, change its fields
+   */
+  annotate(
+    id: number,
+    actor: string,
+    fields: MappingAnnotation = {},
+    comment?: string
+  ): PendingMapping {
+    const by = this.requireActor(actor);
+    const unknown = Object.keys(fields).filter(
+      (field) => !(ANNOTATION_FIELDS as readonly string[]).includes(field)
+    );
+    if (unknown.length > 0) {
+      throw new Error(
+        `Cannot annotate ${unknown.join(', ')}; fields are ${ANNOTATION_FIELDS.join(', ')}`
+      );
+    }
+    this.validateFields(fields);
+
+    return this.db.transaction(() => {
+      const mapping = this.get(id);
+      const changes: Partial<Record<keyof MappingAnnotation, [unknown, unknown]>> = {};
+      for (const field of ANNOTATION_FIELDS) {
+        const value = fields[field];
+        if (value !== undefined && value !== mapping[field]) {
+          changes[field] = [mapping[field], value];
+        }
+      }
+
+      if (Object.keys(changes).length === 0 && !comment) {
+        throw new Error('An annotation needs a comment or a changed field');
+      }
+      if (Object.keys(changes).length > 0) {
+        if (mapping.status !== 'pending') {
+          throw new Error(`Pending mapping ${id} is ${mapping.status}; only comments can be added`);
+        }
+        this.requireExportable({
+          ...mapping,
+          mapping_type: fields.mapping_type ?? mapping.mapping_type,
+          confidence: fields.confidence !== undefined ? fields.confidence : mapping.confidence,
+        });
+        const columns = ANNOTATION_FIELDS.filter((field) => changes[field] !== undefined);
+        this.db.run(
+          `UPDATE pending_mappings SET ${columns.map((column) => `${column} = ?`).join(', ')}
+           WHERE id = ?`,
+          [...columns.map((column) => changes[column]?.[1] ?? null), id]
+        );
+      }
+
+      this.audit(id, 'annotate', by, comment, changes);
+      return this.get(id);
+    });
+  }
+
+  /**
+   * Review fields recorded in the mapping files for an accepted mapping
+   */
+  private reviewFields(mapping: PendingMapping) {
+    return {
+      ...(mapping.source_document ? { source_document: mapping.source_document } : {}),
+      ...(mapping.source_version ? { source_version: mapping.source_version } : {}),
+      review_status: 'reviewed' as const,
+      reviewed_by: mapping.decided_by ?? mapping.proposed_by,
+      reviewed_date: (mapping.decided_date ?? mapping.proposed_date).slice(0, 10),
+    };
+  }
+
+  /**
+   * Write the accepted mappings into the mapping files CrossMappingsIngester
+   * reads, so they can be committed and ingested with npm run ingest:mappings
+   *
+   * IEC 62443 - NIST 800-53 mappings go to the IEC-NIST file, replacing an
+   * entry for the same pair; MITRE mitigation - NIST 800-53 mappings are added
+   * to the MITRE-NIST file as linkages of their own. Mappings written from
+   * NIST 800-53 are turned around. Other pairs, and MITRE linkages other than
+   * 'related', have no place in either file: they cannot be proposed or
+   * accepted, and mappings accepted before that check are skipped.
+   */
+  exportAccepted(
+    files: MappingFiles = { iecNist: IEC_NIST_MAPPING_FILE, mitreNist: MITRE_NIST_MAPPING_FILE }
+  ): MappingExport {
+    const iecNist: IecNistJson = JSON.parse(readFileSync(resolve(files.iecNist), 'utf-8'));
+    const mitreNist: MitreNistJson = JSON.parse(readFileSync(resolve(files.mitreNist), 'utf-8'));
+    const result: MappingExport = { iec_nist: 0, mitre_nist: 0, skipped: [] };
+
+    for (const accepted of this.list('accepted')) {
+      const mapping = orientToNist(accepted);
+      const file = exportFile(mapping);
+
+      if (file === 'iec_nist') {
+        const entry: IecNistMapping = {
+          source_standard: mapping.source_standard,
+          source_requirement: mapping.source_requirement,
+          target_standard: mapping.target_standard,
+          target_requirement: mapping.target_requirement,
+          mapping_type: mapping.mapping_type,
+          ...(mapping.confidence === null ? {} : { confidence: mapping.confidence }),
+          notes: mapping.notes ?? '',
+          ...this.reviewFields(mapping),
+        };
+        const index = iecNist.mappings.findIndex(
+          (existing) =>
+            existing.source_standard === entry.source_standard &&
+            existing.target_standard === entry.target_standard &&
+            canonicalRequirementId(existing.source_standard, existing.source_requirement) ===
+              entry.source_requirement &&
+            canonicalRequirementId(existing.target_standard, existing.target_requirement) ===
+              entry.target_requirement
+        );
+        if (index >= 0) {
+          iecNist.mappings[index] = entry;
+        } else {
+          iecNist.mappings.push(entry);
+        }
+        result.iec_nist++;
+      } else if (file === 'mitre_nist') {
+        const listed = mitreNist.mitigation_mappings.some(
+          (existing) =>
+            existing.mitigation_id === mapping.source_requirement &&
+            existing.nist_controls.some(
+              (control) =>
+                canonicalRequirementId('nist-800-53', control) === mapping.target_requirement
+            )
+        );
+        if (!listed) {
+          const entry: MitreMitigationMapping = {
+            mitigation_id: mapping.source_requirement,
+            nist_controls: [mapping.target_requirement],
+            notes: mapping.notes ?? '',
+            ...this.reviewFields(mapping),
+          };
+          mitreNist.mitigation_mappings.push(entry);
+          result.mitre_nist++;
+        }
+      } else {
+        result.skipped.push(accepted);
+      }
+    }
+
+    // Only write files the ingester will accept
+    const ingester = new CrossMappingsIngester(this.db);
+    ingester.validateIecNistStructure(iecNist);
+    ingester.validateMitreNistStructure(mitreNist);
+    if (result.iec_nist > 0) {
+      writeFileSync(resolve(files.iecNist), formatMappingFile(iecNist));
+    }
+    if (result.mitre_nist > 0) {
+      writeFileSync(resolve(files.mitreNist), formatMappingFile(mitreNist));
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Pending mapping or suggestion ID given on the command line, or null if it
+ * is not a positive integer
+ */
+function parseId(value: string | undefined): number | null {
+  return value !== undefined && /^[1-9]\d*$/.test(value.trim()) ? Number(value) : null;
+}
+
+/**
+ * One line describing a pending mapping
+ */
+function describeMapping(mapping: PendingMapping): string {
+  return (
+    `#${mapping.id} [${mapping.status}] ${mapping.source_standard} ${mapping.source_requirement}` +
+    ` -> ${mapping.target_standard} ${mapping.target_requirement} (${mapping.mapping_type}` +
+    `${mapping.confidence === null ? '' : `, ${mapping.confidence}`}) proposed by ${mapping.proposed_by}` +
+    (mapping.decided_by ? `, ${mapping.status} by ${mapping.decided_by}` : '')
+  );
+}
+
+const USAGE = `Usage: npm run curate:mappings -- <command> [options]
+
+Commands:
+  propose --source-standard <id> --source <requirement> --target-standard <id> --target <requirement>
+          --type <mapping type> [--confidence <0-1>] [--notes <text>]
+          [--source-document <text>] [--source-version <text>] --by <name> [--comment <text>]
+  propose --suggestion <id> [--type <mapping type>] [--confidence <0-1>] [--notes <text>] --by <name>
+  accept <id> --by <name> [--comment <text>]
+  reject <id> --by <name> [--comment <text>]
+  annotate <id> --by <name> [--comment <text>] [--type ...] [--confidence ...] [--notes ...]
+  list [--status pending|accepted|rejected]
+  history <id>
+  export`;
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'source-standard': { type: 'string' },
+      source: { type: 'string' },
+      'target-standard': { type: 'string' },
+      target: { type: 'string' },
+      type: { type: 'string' },
+      confidence: { type: 'string' },
+      notes: { type: 'string' },
+      'source-document': { type: 'string' },
+      'source-version': { type: 'string' },
+      suggestion: { type: 'string' },
+      status: { type: 'string' },
+      by: { type: 'string' },
+      comment: { type: 'string' },
+    },
+  });
+  const [command, idArgument] = positionals;
+
+  const usageError = (message: string): never => {
+    console.error(`Error: ${message}\n\n${USAGE}`);
+    process.exit(1);
+  };
+  // Commands that act on a pending mapping; the others never read id
+  const id = ['accept', 'reject', 'annotate', 'history'].includes(command ?? '')
+    ? (parseId(idArgument) ??
+      usageError(
+        `${command} needs a pending mapping ID (a positive integer), not "${idArgument ?? ''}"`
+      ))
+    : 0;
+  const suggestionId =
+    values.suggestion === undefined
+      ? undefined
+      : (parseId(values.suggestion) ??
+        usageError(`--suggestion must be a positive integer, not "${values.suggestion}"`));
+  const status =
+    values.status === undefined ||
+    PENDING_MAPPING_STATUSES.includes(values.status as PendingMappingStatus)
+      ? (values.status as PendingMappingStatus | undefined)
+      : usageError(`--status must be one of ${PENDING_MAPPING_STATUSES.join(', ')}`);
+
+  const dbPath = process.env.OT_MCP_DB_PATH || 'data/ot-security.db';
+  const db = new DatabaseClient(dbPath);
+  const curator = new MappingCurator(db);
+
+  const by = values.by ?? '';
+  const fields: MappingAnnotation = {
+    ...(values.type !== undefined ? { mapping_type: values.type as MappingType } : {}),
+    ...(values.confidence !== undefined ? { confidence: Number(values.confidence) } : {}),
+    ...(values.notes !== undefined ? { notes: values.notes } : {}),
+    ...(values['source-document'] !== undefined
+      ? { source_document: values['source-document'] }
+      : {}),
+    ...(values['source-version'] !== undefined ? { source_version: values['source-version'] } : {}),
+  };
+
+  try {
+    switch (command) {
+      case 'propose':
+        console.log(
+          describeMapping(
+            suggestionId !== undefined
+              ? curator.proposeSuggestion(suggestionId, by, fields, values.comment)
+              : curator.propose(
+                  {
+                    source_standard: values['source-standard'] ?? '',
+                    source_requirement: values.source ?? '',
+                    target_standard: values['target-standard'] ?? '',
+                    target_requirement: values.target ?? '',
+                    mapping_type: fields.mapping_type ?? 'related',
+                    ...fields,
+                  },
+                  by,
+                  values.comment
+                )
+          )
+        );
+        break;
+      case 'accept':
+        console.log(describeMapping(curator.accept(id, by, values.comment)));
+        break;
+      case 'reject':
+        console.log(describeMapping(curator.reject(id, by, values.comment)));
+        break;
+      case 'annotate':
+        console.log(describeMapping(curator.annotate(id, by, fields, values.comment)));
+        break;
+      case 'list':
+        for (const mapping of curator.list(status)) {
+          console.log(describeMapping(mapping));
+        }
+        break;
+      case 'history':
+        console.log(describeMapping(curator.get(id)));
+        for (const entry of curator.history(id)) {
+          console.log(
+            `  ${entry.created_date} ${entry.action} by ${entry.actor}` +
+              (entry.comment ? `: ${entry.comment}` : '') +
+              (entry.changes ? ` ${entry.changes}` : '')
+          );
+        }
+        break;
+      case 'export': {
+        const result = curator.exportAccepted();
+        console.log(`IEC-NIST mappings written: ${result.iec_nist}`);
+        console.log(`MITRE-NIST linkages written: ${result.mitre_nist}`);
+        for (const mapping of result.skipped) {
+          console.log(
+            `Skipped (no mapping file for this pair or type): ${describeMapping(mapping)}`
+          );
+        }
+        console.log('Commit the mapping files and run npm run ingest:mappings');
+        break;
+      }
+      default:
+        console.error(USAGE);
+        db.close();
+        process.exit(1);
+    }
+    db.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Error:', error instanceof Error ? error.message : error);
+    db.close();
+    process.exit(1);
+  }
+}
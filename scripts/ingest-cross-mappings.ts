@@ -1,9 +1,34 @@
 #!/usr/bin/env node
 
 import { DatabaseClient } from '../src/database/client.js';
+import { canonicalRequirementId } from '../src/database/requirement-ids.js';
+import {
+  MAPPING_REVIEW_STATUSES,
+  registerMappingSource,
+} from '../src/database/mapping-provenance.js';
+import { MappingReviewStatus } from '../src/types/index.js';
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
 
+/** Mapping files, relative to the repository root */
+export const IEC_NIST_MAPPING_FILE = 'data/mappings/iec62443-nist80053-mappings.json';
+export const MITRE_NIST_MAPPING_FILE = 'data/mappings/mitre-nist80053-linkages.json';
+
+/** Confidence every MITRE-NIST linkage is ingested with (the linkage file has none) */
+export const MITRE_MAPPING_CONFIDENCE = 0.8;
+
+// --- Provenance and review fields of a mapping entry ---
+
+interface MappingReview {
+  /** Document the mapping was taken from (e.g., "IEC 62443-3-3:2013 Annex A") */
+  source_document?: string;
+  source_version?: string;
+  /** Review status (default: draft) */
+  review_status?: MappingReviewStatus;
+  reviewed_by?: string;
+  reviewed_date?: string;
+}
+
 // --- IEC 62443 <-> NIST 800-53 types ---
 
 interface IecNistMeta {
@@ -16,17 +41,17 @@ interface IecNistMeta {
   notes?: string;
 }
 
-interface IecNistMapping {
+export interface IecNistMapping extends MappingReview {
   source_standard: string;
   source_requirement: string;
   target_standard: string;
   target_requirement: string;
   mapping_type: string;
-  confidence: number;
+  confidence?: number;
   notes: string;
 }
 
-interface IecNistJson {
+export interface IecNistJson {
   meta: IecNistMeta;
   mappings: IecNistMapping[];
 }
@@ -42,13 +67,13 @@ interface MitreNistMeta {
   confidence_basis: string;
 }
 
-interface MitreMitigationMapping {
+export interface MitreMitigationMapping extends MappingReview {
   mitigation_id: string;
   nist_controls: string[];
   notes: string;
 }
 
-interface MitreNistJson {
+export interface MitreNistJson {
   meta: MitreNistMeta;
   mitigation_mappings: MitreMitigationMapping[];
 }
@@ -56,6 +81,51 @@ interface MitreNistJson {
 export class CrossMappingsIngester {
   constructor(private db: DatabaseClient) {}
 
+  /**
+   * Validate the provenance and review fields of a mapping entry
+   */
+  private validateReview(entry: any, label: string): void {
+    if (
+      entry.review_status !== undefined &&
+      !MAPPING_REVIEW_STATUSES.includes(entry.review_status)
+    ) {
+      throw new Error(
+        `Invalid mapping entry for ${label}: review_status must be one of ${MAPPING_REVIEW_STATUSES.join(', ')}`
+      );
+    }
+
+    for (const field of [
+      'source_document',
+      'source_version',
+      'reviewed_by',
+      'reviewed_date',
+    ] as const) {
+      if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+        throw new Error(`Invalid mapping entry for ${label}: ${field} must be a string`);
+      }
+    }
+
+    if (entry.review_status === 'reviewed' && (!entry.reviewed_by || !entry.reviewed_date)) {
+      throw new Error(
+        `Invalid mapping entry for ${label}: reviewed mappings need reviewed_by and reviewed_date`
+      );
+    }
+  }
+
+  /**
+   * Provenance columns of a mapping entry, in ot_mappings column order
+   */
+  private reviewValues(sourceId: number, entry: MappingReview): Array<string | number | null> {
+    return [
+      sourceId,
+      entry.source_document ?? null,
+      entry.source_version ?? null,
+      entry.review_status ?? 'draft',
+      entry.reviewed_by ?? null,
+      entry.reviewed_date ?? null,
+    ];
+  }
+
   /**
    * Validate IEC-NIST mapping JSON structure
    */
@@ -89,6 +159,8 @@ export class CrossMappingsIngester {
           `Invalid mapping entry for ${mapping.source_requirement}: confidence must be between 0 and 1`
         );
       }
+
+      this.validateReview(mapping, mapping.source_requirement);
     }
   }
 
@@ -116,13 +188,16 @@ export class CrossMappingsIngester {
           `Invalid mitigation mapping for ${mapping.mitigation_id}: nist_controls must have at least one entry`
         );
       }
+
+      this.validateReview(mapping, mapping.mitigation_id);
     }
   }
 
   /**
-   * Ingest IEC 62443 <-> NIST 800-53 mappings
+   * Ingest IEC 62443 <-> NIST 800-53 mappings, recording the mapping file
+   * and each mapping's provenance and review status
    */
-  ingestIecNistMappings(data: IecNistJson): number {
+  ingestIecNistMappings(data: IecNistJson, mappingFile = IEC_NIST_MAPPING_FILE): number {
     console.log(`Ingesting ${data.mappings.length} IEC-NIST mappings...`);
 
     // Clean up existing IEC-sourced mappings for idempotent re-runs
@@ -133,6 +208,8 @@ export class CrossMappingsIngester {
       console.log(`  Cleaned ${deleted.changes} existing IEC-NIST mappings`);
     }
 
+    const sourceId = registerMappingSource(this.db, mappingFile, data.meta);
+
     let inserted = 0;
     for (const mapping of data.mappings) {
       this.db.run(
@@ -145,17 +222,24 @@ export class CrossMappingsIngester {
           mapping_type,
           confidence,
           notes,
-          created_date
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+          created_date,
+          mapping_source_id,
+          source_document,
+          source_version,
+          review_status,
+          reviewed_by,
+          reviewed_date
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), ?, ?, ?, ?, ?, ?)
       `,
         [
           mapping.source_standard,
-          mapping.source_requirement,
+          canonicalRequirementId(mapping.source_standard, mapping.source_requirement),
           mapping.target_standard,
-          mapping.target_requirement,
+          canonicalRequirementId(mapping.target_standard, mapping.target_requirement),
           mapping.mapping_type,
-          mapping.confidence,
+          mapping.confidence ?? null,
           mapping.notes,
+          ...this.reviewValues(sourceId, mapping),
         ]
       );
       inserted++;
@@ -170,7 +254,10 @@ export class CrossMappingsIngester {
    * 1. Insert into ot_mappings (source: mitre-ics, target: nist-800-53)
    * 2. Update mitre_technique_mitigations.ot_requirement_id with primary NIST control
    */
-  ingestMitreMappings(data: MitreNistJson): { mappings: number; linkages: number } {
+  ingestMitreMappings(
+    data: MitreNistJson,
+    mappingFile = MITRE_NIST_MAPPING_FILE
+  ): { mappings: number; linkages: number } {
     console.log(`Ingesting ${data.mitigation_mappings.length} MITRE-NIST mitigation mappings...`);
 
     // Clean up existing MITRE-sourced mappings for idempotent re-runs
@@ -186,6 +273,8 @@ export class CrossMappingsIngester {
       `UPDATE mitre_technique_mitigations SET ot_requirement_id = NULL WHERE ot_requirement_id IS NOT NULL`
     );
 
+    const sourceId = registerMappingSource(this.db, mappingFile, data.meta);
+
     let mappingsInserted = 0;
     let linkagesUpdated = 0;
 
@@ -202,24 +291,32 @@ export class CrossMappingsIngester {
             mapping_type,
             confidence,
             notes,
-            created_date
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+            created_date,
+            mapping_source_id,
+            source_document,
+            source_version,
+            review_status,
+            reviewed_by,
+            reviewed_date
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), ?, ?, ?, ?, ?, ?)
         `,
           [
             'mitre-ics',
             mapping.mitigation_id,
             'nist-800-53',
-            nistControl,
+            canonicalRequirementId('nist-800-53', nistControl),
             'related',
-            0.8,
+            MITRE_MAPPING_CONFIDENCE,
             mapping.notes,
+            ...this.reviewValues(sourceId, mapping),
           ]
         );
         mappingsInserted++;
       }
 
       // Update the junction table with the primary NIST control (first in list)
-      const primaryControl = mapping.nist_controls[0];
+      const firstControl = mapping.nist_controls[0];
+      const primaryControl = firstControl && canonicalRequirementId('nist-800-53', firstControl);
       const result = this.db.run(
         `
         UPDATE mitre_technique_mitigations
@@ -245,7 +342,7 @@ export class CrossMappingsIngester {
 
     try {
       // --- IEC 62443 <-> NIST 800-53 ---
-      const iecNistPath = resolve('data/mappings/iec62443-nist80053-mappings.json');
+      const iecNistPath = resolve(IEC_NIST_MAPPING_FILE);
       console.log(`Loading IEC-NIST mappings from: ${iecNistPath}`);
 
       const iecNistContent = readFileSync(iecNistPath, 'utf-8');
@@ -260,7 +357,7 @@ export class CrossMappingsIngester {
       });
 
       // --- MITRE <-> NIST 800-53 ---
-      const mitreNistPath = resolve('data/mappings/mitre-nist80053-linkages.json');
+      const mitreNistPath = resolve(MITRE_NIST_MAPPING_FILE);
       console.log(`\nLoading MITRE-NIST linkages from: ${mitreNistPath}`);
 
       const mitreNistContent = readFileSync(mitreNistPath, 'utf-8');
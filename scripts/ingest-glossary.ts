@@ -0,0 +1,194 @@
+#!/usr/bin/env node
+
+import { DatabaseClient } from '../src/database/client.js';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+// --- Glossary JSON types ---
+
+interface GlossaryMeta {
+  title: string;
+  description: string;
+  version: string;
+  created_date: string;
+  sources: string[];
+  notes?: string;
+}
+
+interface GlossaryJsonEntry {
+  term: string;
+  term_type: 'acronym' | 'synonym';
+  category?: string;
+  definition?: string;
+  expansions: string[];
+}
+
+interface GlossaryJson {
+  meta: GlossaryMeta;
+  entries: GlossaryJsonEntry[];
+}
+
+const VALID_TERM_TYPES = ['acronym', 'synonym'];
+
+export class GlossaryIngester {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * Validate glossary JSON structure
+   */
+  validateStructure(data: any): void {
+    if (!data.meta || typeof data.meta.title !== 'string') {
+      throw new Error('Invalid glossary JSON: missing or invalid meta.title');
+    }
+
+    if (typeof data.meta.version !== 'string' || data.meta.version.trim() === '') {
+      throw new Error('Invalid glossary JSON: missing or invalid meta.version');
+    }
+
+    if (!Array.isArray(data.entries)) {
+      throw new Error('Invalid glossary JSON: entries must be an array');
+    }
+
+    const seen = new Set<string>();
+    for (const entry of data.entries) {
+      if (!entry.term || !entry.term_type || !Array.isArray(entry.expansions)) {
+        throw new Error(
+          'Invalid glossary entry: missing required fields (term, term_type, expansions)'
+        );
+      }
+
+      if (!VALID_TERM_TYPES.includes(entry.term_type)) {
+        throw new Error(
+          `Invalid glossary entry for ${entry.term}: term_type must be one of ${VALID_TERM_TYPES.join(', ')}`
+        );
+      }
+
+      if (entry.expansions.length === 0) {
+        throw new Error(
+          `Invalid glossary entry for ${entry.term}: expansions must have at least one entry`
+        );
+      }
+
+      const key = String(entry.term).toLowerCase();
+      if (seen.has(key)) {
+        throw new Error(`Invalid glossary JSON: duplicate term ${entry.term}`);
+      }
+      seen.add(key);
+    }
+  }
+
+  /**
+   * Replace the glossary tables with the given entries and record the version
+   */
+  ingestEntries(data: GlossaryJson): { terms: number; expansions: number } {
+    console.log(`Ingesting ${data.entries.length} glossary entries...`);
+
+    // Full replace for idempotent re-runs (expansions cascade)
+    this.db.run(`DELETE FROM ot_glossary`);
+
+    let terms = 0;
+    let expansions = 0;
+    for (const entry of data.entries) {
+      const result = this.db.run(
+        `INSERT INTO ot_glossary (term, term_type, category, definition) VALUES (?, ?, ?, ?)`,
+        [entry.term, entry.term_type, entry.category ?? null, entry.definition ?? null]
+      );
+      terms++;
+
+      for (const expansion of entry.expansions) {
+        const inserted = this.db.run(
+          `INSERT OR IGNORE INTO ot_glossary_expansions (glossary_id, expansion) VALUES (?, ?)`,
+          [result.lastInsertRowid, expansion]
+        );
+        expansions += inserted.changes;
+      }
+    }
+
+    this.db.run(
+      `INSERT OR REPLACE INTO db_metadata (key, value, updated_at)
+       VALUES ('glossary_version', ?, datetime('now'))`,
+      [data.meta.version]
+    );
+
+    console.log(`Ingested ${terms} glossary terms with ${expansions} expansions`);
+    return { terms, expansions };
+  }
+
+  /**
+   * Load and ingest the OT glossary
+   */
+  async ingestAll(path: string = 'data/glossary/ot-glossary.json'): Promise<void> {
+    console.log('Starting glossary ingestion...\n');
+    const startTime = Date.now();
+
+    try {
+      const glossaryPath = resolve(path);
+      console.log(`Loading glossary from: ${glossaryPath}`);
+
+      const data: GlossaryJson = JSON.parse(readFileSync(glossaryPath, 'utf-8'));
+      this.validateStructure(data);
+      console.log(`Validated glossary JSON: ${data.meta.title} (v${data.meta.version})`);
+
+      let result = { terms: 0, expansions: 0 };
+      this.db.transaction(() => {
+        result = this.ingestEntries(data);
+      });
+
+      const duration = Date.now() - startTime;
+      this.db.run(
+        `
+        INSERT INTO ingestion_log (operation, status, record_count, duration_ms, notes, data_version)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `,
+        [
+          'ingest:glossary',
+          'success',
+          result.terms,
+          duration,
+          `Terms: ${result.terms}, Expansions: ${result.expansions}`,
+          data.meta.version,
+        ]
+      );
+
+      console.log('\n=== Ingestion Complete ===');
+      console.log(`Glossary terms: ${result.terms}`);
+      console.log(`Expansions: ${result.expansions}`);
+      console.log(`Version: ${data.meta.version}`);
+      console.log(`Duration: ${duration}ms`);
+      console.log('==========================\n');
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.db.run(
+        `
+        INSERT INTO ingestion_log (operation, status, record_count, duration_ms, notes)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+        ['ingest:glossary', 'failed', 0, duration, String(error)]
+      );
+
+      console.error('\n=== Ingestion Failed ===');
+      console.error('Error:', error);
+      throw error;
+    }
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const dbPath = process.env.OT_MCP_DB_PATH || 'data/ot-security.db';
+  const db = new DatabaseClient(dbPath);
+
+  const ingester = new GlossaryIngester(db);
+
+  ingester
+    .ingestAll()
+    .then(() => {
+      db.close();
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      db.close();
+      process.exit(1);
+    });
+}
@@ -1,6 +1,7 @@
 #!/usr/bin/env node
 
 import { DatabaseClient } from '../src/database/client.js';
+import { canonicalRequirementId } from '../src/database/requirement-ids.js';
 import { Iec62443Validator } from './validate-iec62443.js';
 import { readFileSync } from 'fs';
 
@@ -257,8 +258,8 @@ export class Iec62443Ingester {
     `,
       [
         standardId,
-        req.requirement_id,
-        req.parent_requirement_id,
+        canonicalRequirementId(standardId, req.requirement_id),
+        req.parent_requirement_id && canonicalRequirementId(standardId, req.parent_requirement_id),
         req.title,
         req.description,
         req.rationale,
@@ -1,20 +1,48 @@
 #!/usr/bin/env tsx
 /**
- * NIST 800-53 Rev 5 OSCAL Ingestion Script
+ * NIST 800-53 OSCAL Ingestion Script
  *
- * Fetches and ingests NIST 800-53 Rev 5 security controls from the official OSCAL catalog.
+ * Fetches and ingests NIST 800-53 security controls from the official OSCAL catalog.
  * Data is sourced from: https://github.com/usnistgov/oscal-content
  *
  * OSCAL Format:
  * - catalog → groups (control families) → controls
  * - Filters to 15 OT-relevant control families (~260 controls)
- * - Populates ot_requirements table
+ * - Populates ot_requirements table, one row per control and revision
+ * - Withdrawn controls are kept with status 'withdrawn'; the controls they were
+ *   incorporated into (or moved to) become 'supersedes' mappings
+ *
+ * Usage: npm run ingest:nist-80053 [-- "Rev 4"]   (default: Rev 5)
  */
 
 import { DatabaseClient } from '../src/database/client.js';
+import { registerStandardVersion } from '../src/database/versions.js';
+import { canonicalRequirementId } from '../src/database/requirement-ids.js';
 
-const NIST_OSCAL_URL =
-  'https://raw.githubusercontent.com/usnistgov/oscal-content/main/nist.gov/SP800-53/rev5/json/NIST_SP-800-53_rev5_catalog.json';
+/**
+ * Published revisions of NIST 800-53 and their OSCAL catalogs
+ */
+const NIST_80053_RELEASES = {
+  'Rev 5': {
+    catalogUrl:
+      'https://raw.githubusercontent.com/usnistgov/oscal-content/main/nist.gov/SP800-53/rev5/json/NIST_SP-800-53_rev5_catalog.json',
+    status: 'current',
+    published_date: '2020-09-01',
+    url: 'https://csrc.nist.gov/publications/detail/sp/800-53/rev-5/final',
+  },
+  'Rev 4': {
+    catalogUrl:
+      'https://raw.githubusercontent.com/usnistgov/oscal-content/main/nist.gov/SP800-53/rev4/json/NIST_SP-800-53_rev4_catalog.json',
+    status: 'superseded',
+    published_date: '2013-04-30',
+    url: 'https://csrc.nist.gov/publications/detail/sp/800-53/rev-4/archive/2015-01-22',
+  },
+} as const;
+
+/**
+ * NIST 800-53 revision that can be ingested
+ */
+export type Nist80053Version = keyof typeof NIST_80053_RELEASES;
 
 // OT-relevant control families (15 families)
 const OT_RELEVANT_FAMILIES = [
@@ -75,6 +103,11 @@ interface OscalControl {
     prose?: string;
     [key: string]: unknown;
   }>;
+  links?: Array<{
+    href: string;
+    rel?: string;
+    [key: string]: unknown;
+  }>;
   [key: string]: unknown;
 }
 
@@ -86,26 +119,40 @@ interface NistControl {
   title: string;
   description: string;
   family: string;
+  /** Set for controls withdrawn in this revision */
+  status?: 'withdrawn';
+  /** Controls a withdrawn control was incorporated into */
+  incorporated_into?: string[];
+  /** Controls a withdrawn control was moved to */
+  moved_to?: string[];
 }
 
 /**
  * NIST 800-53 OSCAL Ingester
  */
 export class Nist80053Ingester {
-  constructor(private db: DatabaseClient) {}
+  /**
+   * @param db - Database client instance
+   * @param version - Revision to ingest (default: Rev 5)
+   */
+  constructor(
+    private db: DatabaseClient,
+    private version: Nist80053Version = 'Rev 5'
+  ) {}
 
   /**
    * Fetch NIST 800-53 OSCAL catalog from GitHub with retry logic
    */
   async fetchOscalCatalog(): Promise<OscalCatalog> {
-    console.log(`Fetching NIST 800-53 OSCAL catalog from: ${NIST_OSCAL_URL}`);
+    const catalogUrl = NIST_80053_RELEASES[this.version].catalogUrl;
+    console.log(`Fetching NIST 800-53 OSCAL catalog from: ${catalogUrl}`);
 
     const maxRetries = 3;
     const retryDelays = [1000, 2000, 4000]; // 1s, 2s, 4s
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        const response = await fetch(NIST_OSCAL_URL);
+        const response = await fetch(catalogUrl);
 
         if (!response.ok) {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
@@ -179,7 +226,7 @@ export class Nist80053Ingester {
 
     // 4. Fallback to control title if no prose found
     if (parts.length === 0) {
-      return `${control.title}. See NIST SP 800-53 Rev 5 for complete guidance.`;
+      return `${control.title}. See NIST SP 800-53 ${this.version} for complete guidance.`;
     }
 
     // Join all collected parts, truncate if too long
@@ -187,6 +234,29 @@ export class Nist80053Ingester {
     return description.length > 2000 ? description.substring(0, 2000) + '...' : description;
   }
 
+  /**
+   * Control IDs a control links to with the given relation
+   * OSCAL links use fragment IDs: "#ac-2" is AC-2, "#ac-2.1" is AC-2(1)
+   */
+  private linkedControls(control: OscalControl, rel: string): string[] {
+    return (control.links ?? [])
+      .filter((link) => link.rel === rel && link.href.startsWith('#'))
+      .map((link) =>
+        canonicalRequirementId('nist-800-53', link.href.slice(1).replace(/\.(\d+)$/, '($1)'))
+      );
+  }
+
+  /**
+   * Withdrawal notice for a withdrawn control (e.g., "Withdrawn: incorporated into AC-2, AU-6.")
+   */
+  private withdrawalNotice(incorporatedInto: string[], movedTo: string[]): string {
+    const successors = [
+      ...(incorporatedInto.length > 0 ? [`incorporated into ${incorporatedInto.join(', ')}`] : []),
+      ...(movedTo.length > 0 ? [`moved to ${movedTo.join(', ')}`] : []),
+    ];
+    return successors.length > 0 ? `Withdrawn: ${successors.join('; ')}.` : 'Withdrawn.';
+  }
+
   /**
    * Parse OSCAL catalog and extract controls
    */
@@ -197,9 +267,28 @@ export class Nist80053Ingester {
       const family = group.id.toUpperCase();
 
       for (const control of group.controls || []) {
-        // Get control ID from props label (e.g., "AC-1")
+        // Get control ID from props label, in canonical form ("AC-01" is stored as "AC-1")
         const labelProp = control.props?.find((p) => p.name === 'label');
-        const controlId = labelProp?.value || control.id.toUpperCase();
+        const controlId = canonicalRequirementId(
+          'nist-800-53',
+          labelProp?.value || control.id.toUpperCase()
+        );
+
+        // Withdrawn controls have no prose, only links to their successors
+        if (control.props?.some((p) => p.name === 'status' && p.value === 'withdrawn')) {
+          const incorporatedInto = this.linkedControls(control, 'incorporated-into');
+          const movedTo = this.linkedControls(control, 'moved-to');
+          controls.push({
+            control_id: controlId,
+            title: control.title,
+            description: this.withdrawalNotice(incorporatedInto, movedTo),
+            family,
+            status: 'withdrawn',
+            incorporated_into: incorporatedInto,
+            moved_to: movedTo,
+          });
+          continue;
+        }
 
         // Extract description using enhanced parsing
         const description = this.extractDescription(control);
@@ -230,25 +319,36 @@ export class Nist80053Ingester {
 
   /**
    * Ingest controls into database
+   * Re-ingested controls are updated in place, so their row IDs (and the FTS and
+   * vector rows keyed on them) stay valid
    */
   ingestControls(controls: NistControl[]): void {
     console.log(`Ingesting ${controls.length} controls...`);
 
     for (const control of controls) {
       this.db.run(
-        `INSERT OR REPLACE INTO ot_requirements (
+        `INSERT INTO ot_requirements (
           standard_id,
           requirement_id,
           title,
           description,
-          component_type
-        ) VALUES (?, ?, ?, ?, ?)`,
+          component_type,
+          version,
+          status
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(standard_id, requirement_id, COALESCE(version, '')) DO UPDATE SET
+          title = excluded.title,
+          description = excluded.description,
+          component_type = excluded.component_type,
+          status = excluded.status`,
         [
           'nist-800-53',
           control.control_id,
           control.title,
           control.description,
           control.family.toLowerCase(),
+          this.version,
+          control.status ?? null,
         ]
       );
     }
@@ -256,28 +356,88 @@ export class Nist80053Ingester {
     console.log(`Ingested ${controls.length} controls`);
   }
 
+  /**
+   * Ingest the successors of withdrawn controls as 'supersedes' mappings
+   * (source: the successor, target: the withdrawn control). Successors outside
+   * the ingested families are only named in the withdrawal notice, so no
+   * mapping points at a control missing from ot_requirements.
+   */
+  ingestWithdrawals(controls: NistControl[]): void {
+    let count = 0;
+    let skipped = 0;
+
+    for (const control of controls) {
+      if (control.status !== 'withdrawn') continue;
+
+      const successors = [
+        ...(control.incorporated_into ?? []).map((id) => ({ id, relation: 'incorporated into' })),
+        ...(control.moved_to ?? []).map((id) => ({ id, relation: 'moved to' })),
+      ];
+      for (const successor of successors) {
+        const ingested = this.db.queryOne<{ id: number }>(
+          `SELECT id FROM ot_requirements
+           WHERE standard_id = ? AND requirement_id = ? AND version = ?`,
+          ['nist-800-53', successor.id, this.version]
+        );
+        if (!ingested) {
+          skipped++;
+          continue;
+        }
+
+        this.db.run(
+          `INSERT OR REPLACE INTO ot_mappings (
+            source_standard,
+            source_requirement,
+            target_standard,
+            target_requirement,
+            mapping_type,
+            confidence,
+            notes,
+            created_date,
+            source_document,
+            source_version
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), ?, ?)`,
+          [
+            'nist-800-53',
+            successor.id,
+            'nist-800-53',
+            control.control_id,
+            'supersedes',
+            1.0,
+            `${control.control_id} withdrawn in NIST SP 800-53 ${this.version}: ${successor.relation} ${successor.id}`,
+            'NIST SP 800-53',
+            this.version,
+          ]
+        );
+        count++;
+      }
+    }
+
+    console.log(
+      `Ingested ${count} supersedes mappings for withdrawn controls` +
+        (skipped > 0 ? ` (${skipped} successors outside the ingested families skipped)` : '')
+    );
+  }
+
   /**
    * Main ingestion workflow
    */
   async ingestAll(): Promise<void> {
-    console.log('Starting NIST 800-53 Rev 5 ingestion...\n');
+    console.log(`Starting NIST 800-53 ${this.version} ingestion...\n`);
     const startTime = Date.now();
+    const release = NIST_80053_RELEASES[this.version];
 
     try {
-      // Ensure standard exists
-      console.log('Ensuring NIST 800-53 standard exists...');
-      this.db.run(
-        `INSERT OR IGNORE INTO ot_standards (id, name, version, published_date, url, status)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-        [
-          'nist-800-53',
-          'NIST SP 800-53: Security and Privacy Controls',
-          'Rev 5',
-          '2020-09-01',
-          'https://csrc.nist.gov/publications/detail/sp/800-53/rev-5/final',
-          'current',
-        ]
-      );
+      // Ensure standard and revision exist
+      console.log(`Registering NIST 800-53 ${this.version}...`);
+      registerStandardVersion(this.db, {
+        standard_id: 'nist-800-53',
+        name: 'NIST SP 800-53: Security and Privacy Controls',
+        version: this.version,
+        status: release.status,
+        published_date: release.published_date,
+        url: release.url,
+      });
 
       // Fetch and parse OSCAL catalog
       const oscal = await this.fetchOscalCatalog();
@@ -288,16 +448,20 @@ export class Nist80053Ingester {
       console.log('Ingesting controls in transaction...');
       this.db.transaction(() => {
         this.ingestControls(otControls);
+        this.ingestWithdrawals(otControls);
       });
 
       // Report final counts
       const count = this.db.queryOne<{ count: number }>(
-        'SELECT COUNT(*) as count FROM ot_requirements WHERE standard_id = ?',
-        ['nist-800-53']
+        'SELECT COUNT(*) as count FROM ot_requirements WHERE standard_id = ? AND version = ?',
+        ['nist-800-53', this.version]
       );
 
       console.log('\n=== Ingestion Complete ===');
-      console.log(`NIST 800-53 controls ingested: ${count?.count || 0}`);
+      console.log(`NIST 800-53 ${this.version} controls ingested: ${count?.count || 0}`);
+      console.log(
+        `Withdrawn controls: ${otControls.filter((c) => c.status === 'withdrawn').length}`
+      );
       console.log(`Control families included: ${OT_RELEVANT_FAMILIES.join(', ')}`);
       console.log('==========================\n');
 
@@ -311,7 +475,7 @@ export class Nist80053Ingester {
           'success',
           count?.count || 0,
           duration,
-          'NIST SP 800-53 Rev 5',
+          `NIST SP 800-53 ${this.version}`,
           `Control families: ${OT_RELEVANT_FAMILIES.join(', ')}`,
         ]
       );
@@ -334,7 +498,7 @@ export class Nist80053Ingester {
             'failed',
             0,
             duration,
-            'NIST SP 800-53 Rev 5',
+            `NIST SP 800-53 ${this.version}`,
             `Error: ${errorMessage}`,
           ]
         );
@@ -352,8 +516,16 @@ export class Nist80053Ingester {
  */
 if (import.meta.url === `file://${process.argv[1]}`) {
   const dbPath = process.env.OT_MCP_DB_PATH || 'data/ot-security.db';
+  const version = process.argv[2] || 'Rev 5';
+  if (!(version in NIST_80053_RELEASES)) {
+    console.error(
+      `Unknown NIST 800-53 revision: ${version} (expected ${Object.keys(NIST_80053_RELEASES).join(' or ')})`
+    );
+    process.exit(1);
+  }
+
   const db = new DatabaseClient(dbPath);
-  const ingester = new Nist80053Ingester(db);
+  const ingester = new Nist80053Ingester(db, version as Nist80053Version);
 
   try {
     await ingester.ingestAll();
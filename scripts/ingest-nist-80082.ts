@@ -1,6 +1,10 @@
 #!/usr/bin/env node
 
 import { DatabaseClient } from '../src/database/client.js';
+import { registerStandardVersion } from '../src/database/versions.js';
+import { canonicalRequirementId } from '../src/database/requirement-ids.js';
+import { registerMappingSource } from '../src/database/mapping-provenance.js';
+import { StandardStatus } from '../src/types/index.js';
 import { readFileSync } from 'fs';
 import { resolve } from 'path';
 
@@ -9,6 +13,8 @@ interface GuidanceMeta {
   version: string;
   published_date: string;
   url?: string;
+  /** Status of this revision (default: current) */
+  status?: StandardStatus;
   extraction_notes?: string;
 }
 
@@ -78,8 +84,15 @@ export class Nist80082Ingester {
 
   /**
    * Ingest guidance items into database
+   * @param items - Parsed guidance items
+   * @param version - Revision of 800-82 the items belong to
+   * @param mappingSourceId - mapping_sources.id of the guidance file the mappings come from
    */
-  ingestGuidance(items: ParsedGuidanceItem[]): void {
+  ingestGuidance(
+    items: ParsedGuidanceItem[],
+    version: string | null = null,
+    mappingSourceId: number | null = null
+  ): void {
     console.log(`Ingesting ${items.length} guidance items...`);
 
     for (const item of items) {
@@ -92,8 +105,9 @@ export class Nist80082Ingester {
           title,
           description,
           rationale,
-          component_type
-        ) VALUES (?, ?, ?, ?, ?, ?)
+          component_type,
+          version
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
       `,
         [
           'nist-800-82',
@@ -102,6 +116,7 @@ export class Nist80082Ingester {
           item.description,
           item.rationale,
           'guidance',
+          version,
         ]
       );
 
@@ -119,17 +134,23 @@ export class Nist80082Ingester {
             mapping_type,
             confidence,
             notes,
-            created_date
-          ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+            created_date,
+            mapping_source_id,
+            source_document,
+            source_version
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'), ?, ?, ?)
         `,
           [
             'nist-800-82',
             item.requirement_id,
             'nist-800-53',
-            controlId,
+            canonicalRequirementId('nist-800-53', controlId),
             'related',
             0.9,
             'Guidance from NIST 800-82 for this control',
+            mappingSourceId,
+            'NIST SP 800-82',
+            version,
           ]
         );
       }
@@ -145,23 +166,6 @@ export class Nist80082Ingester {
     console.log('Starting NIST 800-82 ingestion...\n');
 
     try {
-      // Ensure standard exists
-      this.db.run(
-        `
-        INSERT OR IGNORE INTO ot_standards (id, name, version, published_date, url, status, notes)
-        VALUES (?, ?, ?, ?, ?, ?, ?)
-      `,
-        [
-          'nist-800-82',
-          'NIST SP 800-82: Guide to Operational Technology Security',
-          'Rev 3',
-          '2023-11-01',
-          'https://csrc.nist.gov/publications/detail/sp/800-82/rev-3/final',
-          'current',
-          'OT-specific security guidance and ICS overlay for NIST 800-53',
-        ]
-      );
-
       // Load guidance JSON
       const jsonPath = resolve('data/nist-80082-guidance.json');
       console.log(`Loading guidance from: ${jsonPath}`);
@@ -173,17 +177,35 @@ export class Nist80082Ingester {
       this.validateGuidanceStructure(data);
       console.log(`Validated guidance JSON: ${data.meta.title}`);
 
+      // Ensure standard and revision exist
+      registerStandardVersion(this.db, {
+        standard_id: 'nist-800-82',
+        name: 'NIST SP 800-82: Guide to Operational Technology Security',
+        version: data.meta.version,
+        status: data.meta.status ?? 'current',
+        published_date: data.meta.published_date,
+        url: data.meta.url ?? 'https://csrc.nist.gov/publications/detail/sp/800-82',
+        notes: 'OT-specific security guidance and ICS overlay for NIST 800-53',
+      });
+
       // Parse and ingest
       const items = this.parseGuidance(data);
 
       this.db.transaction(() => {
-        this.ingestGuidance(items);
+        const mappingSourceId = registerMappingSource(this.db, 'data/nist-80082-guidance.json', {
+          title: data.meta.title,
+          version: data.meta.version,
+          created_date: data.meta.published_date,
+          sources: data.meta.url ? [data.meta.url] : [],
+          notes: data.meta.extraction_notes,
+        });
+        this.ingestGuidance(items, data.meta.version, mappingSourceId);
       });
 
       // Report
       const requirementCount = this.db.queryOne<{ count: number }>(
-        'SELECT COUNT(*) as count FROM ot_requirements WHERE standard_id = ?',
-        ['nist-800-82']
+        'SELECT COUNT(*) as count FROM ot_requirements WHERE standard_id = ? AND version = ?',
+        ['nist-800-82', data.meta.version]
       );
 
       const mappingCount = this.db.queryOne<{ count: number }>(
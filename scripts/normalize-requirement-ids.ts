@@ -0,0 +1,170 @@
+#!/usr/bin/env tsx
+/**
+ * Rewrite requirement IDs stored in an existing database to their canonical
+ * form ("AC-02" becomes "AC-2", "CR 1.1 RE(1)" becomes "CR 1.1 RE 1"), as the
+ * ingestion scripts now store them.
+ *
+ * Covers ot_requirements (requirement and parent IDs), both ends of
+ * ot_mappings and the NIST controls linked from mitre_technique_mitigations.
+ * A mapping that becomes a duplicate of an existing one is dropped. Safe to
+ * re-run.
+ *
+ * Usage: npm run normalize:ids [-- path/to/db]   (default: data/ot-security.db)
+ */
+
+import { DatabaseClient } from '../src/database/client.js';
+import { canonicalRequirementId } from '../src/database/requirement-ids.js';
+
+/**
+ * Number of rows rewritten per table
+ */
+export interface NormalizationReport {
+  requirements: number;
+  mappings: number;
+  duplicate_mappings: number;
+  linkages: number;
+}
+
+/**
+ * Requirement ID normalizer for existing databases
+ */
+export class RequirementIdNormalizer {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * Rewrite requirement IDs in ot_requirements
+   * @returns Number of rows changed
+   */
+  normalizeRequirements(): number {
+    let changed = 0;
+
+    const rows = this.db.query<{
+      id: number;
+      standard_id: string;
+      requirement_id: string;
+      parent_requirement_id: string | null;
+    }>(`SELECT id, standard_id, requirement_id, parent_requirement_id FROM ot_requirements`);
+
+    for (const row of rows) {
+      const requirementId = canonicalRequirementId(row.standard_id, row.requirement_id);
+      const parentId =
+        row.parent_requirement_id &&
+        canonicalRequirementId(row.standard_id, row.parent_requirement_id);
+      if (requirementId === row.requirement_id && parentId === row.parent_requirement_id) {
+        continue;
+      }
+
+      // A row already stored under the canonical ID (in the same version) is kept as it is
+      const result = this.db.run(
+        `UPDATE OR IGNORE ot_requirements SET requirement_id = ?, parent_requirement_id = ? WHERE id = ?`,
+        [requirementId, parentId, row.id]
+      );
+      changed += result.changes;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Rewrite both ends of ot_mappings, dropping mappings that become duplicates
+   * @returns Number of rows changed and duplicates dropped
+   */
+  normalizeMappings(): { mappings: number; duplicates: number } {
+    let mappings = 0;
+    let duplicates = 0;
+
+    const rows = this.db.query<{
+      id: number;
+      source_standard: string;
+      source_requirement: string;
+      target_standard: string;
+      target_requirement: string;
+    }>(
+      `SELECT id, source_standard, source_requirement, target_standard, target_requirement
+       FROM ot_mappings`
+    );
+
+    for (const row of rows) {
+      const source = canonicalRequirementId(row.source_standard, row.source_requirement);
+      const target = canonicalRequirementId(row.target_standard, row.target_requirement);
+      if (source === row.source_requirement && target === row.target_requirement) {
+        continue;
+      }
+
+      const result = this.db.run(
+        `UPDATE OR IGNORE ot_mappings SET source_requirement = ?, target_requirement = ? WHERE id = ?`,
+        [source, target, row.id]
+      );
+      if (result.changes > 0) {
+        mappings++;
+      } else {
+        this.db.run(`DELETE FROM ot_mappings WHERE id = ?`, [row.id]);
+        duplicates++;
+      }
+    }
+
+    return { mappings, duplicates };
+  }
+
+  /**
+   * Rewrite the NIST 800-53 controls linked to MITRE technique mitigations
+   * @returns Number of rows changed
+   */
+  normalizeLinkages(): number {
+    let changed = 0;
+
+    const controls = this.db.query<{ ot_requirement_id: string }>(
+      `SELECT DISTINCT ot_requirement_id FROM mitre_technique_mitigations
+       WHERE ot_requirement_id IS NOT NULL`
+    );
+
+    for (const { ot_requirement_id } of controls) {
+      const canonical = canonicalRequirementId('nist-800-53', ot_requirement_id);
+      if (canonical !== ot_requirement_id) {
+        changed += this.db.run(
+          `UPDATE mitre_technique_mitigations SET ot_requirement_id = ? WHERE ot_requirement_id = ?`,
+          [canonical, ot_requirement_id]
+        ).changes;
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Normalize all tables in one transaction
+   */
+  normalizeAll(): NormalizationReport {
+    return this.db.transaction(() => {
+      const requirements = this.normalizeRequirements();
+      const { mappings, duplicates } = this.normalizeMappings();
+      const linkages = this.normalizeLinkages();
+      return { requirements, mappings, duplicate_mappings: duplicates, linkages };
+    });
+  }
+}
+
+/**
+ * CLI execution
+ */
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const dbPath = process.argv[2] || process.env.OT_MCP_DB_PATH || 'data/ot-security.db';
+  const db = new DatabaseClient(dbPath);
+
+  try {
+    const report = new RequirementIdNormalizer(db).normalizeAll();
+
+    console.log('\n=== Requirement IDs Normalized ===');
+    console.log(`Requirements: ${report.requirements}`);
+    console.log(`Mappings: ${report.mappings} (${report.duplicate_mappings} duplicates dropped)`);
+    console.log(`MITRE mitigation linkages: ${report.linkages}`);
+    console.log('==================================\n');
+
+    db.close();
+    process.exit(0);
+  } catch (error) {
+    console.error('Normalization failed:', error);
+    db.close();
+    process.exit(1);
+  }
+}
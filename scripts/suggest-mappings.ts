@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+
+import { DatabaseClient } from '../src/database/client.js';
+import { versionCondition } from '../src/database/versions.js';
+import { requirementMappings } from '../src/database/requirement-ids.js';
+import { suggestMappings } from '../src/tools/suggest-mappings.js';
+
+/** Suggestions stored per unmapped requirement */
+const SUGGESTIONS_PER_REQUIREMENT = 5;
+
+export class MappingSuggester {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * Requirements of a standard without a curated mapping to the target standard
+   */
+  unmappedRequirements(sourceStandard: string, targetStandard: string): string[] {
+    let ids: string[];
+    if (sourceStandard === 'mitre-ics') {
+      ids = this.db
+        .query<{ mitigation_id: string }>(
+          `SELECT mitigation_id FROM mitre_ics_mitigations ORDER BY mitigation_id`
+        )
+        .map((row) => row.mitigation_id);
+    } else {
+      const currentVersion = versionCondition();
+      ids = this.db
+        .query<{ requirement_id: string }>(
+          `SELECT r.requirement_id FROM ot_requirements r
+           WHERE r.standard_id = ? AND ${currentVersion.sql} AND r.status IS NULL
+           ORDER BY r.id`,
+          [sourceStandard, ...currentVersion.params]
+        )
+        .map((row) => row.requirement_id);
+    }
+
+    return ids.filter(
+      (id) =>
+        !requirementMappings(this.db, sourceStandard, id).some(
+          (mapping) =>
+            mapping.source_standard === targetStandard || mapping.target_standard === targetStandard
+        )
+    );
+  }
+
+  /**
+   * Store pending suggestions for every unmapped requirement of a standard
+   */
+  async suggestAll(
+    sourceStandard: string,
+    targetStandard: string,
+    limit: number = SUGGESTIONS_PER_REQUIREMENT
+  ): Promise<{ requirements: number; suggestions: number }> {
+    const unmapped = this.unmappedRequirements(sourceStandard, targetStandard);
+    console.log(
+      `Suggesting ${targetStandard} mappings for ${unmapped.length} unmapped ${sourceStandard} requirements...`
+    );
+
+    let suggestions = 0;
+    for (const requirementId of unmapped) {
+      const result = await suggestMappings(this.db, {
+        requirement_id: requirementId,
+        standard: sourceStandard,
+        target_standard: targetStandard,
+        options: { limit, save: true },
+      });
+      suggestions += result?.saved ?? 0;
+    }
+
+    return { requirements: unmapped.length, suggestions };
+  }
+
+  /**
+   * Generate suggestions and record the run in the ingestion log
+   */
+  async run(sourceStandard: string, targetStandard: string): Promise<void> {
+    console.log('Starting mapping suggestion run...\n');
+    const startTime = Date.now();
+
+    try {
+      const result = await this.suggestAll(sourceStandard, targetStandard);
+
+      const duration = Date.now() - startTime;
+      this.db.run(
+        `
+        INSERT INTO ingestion_log (operation, status, record_count, duration_ms, notes)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+        [
+          'suggest:mappings',
+          'success',
+          result.suggestions,
+          duration,
+          `${sourceStandard} -> ${targetStandard}: ${result.suggestions} pending suggestions for ${result.requirements} unmapped requirements`,
+        ]
+      );
+
+      console.log('\n=== Suggestions Complete ===');
+      console.log(`Unmapped requirements: ${result.requirements}`);
+      console.log(`Pending suggestions stored: ${result.suggestions}`);
+      console.log(`Duration: ${duration}ms`);
+      console.log('============================\n');
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      this.db.run(
+        `
+        INSERT INTO ingestion_log (operation, status, record_count, duration_ms, notes)
+        VALUES (?, ?, ?, ?, ?)
+      `,
+        ['suggest:mappings', 'failed', 0, duration, String(error)]
+      );
+
+      console.error('\n=== Suggestions Failed ===');
+      console.error('Error:', error);
+      throw error;
+    }
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const [sourceStandard, targetStandard] = process.argv.slice(2);
+  if (!sourceStandard || !targetStandard) {
+    console.error('Usage: npm run suggest:mappings -- <source-standard> <target-standard>');
+    process.exit(1);
+  }
+
+  const dbPath = process.env.OT_MCP_DB_PATH || 'data/ot-security.db';
+  const db = new DatabaseClient(dbPath);
+
+  const suggester = new MappingSuggester(db);
+
+  suggester
+    .run(sourceStandard, targetStandard)
+    .then(() => {
+      db.close();
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      db.close();
+      process.exit(1);
+    });
+}
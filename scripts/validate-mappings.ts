@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+import { DatabaseClient } from '../src/database/client.js';
+import { validateMappings } from '../src/tools/validate-mappings.js';
+import { MappingValidationReport, ValidateMappingsOptions } from '../src/types/index.js';
+
+const SEVERITY_LABELS = {
+  error: 'ERROR',
+  warning: 'WARNING',
+  info: 'INFO',
+} as const;
+
+export class MappingValidator {
+  constructor(private db: DatabaseClient) {}
+
+  /**
+   * Check the mappings in the database
+   */
+  async validate(options: ValidateMappingsOptions = {}): Promise<MappingValidationReport> {
+    const report = await validateMappings(this.db, { options });
+    if (!report) {
+      throw new Error('Mapping validation failed');
+    }
+    return report;
+  }
+
+  /**
+   * Print a report with the suggested fixes of each issue
+   */
+  print(report: MappingValidationReport): void {
+    console.log('=== Mapping Validation ===\n');
+    console.log(`Mappings checked: ${report.checked_mappings}`);
+
+    for (const issue of report.issues) {
+      console.log(`\n[${SEVERITY_LABELS[issue.severity]}] ${issue.type}: ${issue.message}`);
+      for (const mapping of issue.mappings) {
+        console.log(
+          `  #${mapping.id} ${mapping.source_standard} ${mapping.source_requirement} -> ` +
+            `${mapping.target_standard} ${mapping.target_requirement} ` +
+            `(${mapping.mapping_type}, confidence ${mapping.confidence ?? 'n/a'}, ${mapping.review_status})`
+        );
+      }
+      for (const fix of issue.fixes) {
+        console.log(`  fix #${fix.mapping_id}: ${fix.description}`);
+      }
+    }
+
+    console.log('\n=== Summary ===');
+    console.log(`Errors: ${report.summary.errors}`);
+    console.log(`Warnings: ${report.summary.warnings}`);
+    console.log(`Info: ${report.summary.info}`);
+    console.log('===============\n');
+  }
+}
+
+// CLI execution
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const { values } = parseArgs({
+    options: {
+      standard: { type: 'string' },
+      'reviewed-only': { type: 'boolean' },
+      'confidence-spread': { type: 'string' },
+      json: { type: 'boolean' },
+    },
+  });
+
+  const dbPath = process.env.OT_MCP_DB_PATH || 'data/ot-security.db';
+  const db = new DatabaseClient(dbPath);
+  const validator = new MappingValidator(db);
+
+  validator
+    .validate({
+      standard: values.standard,
+      reviewed_only: values['reviewed-only'],
+      ...(values['confidence-spread'] !== undefined
+        ? { confidence_spread: Number(values['confidence-spread']) }
+        : {}),
+    })
+    .then((report) => {
+      if (values.json) {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        validator.print(report);
+      }
+      db.close();
+      process.exit(report.summary.errors > 0 ? 1 : 0);
+    })
+    .catch((error) => {
+      console.error('Fatal error:', error);
+      db.close();
+      process.exit(1);
+    });
+}
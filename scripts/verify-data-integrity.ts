@@ -6,6 +6,7 @@
  * - Foreign key relationships are valid
  * - No orphaned records in junction tables
  * - All mappings reference valid requirements
+ * - Mappings between the same requirements agree on the relationship
  * - Requirement counts match expectations
  * - Security levels are in valid range (1-4)
  * - Purdue levels are in valid range (0-5)
@@ -16,6 +17,7 @@
  */
 
 import { DatabaseClient } from '../src/database/client.js';
+import { validateMappings } from '../src/tools/validate-mappings.js';
 import { join } from 'path';
 import { existsSync } from 'fs';
 
@@ -502,6 +504,45 @@ class DataIntegrityVerifier {
     }
   }
 
+  /**
+   * Check 11: Verify mappings do not contradict each other
+   * (see npm run validate:mappings for the full report with suggested fixes)
+   */
+  private async checkMappingConsistency(): Promise<void> {
+    console.log('Checking ot_mappings consistency...');
+
+    const report = await validateMappings(this.db);
+    if (!report) {
+      this.addIssue('ot_mappings', 'ERROR', 'Mapping validation failed');
+      return;
+    }
+
+    const contradictions = report.issues.filter(
+      (issue) => issue.type === 'conflicting_pair' || issue.type === 'non_inverse_pair'
+    );
+    const spreads = report.issues.filter((issue) => issue.type === 'confidence_spread');
+
+    if (contradictions.length > 0) {
+      this.addIssue(
+        'ot_mappings',
+        'ERROR',
+        `Found ${contradictions.length} requirement pairs with contradictory mapping types`,
+        contradictions.slice(0, 5).map((issue) => issue.message)
+      );
+    } else {
+      console.log('  ✓ No contradictory mapping pairs');
+    }
+
+    if (spreads.length > 0) {
+      this.addIssue(
+        'ot_mappings',
+        'WARNING',
+        `Found ${spreads.length} requirements whose mapping confidences disagree`,
+        spreads.slice(0, 5).map((issue) => issue.message)
+      );
+    }
+  }
+
   /**
    * Run all integrity checks
    */
@@ -520,6 +561,7 @@ class DataIntegrityVerifier {
       this.checkRequirementCounts();
       this.checkDuplicateRequirements();
       this.checkIecRequirementsHaveSecurityLevels();
+      await this.checkMappingConsistency();
 
       // Report results
       console.log('\n=== Verification Results ===');
@@ -43,8 +43,200 @@ export class DatabaseClient {
     const schemaPath = join(__dirname, 'schema.sql');
     const schema = readFileSync(schemaPath, 'utf-8');
 
+    // Drop objects that CREATE ... IF NOT EXISTS cannot upgrade in place
+    const rebuildFts = this.dropOutdatedFtsIndex();
+    const hasKnowledgeIndex = this.tableExists('ot_knowledge_fts');
+    const migratedVersions = this.migrateRequirementVersions();
+    this.migrateRequirementStatus();
+    this.migrateMappingProvenance();
+
     // Execute the schema SQL
     this.db.exec(schema);
+
+    if (migratedVersions) {
+      // Record the version each standard was ingested at
+      this.db.exec(`
+        INSERT OR IGNORE INTO ot_standard_versions (standard_id, version, status, published_date, url)
+        SELECT id, version, status, published_date, url FROM ot_standards WHERE version IS NOT NULL
+      `);
+    }
+
+    if (rebuildFts) {
+      this.db.exec(`INSERT INTO ot_requirements_fts(ot_requirements_fts) VALUES ('rebuild')`);
+    }
+
+    if (!hasKnowledgeIndex) {
+      this.populateKnowledgeIndex();
+    }
+  }
+
+  /**
+   * Check whether a table exists in the database
+   */
+  private tableExists(name: string): boolean {
+    return (
+      this.db.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name) !==
+      undefined
+    );
+  }
+
+  /**
+   * Rebuild ot_requirements if it was created by an older schema (without the
+   * version column, unique per standard and requirement ID), so that a standard
+   * can hold several versions of a requirement. Existing rows are assigned the
+   * version recorded in ot_standards. Row IDs are kept, so the FTS, knowledge
+   * and vector indexes and the rows referencing requirements stay valid;
+   * schema.sql recreates the indexes and triggers dropped with the old table.
+   * @returns true if the table was rebuilt
+   */
+  private migrateRequirementVersions(): boolean {
+    if (!this.tableExists('ot_requirements')) {
+      return false;
+    }
+    const columns = this.db.prepare(`SELECT name FROM pragma_table_info('ot_requirements')`).all();
+    if ((columns as Array<{ name: string }>).some((column) => column.name === 'version')) {
+      return false;
+    }
+
+    // Dropping the old table must not cascade to the rows that reference it
+    this.db.pragma('foreign_keys = OFF');
+    try {
+      this.transaction(() => {
+        this.db.exec(`
+          CREATE TABLE ot_requirements_versioned (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            standard_id TEXT NOT NULL,
+            requirement_id TEXT NOT NULL,
+            parent_requirement_id TEXT,
+            title TEXT,
+            description TEXT,
+            rationale TEXT,
+            component_type TEXT,
+            purdue_level INTEGER CHECK (purdue_level IS NULL OR (purdue_level >= 0 AND purdue_level <= 5)),
+            version TEXT,
+            FOREIGN KEY (standard_id) REFERENCES ot_standards(id) ON DELETE CASCADE
+          );
+
+          INSERT INTO ot_requirements_versioned (
+            id, standard_id, requirement_id, parent_requirement_id, title, description,
+            rationale, component_type, purdue_level, version
+          )
+          SELECT r.id, r.standard_id, r.requirement_id, r.parent_requirement_id, r.title,
+                 r.description, r.rationale, r.component_type, r.purdue_level, s.version
+          FROM ot_requirements r
+          LEFT JOIN ot_standards s ON s.id = r.standard_id;
+
+          DROP TABLE ot_requirements;
+          ALTER TABLE ot_requirements_versioned RENAME TO ot_requirements;
+        `);
+      });
+    } finally {
+      this.db.pragma('foreign_keys = ON');
+    }
+    return true;
+  }
+
+  /**
+   * Add the status column (withdrawn requirements) to an ot_requirements
+   * table created by an older schema
+   */
+  private migrateRequirementStatus(): void {
+    if (!this.tableExists('ot_requirements')) {
+      return;
+    }
+    const columns = this.db.prepare(`SELECT name FROM pragma_table_info('ot_requirements')`).all();
+    if ((columns as Array<{ name: string }>).some((column) => column.name === 'status')) {
+      return;
+    }
+
+    this.db.exec(`
+      ALTER TABLE ot_requirements
+        ADD COLUMN status TEXT CHECK (status IS NULL OR status = 'withdrawn')
+    `);
+  }
+
+  /**
+   * Add the provenance and review columns to an ot_mappings table created by
+   * an older schema (existing mappings become drafts without provenance)
+   */
+  private migrateMappingProvenance(): void {
+    if (!this.tableExists('ot_mappings')) {
+      return;
+    }
+    const columns = this.db.prepare(`SELECT name FROM pragma_table_info('ot_mappings')`).all();
+    if ((columns as Array<{ name: string }>).some((column) => column.name === 'review_status')) {
+      return;
+    }
+
+    this.db.exec(`
+      ALTER TABLE ot_mappings
+        ADD COLUMN mapping_source_id INTEGER REFERENCES mapping_sources(id) ON DELETE SET NULL;
+      ALTER TABLE ot_mappings ADD COLUMN source_document TEXT;
+      ALTER TABLE ot_mappings ADD COLUMN source_version TEXT;
+      ALTER TABLE ot_mappings
+        ADD COLUMN review_status TEXT NOT NULL DEFAULT 'draft'
+          CHECK (review_status IN ('draft', 'reviewed', 'disputed', 'retired'));
+      ALTER TABLE ot_mappings ADD COLUMN reviewed_by TEXT;
+      ALTER TABLE ot_mappings ADD COLUMN reviewed_date TEXT;
+    `);
+  }
+
+  /**
+   * Fill the unified knowledge index from rows that existed before it was
+   * created (the schema triggers only index rows written afterwards)
+   */
+  private populateKnowledgeIndex(): void {
+    this.db.exec(`
+      INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+      SELECT 'requirement', id, requirement_id, title,
+             COALESCE(description, '') || ' ' || COALESCE(rationale, '')
+      FROM ot_requirements;
+
+      INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+      SELECT 'technique', rowid, technique_id, name,
+             COALESCE(description, '') || ' ' || COALESCE(tactic, '')
+      FROM mitre_ics_techniques;
+
+      INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+      SELECT 'mitigation', rowid, mitigation_id, name, description
+      FROM mitre_ics_mitigations;
+
+      INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+      SELECT 'zone', id, NULL, name,
+             COALESCE(description, '') || ' ' || COALESCE(typical_assets, '')
+      FROM zones;
+
+      INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+      SELECT 'conduit', id, NULL, name,
+             COALESCE(description, '') || ' ' || COALESCE(security_requirements, '')
+      FROM conduits;
+    `);
+  }
+
+  /**
+   * Drop the requirements FTS index and its triggers if they were created by an
+   * older schema (without the rationale column or porter stemming), so that
+   * schema.sql recreates them with the current definition.
+   * @returns true if the index was dropped and must be rebuilt from ot_requirements
+   */
+  private dropOutdatedFtsIndex(): boolean {
+    const existing = this.db
+      .prepare(
+        `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'ot_requirements_fts'`
+      )
+      .get() as { sql: string } | undefined;
+
+    if (!existing || (existing.sql.includes('rationale') && existing.sql.includes('porter'))) {
+      return false;
+    }
+
+    this.db.exec(`
+      DROP TRIGGER IF EXISTS ot_requirements_fts_insert;
+      DROP TRIGGER IF EXISTS ot_requirements_fts_delete;
+      DROP TRIGGER IF EXISTS ot_requirements_fts_update;
+      DROP TABLE ot_requirements_fts;
+    `);
+    return true;
   }
 
   /**
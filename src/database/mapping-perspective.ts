@@ -0,0 +1,143 @@
+/**
+ * Mapping perspective: a mapping read from one of its requirements, so that a
+ * mapping stored the other way round is not reported backwards ("G-6.1
+ * broader AC-2" read from AC-2 is "AC-2 narrower G-6.1")
+ */
+
+import { DatabaseClient } from './client.js';
+import { versionCondition } from './versions.js';
+import { requirementKey } from './requirement-ids.js';
+import {
+  MappingDirection,
+  MappingPerspective,
+  MappingRelationship,
+  OTMapping,
+} from '../types/index.js';
+
+/**
+ * The columns of a mapping that say which requirements it links and how
+ */
+type StoredMapping = Pick<
+  OTMapping,
+  | 'source_standard'
+  | 'source_requirement'
+  | 'target_standard'
+  | 'target_requirement'
+  | 'mapping_type'
+>;
+
+/** Relationship read from the other requirement of a mapping */
+const INVERSE_RELATIONSHIPS: Readonly<Record<MappingRelationship, MappingRelationship>> = {
+  exact_match: 'exact_match',
+  partial: 'partial',
+  related: 'related',
+  broader: 'narrower',
+  narrower: 'broader',
+  supersedes: 'superseded_by',
+  superseded_by: 'supersedes',
+};
+
+/**
+ * Inverse of a relationship: broader and narrower, supersedes and
+ * superseded_by swap; exact_match, partial and related are symmetric
+ */
+export function inverseRelationship(relationship: MappingRelationship): MappingRelationship {
+  return INVERSE_RELATIONSHIPS[relationship] ?? relationship;
+}
+
+/**
+ * Whether a mapping is stored from the requirement (outgoing) or to it (incoming)
+ *
+ * The requirement ID may be written in any form with the same requirementKey().
+ */
+export function mappingDirection(
+  mapping: StoredMapping,
+  standard: string,
+  requirementId: string
+): MappingDirection {
+  return mapping.source_standard === standard &&
+    requirementKey(mapping.source_requirement) === requirementKey(requirementId)
+    ? 'outgoing'
+    : 'incoming';
+}
+
+/**
+ * Titles of requirements of some standards in their current version (MITRE
+ * techniques and mitigations by name), by standard and requirementKey()
+ */
+function requirementTitles(db: DatabaseClient, standards: string[]): Map<string, string | null> {
+  const titles = new Map<string, string | null>();
+  const currentVersion = versionCondition();
+
+  for (const standard of standards) {
+    const rows =
+      standard === 'mitre-ics'
+        ? db.query<{ requirement_id: string; title: string | null }>(
+            `SELECT technique_id AS requirement_id, name AS title FROM mitre_ics_techniques
+             UNION ALL
+             SELECT mitigation_id AS requirement_id, name AS title FROM mitre_ics_mitigations`
+          )
+        : db.query<{ requirement_id: string; title: string | null }>(
+            `SELECT r.requirement_id, r.title FROM ot_requirements r
+             WHERE r.standard_id = ? AND ${currentVersion.sql}
+             ORDER BY r.id`,
+            [standard, ...currentVersion.params]
+          );
+    for (const row of rows) {
+      titles.set(`${standard}:${requirementKey(row.requirement_id)}`, row.title);
+    }
+  }
+
+  return titles;
+}
+
+/**
+ * Read mappings from one of their requirements
+ *
+ * Each mapping keeps its stored columns and gains its direction, the
+ * relationship of the requirement to the other requirement (the stored
+ * mapping_type for outgoing mappings, its inverse for incoming ones) and the
+ * other requirement with its title.
+ *
+ * @param db - Database client instance
+ * @param standard - Standard of the requirement the mappings are read from
+ * @param requirementId - Requirement the mappings are read from (any form with the same requirementKey())
+ * @param mappings - Mappings of the requirement
+ * @returns The mappings with their perspective, in the same order
+ */
+export function fromPerspective<T extends StoredMapping>(
+  db: DatabaseClient,
+  standard: string,
+  requirementId: string,
+  mappings: T[]
+): Array<T & MappingPerspective> {
+  const read = mappings.map((mapping) => {
+    const direction = mappingDirection(mapping, standard, requirementId);
+    return direction === 'outgoing'
+      ? {
+          mapping,
+          direction,
+          standard_id: mapping.target_standard,
+          requirement_id: mapping.target_requirement,
+        }
+      : {
+          mapping,
+          direction,
+          standard_id: mapping.source_standard,
+          requirement_id: mapping.source_requirement,
+        };
+  });
+  const titles = requirementTitles(db, [...new Set(read.map((entry) => entry.standard_id))]);
+
+  return read.map(({ mapping, direction, standard_id, requirement_id }) => ({
+    ...mapping,
+    relationship:
+      direction === 'outgoing' ? mapping.mapping_type : inverseRelationship(mapping.mapping_type),
+    direction,
+    counterpart: {
+      standard_id,
+      requirement_id,
+      title: titles.get(`${standard_id}:${requirementKey(requirement_id)}`) ?? null,
+    },
+  }));
+}
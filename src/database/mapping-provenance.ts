@@ -0,0 +1,165 @@
+/**
+ * Mapping provenance: the mapping file and source document a mapping comes
+ * from, its review status, and how queries select mappings by review status
+ */
+
+import { DatabaseClient } from './client.js';
+import {
+  MappingReviewStatus,
+  MappingSource,
+  OTMapping,
+  ProvenancedMapping,
+} from '../types/index.js';
+
+/**
+ * Review statuses, in the order a mapping usually goes through them
+ */
+export const MAPPING_REVIEW_STATUSES: readonly MappingReviewStatus[] = [
+  'draft',
+  'reviewed',
+  'disputed',
+  'retired',
+];
+
+/**
+ * SQL condition on ot_mappings (unaliased) selecting the mappings a tool uses
+ *
+ * Retired mappings are always left out. With reviewedOnly, only reviewed
+ * mappings are kept, except 'supersedes' mappings: they record the
+ * successors of withdrawn requirements as published in the standard itself.
+ *
+ * @param reviewedOnly - Keep only mappings whose review status is 'reviewed'
+ * @returns SQL condition
+ */
+export function mappingReviewCondition(reviewedOnly = false): string {
+  return reviewedOnly
+    ? `(review_status = 'reviewed' OR (mapping_type = 'supersedes' AND review_status != 'retired'))`
+    : `review_status != 'retired'`;
+}
+
+/**
+ * Metadata a mapping file declares about itself (its `meta` object)
+ */
+export interface MappingFileMeta {
+  title: string;
+  version?: string;
+  created_date?: string;
+  sources?: string[];
+  confidence_basis?: string;
+  notes?: string;
+}
+
+/**
+ * Record a mapping file before ingesting its mappings
+ *
+ * Re-ingesting a file updates its metadata and keeps its ID, so the mappings
+ * ingested from it stay linked to it.
+ *
+ * @param db - Database client instance
+ * @param mappingFile - Path of the mapping file, relative to the repository root
+ * @param meta - Metadata of the mapping file
+ * @returns mapping_sources.id of the file
+ */
+export function registerMappingSource(
+  db: DatabaseClient,
+  mappingFile: string,
+  meta: MappingFileMeta
+): number {
+  db.run(
+    `INSERT INTO mapping_sources (mapping_file, title, version, created_date, sources, confidence_basis, notes)
+     VALUES (?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(mapping_file) DO UPDATE SET
+       title = excluded.title,
+       version = excluded.version,
+       created_date = excluded.created_date,
+       sources = excluded.sources,
+       confidence_basis = excluded.confidence_basis,
+       notes = excluded.notes`,
+    [
+      mappingFile,
+      meta.title,
+      meta.version ?? null,
+      meta.created_date ?? null,
+      JSON.stringify(meta.sources ?? []),
+      meta.confidence_basis ?? null,
+      meta.notes ?? null,
+    ]
+  );
+
+  const source = db.queryOne<{ id: number }>(
+    `SELECT id FROM mapping_sources WHERE mapping_file = ?`,
+    [mappingFile]
+  );
+  if (!source) {
+    throw new Error(`Failed to register mapping source ${mappingFile}`);
+  }
+  return source.id;
+}
+
+/**
+ * Parse the JSON array of source documents stored in mapping_sources.sources
+ */
+function parseSources(sources: string | null): string[] {
+  if (!sources) {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(sources);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Move the provenance columns of mappings into a provenance object, adding
+ * the metadata of the mapping file each mapping was ingested from
+ *
+ * @param db - Database client instance
+ * @param mappings - ot_mappings rows
+ * @returns Mappings with their provenance, in the same order
+ */
+export function withProvenance(db: DatabaseClient, mappings: OTMapping[]): ProvenancedMapping[] {
+  const sourceIds = [
+    ...new Set(
+      mappings.flatMap((m) => (m.mapping_source_id === null ? [] : [m.mapping_source_id]))
+    ),
+  ];
+  const sources = new Map(
+    (sourceIds.length > 0
+      ? db.query<MappingSource>(
+          `SELECT * FROM mapping_sources WHERE id IN (${sourceIds.map(() => '?').join(', ')})`,
+          sourceIds
+        )
+      : []
+    ).map((source): [number, MappingSource] => [source.id, source])
+  );
+
+  return mappings.map(
+    ({
+      mapping_source_id,
+      source_document,
+      source_version,
+      review_status,
+      reviewed_by,
+      reviewed_date,
+      ...mapping
+    }) => {
+      const source = mapping_source_id === null ? undefined : sources.get(mapping_source_id);
+      return {
+        ...mapping,
+        provenance: {
+          source_document,
+          source_version,
+          mapping_file: source?.mapping_file ?? null,
+          mapping_file_version: source?.version ?? null,
+          sources: parseSources(source?.sources ?? null),
+          confidence_basis: source?.confidence_basis ?? null,
+          review_status,
+          reviewed_by,
+          reviewed_date,
+        },
+      };
+    }
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * Structural groups of a standard: IEC 62443 foundational requirements,
+ * NIST 800-53 control families, NIST 800-82 chapters and MITRE ATT&CK for
+ * ICS tactics
+ */
+
+import { RequirementGroup } from '../types/index.js';
+
+/** IEC 62443 foundational requirements, in document order */
+const IEC62443_FOUNDATIONAL_REQUIREMENTS: readonly RequirementGroup[] = [
+  { id: 'FR 1', title: 'Identification and authentication control' },
+  { id: 'FR 2', title: 'Use control' },
+  { id: 'FR 3', title: 'System integrity' },
+  { id: 'FR 4', title: 'Data confidentiality' },
+  { id: 'FR 5', title: 'Restricted data flow' },
+  { id: 'FR 6', title: 'Timely response to events' },
+  { id: 'FR 7', title: 'Resource availability' },
+];
+
+/** NIST 800-53 control families, in catalog order */
+const NIST_80053_FAMILIES: readonly RequirementGroup[] = [
+  { id: 'AC', title: 'Access Control' },
+  { id: 'AT', title: 'Awareness and Training' },
+  { id: 'AU', title: 'Audit and Accountability' },
+  { id: 'CA', title: 'Assessment, Authorization, and Monitoring' },
+  { id: 'CM', title: 'Configuration Management' },
+  { id: 'CP', title: 'Contingency Planning' },
+  { id: 'IA', title: 'Identification and Authentication' },
+  { id: 'IR', title: 'Incident Response' },
+  { id: 'MA', title: 'Maintenance' },
+  { id: 'MP', title: 'Media Protection' },
+  { id: 'PE', title: 'Physical and Environmental Protection' },
+  { id: 'PL', title: 'Planning' },
+  { id: 'PM', title: 'Program Management' },
+  { id: 'PS', title: 'Personnel Security' },
+  { id: 'PT', title: 'PII Processing and Transparency' },
+  { id: 'RA', title: 'Risk Assessment' },
+  { id: 'SA', title: 'System and Services Acquisition' },
+  { id: 'SC', title: 'System and Communications Protection' },
+  { id: 'SI', title: 'System and Information Integrity' },
+  { id: 'SR', title: 'Supply Chain Risk Management' },
+];
+
+/** NIST 800-82 chapters the guidance items are extracted from, in document order */
+const NIST_80082_CHAPTERS: readonly RequirementGroup[] = [
+  { id: 'Chapter 5', title: 'Risk Management' },
+  { id: 'Chapter 6', title: 'Security Program' },
+  { id: 'Appendix G', title: 'ICS Overlay' },
+];
+
+/** MITRE ATT&CK for ICS tactics, in matrix order (IDs as stored in mitre_ics_techniques) */
+const MITRE_ICS_TACTICS: readonly RequirementGroup[] = [
+  { id: 'initial-access', title: 'Initial Access' },
+  { id: 'execution', title: 'Execution' },
+  { id: 'persistence', title: 'Persistence' },
+  { id: 'privilege-escalation', title: 'Privilege Escalation' },
+  { id: 'evasion', title: 'Evasion' },
+  { id: 'discovery', title: 'Discovery' },
+  { id: 'lateral-movement', title: 'Lateral Movement' },
+  { id: 'collection', title: 'Collection' },
+  { id: 'command-and-control', title: 'Command and Control' },
+  { id: 'inhibit-response-function', title: 'Inhibit Response Function' },
+  { id: 'impair-process-control', title: 'Impair Process Control' },
+  { id: 'impact', title: 'Impact' },
+];
+
+/**
+ * Groups a standard is divided into, in document order
+ *
+ * @param standard - Standard identifier
+ * @returns Known groups, or an empty array for standards without a known structure
+ */
+export function standardGroups(standard: string): readonly RequirementGroup[] {
+  if (standard.startsWith('iec62443')) {
+    return IEC62443_FOUNDATIONAL_REQUIREMENTS;
+  }
+  if (standard === 'nist-800-53') {
+    return NIST_80053_FAMILIES;
+  }
+  if (standard === 'nist-800-82') {
+    return NIST_80082_CHAPTERS;
+  }
+  if (standard === 'mitre-ics') {
+    return MITRE_ICS_TACTICS;
+  }
+  return [];
+}
+
+/**
+ * Group of a requirement: its foundational requirement (IEC 62443 system and
+ * component requirements, "SR 1.1" is in FR 1), control family (NIST 800-53,
+ * "AC-2(1)" is in AC) or chapter (NIST 800-82, "G-6.11" is in Chapter 6)
+ *
+ * @param standard - Standard identifier
+ * @param requirementId - Requirement ID as stored
+ * @returns The group, or null for standards and IDs without one
+ */
+export function requirementGroup(standard: string, requirementId: string): RequirementGroup | null {
+  let id: string | undefined;
+  if (standard.startsWith('iec62443')) {
+    const number = requirementId.match(/^(?:SR|CR|EDR|HDR|NDR|SAR)\s*(\d+)\./i)?.[1];
+    id = number && `FR ${number}`;
+  } else if (standard === 'nist-800-53') {
+    id = requirementId.match(/^([A-Z]{2})-\d/i)?.[1]?.toUpperCase();
+  } else if (standard === 'nist-800-82') {
+    const match = requirementId.match(/^G-(?:(\d+)|App([A-Z]))\./i);
+    id = match?.[1]
+      ? `Chapter ${match[1]}`
+      : match?.[2]
+        ? `Appendix ${match[2].toUpperCase()}`
+        : undefined;
+    // Chapters without a recorded title are named after themselves
+    if (id && !standardGroups(standard).some((group) => group.id === id)) {
+      return { id, title: id };
+    }
+  }
+
+  return (id && standardGroups(standard).find((group) => group.id === id)) || null;
+}
+
+/** IEC 62443 requirement prefixes, in the order a section lists them */
+const IEC62443_PREFIXES = ['SR', 'CR', 'SAR', 'EDR', 'HDR', 'NDR'];
+
+/**
+ * Compare two requirement IDs of a standard by their position in the document
+ *
+ * IDs compare with numbers as numbers ("SR 1.2" before "SR 1.10", "AC-2(1)"
+ * before "AC-10"), so enhancements follow their base requirement. IEC 62443
+ * component requirements are ordered by number first, as IEC 62443-4-2
+ * lists "CR 3.2", "SAR 3.2", "EDR 3.2" side by side.
+ */
+export function compareRequirementIds(standard: string, a: string, b: string): number {
+  const byText = (x: string, y: string) => x.localeCompare(y, undefined, { numeric: true });
+  if (standard.startsWith('iec62443')) {
+    const parse = (id: string) => id.match(/^([A-Z]+)\s*(\d+(?:\.\d+)*)(.*)$/i);
+    const [x, y] = [parse(a), parse(b)];
+    if (x && y) {
+      const rank = (prefix = '') => {
+        const index = IEC62443_PREFIXES.indexOf(prefix.toUpperCase());
+        return index >= 0 ? index : IEC62443_PREFIXES.length;
+      };
+      return (
+        byText(x[2] ?? '', y[2] ?? '') ||
+        rank(x[1]) - rank(y[1]) ||
+        byText(x[1] ?? '', y[1] ?? '') ||
+        byText(x[3] ?? '', y[3] ?? '')
+      );
+    }
+  }
+  return byText(a, b);
+}
+
+/**
+ * MITRE ATT&CK for ICS tactic of a technique, as a group
+ *
+ * @param tactic - Tactic as stored in mitre_ics_techniques (e.g., "initial-access")
+ */
+export function tacticGroup(tactic: string): RequirementGroup {
+  return (
+    MITRE_ICS_TACTICS.find((group) => group.id === tactic) ?? {
+      id: tactic,
+      title: tactic
+        .split('-')
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join(' '),
+    }
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Requirement ID normalization: the many ways an ID is written ("AC-2",
+ * "AC-02", "ac 2"; "SR1.1", "SR 1.1"; "CR 1.1 RE(1)", "CR 1.1 RE 1";
+ * "t0800") resolve to the ID stored for the standard
+ */
+
+import { DatabaseClient } from './client.js';
+import { versionCondition } from './versions.js';
+import { mappingReviewCondition } from './mapping-provenance.js';
+import { OTMapping } from '../types/index.js';
+
+/**
+ * Standard names accepted in front of a requirement ID
+ * (e.g., "IEC 62443-3-3 SR 1.1", "NIST SP 800-53 Rev 5 AC-2(1)")
+ */
+const STANDARD_PREFIXES: ReadonlyArray<{
+  pattern: RegExp;
+  standard: (match: RegExpMatchArray) => string;
+}> = [
+  {
+    pattern:
+      /^(?:ISA\s*\/\s*)?(?:IEC\s*)?62443\s*-\s*([1-4])\s*-\s*([1-4])(?:\s*:\s*\d{4})?(?![\d.])/i,
+    standard: (match) => `iec62443-${match[1]}-${match[2]}`,
+  },
+  {
+    pattern: /^(?:NIST\s*)?(?:SP\s*)?800\s*-\s*(53|82)(?:\s*(?:Rev\.?|R)\s*\d+)?(?![\d.])/i,
+    standard: (match) => `nist-800-${match[1]}`,
+  },
+  {
+    pattern: /^MITRE(?:\s+ATT&CK)?(?:\s+for)?(?:\s+ICS)?\b/i,
+    standard: () => 'mitre-ics',
+  },
+];
+
+/**
+ * Requirement ID split from the standard it was prefixed with
+ */
+export interface RequirementReference {
+  /** Standard named in the prefix, or null without a prefix */
+  readonly standard: string | null;
+  /** Requirement ID without the prefix */
+  readonly requirement_id: string;
+}
+
+/**
+ * Split a standard prefix such as "IEC 62443-3-3" or "NIST SP 800-53" off a requirement ID
+ */
+export function parseRequirementReference(input: string): RequirementReference {
+  const trimmed = input.trim();
+
+  for (const { pattern, standard } of STANDARD_PREFIXES) {
+    const match = trimmed.match(pattern);
+    if (match) {
+      const requirementId = trimmed.slice(match[0].length).replace(/^[\s:,]+/, '');
+      if (requirementId !== '') {
+        return { standard: standard(match), requirement_id: requirementId };
+      }
+    }
+  }
+
+  return { standard: null, requirement_id: trimmed };
+}
+
+/**
+ * Comparison key of a requirement ID: IDs with the same key name the same requirement
+ *
+ * Case, spaces, hyphens and leading zeros are ignored, and enhancements written
+ * "RE 1", "RE(1)" or "(1)" are the same. "AC-02" and "ac 2", "SR1.1" and
+ * "SR 1.1", "CR 1.1 RE(1)" and "CR 1.1 RE 1" share a key.
+ */
+export function requirementKey(requirementId: string): string {
+  return requirementId
+    .toUpperCase()
+    .replace(
+      /\s*(?:(?<![A-Z])RE\s*\(?\s*(\d+)\s*\)?|\(\s*(\d+)\s*\))/g,
+      (_match, re: string | undefined, enhancement: string | undefined) => `(${re ?? enhancement})`
+    )
+    .replace(/[\s_-]+/g, '')
+    .replace(/(^|\D)0+(?=\d)/g, '$1');
+}
+
+/**
+ * Canonical form of a requirement ID, as published by the standard and stored
+ * by the ingestion scripts
+ *
+ * - NIST 800-53: "AC-2", "AC-2(1)" (not "AC-02", "ac 2", "AC-2 (01)")
+ * - IEC 62443: "SR 1.1", "CR 1.1 RE 1" (not "SR1.1", "CR 1.1 RE(1)", "CR 1.1(1)")
+ * - MITRE ATT&CK for ICS: "T0800", "M0801"
+ *
+ * IDs that do not fit their standard's pattern (and IDs of other standards)
+ * are returned trimmed, otherwise unchanged.
+ *
+ * @param standard - Standard identifier
+ * @param requirementId - Requirement ID, without a standard prefix
+ */
+export function canonicalRequirementId(standard: string, requirementId: string): string {
+  const id = requirementId.trim();
+
+  if (standard === 'nist-800-53') {
+    const match = id.match(
+      /^([A-Z]{2})\s*-?\s*0*(\d+)(?:\s*\(\s*0*(\d+)\s*\)|\s+RE\s*\(?\s*0*(\d+)\s*\)?)?$/i
+    );
+    if (match) {
+      const [, family = '', control, enhancement = match[4]] = match;
+      return `${family.toUpperCase()}-${control}${enhancement ? `(${enhancement})` : ''}`;
+    }
+  } else if (standard.startsWith('iec62443')) {
+    const match = id.match(
+      /^([A-Z]+)\s*-?\s*(\d+(?:\.\d+)*)(?:\s*(?:RE\s*)?\(\s*0*(\d+)\s*\)|\s*RE\s*0*(\d+))?$/i
+    );
+    if (match) {
+      const [, prefix = '', number, enhancement = match[4]] = match;
+      return `${prefix.toUpperCase()} ${number}${enhancement ? ` RE ${enhancement}` : ''}`;
+    }
+  } else if (standard === 'mitre-ics') {
+    return normalizeMitreId(id);
+  }
+
+  return id;
+}
+
+/**
+ * Resolve a requirement ID as written by a user to the ID stored for the standard
+ *
+ * The ID as written or in its canonical form wins; otherwise the requirement
+ * of the standard (in the requested or current version) with the same
+ * requirementKey() answers, so IDs stored before canonicalization still resolve. A
+ * prefix naming another standard does not resolve.
+ *
+ * @param db - Database client instance
+ * @param standard - Standard identifier
+ * @param input - Requirement ID, optionally prefixed with the standard name
+ * @param version - Version to look in (default: the current version)
+ * @returns The stored (canonical) requirement ID, or null if there is none
+ */
+export function resolveRequirementId(
+  db: DatabaseClient,
+  standard: string,
+  input: string,
+  version?: string
+): string | null {
+  const reference = parseRequirementReference(input);
+  if (reference.standard && reference.standard !== standard) {
+    return null;
+  }
+
+  const condition = versionCondition(version);
+  const exact = db.queryOne<{ requirement_id: string }>(
+    `SELECT r.requirement_id FROM ot_requirements r
+     WHERE r.standard_id = ? AND r.requirement_id IN (?, ?) AND ${condition.sql}
+     LIMIT 1`,
+    [
+      standard,
+      reference.requirement_id,
+      canonicalRequirementId(standard, reference.requirement_id),
+      ...condition.params,
+    ]
+  );
+  if (exact) {
+    return exact.requirement_id;
+  }
+
+  const key = requirementKey(reference.requirement_id);
+  const candidates = db.query<{ requirement_id: string }>(
+    `SELECT DISTINCT r.requirement_id FROM ot_requirements r
+     WHERE r.standard_id = ? AND ${condition.sql}
+     ORDER BY r.requirement_id`,
+    [standard, ...condition.params]
+  );
+  return (
+    candidates.find((row) => requirementKey(row.requirement_id) === key)?.requirement_id ?? null
+  );
+}
+
+/**
+ * Mappings in which a requirement is the source or the target, whichever way
+ * the mapping writes the requirement ID (mapping files may use "IA-02" for "IA-2").
+ * Retired mappings are left out.
+ *
+ * @param db - Database client instance
+ * @param standard - Standard identifier
+ * @param requirementId - Requirement ID (any form with the same requirementKey())
+ * @param reviewedOnly - Keep only reviewed mappings (see mappingReviewCondition())
+ * @returns Mappings in insertion order
+ */
+export function requirementMappings(
+  db: DatabaseClient,
+  standard: string,
+  requirementId: string,
+  reviewedOnly = false
+): OTMapping[] {
+  const key = requirementKey(requirementId);
+
+  return db
+    .query<OTMapping>(
+      `SELECT * FROM ot_mappings
+       WHERE (source_standard = ? OR target_standard = ?)
+         AND ${mappingReviewCondition(reviewedOnly)}
+       ORDER BY id`,
+      [standard, standard]
+    )
+    .filter(
+      (mapping) =>
+        (mapping.source_standard === standard &&
+          requirementKey(mapping.source_requirement) === key) ||
+        (mapping.target_standard === standard && requirementKey(mapping.target_requirement) === key)
+    );
+}
+
+/**
+ * Canonical MITRE ATT&CK ID: "t0800" and "MITRE ATT&CK T800" are "T0800",
+ * "t0800.1" is "T0800.001", "m801" is "M0801"
+ */
+export function normalizeMitreId(input: string): string {
+  const { requirement_id } = parseRequirementReference(input);
+  const match = requirement_id.match(/^([TM])\s*-?\s*(\d+)(?:\.(\d+))?$/i);
+  if (!match) {
+    return requirement_id.toUpperCase();
+  }
+
+  const [, prefix = '', id = '', subtechnique] = match;
+  return (
+    `${prefix.toUpperCase()}${id.padStart(4, '0')}` +
+    (subtechnique ? `.${subtechnique.padStart(3, '0')}` : '')
+  );
+}
@@ -17,7 +17,25 @@ CREATE TABLE IF NOT EXISTS ot_standards (
   notes TEXT
 );
 
+-- Published versions of each standard (e.g. NIST 800-53 Rev 4 and Rev 5).
+-- ot_standards holds the standard's current version; requirements of versions
+-- whose status is not 'current' are only returned when asked for by version.
+CREATE TABLE IF NOT EXISTS ot_standard_versions (
+  standard_id TEXT NOT NULL,
+  version TEXT NOT NULL,
+  status TEXT,
+  published_date TEXT,
+  url TEXT,
+  notes TEXT,
+  PRIMARY KEY (standard_id, version),
+  FOREIGN KEY (standard_id) REFERENCES ot_standards(id) ON DELETE CASCADE
+);
+
 -- Requirements/controls with granular metadata
+-- version: standard version the requirement belongs to (NULL: the version in
+-- ot_standards); unique per standard, requirement and version (idx_requirements_unique)
+-- status: NULL for requirements in force, 'withdrawn' for withdrawn requirements
+-- (their successors are 'supersedes' mappings in ot_mappings)
 CREATE TABLE IF NOT EXISTS ot_requirements (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   standard_id TEXT NOT NULL,
@@ -28,35 +46,39 @@ CREATE TABLE IF NOT EXISTS ot_requirements (
   rationale TEXT,
   component_type TEXT,
   purdue_level INTEGER CHECK (purdue_level IS NULL OR (purdue_level >= 0 AND purdue_level <= 5)),
-  FOREIGN KEY (standard_id) REFERENCES ot_standards(id) ON DELETE CASCADE,
-  UNIQUE (standard_id, requirement_id)
+  version TEXT,
+  status TEXT CHECK (status IS NULL OR status = 'withdrawn'),
+  FOREIGN KEY (standard_id) REFERENCES ot_standards(id) ON DELETE CASCADE
 );
 
 -- Full-text search index for requirements (FTS5)
+-- Porter stemming lets "authentication" match "authenticate"/"authenticated"
 CREATE VIRTUAL TABLE IF NOT EXISTS ot_requirements_fts USING fts5(
   requirement_id,
   title,
   description,
+  rationale,
   content='ot_requirements',
-  content_rowid='id'
+  content_rowid='id',
+  tokenize='porter unicode61'
 );
 
 -- Triggers to keep FTS index synchronized with ot_requirements
 CREATE TRIGGER IF NOT EXISTS ot_requirements_fts_insert AFTER INSERT ON ot_requirements BEGIN
-  INSERT INTO ot_requirements_fts(rowid, requirement_id, title, description)
-  VALUES (new.id, new.requirement_id, new.title, new.description);
+  INSERT INTO ot_requirements_fts(rowid, requirement_id, title, description, rationale)
+  VALUES (new.id, new.requirement_id, new.title, new.description, new.rationale);
 END;
 
 CREATE TRIGGER IF NOT EXISTS ot_requirements_fts_delete AFTER DELETE ON ot_requirements BEGIN
-  INSERT INTO ot_requirements_fts(ot_requirements_fts, rowid, requirement_id, title, description)
-  VALUES ('delete', old.id, old.requirement_id, old.title, old.description);
+  INSERT INTO ot_requirements_fts(ot_requirements_fts, rowid, requirement_id, title, description, rationale)
+  VALUES ('delete', old.id, old.requirement_id, old.title, old.description, old.rationale);
 END;
 
 CREATE TRIGGER IF NOT EXISTS ot_requirements_fts_update AFTER UPDATE ON ot_requirements BEGIN
-  INSERT INTO ot_requirements_fts(ot_requirements_fts, rowid, requirement_id, title, description)
-  VALUES ('delete', old.id, old.requirement_id, old.title, old.description);
-  INSERT INTO ot_requirements_fts(rowid, requirement_id, title, description)
-  VALUES (new.id, new.requirement_id, new.title, new.description);
+  INSERT INTO ot_requirements_fts(ot_requirements_fts, rowid, requirement_id, title, description, rationale)
+  VALUES ('delete', old.id, old.requirement_id, old.title, old.description, old.rationale);
+  INSERT INTO ot_requirements_fts(rowid, requirement_id, title, description, rationale)
+  VALUES (new.id, new.requirement_id, new.title, new.description, new.rationale);
 END;
 
 -- IEC 62443 security level mappings
@@ -70,7 +92,20 @@ CREATE TABLE IF NOT EXISTS security_levels (
   FOREIGN KEY (requirement_db_id) REFERENCES ot_requirements(id) ON DELETE CASCADE
 );
 
+-- Mapping files ingested into ot_mappings, with the metadata they declare
+CREATE TABLE IF NOT EXISTS mapping_sources (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  mapping_file TEXT NOT NULL UNIQUE,  -- Path relative to the repository root
+  title TEXT,
+  version TEXT,
+  created_date TEXT,
+  sources TEXT,                       -- JSON array of the documents the file draws on
+  confidence_basis TEXT,
+  notes TEXT
+);
+
 -- Cross-standard mappings (the moat)
+-- (provenance and review columns are added to older databases by DatabaseClient)
 CREATE TABLE IF NOT EXISTS ot_mappings (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   source_standard TEXT NOT NULL,
@@ -80,6 +115,70 @@ CREATE TABLE IF NOT EXISTS ot_mappings (
   mapping_type TEXT NOT NULL,
   confidence REAL CHECK (confidence IS NULL OR (confidence >= 0.0 AND confidence <= 1.0)),
   notes TEXT,
+  created_date TEXT DEFAULT (datetime('now')),
+  mapping_source_id INTEGER REFERENCES mapping_sources(id) ON DELETE SET NULL,
+  source_document TEXT,
+  source_version TEXT,
+  review_status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (review_status IN ('draft', 'reviewed', 'disputed', 'retired')),
+  reviewed_by TEXT,
+  reviewed_date TEXT
+);
+
+-- Machine-generated mapping candidates from suggest_mappings, awaiting review.
+-- Kept apart from ot_mappings so that no tool mistakes them for curated data;
+-- a curator promotes a suggestion by proposing it (see pending_mappings).
+CREATE TABLE IF NOT EXISTS mapping_suggestions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_standard TEXT NOT NULL,
+  source_requirement TEXT NOT NULL,
+  target_standard TEXT NOT NULL,
+  target_requirement TEXT NOT NULL,
+  score REAL NOT NULL CHECK (score >= 0.0 AND score <= 1.0),
+  text_similarity REAL NOT NULL,
+  keyword_overlap REAL NOT NULL,
+  family_affinity REAL NOT NULL,
+  neighbour_support REAL NOT NULL,
+  shared_terms TEXT,                  -- JSON array of the terms both requirements use
+  method TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'rejected')),
+  created_date TEXT DEFAULT (datetime('now')),
+  UNIQUE (source_standard, source_requirement, target_standard, target_requirement)
+);
+
+-- Mappings proposed by curators (scripts/curate-mappings.ts), awaiting a
+-- decision. Accepted mappings are exported to data/mappings/*.json and reach
+-- ot_mappings only by ingesting those files, so curated data stays in git.
+CREATE TABLE IF NOT EXISTS pending_mappings (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  source_standard TEXT NOT NULL,
+  source_requirement TEXT NOT NULL,
+  target_standard TEXT NOT NULL,
+  target_requirement TEXT NOT NULL,
+  mapping_type TEXT NOT NULL,
+  confidence REAL CHECK (confidence IS NULL OR (confidence >= 0.0 AND confidence <= 1.0)),
+  notes TEXT,
+  source_document TEXT,
+  source_version TEXT,
+  suggestion_id INTEGER REFERENCES mapping_suggestions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'rejected')),
+  proposed_by TEXT NOT NULL,
+  proposed_date TEXT DEFAULT (datetime('now')),
+  decided_by TEXT,
+  decided_date TEXT,
+  UNIQUE (source_standard, source_requirement, target_standard, target_requirement)
+);
+
+-- Audit trail of the curation of pending mappings, one row per action
+CREATE TABLE IF NOT EXISTS mapping_curation_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  pending_mapping_id INTEGER NOT NULL REFERENCES pending_mappings(id),
+  action TEXT NOT NULL CHECK (action IN ('propose', 'accept', 'reject', 'annotate')),
+  actor TEXT NOT NULL,
+  comment TEXT,
+  changes TEXT,                       -- JSON object of changed fields: { field: [old, new] }
   created_date TEXT DEFAULT (datetime('now'))
 );
 
@@ -201,6 +300,148 @@ CREATE TABLE IF NOT EXISTS sector_applicability (
   notes TEXT
 );
 
+-- =============================================================================
+-- Glossary and Search Vocabulary
+-- =============================================================================
+
+-- OT/ICS acronyms and terms (version tracked in db_metadata 'glossary_version')
+CREATE TABLE IF NOT EXISTS ot_glossary (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  term TEXT NOT NULL UNIQUE,        -- 'MFA', 'HMI', 'malware'
+  term_type TEXT NOT NULL,          -- 'acronym' or 'synonym'
+  category TEXT,                    -- 'identity', 'asset', 'attack', 'network', ...
+  definition TEXT
+);
+
+-- Equivalent forms of a glossary term, used to expand search queries both ways
+CREATE TABLE IF NOT EXISTS ot_glossary_expansions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  glossary_id INTEGER NOT NULL,
+  expansion TEXT NOT NULL,          -- 'multifactor authentication'
+  FOREIGN KEY (glossary_id) REFERENCES ot_glossary(id) ON DELETE CASCADE,
+  UNIQUE(glossary_id, expansion)
+);
+
+-- =============================================================================
+-- Unified Knowledge Search Index
+-- =============================================================================
+
+-- One FTS5 index over requirements, MITRE techniques and mitigations, zones and
+-- conduits, so search_ot_knowledge ranks every entity type with a common BM25
+-- score. entity_rowid is the rowid of the source row; the triggers below keep
+-- the index synchronized (DatabaseClient backfills it when first created).
+CREATE VIRTUAL TABLE IF NOT EXISTS ot_knowledge_fts USING fts5(
+  entity_type UNINDEXED,            -- 'requirement', 'technique', 'mitigation', 'zone', 'conduit'
+  entity_rowid UNINDEXED,
+  ref,                              -- requirement/technique/mitigation ID
+  title,
+  body,
+  tokenize='porter unicode61'
+);
+
+-- Triggers to keep ot_knowledge_fts synchronized with its source tables
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_requirement_insert AFTER INSERT ON ot_requirements BEGIN
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('requirement', new.id, new.requirement_id, new.title,
+          COALESCE(new.description, '') || ' ' || COALESCE(new.rationale, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_requirement_delete AFTER DELETE ON ot_requirements BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'requirement' AND entity_rowid = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_requirement_update AFTER UPDATE ON ot_requirements BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'requirement' AND entity_rowid = old.id;
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('requirement', new.id, new.requirement_id, new.title,
+          COALESCE(new.description, '') || ' ' || COALESCE(new.rationale, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_technique_insert AFTER INSERT ON mitre_ics_techniques BEGIN
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('technique', new.rowid, new.technique_id, new.name,
+          COALESCE(new.description, '') || ' ' || COALESCE(new.tactic, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_technique_delete AFTER DELETE ON mitre_ics_techniques BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'technique' AND entity_rowid = old.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_technique_update AFTER UPDATE ON mitre_ics_techniques BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'technique' AND entity_rowid = old.rowid;
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('technique', new.rowid, new.technique_id, new.name,
+          COALESCE(new.description, '') || ' ' || COALESCE(new.tactic, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_mitigation_insert AFTER INSERT ON mitre_ics_mitigations BEGIN
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('mitigation', new.rowid, new.mitigation_id, new.name, new.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_mitigation_delete AFTER DELETE ON mitre_ics_mitigations BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'mitigation' AND entity_rowid = old.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_mitigation_update AFTER UPDATE ON mitre_ics_mitigations BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'mitigation' AND entity_rowid = old.rowid;
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('mitigation', new.rowid, new.mitigation_id, new.name, new.description);
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_zone_insert AFTER INSERT ON zones BEGIN
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('zone', new.id, NULL, new.name,
+          COALESCE(new.description, '') || ' ' || COALESCE(new.typical_assets, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_zone_delete AFTER DELETE ON zones BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'zone' AND entity_rowid = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_zone_update AFTER UPDATE ON zones BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'zone' AND entity_rowid = old.id;
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('zone', new.id, NULL, new.name,
+          COALESCE(new.description, '') || ' ' || COALESCE(new.typical_assets, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_conduit_insert AFTER INSERT ON conduits BEGIN
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('conduit', new.id, NULL, new.name,
+          COALESCE(new.description, '') || ' ' || COALESCE(new.security_requirements, ''));
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_conduit_delete AFTER DELETE ON conduits BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'conduit' AND entity_rowid = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS ot_knowledge_fts_conduit_update AFTER UPDATE ON conduits BEGIN
+  DELETE FROM ot_knowledge_fts WHERE entity_type = 'conduit' AND entity_rowid = old.id;
+  INSERT INTO ot_knowledge_fts(entity_type, entity_rowid, ref, title, body)
+  VALUES ('conduit', new.id, NULL, new.name,
+          COALESCE(new.description, '') || ' ' || COALESCE(new.security_requirements, ''));
+END;
+
+-- =============================================================================
+-- Semantic Search Vectors
+-- =============================================================================
+
+-- LSA model built by scripts/build-vectors.ts (npm run build:vectors); vectors
+-- are JSON arrays of numbers. Requirements added after the last build have no
+-- vector and are only found by keyword search until the vectors are rebuilt.
+CREATE TABLE IF NOT EXISTS ot_vector_terms (
+  term TEXT PRIMARY KEY,            -- analyzed term ('credential', 'firmware')
+  idf REAL NOT NULL,
+  projection TEXT NOT NULL          -- coordinates of the term in the latent space
+);
+
+CREATE TABLE IF NOT EXISTS ot_requirement_vectors (
+  requirement_db_id INTEGER PRIMARY KEY,
+  embedding TEXT NOT NULL,          -- unit vector of the requirement text
+  FOREIGN KEY (requirement_db_id) REFERENCES ot_requirements(id) ON DELETE CASCADE
+);
+
 -- =============================================================================
 -- System Metadata and Audit Trail
 -- =============================================================================
@@ -241,6 +482,10 @@ CREATE INDEX IF NOT EXISTS idx_requirements_component
 CREATE INDEX IF NOT EXISTS idx_requirements_purdue
   ON ot_requirements(purdue_level);
 
+-- One row per requirement and standard version (no duplicates)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_requirements_unique
+  ON ot_requirements(standard_id, requirement_id, COALESCE(version, ''));
+
 -- Indexes for security level queries
 CREATE INDEX IF NOT EXISTS idx_security_levels_requirement
   ON security_levels(requirement_db_id);
@@ -258,10 +503,22 @@ CREATE INDEX IF NOT EXISTS idx_mappings_target
 CREATE INDEX IF NOT EXISTS idx_mappings_type
   ON ot_mappings(mapping_type);
 
+CREATE INDEX IF NOT EXISTS idx_mappings_review_status
+  ON ot_mappings(review_status);
+
 -- Ensure unique mappings (no duplicates)
 CREATE UNIQUE INDEX IF NOT EXISTS idx_mappings_unique
   ON ot_mappings(source_standard, source_requirement, target_standard, target_requirement);
 
+CREATE INDEX IF NOT EXISTS idx_mapping_suggestions_status
+  ON mapping_suggestions(status);
+
+CREATE INDEX IF NOT EXISTS idx_pending_mappings_status
+  ON pending_mappings(status);
+
+CREATE INDEX IF NOT EXISTS idx_mapping_curation_log_mapping
+  ON mapping_curation_log(pending_mapping_id);
+
 -- Indexes for MITRE ATT&CK queries
 CREATE INDEX IF NOT EXISTS idx_mitre_techniques_tactic
   ON mitre_ics_techniques(tactic);
@@ -295,6 +552,10 @@ CREATE INDEX IF NOT EXISTS idx_zones_sl_target ON zones(security_level_target);
 CREATE INDEX IF NOT EXISTS idx_flows_source ON zone_conduit_flows(source_zone_id);
 CREATE INDEX IF NOT EXISTS idx_flows_target ON zone_conduit_flows(target_zone_id);
 
+-- Indexes for glossary lookups
+CREATE INDEX IF NOT EXISTS idx_glossary_expansions_glossary
+  ON ot_glossary_expansions(glossary_id);
+
 -- Indexes for ingestion log (most recent operations first)
 CREATE INDEX IF NOT EXISTS idx_ingestion_log_timestamp
   ON ingestion_log(timestamp DESC);
@@ -0,0 +1,90 @@
+/**
+ * Standard versions: which version of a standard a requirement belongs to,
+ * which versions answer a query, and how ingestion records a version
+ */
+
+import { DatabaseClient } from './client.js';
+import { StandardStatus } from '../types/index.js';
+
+/**
+ * Version of an `r` (ot_requirements) row; requirements without a version
+ * belong to the version recorded in ot_standards
+ */
+export const REQUIREMENT_VERSION_SQL = `COALESCE(r.version, (SELECT std.version FROM ot_standards std WHERE std.id = r.standard_id))`;
+
+/**
+ * SQL condition on the `r` (ot_requirements) alias selecting the requirements
+ * of one standard version
+ *
+ * Without a version, requirements of versions whose status is not 'current'
+ * (such as a superseded revision) are left out; requirements of versions that
+ * are not listed in ot_standard_versions are kept.
+ *
+ * @param version - Version to select (case-insensitive), or undefined for the current version
+ * @returns SQL condition and its parameters
+ */
+export function versionCondition(version?: string): { sql: string; params: string[] } {
+  if (version) {
+    return { sql: `${REQUIREMENT_VERSION_SQL} = ? COLLATE NOCASE`, params: [version] };
+  }
+  return {
+    sql: `NOT EXISTS (
+      SELECT 1 FROM ot_standard_versions sv
+      WHERE sv.standard_id = r.standard_id AND sv.version = ${REQUIREMENT_VERSION_SQL}
+        AND sv.status != 'current'
+    )`,
+    params: [],
+  };
+}
+
+/**
+ * A published version of a standard, as recorded by an ingestion script
+ */
+export interface StandardRelease {
+  standard_id: string;
+  /** Name of the standard (used if the standard is not registered yet) */
+  name: string;
+  version: string;
+  status: StandardStatus;
+  published_date: string;
+  url: string;
+  notes?: string;
+}
+
+/**
+ * Register a standard version before ingesting its requirements
+ *
+ * Creates the standard if needed and records the version in
+ * ot_standard_versions. A current version supersedes the standard's previous
+ * current version and becomes the version shown in ot_standards.
+ *
+ * @param db - Database client instance
+ * @param release - The standard version
+ */
+export function registerStandardVersion(db: DatabaseClient, release: StandardRelease): void {
+  const { standard_id, name, version, status, published_date, url, notes = null } = release;
+
+  db.run(
+    `INSERT OR IGNORE INTO ot_standards (id, name, version, published_date, url, status, notes)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [standard_id, name, version, published_date, url, status, notes]
+  );
+  db.run(
+    `INSERT OR REPLACE INTO ot_standard_versions (standard_id, version, status, published_date, url)
+     VALUES (?, ?, ?, ?, ?)`,
+    [standard_id, version, status, published_date, url]
+  );
+
+  if (status === 'current') {
+    db.run(
+      `UPDATE ot_standard_versions SET status = 'superseded'
+       WHERE standard_id = ? AND version != ? AND status = 'current'`,
+      [standard_id, version]
+    );
+    db.run(
+      `UPDATE ot_standards SET version = ?, published_date = ?, url = ?, status = 'current'
+       WHERE id = ?`,
+      [version, published_date, url, standard_id]
+    );
+  }
+}
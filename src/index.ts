@@ -22,14 +22,38 @@ import { registerTools } from './tools/index.js';
 const __ownFilename = fileURLToPath(import.meta.url);
 const __ownDirname = dirname(__ownFilename);
 const packageRoot = join(__ownDirname, '..');
-import { searchRequirements } from './tools/search.js';
+import { searchRequirementsDetailed } from './tools/search.js';
 import { getRequirement } from './tools/get-requirement.js';
 import { listStandards } from './tools/list-standards.js';
 import { getMitreTechnique } from './tools/get-mitre-technique.js';
 import { mapSecurityLevelRequirements } from './tools/map-security-level-requirements.js';
 import { getZoneConduitGuidance } from './tools/get-zone-conduit-guidance.js';
 import { getRequirementRationale } from './tools/get-requirement-rationale.js';
+import { getGlossary } from './tools/get-glossary.js';
+import { searchKnowledge } from './tools/search-knowledge.js';
+import { getMitreMitigation } from './tools/get-mitre-mitigation.js';
+import { findSimilarRequirements } from './tools/find-similar-requirements.js';
+import { diffStandardVersions } from './tools/diff-standard-versions.js';
+import { getRequirements, MAX_BATCH_REQUIREMENTS } from './tools/get-requirements.js';
+import { getRequirementTree, formatRequirementTree } from './tools/get-requirement-tree.js';
+import { browseStandard } from './tools/browse-standard.js';
+import { resolveMappingPath } from './tools/resolve-mapping-path.js';
+import {
+  compareRequirements,
+  formatComparison,
+  MAX_COMPARED_REQUIREMENTS,
+  MIN_COMPARED_REQUIREMENTS,
+} from './tools/compare-requirements.js';
+import {
+  getCoverageMatrix,
+  formatCoverageMatrixCsv,
+  formatCoverageMatrixMarkdown,
+} from './tools/get-coverage-matrix.js';
+import { suggestMappings } from './tools/suggest-mappings.js';
+import { validateMappings } from './tools/validate-mappings.js';
 import { buildCitation } from './citation.js';
+import { QuerySyntaxError } from './search/query-parser.js';
+import { InvalidCursorError } from './search/cursor.js';
 
 /**
  * MCP Server class for OT Security standards and frameworks
@@ -88,7 +112,7 @@ export class McpServer {
             return this.handleGetRequirement(args);
 
           case 'list_ot_standards':
-            return this.handleListStandards();
+            return this.handleListStandards(args);
 
           case 'get_mitre_ics_technique':
             return this.handleGetMitreTechnique(args);
@@ -102,6 +126,45 @@ export class McpServer {
           case 'get_requirement_rationale':
             return this.handleGetRequirementRationale(args);
 
+          case 'get_ot_glossary':
+            return this.handleGetGlossary(args);
+
+          case 'search_ot_knowledge':
+            return this.handleSearchKnowledge(args);
+
+          case 'get_mitre_ics_mitigation':
+            return this.handleGetMitreMitigation(args);
+
+          case 'find_similar_requirements':
+            return this.handleFindSimilarRequirements(args);
+
+          case 'diff_standard_versions':
+            return this.handleDiffStandardVersions(args);
+
+          case 'get_ot_requirements':
+            return this.handleGetRequirements(args);
+
+          case 'get_requirement_tree':
+            return this.handleGetRequirementTree(args);
+
+          case 'browse_standard':
+            return this.handleBrowseStandard(args);
+
+          case 'resolve_mapping_path':
+            return this.handleResolveMappingPath(args);
+
+          case 'compare_ot_requirements':
+            return this.handleCompareRequirements(args);
+
+          case 'get_coverage_matrix':
+            return this.handleGetCoverageMatrix(args);
+
+          case 'suggest_mappings':
+            return this.handleSuggestMappings(args);
+
+          case 'validate_mappings':
+            return this.handleValidateMappings(args);
+
           default:
             throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
         }
@@ -127,12 +190,50 @@ export class McpServer {
   private async handleSearchRequirements(args: unknown) {
     const { query, ...options } = args as any;
 
-    const requirements = await searchRequirements(this.db, {
-      query,
-      options,
-    });
+    let response;
+    try {
+      response = await searchRequirementsDetailed(this.db, {
+        query,
+        options,
+      });
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                { error: 'Invalid cursor', message: error.message, cursor: options.cursor },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      }
+      if (!(error instanceof QuerySyntaxError)) {
+        throw error;
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'Invalid search query',
+                message: error.message,
+                position: error.position,
+                query,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
 
-    const withCitations = requirements.map((r: any) => ({
+    const withCitations = response.data.map((r: any) => ({
       ...r,
       _citation: buildCitation(
         `${r.standard_id ?? r.standard_name}:${r.requirement_id}`,
@@ -146,7 +247,7 @@ export class McpServer {
       content: [
         {
           type: 'text',
-          text: JSON.stringify(withCitations, null, 2),
+          text: JSON.stringify({ ...response, data: withCitations }, null, 2),
         },
       ],
     };
@@ -157,7 +258,7 @@ export class McpServer {
    * @param args - Tool arguments containing requirement_id, standard, and optional filters
    */
   private async handleGetRequirement(args: unknown) {
-    const { requirement_id, standard, version, include_mappings } = args as any;
+    const { requirement_id, standard, version, include_mappings, reviewed_only } = args as any;
 
     const result = await getRequirement(this.db, {
       requirement_id,
@@ -165,6 +266,7 @@ export class McpServer {
       options: {
         version,
         include_mappings: include_mappings ?? true,
+        reviewed_only: reviewed_only ?? false,
       },
     });
 
@@ -178,6 +280,7 @@ export class McpServer {
                 error: 'Requirement not found',
                 requirement_id,
                 standard,
+                ...(version ? { version } : {}),
               },
               null,
               2
@@ -195,10 +298,10 @@ export class McpServer {
             {
               ...result,
               _citation: buildCitation(
-                `${standard}:${requirement_id}`,
-                `${requirement_id} (${standard})`,
+                `${standard}:${result.requirement_id}`,
+                `${result.requirement_id} (${standard})`,
                 'get_ot_requirement',
-                { requirement_id, standard }
+                { requirement_id: result.requirement_id, standard }
               ),
             },
             null,
@@ -211,9 +314,12 @@ export class McpServer {
 
   /**
    * Handle list_ot_standards tool
+   * @param args - Tool arguments containing the optional version
    */
-  private async handleListStandards() {
-    const result = await listStandards(this.db);
+  private async handleListStandards(args: unknown) {
+    const { version } = (args ?? {}) as any;
+
+    const result = await listStandards(this.db, { version });
 
     return {
       content: [
@@ -305,11 +411,11 @@ export class McpServer {
             {
               ...result,
               _citation: buildCitation(
-                technique_id,
-                `${technique_id} — ${result.name ?? ''}`,
+                result.technique_id,
+                `${result.technique_id} — ${result.name ?? ''}`,
                 'get_mitre_ics_technique',
-                { technique_id },
-                `https://attack.mitre.org/techniques/${technique_id.replace('.', '/')}/`
+                { technique_id: result.technique_id },
+                `https://attack.mitre.org/techniques/${result.technique_id.replace('.', '/')}/`
               ),
             },
             null,
@@ -403,7 +509,7 @@ export class McpServer {
 
   /**
    * Handle get_requirement_rationale tool
-   * @param args - Tool arguments containing requirement_id and standard
+   * @param args - Tool arguments containing requirement_id, standard and optional reviewed_only
    */
   private async handleGetRequirementRationale(args: unknown) {
     // Validate arguments
@@ -424,9 +530,10 @@ export class McpServer {
       };
     }
 
-    const { requirement_id, standard } = args as {
+    const { requirement_id, standard, reviewed_only } = args as {
       requirement_id?: string;
       standard?: string;
+      reviewed_only?: boolean;
     };
 
     if (!requirement_id) {
@@ -466,6 +573,7 @@ export class McpServer {
     const result = await getRequirementRationale(this.db, {
       requirement_id,
       standard,
+      reviewed_only: reviewed_only ?? false,
     });
 
     if (!result) {
@@ -495,10 +603,273 @@ export class McpServer {
             {
               ...result,
               _citation: buildCitation(
-                `${standard}:${requirement_id}`,
-                `${requirement_id} rationale (${standard})`,
+                `${standard}:${result.requirement.requirement_id}`,
+                `${result.requirement.requirement_id} rationale (${standard})`,
                 'get_requirement_rationale',
-                { requirement_id, standard }
+                { requirement_id: result.requirement.requirement_id, standard }
+              ),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle get_ot_glossary tool
+   * @param args - Tool arguments containing optional term and category
+   */
+  private async handleGetGlossary(args: unknown) {
+    const { term, category } = (args ?? {}) as { term?: string; category?: string };
+
+    const result = await getGlossary(this.db, { term, category });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle search_ot_knowledge tool
+   * @param args - Tool arguments containing query and options
+   */
+  private async handleSearchKnowledge(args: unknown) {
+    const { query, ...options } = args as any;
+
+    let response;
+    try {
+      response = await searchKnowledge(this.db, { query, options });
+    } catch (error) {
+      if (!(error instanceof QuerySyntaxError)) {
+        throw error;
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'Invalid search query',
+                message: error.message,
+                position: error.position,
+                query,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle get_mitre_ics_mitigation tool
+   * @param args - Tool arguments containing mitigation_id
+   */
+  private async handleGetMitreMitigation(args: unknown) {
+    const { mitigation_id } = (args ?? {}) as { mitigation_id?: string };
+
+    if (!mitigation_id) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: 'mitigation_id parameter is required' }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const result = await getMitreMitigation(this.db, { mitigation_id });
+
+    if (!result) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: 'Mitigation not found', mitigation_id }, null, 2),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              _citation: buildCitation(
+                result.mitigation_id,
+                `${result.mitigation_id} — ${result.name ?? ''}`,
+                'get_mitre_ics_mitigation',
+                { mitigation_id: result.mitigation_id },
+                `https://attack.mitre.org/mitigations/${result.mitigation_id}/`
+              ),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle find_similar_requirements tool
+   * @param args - Tool arguments containing requirement_id, standard and optional filters
+   */
+  private async handleFindSimilarRequirements(args: unknown) {
+    const { requirement_id, standard, ...options } = (args ?? {}) as any;
+
+    if (!requirement_id || !standard) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { error: 'requirement_id and standard parameters are required' },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const result = await findSimilarRequirements(this.db, { requirement_id, standard, options });
+
+    if (!result) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'Requirement not found',
+                requirement_id,
+                standard,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              _citation: buildCitation(
+                `${standard}:${result.source.requirement_id}`,
+                `${result.source.requirement_id} (${standard})`,
+                'find_similar_requirements',
+                { requirement_id: result.source.requirement_id, standard }
+              ),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle diff_standard_versions tool
+   * @param args - Tool arguments containing standard, versions and optional filters
+   */
+  private async handleDiffStandardVersions(args: unknown) {
+    const { standard, from_version, to_version, ...options } = (args ?? {}) as any;
+
+    if (!standard) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: 'standard parameter is required' }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const result = await diffStandardVersions(this.db, {
+      standard,
+      from_version,
+      to_version,
+      options,
+    });
+
+    const requirementMissing =
+      result && options.requirement_id && Object.values(result.summary).every((n) => n === 0);
+    if (!result || requirementMissing) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: result
+                  ? 'Requirement not found in either version'
+                  : 'Standard version not found',
+                standard,
+                ...(from_version ? { from_version } : {}),
+                ...(to_version ? { to_version } : {}),
+                ...(options.requirement_id ? { requirement_id: options.requirement_id } : {}),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    // Cite the requirement under its stored ID when the diff lists it
+    const requirementId = options.requirement_id
+      ? (result.changes[0]?.requirement_id ?? options.requirement_id)
+      : undefined;
+    const subject = requirementId ? `${standard}:${requirementId}` : standard;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              _citation: buildCitation(
+                subject,
+                `${requirementId ?? standard} (${result.from.version} → ${result.to.version})`,
+                'diff_standard_versions',
+                {
+                  standard,
+                  from_version: result.from.version,
+                  to_version: result.to.version,
+                  ...(requirementId ? { requirement_id: requirementId } : {}),
+                }
               ),
             },
             null,
@@ -509,6 +880,600 @@ export class McpServer {
     };
   }
 
+  /**
+   * Handle get_ot_requirements tool
+   * @param args - Tool arguments containing requirement pairs and/or references, and optional filters
+   */
+  private async handleGetRequirements(args: unknown) {
+    const {
+      requirements = [],
+      references = [],
+      version,
+      include_mappings,
+      reviewed_only,
+    } = (args ?? {}) as any;
+
+    const error =
+      !Array.isArray(requirements) || !Array.isArray(references)
+        ? 'requirements and references must be arrays'
+        : requirements.length + references.length === 0
+          ? 'requirements or references parameter is required'
+          : requirements.length + references.length > MAX_BATCH_REQUIREMENTS
+            ? `At most ${MAX_BATCH_REQUIREMENTS} requirements can be requested at once`
+            : null;
+    if (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const result = await getRequirements(this.db, {
+      requirements,
+      references,
+      options: {
+        version,
+        include_mappings: include_mappings ?? true,
+        reviewed_only: reviewed_only ?? false,
+      },
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              requirements: result.requirements.map((requirement) => ({
+                ...requirement,
+                _citation: buildCitation(
+                  `${requirement.standard_id}:${requirement.requirement_id}`,
+                  `${requirement.requirement_id} (${requirement.standard_id})`,
+                  'get_ot_requirement',
+                  { requirement_id: requirement.requirement_id, standard: requirement.standard_id }
+                ),
+              })),
+              not_found: result.not_found,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle get_requirement_tree tool
+   * @param args - Tool arguments containing requirement_id, standard, version and format
+   */
+  private async handleGetRequirementTree(args: unknown) {
+    const { requirement_id, standard, version, format = 'json' } = (args ?? {}) as any;
+
+    if (!requirement_id || !standard) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { error: 'requirement_id and standard parameters are required' },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const result = await getRequirementTree(this.db, {
+      requirement_id,
+      standard,
+      options: { version },
+    });
+
+    if (!result) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'Requirement not found',
+                requirement_id,
+                standard,
+                ...(version ? { version } : {}),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    if (format === 'markdown') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatRequirementTree(result),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              _citation: buildCitation(
+                `${standard}:${result.requirement_id}`,
+                `${result.requirement_id} (${standard})`,
+                'get_requirement_tree',
+                { requirement_id: result.requirement_id, standard }
+              ),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle browse_standard tool
+   * @param args - Tool arguments containing standard and optional group, version and paging
+   */
+  private async handleBrowseStandard(args: unknown) {
+    const { standard, ...options } = (args ?? {}) as any;
+
+    if (!standard) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: 'standard parameter is required' }, null, 2),
+          },
+        ],
+      };
+    }
+
+    let result;
+    try {
+      result = await browseStandard(this.db, { standard, options });
+    } catch (error) {
+      if (!(error instanceof InvalidCursorError)) {
+        throw error;
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { error: 'Invalid cursor', message: error.message, cursor: options.cursor },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    if (!result || (options.group !== undefined && !result.group)) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: result ? 'Group not found' : 'Standard not found',
+                standard,
+                ...(options.group !== undefined ? { group: options.group } : {}),
+                ...(result ? { available_groups: result.groups?.map((g) => g.id) ?? [] } : {}),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const subject = result.group ? `${standard}:${result.group.id}` : standard;
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              _citation: buildCitation(
+                subject,
+                result.group ? `${result.group.id} ${result.group.title} (${standard})` : standard,
+                'browse_standard',
+                { standard, ...(result.group ? { group: result.group.id } : {}) }
+              ),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle resolve_mapping_path tool
+   * @param args - Tool arguments containing requirement_id, standard and optional traversal limits
+   */
+  private async handleResolveMappingPath(args: unknown) {
+    const { requirement_id, standard, ...options } = (args ?? {}) as any;
+
+    if (!requirement_id || !standard) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { error: 'requirement_id and standard parameters are required' },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const result = await resolveMappingPath(this.db, { requirement_id, standard, options });
+
+    if (!result) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { error: 'Requirement not found', requirement_id, standard },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              _citation: buildCitation(
+                `${standard}:${result.source.requirement_id}`,
+                `${result.source.requirement_id} (${standard})`,
+                'resolve_mapping_path',
+                { requirement_id: result.source.requirement_id, standard }
+              ),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle compare_ot_requirements tool
+   * @param args - Tool arguments containing requirements and/or references, version, max_hops, reviewed_only and format
+   */
+  private async handleCompareRequirements(args: unknown) {
+    const {
+      requirements = [],
+      references = [],
+      version,
+      max_hops,
+      reviewed_only,
+      format = 'json',
+    } = (args ?? {}) as any;
+
+    const error =
+      !Array.isArray(requirements) || !Array.isArray(references)
+        ? 'requirements and references must be arrays'
+        : requirements.length + references.length < MIN_COMPARED_REQUIREMENTS
+          ? `At least ${MIN_COMPARED_REQUIREMENTS} requirements are required to compare`
+          : requirements.length + references.length > MAX_COMPARED_REQUIREMENTS
+            ? `At most ${MAX_COMPARED_REQUIREMENTS} requirements can be compared at once`
+            : null;
+    if (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error }, null, 2),
+          },
+        ],
+      };
+    }
+
+    const result = await compareRequirements(this.db, {
+      requirements,
+      references,
+      options: { version, max_hops, reviewed_only },
+    });
+
+    if (result.requirements.length < MIN_COMPARED_REQUIREMENTS) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'Fewer than two requirements found',
+                found: result.requirements.map((r) => ({
+                  requirement_id: r.requirement_id,
+                  standard: r.standard_id,
+                })),
+                not_found: result.not_found,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    if (format === 'markdown') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: formatComparison(result),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              requirements: result.requirements.map((requirement) => ({
+                ...requirement,
+                _citation: buildCitation(
+                  `${requirement.standard_id}:${requirement.requirement_id}`,
+                  `${requirement.requirement_id} (${requirement.standard_id})`,
+                  'get_ot_requirement',
+                  { requirement_id: requirement.requirement_id, standard: requirement.standard_id }
+                ),
+              })),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle get_coverage_matrix tool
+   * @param args - Tool arguments containing source_standard, target_standard, layout options and format
+   */
+  private async handleGetCoverageMatrix(args: unknown) {
+    const {
+      source_standard,
+      target_standard,
+      columns,
+      include_enhancements,
+      reviewed_only,
+      format = 'json',
+    } = (args ?? {}) as any;
+
+    if (!source_standard || !target_standard) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { error: 'source_standard and target_standard parameters are required' },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const result = await getCoverageMatrix(this.db, {
+      source_standard,
+      target_standard,
+      options: { columns, include_enhancements, reviewed_only },
+    });
+
+    if (!result) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'No requirements found for one of the standards',
+                source_standard,
+                target_standard,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    if (format === 'csv' || format === 'markdown') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text:
+              format === 'csv'
+                ? formatCoverageMatrixCsv(result)
+                : formatCoverageMatrixMarkdown(result),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              _citation: buildCitation(
+                `${source_standard}:${target_standard}`,
+                `Coverage of ${source_standard} by ${target_standard}`,
+                'get_coverage_matrix',
+                { source_standard, target_standard }
+              ),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle suggest_mappings tool
+   * @param args - Tool arguments containing requirement_id, standard, target_standard and optional filters
+   */
+  private async handleSuggestMappings(args: unknown) {
+    const { requirement_id, standard, target_standard, ...options } = (args ?? {}) as any;
+
+    if (!requirement_id || !standard || !target_standard) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { error: 'requirement_id, standard and target_standard parameters are required' },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    if (standard === target_standard) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { error: 'target_standard must differ from standard', standard, target_standard },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    // Read-only over MCP: storing suggestions is left to the curation scripts
+    const result = await suggestMappings(this.db, {
+      requirement_id,
+      standard,
+      target_standard,
+      options: { ...options, save: false },
+    });
+
+    if (!result) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                error: 'Requirement not found',
+                requirement_id,
+                standard,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              ...result,
+              _citation: buildCitation(
+                `${standard}:${result.source.requirement_id}`,
+                `${result.source.requirement_id} (${standard})`,
+                'suggest_mappings',
+                { requirement_id: result.source.requirement_id, standard, target_standard }
+              ),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle validate_mappings tool
+   * @param args - Tool arguments containing optional standard, reviewed_only and confidence_spread
+   */
+  private async handleValidateMappings(args: unknown) {
+    const options = (args ?? {}) as any;
+
+    const result = await validateMappings(this.db, { options });
+
+    if (!result) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: 'Mapping validation failed' }, null, 2),
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  }
+
   /**
    * Start the MCP server with stdio transport
    */
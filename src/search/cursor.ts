@@ -0,0 +1,83 @@
+/**
+ * Opaque pagination cursors for search results
+ *
+ * A cursor records the offset of the next page and a fingerprint of the
+ * query and filters it was issued for, so a cursor cannot silently be reused
+ * with a different search.
+ */
+
+import { createHash } from 'crypto';
+
+/**
+ * Raised when a pagination cursor is malformed or belongs to another search
+ */
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+interface CursorPayload {
+  /** Offset of the first result on the next page */
+  o: number;
+  /** Fingerprint of the search the cursor was issued for */
+  f: string;
+}
+
+/**
+ * Fingerprint the parameters that define a result set (not the page size)
+ *
+ * @param params - Query and filter values, in a stable order
+ * @returns Short hex digest
+ */
+export function fingerprintSearch(params: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(params)).digest('hex').slice(0, 16);
+}
+
+/**
+ * Encode a cursor for the page starting at `offset`
+ *
+ * @param offset - Offset of the first result on the next page
+ * @param fingerprint - Fingerprint from fingerprintSearch()
+ * @returns Opaque base64url cursor string
+ */
+export function encodeCursor(offset: number, fingerprint: string): string {
+  const payload: CursorPayload = { o: offset, f: fingerprint };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a cursor and check it belongs to the current search
+ *
+ * @param cursor - Cursor returned as next_cursor by a previous call
+ * @param fingerprint - Fingerprint of the current search
+ * @returns Offset of the first result on the requested page
+ * @throws InvalidCursorError if the cursor is malformed or was issued for another search
+ */
+export function decodeCursor(cursor: string, fingerprint: string): number {
+  let payload: Partial<CursorPayload>;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new InvalidCursorError('Cursor is malformed');
+  }
+
+  if (
+    typeof payload !== 'object' ||
+    payload === null ||
+    !Number.isInteger(payload.o) ||
+    (payload.o ?? -1) < 0 ||
+    typeof payload.f !== 'string'
+  ) {
+    throw new InvalidCursorError('Cursor is malformed');
+  }
+
+  if (payload.f !== fingerprint) {
+    throw new InvalidCursorError(
+      'Cursor was issued for a different query or filters; repeat the original search parameters'
+    );
+  }
+
+  return payload.o ?? 0;
+}
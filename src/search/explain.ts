@@ -0,0 +1,143 @@
+/**
+ * Ranking explanations for search_ot_requirements (the explain option)
+ *
+ * Reports, per hit, which fields and words matched and what each field
+ * contributed to the BM25 score, and per filter how many candidates it
+ * removed, so unexpected rankings can be diagnosed and reported with evidence.
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { FilterEffect, RequirementTextField } from '../types/index.js';
+
+/**
+ * A search filter: its option name and value, and its SQL condition on the
+ * `r` (ot_requirements) alias
+ */
+export interface SearchFilter {
+  filter: string;
+  value: unknown;
+  sql: string;
+  params: any[];
+}
+
+/**
+ * Keyword part of a hit explanation
+ */
+export interface KeywordExplanation {
+  matched_fields: RequirementTextField[];
+  matched_terms: string[];
+  field_scores: Partial<Record<RequirementTextField, number>>;
+  keyword_score: number;
+}
+
+/** ot_requirements_fts columns, in column order */
+const FIELDS: readonly RequirementTextField[] = [
+  'requirement_id',
+  'title',
+  'description',
+  'rationale',
+];
+
+/** Markers around matched text; control characters never occur in requirement text */
+const MARK_OPEN = '\u0002';
+const MARK_CLOSE = '\u0003';
+
+/**
+ * Turn a negative bm25() value into a positive score rounded to 3 decimals
+ */
+function toScore(bm25: number): number {
+  return Math.round(-bm25 * 1000) / 1000 || 0;
+}
+
+/**
+ * Explain how an FTS5 expression matches each of the given requirements
+ *
+ * Field scores are bm25() with every other field's weight set to zero. BM25
+ * saturates term frequency across fields, so they do not add up exactly to
+ * the overall score, but they show which fields drive the ranking.
+ *
+ * @param db - Database client instance
+ * @param expression - FTS5 MATCH expression the hits were ranked by
+ * @param ids - ot_requirements IDs of the hits
+ * @param weights - BM25 weight of each field, in column order
+ * @returns Explanation per requirement ID; IDs the expression does not match are absent
+ */
+export function explainKeywordMatches(
+  db: DatabaseClient,
+  expression: string,
+  ids: number[],
+  weights: readonly number[]
+): Map<number, KeywordExplanation> {
+  const explanations = new Map<number, KeywordExplanation>();
+  if (ids.length === 0) {
+    return explanations;
+  }
+
+  const highlights = FIELDS.map(
+    (_, i) => `highlight(ot_requirements_fts, ${i}, ?, ?) AS h${i}`
+  ).join(', ');
+  const fieldScores = FIELDS.map(
+    (_, i) =>
+      `bm25(ot_requirements_fts, ${weights.map((w, j) => (j === i ? w : 0)).join(', ')}) AS s${i}`
+  ).join(', ');
+
+  const rows = db.query<Record<string, number | string | null>>(
+    `SELECT rowid AS id, bm25(ot_requirements_fts, ${weights.join(', ')}) AS score,
+            ${highlights}, ${fieldScores}
+     FROM ot_requirements_fts
+     WHERE ot_requirements_fts MATCH ? AND rowid IN (SELECT value FROM json_each(?))`,
+    [...FIELDS.flatMap(() => [MARK_OPEN, MARK_CLOSE]), expression, JSON.stringify(ids)]
+  );
+
+  const marked = new RegExp(`${MARK_OPEN}(.*?)${MARK_CLOSE}`, 'gs');
+  for (const row of rows) {
+    const matchedFields: RequirementTextField[] = [];
+    const matchedTerms = new Set<string>();
+    const scores: Partial<Record<RequirementTextField, number>> = {};
+
+    FIELDS.forEach((field, i) => {
+      const text = row[`h${i}`];
+      const spans = typeof text === 'string' ? [...text.matchAll(marked)] : [];
+      if (spans.length === 0) {
+        return;
+      }
+      matchedFields.push(field);
+      spans.forEach((span) => matchedTerms.add((span[1] ?? '').toLowerCase()));
+      scores[field] = toScore(Number(row[`s${i}`]));
+    });
+
+    explanations.set(Number(row.id), {
+      matched_fields: matchedFields,
+      matched_terms: [...matchedTerms].sort(),
+      field_scores: scores,
+      keyword_score: toScore(Number(row.score)),
+    });
+  }
+
+  return explanations;
+}
+
+/**
+ * Count how many candidates each filter excludes on its own
+ *
+ * @param db - Database client instance
+ * @param candidates - ot_requirements IDs matched before any filter
+ * @param filters - Filters of the search
+ * @returns One entry per filter, in the order given
+ */
+export function explainFilters(
+  db: DatabaseClient,
+  candidates: number[],
+  filters: SearchFilter[]
+): FilterEffect[] {
+  const ids = JSON.stringify(candidates);
+  return filters.map(({ filter, value, sql, params }) => {
+    const kept =
+      db.queryOne<{ count: number }>(
+        `SELECT COUNT(*) AS count FROM ot_requirements r
+         WHERE r.id IN (SELECT value FROM json_each(?)) AND ${sql}`,
+        [ids, ...params]
+      )?.count ?? 0;
+    return { filter, value, excluded: candidates.length - kept };
+  });
+}
@@ -0,0 +1,193 @@
+/**
+ * Typo-tolerant term correction for search_ot_requirements
+ *
+ * Builds a vocabulary from requirement and MITRE ATT&CK for ICS technique text
+ * and corrects query words that occur nowhere in it ("authentification",
+ * "segmantation", "firmwear") to the closest known word by edit distance.
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { QueryNode, tokenizeText } from './query-parser.js';
+
+/**
+ * Known words and how often each occurs in the indexed text
+ */
+export type Vocabulary = ReadonlyMap<string, number>;
+
+/** Words shorter than this are never corrected (IDs, acronyms, "ot", "plc") */
+const MIN_CORRECTABLE_LENGTH = 4;
+
+/**
+ * Maximum edits allowed when correcting a word of the given length
+ */
+function maxEditsFor(length: number): number {
+  return length >= 6 ? 2 : 1;
+}
+
+/**
+ * Build the correction vocabulary from requirement and MITRE technique text
+ *
+ * @param db - Database client instance
+ * @returns Word frequencies (words containing digits are left out)
+ */
+export function loadVocabulary(db: DatabaseClient): Vocabulary {
+  const rows = db.query<{ text: string }>(
+    `SELECT COALESCE(title, '') || ' ' || COALESCE(description, '') || ' ' ||
+            COALESCE(rationale, '') AS text
+     FROM ot_requirements
+     UNION ALL
+     SELECT COALESCE(name, '') || ' ' || COALESCE(description, '') AS text
+     FROM mitre_ics_techniques`
+  );
+
+  const vocabulary = new Map<string, number>();
+  for (const row of rows) {
+    for (const word of tokenizeText(row.text)) {
+      if (word.length >= MIN_CORRECTABLE_LENGTH && !/\p{N}/u.test(word)) {
+        vocabulary.set(word, (vocabulary.get(word) ?? 0) + 1);
+      }
+    }
+  }
+  return vocabulary;
+}
+
+/**
+ * Edit distance between two words, counting insertions, deletions,
+ * substitutions and adjacent transpositions (optimal string alignment)
+ *
+ * @param a - First word
+ * @param b - Second word
+ * @param max - Stop early once the distance is known to exceed this bound
+ * @returns The distance, or max + 1 if it exceeds max
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  // Three rolling rows: i-2, i-1 and i
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (prev[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (prev[j - 1] ?? 0) + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (prevPrev[j - 2] ?? 0) + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return Math.min(prev[b.length] ?? max + 1, max + 1);
+}
+
+/**
+ * Find the closest vocabulary word to a misspelled word
+ *
+ * Ties on distance go to the more frequent word, then alphabetical order.
+ *
+ * @param word - Lowercased word to correct
+ * @param vocabulary - Vocabulary from loadVocabulary()
+ * @returns The suggested word, or null if nothing is close enough
+ */
+export function suggestWord(word: string, vocabulary: Vocabulary): string | null {
+  const max = maxEditsFor(word.length);
+  let best: { word: string; distance: number; frequency: number } | null = null;
+
+  for (const [candidate, frequency] of vocabulary) {
+    const distance = editDistance(word, candidate, max);
+    if (distance > max) {
+      continue;
+    }
+    if (
+      !best ||
+      distance < best.distance ||
+      (distance === best.distance && frequency > best.frequency) ||
+      (distance === best.distance && frequency === best.frequency && candidate < best.word)
+    ) {
+      best = { word: candidate, distance, frequency };
+    }
+  }
+
+  return best?.word ?? null;
+}
+
+/**
+ * Collect the tokens of every term that could be a typo (not a prefix wildcard)
+ */
+function collectTokens(node: QueryNode, tokens: Set<string>): void {
+  switch (node.type) {
+    case 'term':
+      if (!node.prefix) {
+        node.tokens.forEach((t) => tokens.add(t));
+      }
+      return;
+    case 'not':
+      collectTokens(node.child, tokens);
+      return;
+    default:
+      node.children.forEach((c) => collectTokens(c, tokens));
+  }
+}
+
+/**
+ * Rewrite a query with misspelled words replaced by their closest known word
+ *
+ * Only words of at least four letters without digits are considered, and only
+ * if they are neither in the vocabulary nor accepted by `isKnown` (used for
+ * stemmed forms and glossary terms). Operators, field prefixes and quoting in
+ * the original query are preserved.
+ *
+ * @param query - Original query string
+ * @param node - Parsed query AST of `query`
+ * @param vocabulary - Vocabulary from loadVocabulary()
+ * @param isKnown - Additional check for words that must not be corrected
+ * @returns The corrected query, or null if no word needed correcting
+ */
+export function correctQuery(
+  query: string,
+  node: QueryNode,
+  vocabulary: Vocabulary,
+  isKnown: (word: string) => boolean
+): string | null {
+  const tokens = new Set<string>();
+  collectTokens(node, tokens);
+
+  let corrected = query;
+  for (const token of tokens) {
+    if (
+      token.length < MIN_CORRECTABLE_LENGTH ||
+      /\p{N}/u.test(token) ||
+      vocabulary.has(token) ||
+      isKnown(token)
+    ) {
+      continue;
+    }
+
+    const suggestion = suggestWord(token, vocabulary);
+    if (suggestion) {
+      corrected = corrected.replace(
+        new RegExp(`(?<![\\p{L}\\p{N}])${token}(?![\\p{L}\\p{N}])`, 'giu'),
+        suggestion
+      );
+    }
+  }
+
+  return corrected === query ? null : corrected;
+}
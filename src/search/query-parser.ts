@@ -0,0 +1,433 @@
+/**
+ * Query language for search_ot_requirements
+ *
+ * Parses analyst queries such as `title:"audit" AND (log OR event) -wireless`
+ * or `id:SR\ 3.*` into an AST and compiles it to an FTS5 MATCH expression
+ * against ot_requirements_fts. Every term is re-tokenized and emitted as a
+ * quoted FTS5 string, so user input can never inject FTS5 or SQL syntax.
+ *
+ * Grammar (keywords are case-sensitive):
+ *
+ *   query   := or
+ *   or      := and ( "OR" and )*
+ *   and     := unary ( ["AND"] unary )*
+ *   unary   := ( "NOT" | "-" ) unary | primary
+ *   primary := [ field ":" ] ( "(" or ")" | '"' phrase '"' | word [ "*" ] )
+ *   field   := "id" | "requirement_id" | "title" | "description" | "rationale"
+ *
+ * Inside a word, a backslash escapes the next character (e.g. `SR\ 3.1`).
+ * A word ending in ":" that is not a field ("note:", "CVE:") is searched as
+ * text. A "*" after a phrase is an error: FTS5 only matches word prefixes.
+ */
+
+import { RequirementTextField } from '../types/index.js';
+
+/**
+ * FTS5 columns that can be targeted with a field prefix
+ */
+export type SearchField = RequirementTextField;
+
+/**
+ * Field prefixes accepted in queries and the column each one targets
+ */
+export const FIELD_ALIASES: Readonly<Record<string, SearchField>> = {
+  id: 'requirement_id',
+  requirement_id: 'requirement_id',
+  title: 'title',
+  description: 'description',
+  rationale: 'rationale',
+};
+
+/**
+ * Parsed query AST node
+ */
+export type QueryNode =
+  | {
+      readonly type: 'term';
+      /** Normalized FTS tokens making up the term (more than one for e.g. "AC-2") */
+      readonly tokens: string[];
+      /** Whether the last token is a prefix wildcard */
+      readonly prefix: boolean;
+      /** Whether the term was written as a quoted phrase */
+      readonly phrase: boolean;
+      readonly field?: SearchField;
+    }
+  | { readonly type: 'and'; readonly children: QueryNode[] }
+  | { readonly type: 'or'; readonly children: QueryNode[] }
+  | {
+      readonly type: 'not';
+      readonly child: QueryNode;
+      /** Character offset of the NOT/- operator */
+      readonly position: number;
+    };
+
+/**
+ * Raised when a search query cannot be parsed or compiled
+ */
+export class QuerySyntaxError extends Error {
+  /** Character offset in the query where the problem was detected */
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { kind: 'word'; value: string; prefix: boolean; pos: number }
+  | { kind: 'phrase'; value: string; pos: number }
+  | { kind: 'field'; value: SearchField; pos: number }
+  | { kind: 'and' | 'or' | 'not' | 'minus' | 'lparen' | 'rparen'; pos: number };
+
+/**
+ * Split text into the same lowercase letter/digit tokens the FTS index uses
+ *
+ * @param text - Raw term text
+ * @returns Lowercased tokens
+ */
+export function tokenizeText(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Convert a query string into lexical tokens
+ */
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const ch = query.charAt(i);
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (ch === '(') {
+      tokens.push({ kind: 'lparen', pos: i++ });
+      continue;
+    }
+
+    if (ch === ')') {
+      tokens.push({ kind: 'rparen', pos: i++ });
+      continue;
+    }
+
+    if (ch === '"') {
+      const end = query.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError('Unterminated phrase: missing closing quote', i);
+      }
+      if (query[end + 1] === '*') {
+        throw new QuerySyntaxError('Prefix wildcards apply to words, not quoted phrases', end + 1);
+      }
+      tokens.push({ kind: 'phrase', value: query.slice(i + 1, end), pos: i });
+      i = end + 1;
+      continue;
+    }
+
+    // '-' directly followed by a term negates it ("-wireless"); elsewhere it is text
+    if (ch === '-' && /[\p{L}\p{N}"(]/u.test(query[i + 1] ?? '')) {
+      const prev = tokens[tokens.length - 1];
+      const atTermStart = i === 0 || /[\s(]/.test(query.charAt(i - 1));
+      if (atTermStart && prev?.kind !== 'field') {
+        tokens.push({ kind: 'minus', pos: i++ });
+        continue;
+      }
+    }
+
+    // Word: runs until whitespace, parenthesis or quote; backslash escapes
+    const start = i;
+    let value = '';
+    let fieldToken: Token | null = null;
+    while (i < query.length) {
+      const c = query.charAt(i);
+      if (c === '\\' && i + 1 < query.length) {
+        value += query[i + 1];
+        i += 2;
+        continue;
+      }
+      if (/[\s()"]/.test(c)) {
+        break;
+      }
+      // Only known fields are prefixes; "note:" or "CVE-2021:" stays part of the word
+      const alias = value.toLowerCase();
+      const field =
+        c === ':' && Object.hasOwn(FIELD_ALIASES, alias) ? FIELD_ALIASES[alias] : undefined;
+      if (field) {
+        fieldToken = { kind: 'field', value: field, pos: start };
+        i++;
+        break;
+      }
+      value += c;
+      i++;
+    }
+
+    if (fieldToken) {
+      tokens.push(fieldToken);
+      continue;
+    }
+
+    if (value === 'AND' || value === 'OR' || value === 'NOT') {
+      tokens.push({ kind: value.toLowerCase() as 'and' | 'or' | 'not', pos: start });
+      continue;
+    }
+
+    // Punctuation-only words ("--", ";") carry nothing searchable
+    if (tokenizeText(value).length === 0) {
+      continue;
+    }
+
+    const prefix = value.endsWith('*');
+    tokens.push({
+      kind: 'word',
+      value: prefix ? value.replace(/\*+$/, '') : value,
+      prefix,
+      pos: start,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser over lexical tokens
+ */
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly queryLength: number
+  ) {}
+
+  parse(): QueryNode {
+    if (this.tokens.length === 0) {
+      throw new QuerySyntaxError('Query is empty', 0);
+    }
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw new QuerySyntaxError(
+        extra.kind === 'rparen' ? 'Unbalanced ")"' : 'Unexpected input',
+        extra.pos
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private endPos(): number {
+    return this.peek()?.pos ?? this.queryLength;
+  }
+
+  private parseOr(): QueryNode {
+    const first = this.parseAnd();
+    const children = [first];
+    while (this.peek()?.kind === 'or') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? first : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const first = this.parseUnary();
+    const children = [first];
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.kind === 'or' || next.kind === 'rparen') {
+        break;
+      }
+      if (next.kind === 'and') {
+        this.index++;
+      }
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? first : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const next = this.peek();
+    if (next?.kind === 'not' || next?.kind === 'minus') {
+      this.index++;
+      return { type: 'not', child: this.parseUnary(), position: next.pos };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(field?: SearchField): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QuerySyntaxError('Expected a search term at end of query', this.queryLength);
+    }
+    this.index++;
+
+    switch (token.kind) {
+      case 'field':
+        if (field) {
+          throw new QuerySyntaxError('Field prefixes cannot be nested', token.pos);
+        }
+        return this.parsePrimary(token.value);
+
+      case 'lparen': {
+        const inner = this.parseOr();
+        if (this.peek()?.kind !== 'rparen') {
+          throw new QuerySyntaxError('Missing closing ")"', this.endPos());
+        }
+        this.index++;
+        return field ? applyField(inner, field) : inner;
+      }
+
+      case 'phrase':
+      case 'word': {
+        const tokens = tokenizeText(token.value);
+        if (tokens.length === 0) {
+          throw new QuerySyntaxError('Term contains no letters or digits', token.pos);
+        }
+        return {
+          type: 'term',
+          tokens,
+          prefix: token.kind === 'word' && token.prefix,
+          phrase: token.kind === 'phrase',
+          ...(field && { field }),
+        };
+      }
+
+      default:
+        throw new QuerySyntaxError(
+          `Expected a search term but found ${describeToken(token)}`,
+          token.pos
+        );
+    }
+  }
+}
+
+function describeToken(token: Token): string {
+  switch (token.kind) {
+    case 'and':
+      return '"AND"';
+    case 'or':
+      return '"OR"';
+    case 'rparen':
+      return '")"';
+    default:
+      return token.kind;
+  }
+}
+
+/**
+ * Scope every unscoped term in a subtree to a field
+ */
+function applyField(node: QueryNode, field: SearchField): QueryNode {
+  switch (node.type) {
+    case 'term':
+      return node.field ? node : { ...node, field };
+    case 'not':
+      return { ...node, child: applyField(node.child, field) };
+    default:
+      return { type: node.type, children: node.children.map((c) => applyField(c, field)) };
+  }
+}
+
+/**
+ * Parse a search query into an AST
+ *
+ * @param query - Raw query string
+ * @returns Parsed query AST
+ * @throws QuerySyntaxError if the query is malformed
+ */
+export function parseQuery(query: string): QueryNode {
+  return new Parser(lex(query), query.length).parse();
+}
+
+/**
+ * Whether a query is plain keywords (no operators, phrases, fields or wildcards)
+ *
+ * Plain keyword queries may be relaxed from AND to OR when nothing matches.
+ *
+ * @param node - Parsed query AST
+ * @returns true if the query contains only unscoped bare words
+ */
+export function isPlainQuery(node: QueryNode): boolean {
+  const isPlainTerm = (n: QueryNode) =>
+    n.type === 'term' && !n.phrase && !n.prefix && !n.field && n.tokens.length === 1;
+  return isPlainTerm(node) || (node.type === 'and' && node.children.every(isPlainTerm));
+}
+
+/** ot_requirements_fts has one column per search field */
+const REQUIREMENT_COLUMNS: Readonly<Record<SearchField, string>> = {
+  requirement_id: 'requirement_id',
+  title: 'title',
+  description: 'description',
+  rationale: 'rationale',
+};
+
+/**
+ * Compile a parsed query to an FTS5 MATCH expression
+ *
+ * FTS5's NOT is a binary operator, so negated terms are attached to the
+ * positive terms of the surrounding AND group: `a b -c` becomes
+ * `("a" AND "b") NOT ("c")`. A group made only of negations is rejected.
+ *
+ * @param node - Parsed query AST
+ * @param defaultOperator - 'OR' relaxes a top-level AND group without negations
+ *   into an OR of its parts (used to retry plain keyword queries)
+ * @param columns - FTS column each search field targets, for indexes whose
+ *   columns differ from ot_requirements_fts
+ * @returns FTS5 MATCH expression
+ * @throws QuerySyntaxError if the query has no positive term to match
+ */
+export function compileToFts(
+  node: QueryNode,
+  defaultOperator: 'AND' | 'OR' = 'AND',
+  columns: Readonly<Record<SearchField, string>> = REQUIREMENT_COLUMNS
+): string {
+  if (
+    node.type === 'and' &&
+    defaultOperator === 'OR' &&
+    node.children.every((c) => c.type !== 'not')
+  ) {
+    return node.children.map((c) => compileNode(c, columns)).join(' OR ');
+  }
+  return compileNode(node, columns);
+}
+
+const NOT_WITHOUT_POSITIVE =
+  'NOT/- must be combined with at least one term to match (e.g. "plc -wireless")';
+
+function compileNode(node: QueryNode, columns: Readonly<Record<SearchField, string>>): string {
+  switch (node.type) {
+    case 'term': {
+      const quoted = `"${node.tokens.join(' ')}"${node.prefix ? ' *' : ''}`;
+      return node.field ? `${columns[node.field]} : ${quoted}` : quoted;
+    }
+
+    case 'or':
+      return `(${node.children.map((c) => compileNode(c, columns)).join(' OR ')})`;
+
+    case 'not':
+      throw new QuerySyntaxError(NOT_WITHOUT_POSITIVE, node.position);
+
+    case 'and': {
+      const positives = node.children.filter((c) => c.type !== 'not');
+      const negatives = node.children.filter(
+        (c): c is Extract<QueryNode, { type: 'not' }> => c.type === 'not'
+      );
+      if (positives.length === 0) {
+        throw new QuerySyntaxError(NOT_WITHOUT_POSITIVE, negatives[0]?.position ?? 0);
+      }
+      let expr = `(${positives.map((c) => compileNode(c, columns)).join(' AND ')})`;
+      for (const negative of negatives) {
+        expr += ` NOT (${compileNode(negative.child, columns)})`;
+      }
+      return expr;
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Shared BM25 ranking and snippet settings for the FTS5-backed search tools
+ */
+
+/** Markers placed around matched terms in snippets */
+export const HIGHLIGHT_OPEN = '**';
+export const HIGHLIGHT_CLOSE = '**';
+
+/** Approximate number of tokens in a snippet extracted by FTS5 */
+export const SNIPPET_TOKENS = 24;
+
+/**
+ * Normalize a bm25() score to a relevance between 0.0 and 1.0
+ *
+ * bm25() is negative with lower being better, so the score is expressed
+ * relative to the best match for the same query: the top hit is 1.0.
+ *
+ * @param score - Raw bm25() score of the hit
+ * @param bestScore - Best (lowest) bm25() score among all matches
+ * @returns Relevance score between 0.0 and 1.0
+ */
+export function normalizeScore(score: number, bestScore: number): number {
+  if (bestScore >= 0 || score >= 0) {
+    return 1.0;
+  }
+  return Math.round(Math.min(1, score / bestScore) * 1000) / 1000;
+}
+
+/**
+ * Normalize a higher-is-better score (cosine similarity, fused rank score)
+ * to a relevance between 0.0 and 1.0, relative to the best match
+ *
+ * @param score - Score of the hit
+ * @param bestScore - Highest score among all matches
+ * @returns Relevance score between 0.0 and 1.0
+ */
+export function normalizeSimilarity(score: number, bestScore: number): number {
+  if (bestScore <= 0) {
+    return 1.0;
+  }
+  return Math.round(Math.min(1, Math.max(0, score / bestScore)) * 1000) / 1000;
+}
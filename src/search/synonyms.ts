@@ -0,0 +1,191 @@
+/**
+ * Synonym and acronym expansion for search_ot_requirements
+ *
+ * Uses the curated vocabulary in ot_glossary / ot_glossary_expansions (the same
+ * data get_ot_glossary returns) to rewrite parsed queries, so that "MFA" also
+ * finds "multifactor authentication" and "denial of service" also finds "DoS".
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { QueryNode, tokenizeText } from './query-parser.js';
+
+/**
+ * Lookup structure built from the glossary tables
+ */
+export interface SynonymIndex {
+  /** Space-joined token key of any variant -> token lists of all equivalent variants */
+  readonly variants: ReadonlyMap<string, readonly string[][]>;
+  /** Longest variant, in tokens; bounds the multi-word scan */
+  readonly maxTokens: number;
+}
+
+/**
+ * Build the synonym index from the glossary tables
+ *
+ * Each glossary term and its expansions form one group of equivalent variants.
+ * A variant that appears in several groups maps to the union of those groups.
+ *
+ * @param db - Database client instance
+ * @returns SynonymIndex (empty if no glossary has been ingested)
+ */
+export function loadSynonymIndex(db: DatabaseClient): SynonymIndex {
+  const rows = db.query<{ id: number; term: string; expansion: string | null }>(
+    `SELECT g.id, g.term, e.expansion
+     FROM ot_glossary g
+     LEFT JOIN ot_glossary_expansions e ON e.glossary_id = g.id
+     ORDER BY g.id, e.id`
+  );
+
+  // Group variant texts per glossary entry
+  const groups = new Map<number, Set<string>>();
+  for (const row of rows) {
+    const group = groups.get(row.id) ?? new Set<string>([row.term]);
+    if (row.expansion) {
+      group.add(row.expansion);
+    }
+    groups.set(row.id, group);
+  }
+
+  const variants = new Map<string, string[][]>();
+  let maxTokens = 0;
+
+  for (const group of groups.values()) {
+    const tokenized = [...group].map(tokenizeText).filter((t) => t.length > 0);
+    for (const tokens of tokenized) {
+      const key = tokens.join(' ');
+      const existing = variants.get(key) ?? [];
+      for (const candidate of tokenized) {
+        if (!existing.some((e) => e.join(' ') === candidate.join(' '))) {
+          existing.push(candidate);
+        }
+      }
+      variants.set(key, existing);
+      maxTokens = Math.max(maxTokens, tokens.length);
+    }
+  }
+
+  return { variants, maxTokens };
+}
+
+type TermNode = Extract<QueryNode, { type: 'term' }>;
+
+/**
+ * Whether a node is a bare term that may be expanded (not a phrase or wildcard)
+ */
+function isExpandable(node: QueryNode): node is TermNode {
+  return node.type === 'term' && !node.phrase && !node.prefix;
+}
+
+/**
+ * Build the replacement for a run of terms that matched a glossary variant:
+ * the original terms OR'ed with every other variant as a phrase.
+ */
+function buildAlternatives(run: TermNode[], key: string, index: SynonymIndex): QueryNode {
+  const field = run[0]?.field;
+  const original: QueryNode = run.length === 1 && run[0] ? run[0] : { type: 'and', children: run };
+
+  const alternatives: QueryNode[] = [original];
+  for (const tokens of index.variants.get(key) ?? []) {
+    if (tokens.join(' ') === key) {
+      continue;
+    }
+    alternatives.push({
+      type: 'term',
+      tokens,
+      prefix: false,
+      phrase: tokens.length > 1,
+      ...(field && { field }),
+    });
+  }
+
+  return alternatives.length === 1 ? original : { type: 'or', children: alternatives };
+}
+
+/**
+ * Expand glossary acronyms and synonyms in a parsed query
+ *
+ * Within an AND group, the longest run of consecutive bare terms (same field)
+ * matching a glossary variant is replaced by an OR of all equivalent variants,
+ * so "remote terminal unit" and "RTU" find each other. Quoted phrases and
+ * prefix wildcards are left untouched; negated terms are expanded so that
+ * "-DoS" also excludes "denial of service".
+ *
+ * @param node - Parsed query AST
+ * @param index - Synonym index from loadSynonymIndex()
+ * @returns Expanded query AST (the input is not modified)
+ */
+export function expandSynonyms(node: QueryNode, index: SynonymIndex): QueryNode {
+  if (index.variants.size === 0) {
+    return node;
+  }
+
+  switch (node.type) {
+    case 'term': {
+      const key = node.tokens.join(' ');
+      return isExpandable(node) && index.variants.has(key)
+        ? buildAlternatives([node], key, index)
+        : node;
+    }
+
+    case 'not':
+      return { ...node, child: expandSynonyms(node.child, index) };
+
+    case 'or':
+      return { type: 'or', children: node.children.map((c) => expandSynonyms(c, index)) };
+
+    case 'and': {
+      const children: QueryNode[] = [];
+      let i = 0;
+
+      while (i < node.children.length) {
+        const match = longestMatch(node.children, i, index);
+        if (match) {
+          children.push(buildAlternatives(match.run, match.key, index));
+          i += match.run.length;
+        } else {
+          children.push(expandSynonyms(node.children[i] as QueryNode, index));
+          i++;
+        }
+      }
+
+      return children.length === 1 && children[0] ? children[0] : { type: 'and', children };
+    }
+  }
+}
+
+/**
+ * Find the longest run of expandable terms starting at `start` whose tokens
+ * form a glossary variant
+ */
+function longestMatch(
+  children: QueryNode[],
+  start: number,
+  index: SynonymIndex
+): { run: TermNode[]; key: string } | null {
+  const run: TermNode[] = [];
+  const tokens: string[] = [];
+  let best: { run: TermNode[]; key: string } | null = null;
+
+  for (let i = start; i < children.length; i++) {
+    const child = children[i];
+    if (!child || !isExpandable(child)) {
+      break;
+    }
+    if (run[0] && child.field !== run[0].field) {
+      break;
+    }
+
+    run.push(child);
+    tokens.push(...child.tokens);
+    if (tokens.length > index.maxTokens) {
+      break;
+    }
+
+    const key = tokens.join(' ');
+    if (index.variants.has(key)) {
+      best = { run: [...run], key };
+    }
+  }
+
+  return best;
+}
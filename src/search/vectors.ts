@@ -0,0 +1,386 @@
+/**
+ * Offline semantic vectors for search_ot_requirements
+ *
+ * Requirements are embedded with latent semantic analysis (LSA): a TF-IDF
+ * term-document matrix built from requirement text is reduced to a few dozen
+ * latent dimensions with a truncated SVD. Terms that occur in similar
+ * requirements ("credential", "password", "authenticator") end up close
+ * together, so a query can match requirements that share none of its words.
+ *
+ * The model is computed deterministically by scripts/build-vectors.ts and
+ * stored in SQLite (ot_vector_terms, ot_requirement_vectors). Queries are
+ * embedded from the stored term projections; nothing leaves the machine.
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { QueryNode, tokenizeText } from './query-parser.js';
+
+/** Default number of latent dimensions */
+export const VECTOR_DIMENSIONS = 64;
+
+/** Semantic hits below this cosine similarity are not reported */
+export const MIN_SIMILARITY = 0.2;
+
+/** Reciprocal rank fusion constant (the usual 60 from Cormack et al.) */
+export const RRF_K = 60;
+
+/** Subspace iterations used for the truncated SVD */
+const SVD_ITERATIONS = 30;
+
+/** Words too common in requirement text to carry meaning */
+const STOPWORDS = new Set(
+  [
+    'about all also and any are been being but can could does each for from',
+    'has have how into its may more most must not only other over shall',
+    'should such than that the their them then there these they this those',
+    'through under upon used using was were what when where which while who',
+    'will with within without would',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+/**
+ * Term weights and latent coordinates learned from the requirement corpus
+ */
+export interface VectorModel {
+  /** Number of latent dimensions */
+  dimensions: number;
+  /** Inverse document frequency and latent projection of each kept term */
+  terms: Map<string, { idf: number; projection: number[] }>;
+}
+
+/**
+ * Reduce a plural to its singular form (Harman's S-stemmer)
+ */
+function stemPlural(word: string): string {
+  if (word.endsWith('ies') && !word.endsWith('eies') && !word.endsWith('aies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.endsWith('es') && !/(aes|ees|oes)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  if (word.endsWith('s') && !word.endsWith('us') && !word.endsWith('ss')) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+/**
+ * Split text into the terms used by the vector model
+ *
+ * Lowercased words of at least three characters, without stopwords or
+ * numbers, with plurals reduced to the singular.
+ *
+ * @param text - Requirement or query text
+ * @returns Terms in order of occurrence
+ */
+export function analyzeText(text: string): string[] {
+  return tokenizeText(text)
+    .filter((word) => word.length >= 3 && !STOPWORDS.has(word) && !/^\p{N}+$/u.test(word))
+    .map(stemPlural);
+}
+
+/**
+ * Collect the text of every term a query asks for, leaving out negated terms
+ *
+ * Works on the parsed (and optionally synonym-expanded) query, so operators
+ * and field prefixes do not end up in the embedding.
+ *
+ * @param node - Parsed query AST
+ * @returns Space-separated query words
+ */
+export function queryText(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.tokens.join(' ');
+    case 'not':
+      return '';
+    default:
+      return node.children.map(queryText).join(' ');
+  }
+}
+
+/**
+ * Deterministic pseudo-random numbers (mulberry32) for the SVD start vectors
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296 - 0.5;
+  };
+}
+
+/**
+ * Orthonormalize the columns of a row-major matrix in place (modified Gram-Schmidt)
+ */
+function orthonormalize(matrix: Float64Array[], columns: number): void {
+  for (let j = 0; j < columns; j++) {
+    for (let i = 0; i < j; i++) {
+      let dot = 0;
+      for (const row of matrix) dot += (row[j] ?? 0) * (row[i] ?? 0);
+      for (const row of matrix) row[j] = (row[j] ?? 0) - dot * (row[i] ?? 0);
+    }
+    let norm = 0;
+    for (const row of matrix) norm += (row[j] ?? 0) ** 2;
+    norm = Math.sqrt(norm);
+    for (const row of matrix) row[j] = norm > 1e-12 ? (row[j] ?? 0) / norm : 0;
+  }
+}
+
+/**
+ * Scale a vector to unit length
+ *
+ * @returns The unit vector, or null for a zero vector
+ */
+function normalize(vector: number[]): number[] | null {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm > 1e-12 ? vector.map((x) => x / norm) : null;
+}
+
+/**
+ * Inverse document frequency of every term of a corpus
+ *
+ * @param documents - Document texts
+ * @returns log(N / document frequency) per term
+ */
+export function inverseDocumentFrequencies(documents: string[]): Map<string, number> {
+  const df = new Map<string, number>();
+  for (const text of documents) {
+    for (const term of new Set(analyzeText(text))) {
+      df.set(term, (df.get(term) ?? 0) + 1);
+    }
+  }
+  return new Map([...df].map(([term, n]) => [term, Math.log(documents.length / n)]));
+}
+
+/**
+ * TF-IDF weights of a text, scaled to unit length
+ *
+ * @param text - Document text
+ * @param idf - Inverse document frequencies of the corpus
+ * @returns Weight per term of the text (0 for terms outside the corpus)
+ */
+export function tfidfWeights(text: string, idf: ReadonlyMap<string, number>): Map<string, number> {
+  const weights = new Map<string, number>();
+  for (const term of analyzeText(text)) {
+    weights.set(term, (weights.get(term) ?? 0) + 1);
+  }
+
+  let norm = 0;
+  for (const [term, n] of weights) {
+    const weight = (1 + Math.log(n)) * (idf.get(term) ?? 0);
+    weights.set(term, weight);
+    norm += weight * weight;
+  }
+  norm = Math.sqrt(norm);
+  for (const [term, weight] of weights) {
+    weights.set(term, norm > 0 ? weight / norm : 0);
+  }
+  return weights;
+}
+
+/**
+ * Build the LSA model for a corpus of documents
+ *
+ * Terms that occur in fewer than two documents, or in every document, carry
+ * no co-occurrence signal and are left out. The number of dimensions is
+ * capped at a quarter of the corpus size so that small corpora still
+ * generalize instead of reproducing plain TF-IDF.
+ *
+ * @param documents - Document texts
+ * @param dimensions - Maximum number of latent dimensions
+ * @returns The model; identical input always gives an identical model
+ */
+export function buildVectorModel(
+  documents: string[],
+  dimensions: number = VECTOR_DIMENSIONS
+): VectorModel {
+  const counts = documents.map((text) => {
+    const tf = new Map<string, number>();
+    for (const term of analyzeText(text)) {
+      tf.set(term, (tf.get(term) ?? 0) + 1);
+    }
+    return tf;
+  });
+
+  const df = new Map<string, number>();
+  for (const tf of counts) {
+    for (const term of tf.keys()) {
+      df.set(term, (df.get(term) ?? 0) + 1);
+    }
+  }
+
+  const vocabulary = [...df.entries()]
+    .filter(([, n]) => n >= 2 && n < documents.length)
+    .map(([term]) => term)
+    .sort();
+  const termIndex = new Map(vocabulary.map((term, i) => [term, i]));
+  const idf = vocabulary.map((term) => Math.log(documents.length / (df.get(term) ?? 1)));
+
+  // Sparse unit-length TF-IDF columns of the term-document matrix
+  const columns = counts.map((tf) => {
+    const entries: Array<[number, number]> = [];
+    for (const [term, n] of tf) {
+      const t = termIndex.get(term);
+      if (t !== undefined) entries.push([t, (1 + Math.log(n)) * (idf[t] ?? 0)]);
+    }
+    const norm = Math.sqrt(entries.reduce((sum, [, w]) => sum + w * w, 0));
+    return norm > 0 ? entries.map(([t, w]): [number, number] => [t, w / norm]) : [];
+  });
+
+  const k = Math.max(1, Math.min(dimensions, Math.floor(documents.length / 4), vocabulary.length));
+
+  // Subspace iteration on A^T A gives the top k right singular vectors Q
+  const random = seededRandom(62443);
+  let q = columns.map(() => Float64Array.from({ length: k }, random));
+  orthonormalize(q, k);
+
+  const multiplyA = (right: Float64Array[]) => {
+    const result = vocabulary.map(() => new Float64Array(k));
+    columns.forEach((column, d) => {
+      const r = right[d] ?? new Float64Array(k);
+      for (const [t, w] of column) {
+        const row = result[t] ?? new Float64Array(k);
+        for (let j = 0; j < k; j++) row[j] = (row[j] ?? 0) + w * (r[j] ?? 0);
+      }
+    });
+    return result;
+  };
+
+  for (let iteration = 0; iteration < SVD_ITERATIONS; iteration++) {
+    const y = multiplyA(q);
+    q = columns.map((column) => {
+      const row = new Float64Array(k);
+      for (const [t, w] of column) {
+        const yt = y[t] ?? new Float64Array(k);
+        for (let j = 0; j < k; j++) row[j] = (row[j] ?? 0) + w * (yt[j] ?? 0);
+      }
+      return row;
+    });
+    orthonormalize(q, k);
+  }
+
+  // Left singular vectors U = A Q / sigma, strongest dimension first
+  const y = multiplyA(q);
+  const sigma = Array.from({ length: k }, (_, j) =>
+    Math.sqrt(y.reduce((sum, row) => sum + (row[j] ?? 0) ** 2, 0))
+  );
+  const order = sigma.map((s, j) => ({ s, j })).sort((a, b) => b.s - a.s || a.j - b.j);
+
+  const terms = new Map<string, { idf: number; projection: number[] }>();
+  vocabulary.forEach((term, t) => {
+    const row = y[t] ?? new Float64Array(k);
+    terms.set(term, {
+      idf: idf[t] ?? 0,
+      projection: order.map(({ s, j }) => (s > 1e-12 ? (row[j] ?? 0) / s : 0)),
+    });
+  });
+
+  return { dimensions: k, terms };
+}
+
+/**
+ * Embed text in the latent space of a model
+ *
+ * The text's TF-IDF vector is projected onto the latent dimensions and
+ * normalized, so documents and queries are embedded the same way.
+ *
+ * @param text - Document or query text
+ * @param model - Model (or the subset of its terms that occur in the text)
+ * @returns Unit vector, or null if no term of the text is in the model
+ */
+export function embedText(text: string, model: VectorModel): number[] | null {
+  const tf = new Map<string, number>();
+  for (const term of analyzeText(text)) {
+    tf.set(term, (tf.get(term) ?? 0) + 1);
+  }
+
+  const vector = new Array<number>(model.dimensions).fill(0);
+  let matched = false;
+  for (const [term, n] of tf) {
+    const entry = model.terms.get(term);
+    if (!entry) continue;
+    matched = true;
+    const weight = (1 + Math.log(n)) * entry.idf;
+    entry.projection.forEach((x, j) => {
+      vector[j] = (vector[j] ?? 0) + weight * x;
+    });
+  }
+
+  return matched ? normalize(vector) : null;
+}
+
+/**
+ * Embed a query using the model stored in the database
+ *
+ * Only the projections of the query's own terms are read.
+ *
+ * @param db - Database client instance
+ * @param text - Query text
+ * @returns Unit vector, or null if no query term is in the model
+ */
+export function embedQuery(db: DatabaseClient, text: string): number[] | null {
+  const terms = [...new Set(analyzeText(text))];
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const rows = db.query<{ term: string; idf: number; projection: string }>(
+    `SELECT term, idf, projection FROM ot_vector_terms
+     WHERE term IN (${terms.map(() => '?').join(', ')})`,
+    terms
+  );
+  const first = rows[0];
+  if (!first) {
+    return null;
+  }
+
+  const model: VectorModel = {
+    dimensions: (JSON.parse(first.projection) as number[]).length,
+    terms: new Map(
+      rows.map((row) => [
+        row.term,
+        { idf: row.idf, projection: JSON.parse(row.projection) as number[] },
+      ])
+    ),
+  };
+  return embedText(text, model);
+}
+
+/**
+ * Cosine similarity of two unit vectors
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += (a[i] ?? 0) * (b[i] ?? 0);
+  }
+  return dot;
+}
+
+/**
+ * Fuse several rankings with reciprocal rank fusion
+ *
+ * Each item scores the sum of 1 / (RRF_K + rank) over the rankings it
+ * appears in, so items ranked well by both keyword and semantic search rise
+ * to the top without having to compare BM25 scores with cosine similarities.
+ *
+ * @param rankings - Item IDs, best first, one list per ranking
+ * @returns Fused ranking, best first; ties keep the lower ID first
+ */
+export function reciprocalRankFusion(rankings: number[][]): Array<{ id: number; score: number }> {
+  const scores = new Map<number, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, index) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + index + 1));
+    });
+  }
+  return [...scores.entries()]
+    .map(([id, score]) => ({ id, score }))
+    .sort((a, b) => b.score - a.score || a.id - b.id);
+}
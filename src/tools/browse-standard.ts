@@ -0,0 +1,187 @@
+/**
+ * Browse standard tool: a standard's structural groups and the requirements in each
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { requirementKey } from '../database/requirement-ids.js';
+import {
+  compareRequirementIds,
+  requirementGroup,
+  standardGroups,
+  tacticGroup,
+} from '../database/requirement-groups.js';
+import { decodeCursor, encodeCursor, fingerprintSearch } from '../search/cursor.js';
+import {
+  BrowseStandardOptions,
+  BrowsedRequirement,
+  OTRequirement,
+  OTStandard,
+  RequirementGroup,
+  StandardBrowseResult,
+  StandardGroupSummary,
+} from '../types/index.js';
+
+/**
+ * Browse standard parameters interface
+ */
+export interface BrowseStandardParams {
+  standard: string;
+  options?: BrowseStandardOptions;
+}
+
+/**
+ * Comparison key of a group ID or title: "FR 3", "fr3" and "System integrity"
+ * name the same group
+ */
+function groupKey(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Browse a standard by its structure
+ *
+ * Without a group, lists the standard's groups (IEC 62443 foundational
+ * requirements, NIST 800-53 control families, NIST 800-82 chapters, MITRE
+ * ATT&CK for ICS tactics) in document order with the number of requirements
+ * in each; groups without requirements are left out. With a group (ID or
+ * title, case-insensitive), returns one page of the group's requirements in
+ * document order; pass next_cursor back as options.cursor for the next page.
+ * A group that is not found leaves `group` unset. Requirements are read from
+ * the requested (or current) version; MITRE techniques are unversioned.
+ *
+ * @param db - Database client instance
+ * @param params - Standard and optional group, version and paging
+ * @returns StandardBrowseResult, or null if the standard is not found
+ * @throws InvalidCursorError if options.cursor is malformed or from another group
+ */
+export async function browseStandard(
+  db: DatabaseClient,
+  params: BrowseStandardParams
+): Promise<StandardBrowseResult | null> {
+  const { standard, options = {} } = params;
+  const { group, version, limit = 50, cursor } = options;
+
+  // Validate required parameters
+  if (!standard || standard.trim() === '') {
+    return null;
+  }
+
+  // Enforce max limit of 200
+  const effectiveLimit = Math.min(limit || 50, 200);
+
+  // Cursors are tied to the standard, group and version, not the page size
+  const fingerprint = fingerprintSearch([standard, groupKey(group ?? ''), version || null]);
+  const offset = cursor ? decodeCursor(cursor, fingerprint) : 0;
+
+  try {
+    const standardData = db.queryOne<OTStandard>(`SELECT * FROM ot_standards WHERE id = ?`, [
+      standard,
+    ]);
+    if (!standardData) {
+      return null;
+    }
+
+    // Step 1: Every requirement of the version with its group, in document order
+    let entries: Array<BrowsedRequirement & { group: RequirementGroup | null }>;
+    if (standard === 'mitre-ics') {
+      entries = db
+        .query<{ technique_id: string; name: string | null; tactic: string | null }>(
+          `SELECT technique_id, name, tactic FROM mitre_ics_techniques`
+        )
+        .map((technique) => ({
+          requirement_id: technique.technique_id,
+          title: technique.name,
+          parent_requirement_id: null,
+          status: null,
+          group: technique.tactic ? tacticGroup(technique.tactic) : null,
+        }));
+    } else {
+      const versionFilter = versionCondition(version);
+      const rows = db.query<OTRequirement>(
+        `SELECT r.* FROM ot_requirements r
+         WHERE r.standard_id = ? AND ${versionFilter.sql}
+         ORDER BY r.id DESC`,
+        [standard, ...versionFilter.params]
+      );
+
+      // Latest row per requirement key
+      const rowsByKey = new Map<string, OTRequirement>();
+      for (const row of rows) {
+        const key = requirementKey(row.requirement_id);
+        if (!rowsByKey.has(key)) {
+          rowsByKey.set(key, row);
+        }
+      }
+      entries = [...rowsByKey.values()].map((row) => ({
+        requirement_id: row.requirement_id,
+        title: row.title,
+        parent_requirement_id: row.parent_requirement_id,
+        status: row.status,
+        group: requirementGroup(standard, row.requirement_id),
+      }));
+    }
+    entries.sort((a, b) => compareRequirementIds(standard, a.requirement_id, b.requirement_id));
+
+    // Step 2: Groups with requirements; known groups in document order, others after them
+    const known = standardGroups(standard);
+    const rank = (candidate: RequirementGroup) => {
+      const index = known.findIndex((g) => g.id === candidate.id);
+      return index >= 0 ? index : known.length;
+    };
+    const counts = new Map<string, StandardGroupSummary>();
+    for (const entry of entries) {
+      if (entry.group) {
+        const summary = counts.get(entry.group.id);
+        counts.set(entry.group.id, {
+          ...entry.group,
+          requirement_count: (summary?.requirement_count ?? 0) + 1,
+        });
+      }
+    }
+    const groups = [...counts.values()].sort(
+      (a, b) => rank(a) - rank(b) || a.id.localeCompare(b.id, undefined, { numeric: true })
+    );
+
+    const result = {
+      standard_id: standard,
+      standard_name: standardData.name,
+      version: standard === 'mitre-ics' ? standardData.version : (version ?? standardData.version),
+    };
+
+    if (group === undefined) {
+      return {
+        ...result,
+        groups,
+        ungrouped_count: entries.filter((entry) => !entry.group).length,
+      };
+    }
+
+    // Step 3: One page of the requested group's requirements
+    const selected = groups.find(
+      (g) => groupKey(g.id) === groupKey(group) || groupKey(g.title) === groupKey(group)
+    );
+    if (!selected) {
+      return { ...result, groups };
+    }
+
+    const members = entries.filter((entry) => entry.group?.id === selected.id);
+    const page = members
+      .slice(offset, offset + effectiveLimit)
+      .map(({ group: _group, ...requirement }) => requirement);
+    const nextOffset = offset + page.length;
+    const hasMore = page.length > 0 && nextOffset < members.length;
+
+    return {
+      ...result,
+      group: selected,
+      requirements: page,
+      has_more: hasMore,
+      next_cursor: hasMore ? encodeCursor(nextOffset, fingerprint) : null,
+    };
+  } catch (error) {
+    // Log error and return null for graceful degradation
+    console.error('Error browsing standard:', error);
+    return null;
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Compare requirements tool: several requirements side by side, with the
+ * terms they share, what sets each apart and how they are mapped
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { requirementKey } from '../database/requirement-ids.js';
+import { inverseDocumentFrequencies, tfidfWeights } from '../search/vectors.js';
+import { getRequirements } from './get-requirements.js';
+import { resolveMappingPath } from './resolve-mapping-path.js';
+import {
+  ComparedField,
+  ComparedInferredMapping,
+  CompareRequirementsOptions,
+  ComparisonResult,
+  ProvenancedMapping,
+  RequirementDetail,
+  RequirementTerms,
+} from '../types/index.js';
+
+/**
+ * Fewest and most requirements one comparison may request
+ */
+export const MIN_COMPARED_REQUIREMENTS = 2;
+export const MAX_COMPARED_REQUIREMENTS = 10;
+
+/** Number of key terms reported per requirement, and of common themes */
+const KEY_TERMS = 10;
+
+/** Longest cell text in the markdown table */
+const MAX_CELL_LENGTH = 200;
+
+/**
+ * Compare requirements parameters interface
+ */
+export interface CompareRequirementsParams {
+  /** Requirement ID and standard pairs */
+  requirements?: Array<{ requirement_id: string; standard: string }>;
+  /** Free-form references such as "IEC 62443-3-3 SR 1.1" or "AC-2" */
+  references?: string[];
+  options?: CompareRequirementsOptions;
+}
+
+/**
+ * Text a requirement's terms are taken from
+ */
+function requirementText(requirement: {
+  title: string | null;
+  description: string | null;
+  rationale: string | null;
+}): string {
+  return `${requirement.title ?? ''} ${requirement.description ?? ''} ${requirement.rationale ?? ''}`;
+}
+
+/**
+ * Fields of the requirements, aligned side by side
+ */
+function alignFields(requirements: RequirementDetail[]): ComparedField[] {
+  const columns: Array<[string, (requirement: RequirementDetail) => string | null]> = [
+    ['standard', (r) => r.standard.name],
+    ['version', (r) => r.version],
+    ['requirement_id', (r) => r.requirement_id],
+    ['title', (r) => r.title],
+    ['description', (r) => r.description],
+    ['rationale', (r) => r.rationale],
+    ['parent_requirement_id', (r) => r.parent_requirement_id],
+    ['component_type', (r) => r.component_type],
+    ['purdue_level', (r) => (r.purdue_level === null ? null : String(r.purdue_level))],
+    [
+      'security_levels',
+      (r) =>
+        r.security_levels.length > 0
+          ? [...new Set(r.security_levels.map((level) => level.security_level))]
+              .sort()
+              .map((level) => `SL-${level}`)
+              .join(', ')
+          : null,
+    ],
+    ['status', (r) => r.status],
+  ];
+
+  return columns.map(([field, value]) => {
+    const values = requirements.map((requirement) => value(requirement) ?? null);
+    return { field, values, identical: values.every((v) => v === values[0]) };
+  });
+}
+
+/**
+ * Compare 2-10 OT security requirements from any standards
+ *
+ * Requirements are looked up as get_ot_requirements does (same ID notations
+ * and version selection). Key terms are the words of a requirement's title,
+ * description and rationale with the highest TF-IDF weight over all
+ * requirements of the version; common themes are the terms every compared
+ * requirement uses, and distinctive terms the key terms no other compared
+ * requirement uses. Mappings are the curated mappings between the compared
+ * requirements; inferred mappings link the pairs without one through chains
+ * of up to max_hops mappings, as resolve_mapping_path finds them.
+ *
+ * @param db - Database client instance
+ * @param params - Requirement/standard pairs and/or free-form references, and optional filters
+ * @returns Comparison of the found requirements and the requests that were not found
+ */
+export async function compareRequirements(
+  db: DatabaseClient,
+  params: CompareRequirementsParams
+): Promise<ComparisonResult> {
+  const { requirements = [], references = [], options = {} } = params;
+  const { version, max_hops, reviewed_only } = options;
+
+  // Step 1: The compared requirements, with their mappings and security levels
+  const batch = await getRequirements(db, {
+    requirements,
+    references,
+    options: { version, include_mappings: true, reviewed_only },
+  });
+  const compared = batch.requirements;
+  const empty: ComparisonResult = {
+    requirements: compared,
+    fields: alignFields(compared),
+    common_themes: [],
+    differences: [],
+    mappings: [],
+    inferred_mappings: [],
+    not_found: batch.not_found,
+  };
+  if (compared.length < MIN_COMPARED_REQUIREMENTS) {
+    return empty;
+  }
+
+  try {
+    // Step 2: Key terms, weighted against every requirement of the version
+    const versionFilter = versionCondition(version);
+    const corpus = db.query<{
+      title: string | null;
+      description: string | null;
+      rationale: string | null;
+    }>(
+      `SELECT r.title, r.description, r.rationale FROM ot_requirements r
+       WHERE ${versionFilter.sql}`,
+      versionFilter.params
+    );
+    const idf = inverseDocumentFrequencies(corpus.map(requirementText));
+    const weights = compared.map((requirement) => tfidfWeights(requirementText(requirement), idf));
+    const ranked = (scores: Iterable<[string, number]>) =>
+      [...scores]
+        .filter(([, score]) => score > 0)
+        .sort(([a, x], [b, y]) => y - x || a.localeCompare(b))
+        .slice(0, KEY_TERMS)
+        .map(([term]) => term);
+
+    const common_themes = ranked(
+      [...(weights[0] ?? [])]
+        .filter(([term]) => weights.every((w) => w.has(term)))
+        .map(([term]): [string, number] => [
+          term,
+          weights.reduce((sum, w) => sum + (w.get(term) ?? 0), 0),
+        ])
+    );
+    const differences: RequirementTerms[] = compared.map((requirement, i) => {
+      const key_terms = ranked(weights[i] ?? []);
+      return {
+        standard_id: requirement.standard_id,
+        requirement_id: requirement.requirement_id,
+        key_terms,
+        distinctive_terms: key_terms.filter((term) =>
+          weights.every((w, j) => j === i || !w.has(term))
+        ),
+      };
+    });
+
+    // Step 3: Curated mappings between the compared requirements, whichever way they point
+    const nodeKey = (standard: string, id: string) => `${standard}:${requirementKey(id)}`;
+    const keys = compared.map((r) => nodeKey(r.standard_id, r.requirement_id));
+    const mappings = [
+      ...new Map(
+        compared
+          .flatMap((requirement) => requirement.mappings)
+          .filter(
+            (mapping) =>
+              keys.includes(nodeKey(mapping.source_standard, mapping.source_requirement)) &&
+              keys.includes(nodeKey(mapping.target_standard, mapping.target_requirement))
+          )
+          // Read from neither requirement: drop the perspective of the requirement it came with
+          .map(
+            ({
+              relationship: _relationship,
+              direction: _direction,
+              counterpart: _counterpart,
+              ...mapping
+            }): [number, ProvenancedMapping] => [mapping.id, mapping]
+          )
+      ).values(),
+    ].sort((a, b) => a.id - b.id);
+
+    // Step 4: Relationships inferred through other requirements, once per pair
+    const inferred_mappings: ComparedInferredMapping[] = [];
+    const standards = [...new Set(compared.map((r) => r.standard_id))];
+    for (const [i, requirement] of compared.entries()) {
+      const paths = await resolveMappingPath(db, {
+        requirement_id: requirement.requirement_id,
+        standard: requirement.standard_id,
+        options: { max_hops, standards, limit: 200, reviewed_only },
+      });
+      for (const derived of paths?.inferred ?? []) {
+        const j = keys.indexOf(nodeKey(derived.standard_id, derived.requirement_id));
+        if (j > i) {
+          inferred_mappings.push({
+            from_standard: requirement.standard_id,
+            from_requirement: requirement.requirement_id,
+            ...derived,
+          });
+        }
+      }
+    }
+
+    return { ...empty, common_themes, differences, mappings, inferred_mappings };
+  } catch (error) {
+    // Log error and return the requirements without term or mapping analysis
+    console.error('Error comparing requirements:', error);
+    return empty;
+  }
+}
+
+/**
+ * Format a comparison as markdown: a table with one column per requirement,
+ * followed by the common themes, distinctive terms and mappings
+ *
+ * @param comparison - Result of compareRequirements
+ * @returns Markdown text
+ */
+export function formatComparison(comparison: ComparisonResult): string {
+  const cell = (value: string | null) => {
+    const text = (value ?? '—').replace(/\s+/g, ' ').replace(/\|/g, '\\|').trim();
+    return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH - 1)}…` : text;
+  };
+  const label = (standard: string, id: string) => `${id} (${standard})`;
+
+  const parts: string[] = [];
+  parts.push(
+    `# Comparison of ${comparison.requirements
+      .map((r) => label(r.standard_id, r.requirement_id))
+      .join(', ')}`
+  );
+  parts.push('');
+  parts.push(
+    `| Field | ${comparison.requirements.map((r) => cell(r.requirement_id)).join(' | ')} |`
+  );
+  parts.push(`|-------|${comparison.requirements.map(() => '---').join('|')}|`);
+  for (const field of comparison.fields) {
+    parts.push(`| ${field.field} | ${field.values.map(cell).join(' | ')} |`);
+  }
+
+  if (comparison.common_themes.length > 0) {
+    parts.push('');
+    parts.push('## Common Themes');
+    parts.push('');
+    parts.push(comparison.common_themes.join(', '));
+  }
+
+  if (comparison.differences.some((terms) => terms.distinctive_terms.length > 0)) {
+    parts.push('');
+    parts.push('## Distinctive Terms');
+    parts.push('');
+    for (const terms of comparison.differences) {
+      parts.push(
+        `- **${terms.requirement_id}**: ${terms.distinctive_terms.join(', ') || '(none)'}`
+      );
+    }
+  }
+
+  parts.push('');
+  parts.push('## Mappings');
+  parts.push('');
+  if (comparison.mappings.length === 0 && comparison.inferred_mappings.length === 0) {
+    parts.push('No mappings between these requirements.');
+  }
+  for (const mapping of comparison.mappings) {
+    parts.push(
+      `- ${label(mapping.source_standard, mapping.source_requirement)} → ` +
+        `${label(mapping.target_standard, mapping.target_requirement)}: ${mapping.mapping_type}` +
+        (mapping.confidence !== null ? ` (confidence ${mapping.confidence})` : '')
+    );
+  }
+  for (const mapping of comparison.inferred_mappings) {
+    const via = mapping.path
+      .slice(0, -1)
+      .map((step) => label(step.to_standard, step.to_requirement))
+      .join(', ');
+    parts.push(
+      `- ${label(mapping.from_standard, mapping.from_requirement)} → ` +
+        `${label(mapping.standard_id, mapping.requirement_id)}: ${mapping.relationship}` +
+        (mapping.confidence !== null
+          ? ` (confidence ${Math.round(mapping.confidence * 100) / 100})`
+          : '') +
+        ` — inferred via ${via}`
+    );
+  }
+
+  if (comparison.not_found.length > 0) {
+    parts.push('');
+    parts.push('## Not Found');
+    parts.push('');
+    for (const missing of comparison.not_found) {
+      parts.push(
+        `- ${missing.standard ? label(missing.standard, missing.requirement_id) : missing.requirement_id}`
+      );
+    }
+  }
+
+  return parts.join('\n');
+}
@@ -0,0 +1,282 @@
+/**
+ * Diff standard versions tool: what changed between two versions of a standard
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { parseRequirementReference, requirementKey } from '../database/requirement-ids.js';
+import {
+  DiffStandardVersionsOptions,
+  DiffVersion,
+  OTRequirement,
+  OTStandard,
+  OTStandardVersion,
+  RequirementChange,
+  RequirementChangeType,
+  RequirementFieldDiff,
+  StandardVersionDiff,
+  WordDiffSegment,
+} from '../types/index.js';
+
+/**
+ * Diff standard versions parameters interface
+ */
+export interface DiffStandardVersionsParams {
+  standard: string;
+  /** Older version (default: the version published before to_version) */
+  from_version?: string;
+  /** Newer version (default: the current version) */
+  to_version?: string;
+  options?: DiffStandardVersionsOptions;
+}
+
+/** Text fields compared between versions, in reporting order */
+const DIFF_FIELDS = ['title', 'description', 'rationale'] as const;
+
+/**
+ * Word-level diff of two texts (longest common subsequence of words)
+ *
+ * Whitespace is normalized, so re-wrapped text does not show as changed.
+ *
+ * @returns Segments in reading order, adjacent segments of the same kind merged
+ */
+function diffWords(from: string, to: string): WordDiffSegment[] {
+  const a = from.split(/\s+/).filter((word) => word !== '');
+  const b = to.split(/\s+/).filter((word) => word !== '');
+
+  // Common prefix and suffix need no table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+  const midA = a.slice(start, a.length - end);
+  const midB = b.slice(start, b.length - end);
+
+  // lcs[i][j]: length of the LCS of midA[i..] and midB[j..]
+  const lcs = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0)
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    const row = lcs[i] ?? [];
+    const next = lcs[i + 1] ?? [];
+    for (let j = midB.length - 1; j >= 0; j--) {
+      row[j] =
+        midA[i] === midB[j] ? (next[j + 1] ?? 0) + 1 : Math.max(next[j] ?? 0, row[j + 1] ?? 0);
+    }
+  }
+
+  const words: Array<{ op: WordDiffSegment['op']; word: string }> = a
+    .slice(0, start)
+    .map((word) => ({ op: 'equal', word }));
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      words.push({ op: 'equal', word: midA[i] ?? '' });
+      i++;
+      j++;
+    } else if (
+      i < midA.length &&
+      (j === midB.length || (lcs[i + 1]?.[j] ?? 0) >= (lcs[i]?.[j + 1] ?? 0))
+    ) {
+      // On a tie the deletion goes first, so removed text reads before its replacement
+      words.push({ op: 'delete', word: midA[i] ?? '' });
+      i++;
+    } else {
+      words.push({ op: 'insert', word: midB[j] ?? '' });
+      j++;
+    }
+  }
+  a.slice(a.length - end).forEach((word) => words.push({ op: 'equal', word }));
+
+  const segments: WordDiffSegment[] = [];
+  for (const { op, word } of words) {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+      segments[segments.length - 1] = { op, text: `${last.text} ${word}` };
+    } else {
+      segments.push({ op, text: word });
+    }
+  }
+  return segments;
+}
+
+/**
+ * Compare two versions of a requirement field by field
+ *
+ * @returns Diffs of the fields whose text differs (ignoring whitespace)
+ */
+function diffFields(from: OTRequirement, to: OTRequirement): RequirementFieldDiff[] {
+  const normalize = (text: string | null) => (text ?? '').split(/\s+/).join(' ').trim();
+
+  return DIFF_FIELDS.filter((field) => normalize(from[field]) !== normalize(to[field])).map(
+    (field) => ({
+      field,
+      from: from[field],
+      to: to[field],
+      diff: diffWords(from[field] ?? '', to[field] ?? ''),
+    })
+  );
+}
+
+/**
+ * Report what changed between two versions of a standard
+ *
+ * Requirements are matched by requirement ID (in any notation that
+ * requirementKey() equates): IDs only in the newer version
+ * were added, IDs only in the older version were withdrawn, a requirement
+ * with a new title was renamed, and one whose description or rationale
+ * differs was changed. Renamed and changed requirements carry word-level
+ * diffs of the fields that differ. Versions are those recorded in
+ * ot_standard_versions, or the version recorded on the standard itself.
+ *
+ * @param db - Database client instance
+ * @param params - Standard, the two versions and optional filters
+ * @returns StandardVersionDiff, or null if the standard or a version is not found
+ */
+export async function diffStandardVersions(
+  db: DatabaseClient,
+  params: DiffStandardVersionsParams
+): Promise<StandardVersionDiff | null> {
+  const { standard, from_version, to_version, options = {} } = params;
+
+  // Validate required parameters
+  if (!standard) {
+    return null;
+  }
+
+  const { requirement_id, change_types = [], limit = 100 } = options;
+  const effectiveLimit = Math.min(limit || 100, 500);
+
+  try {
+    const standardData = db.queryOne<OTStandard>(`SELECT * FROM ot_standards WHERE id = ?`, [
+      standard,
+    ]);
+    if (!standardData) {
+      return null;
+    }
+
+    // Versions in publication order; a standard without entries has its own version only
+    let versions: DiffVersion[] = db.query<OTStandardVersion>(
+      `SELECT * FROM ot_standard_versions WHERE standard_id = ?
+       ORDER BY published_date ASC, version ASC`,
+      [standard]
+    );
+    if (versions.length === 0 && standardData.version) {
+      const { version, status, published_date } = standardData;
+      versions = [{ version, status, published_date }];
+    }
+
+    const find = (version: string) =>
+      versions.findIndex((v) => v.version.toLowerCase() === version.toLowerCase());
+    const current = versions.map((v) => v.status).lastIndexOf('current');
+    const toIndex = to_version ? find(to_version) : current >= 0 ? current : versions.length - 1;
+    const fromIndex = from_version ? find(from_version) : toIndex - 1;
+    const to = versions[toIndex];
+    const from = versions[fromIndex];
+    if (!from || !to) {
+      return null;
+    }
+
+    // A requirement_id prefixed with another standard's name matches nothing
+    const reference = requirement_id ? parseRequirementReference(requirement_id) : null;
+    const requirementFilter =
+      reference && (!reference.standard || reference.standard === standard)
+        ? requirementKey(reference.requirement_id)
+        : null;
+
+    // Requirements are matched by requirementKey(), so "AC-2" in one version
+    // is the same requirement as "AC-02" in another
+    const loadVersion = (version: string) => {
+      const condition = versionCondition(version);
+      const rows = db.query<OTRequirement>(
+        `SELECT r.* FROM ot_requirements r
+         WHERE r.standard_id = ? AND ${condition.sql}`,
+        [standard, ...condition.params]
+      );
+      return new Map(
+        rows
+          .map((row): [string, OTRequirement] => [requirementKey(row.requirement_id), row])
+          .filter(([key]) => !reference || key === requirementFilter)
+      );
+    };
+    const older = loadVersion(from.version);
+    const newer = loadVersion(to.version);
+
+    const keys = [...new Set([...older.keys(), ...newer.keys()])]
+      .map((key) => ({
+        key,
+        id: newer.get(key)?.requirement_id ?? older.get(key)?.requirement_id ?? key,
+      }))
+      .sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+    const summary: Record<RequirementChangeType, number> = {
+      added: 0,
+      withdrawn: 0,
+      renamed: 0,
+      changed: 0,
+      unchanged: 0,
+    };
+    const reported = new Set<RequirementChangeType>(
+      change_types.length > 0 ? change_types : ['added', 'withdrawn', 'renamed', 'changed']
+    );
+    // Per-requirement mode reports the requirement even if it did not change
+    if (requirement_id && change_types.length === 0) {
+      reported.add('unchanged');
+    }
+    const changes: RequirementChange[] = [];
+
+    for (const { key, id } of keys) {
+      const before = older.get(key);
+      const after = newer.get(key);
+      const fields = before && after ? diffFields(before, after) : [];
+
+      let change: RequirementChangeType;
+      if (!before) {
+        change = 'added';
+      } else if (!after) {
+        change = 'withdrawn';
+      } else if (fields.some(({ field }) => field === 'title')) {
+        change = 'renamed';
+      } else {
+        change = fields.length > 0 ? 'changed' : 'unchanged';
+      }
+
+      summary[change]++;
+      if (reported.has(change)) {
+        changes.push({
+          requirement_id: id,
+          change,
+          from_title: before?.title ?? null,
+          to_title: after?.title ?? null,
+          fields,
+        });
+      }
+    }
+
+    const describe = ({ version, status, published_date }: DiffVersion): DiffVersion => ({
+      version,
+      status,
+      published_date,
+    });
+
+    return {
+      standard_id: standard,
+      from: describe(from),
+      to: describe(to),
+      summary,
+      changes: changes.slice(0, effectiveLimit),
+      truncated: changes.length > effectiveLimit,
+    };
+  } catch (error) {
+    // Log error and return null for graceful degradation
+    console.error('Error diffing standard versions:', error);
+    return null;
+  }
+}
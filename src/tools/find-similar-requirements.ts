@@ -0,0 +1,197 @@
+/**
+ * Find similar requirements tool: nearest neighbours of a requirement in
+ * other standards
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import {
+  requirementKey,
+  requirementMappings,
+  resolveRequirementId,
+} from '../database/requirement-ids.js';
+import {
+  MappingType,
+  SimilarRequirement,
+  SimilarRequirementsOptions,
+  SimilarRequirementsResult,
+  SimilarityMethod,
+} from '../types/index.js';
+import {
+  MIN_SIMILARITY,
+  cosineSimilarity,
+  inverseDocumentFrequencies,
+  tfidfWeights,
+} from '../search/vectors.js';
+
+/**
+ * Find similar requirements parameters interface
+ */
+export interface FindSimilarRequirementsParams {
+  requirement_id: string;
+  standard: string;
+  options?: SimilarRequirementsOptions;
+}
+
+/** Number of shared terms reported per similar requirement */
+const SHARED_TERMS = 5;
+
+/**
+ * Requirement row with its text and LSA vector (if built)
+ */
+interface CandidateRow {
+  id: number;
+  requirement_id: string;
+  standard_id: string;
+  standard_name: string | null;
+  title: string | null;
+  text: string;
+  embedding: string | null;
+}
+
+/**
+ * Find the requirements in other standards most similar to a requirement
+ *
+ * Similarity is the cosine of the requirements' LSA vectors (built with
+ * npm run build:vectors), which also pairs requirements that describe the
+ * same control in different words. If the source requirement has no vector,
+ * plain TF-IDF vectors of the requirement text are compared instead. Shared
+ * terms are the words both requirements use, ranked by their combined TF-IDF
+ * weight. Each hit reports whether a curated ot_mappings entry already links
+ * it to the source, so uncurated neighbours stand out.
+ *
+ * @param db - Database client instance
+ * @param params - Source requirement and optional filters
+ * @returns SimilarRequirementsResult, or null if the source requirement is not found
+ */
+export async function findSimilarRequirements(
+  db: DatabaseClient,
+  params: FindSimilarRequirementsParams
+): Promise<SimilarRequirementsResult | null> {
+  const { requirement_id, standard, options = {} } = params;
+
+  // Validate required parameters
+  if (!requirement_id || !standard) {
+    return null;
+  }
+
+  const { standards = [], min_similarity = MIN_SIMILARITY, limit = 10 } = options;
+  const effectiveLimit = Math.min(limit || 10, 100);
+
+  try {
+    // Superseded versions of a standard are not neighbours
+    const currentVersion = versionCondition();
+    const rows = db.query<CandidateRow>(
+      `SELECT
+         r.id,
+         r.requirement_id,
+         r.standard_id,
+         s.name AS standard_name,
+         r.title,
+         COALESCE(r.title, '') || ' ' || COALESCE(r.description, '') || ' ' ||
+           COALESCE(r.rationale, '') AS text,
+         v.embedding
+       FROM ot_requirements r
+       LEFT JOIN ot_standards s ON s.id = r.standard_id
+       LEFT JOIN ot_requirement_vectors v ON v.requirement_db_id = r.id
+       WHERE ${currentVersion.sql}
+       ORDER BY r.id`,
+      currentVersion.params
+    );
+
+    const canonicalId = resolveRequirementId(db, standard, requirement_id);
+    const source = rows.find(
+      (row) => row.standard_id === standard && row.requirement_id === canonicalId
+    );
+    if (!source) {
+      return null;
+    }
+
+    // Document frequencies over the whole corpus, for TF-IDF weights
+    const idf = inverseDocumentFrequencies(rows.map((row) => row.text));
+
+    const method: SimilarityMethod = source.embedding ? 'semantic' : 'tfidf';
+    const sourceVector = source.embedding ? (JSON.parse(source.embedding) as number[]) : [];
+    const sourceWeights = tfidfWeights(source.text, idf);
+
+    // Curated mappings in either direction, keyed by standard and requirementKey()
+    const sourceKey = requirementKey(source.requirement_id);
+    const mappings = new Map<string, MappingType>();
+    for (const mapping of requirementMappings(db, standard, source.requirement_id)) {
+      const isSource =
+        mapping.source_standard === standard &&
+        requirementKey(mapping.source_requirement) === sourceKey;
+      const key = isSource
+        ? `${mapping.target_standard}:${requirementKey(mapping.target_requirement)}`
+        : `${mapping.source_standard}:${requirementKey(mapping.source_requirement)}`;
+      if (!mappings.has(key)) {
+        mappings.set(key, mapping.mapping_type);
+      }
+    }
+
+    const similar: SimilarRequirement[] = [];
+    for (const row of rows) {
+      if (
+        row.standard_id === standard ||
+        (standards.length > 0 && !standards.includes(row.standard_id))
+      ) {
+        continue;
+      }
+
+      const weights = tfidfWeights(row.text, idf);
+      const shared = [...sourceWeights]
+        .filter(([term]) => weights.has(term))
+        .map(([term, weight]) => ({ term, score: weight * (weights.get(term) ?? 0) }));
+
+      let similarity: number;
+      if (method === 'semantic') {
+        // Requirements ingested after the last vector build cannot be compared
+        if (!row.embedding) continue;
+        similarity = cosineSimilarity(sourceVector, JSON.parse(row.embedding) as number[]);
+      } else {
+        similarity = shared.reduce((sum, { score }) => sum + score, 0);
+      }
+
+      if (similarity < min_similarity) {
+        continue;
+      }
+
+      const mappingType =
+        mappings.get(`${row.standard_id}:${requirementKey(row.requirement_id)}`) ?? null;
+      similar.push({
+        requirement_id: row.requirement_id,
+        standard_id: row.standard_id,
+        standard_name: row.standard_name ?? row.standard_id,
+        title: row.title,
+        similarity: Math.round(Math.min(1, similarity) * 1000) / 1000,
+        shared_terms: shared
+          .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+          .slice(0, SHARED_TERMS)
+          .map(({ term }) => term),
+        curated_mapping: mappingType !== null,
+        mapping_type: mappingType,
+      });
+    }
+
+    similar.sort(
+      (a, b) =>
+        b.similarity - a.similarity ||
+        a.standard_id.localeCompare(b.standard_id) ||
+        a.requirement_id.localeCompare(b.requirement_id)
+    );
+
+    return {
+      source: {
+        requirement_id: source.requirement_id,
+        standard_id: source.standard_id,
+        title: source.title,
+      },
+      method,
+      similar: similar.slice(0, effectiveLimit),
+    };
+  } catch (error) {
+    // Log error and return null for graceful degradation
+    console.error('Error finding similar requirements:', error);
+    return null;
+  }
+}
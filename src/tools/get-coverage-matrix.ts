@@ -0,0 +1,444 @@
+/**
+ * Get coverage matrix tool: how the mappings between two standards cover
+ * each standard's requirements
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { mappingReviewCondition } from '../database/mapping-provenance.js';
+import { requirementKey } from '../database/requirement-ids.js';
+import { inverseRelationship } from '../database/mapping-perspective.js';
+import {
+  compareRequirementIds,
+  requirementGroup,
+  standardGroups,
+} from '../database/requirement-groups.js';
+import {
+  CoverageCell,
+  CoverageMapping,
+  CoverageMatrix,
+  CoverageMatrixOptions,
+  CoverageMatrixRow,
+  CoverageSide,
+  MappingType,
+  OTMapping,
+  OTRequirement,
+  RequirementGroup,
+} from '../types/index.js';
+
+/**
+ * Get coverage matrix parameters interface
+ */
+export interface GetCoverageMatrixParams {
+  source_standard: string;
+  target_standard: string;
+  options?: CoverageMatrixOptions;
+}
+
+/** Mapping types from the strongest to the weakest coverage */
+const MAPPING_STRENGTH: readonly MappingType[] = [
+  'exact_match',
+  'broader',
+  'narrower',
+  'partial',
+  'related',
+];
+
+/** Column of target requirements outside every group of the target standard */
+const OTHER_GROUP: RequirementGroup = { id: 'Other', title: 'Not in a group' };
+
+/**
+ * A requirement of one side of the matrix
+ */
+interface SideRequirement {
+  requirement_id: string;
+  title: string | null;
+}
+
+/**
+ * Requirements of one side of the matrix
+ */
+interface Side {
+  requirements: Map<string, SideRequirement>;
+  /** Whether any requirement of the standard is in the database */
+  loaded: boolean;
+}
+
+/**
+ * Requirements of a standard: current requirements in the database (MITRE
+ * mitigations for mitre-ics) and every requirement a mapping names
+ *
+ * Withdrawn requirements count only when a mapping names them. Without
+ * enhancements, the database's enhancements are left out even when mapped.
+ */
+function sideRequirements(
+  db: DatabaseClient,
+  standard: string,
+  mappings: OTMapping[],
+  includeEnhancements: boolean
+): Side {
+  const requirements = new Map<string, SideRequirement>();
+  const excluded = new Set<string>();
+  const withdrawn = new Map<string, SideRequirement>();
+  let loaded: boolean;
+
+  if (standard === 'mitre-ics') {
+    const rows = db.query<{ mitigation_id: string; name: string | null }>(
+      `SELECT mitigation_id, name FROM mitre_ics_mitigations`
+    );
+    for (const row of rows) {
+      requirements.set(requirementKey(row.mitigation_id), {
+        requirement_id: row.mitigation_id,
+        title: row.name,
+      });
+    }
+    loaded = rows.length > 0;
+  } else {
+    const currentVersion = versionCondition();
+    const rows = db.query<OTRequirement>(
+      `SELECT r.* FROM ot_requirements r
+       WHERE r.standard_id = ? AND ${currentVersion.sql}
+       ORDER BY r.id DESC`,
+      [standard, ...currentVersion.params]
+    );
+    for (const row of rows) {
+      const key = requirementKey(row.requirement_id);
+      if (requirements.has(key) || withdrawn.has(key) || excluded.has(key)) {
+        continue;
+      }
+      const requirement = { requirement_id: row.requirement_id, title: row.title };
+      if (!includeEnhancements && row.parent_requirement_id) {
+        excluded.add(key);
+      } else if (row.status === 'withdrawn') {
+        withdrawn.set(key, requirement);
+      } else {
+        requirements.set(key, requirement);
+      }
+    }
+    loaded = rows.length > 0;
+  }
+
+  // Requirements named by mappings, whether or not they are in the database
+  for (const mapping of mappings) {
+    for (const [mappedStandard, id] of [
+      [mapping.source_standard, mapping.source_requirement],
+      [mapping.target_standard, mapping.target_requirement],
+    ] as const) {
+      const key = requirementKey(id);
+      if (mappedStandard === standard && !requirements.has(key) && !excluded.has(key)) {
+        requirements.set(key, withdrawn.get(key) ?? { requirement_id: id, title: null });
+      }
+    }
+  }
+
+  return { requirements, loaded };
+}
+
+/**
+ * Coverage of one side of the matrix
+ *
+ * A standard that is not loaded is only known through its mappings, so every
+ * requirement it shows is mapped by construction: its total, percentage and
+ * unmapped requirements are unknown (null) rather than full coverage.
+ */
+function sideCoverage(standard: string, side: Side, covered: Set<string>): CoverageSide {
+  const { requirements, loaded } = side;
+  if (!loaded) {
+    return {
+      standard_id: standard,
+      loaded,
+      total: null,
+      covered: covered.size,
+      percent_covered: null,
+      unmapped: null,
+    };
+  }
+
+  const total = requirements.size;
+  return {
+    standard_id: standard,
+    loaded,
+    total,
+    covered: covered.size,
+    percent_covered: total > 0 ? Math.round((covered.size / total) * 1000) / 10 : 0,
+    unmapped: [...requirements]
+      .filter(([key]) => !covered.has(key))
+      .map(([, requirement]) => requirement.requirement_id)
+      .sort((a, b) => compareRequirementIds(standard, a, b)),
+  };
+}
+
+/**
+ * Compute the coverage matrix of two standards from their curated mappings
+ *
+ * Rows are the requirements of the source standard; columns are the groups of
+ * the target standard (IEC 62443 foundational requirements, NIST 800-53
+ * control families, NIST 800-82 chapters) or its requirements, with columns
+ * "requirement" or for requirements without groups (MITRE mitigations). A
+ * cell is covered when a mapping links the row's requirement to a requirement
+ * of the column, in either direction; mappings written from the target to the
+ * source standard are read backwards ('broader' becomes 'narrower').
+ * 'supersedes' mappings are not coverage, nor are retired mappings (with
+ * reviewed_only, only reviewed mappings are). Requirements named by a mapping
+ * appear even when they are not in the database, as licensed standards are
+ * often only present through their mappings; the coverage of such a side is
+ * reported as unknown (loaded: false), never as complete.
+ *
+ * @param db - Database client instance
+ * @param params - Source and target standard, and optional layout options
+ * @returns CoverageMatrix, or null if either standard has no requirements
+ */
+export async function getCoverageMatrix(
+  db: DatabaseClient,
+  params: GetCoverageMatrixParams
+): Promise<CoverageMatrix | null> {
+  const { source_standard, target_standard, options = {} } = params;
+  const { include_enhancements = true, reviewed_only = false } = options;
+
+  // Validate required parameters
+  if (!source_standard || source_standard.trim() === '') {
+    return null;
+  }
+
+  if (!target_standard || target_standard.trim() === '') {
+    return null;
+  }
+
+  try {
+    // Step 1: Mappings of either standard, and the requirements of each side
+    const mappings = db.query<OTMapping>(
+      `SELECT * FROM ot_mappings
+       WHERE mapping_type != 'supersedes' AND ${mappingReviewCondition(reviewed_only)}
+         AND (source_standard IN (?, ?) OR target_standard IN (?, ?))
+       ORDER BY id`,
+      [source_standard, target_standard, source_standard, target_standard]
+    );
+    const sourceSide = sideRequirements(db, source_standard, mappings, include_enhancements);
+    const targetSide = sideRequirements(db, target_standard, mappings, include_enhancements);
+    const sourceRequirements = sourceSide.requirements;
+    const targetRequirements = targetSide.requirements;
+    if (sourceRequirements.size === 0 || targetRequirements.size === 0) {
+      return null;
+    }
+
+    // Step 2: Columns, in document order (MITRE mitigations belong to no tactic)
+    const byGroup =
+      (options.columns ?? 'group') === 'group' &&
+      [...targetRequirements.values()].some(
+        (requirement) => requirementGroup(target_standard, requirement.requirement_id) !== null
+      );
+    const columnOf = (requirementId: string): RequirementGroup =>
+      byGroup
+        ? (requirementGroup(target_standard, requirementId) ?? OTHER_GROUP)
+        : { id: requirementId, title: requirementId };
+    const known = standardGroups(target_standard);
+    const rank = (column: RequirementGroup) => {
+      const index = known.findIndex((group) => group.id === column.id);
+      return column.id === OTHER_GROUP.id ? known.length + 1 : index >= 0 ? index : known.length;
+    };
+    const columns = [
+      ...new Map(
+        [...targetRequirements.values()].map((requirement) => {
+          const column = byGroup
+            ? columnOf(requirement.requirement_id)
+            : {
+                id: requirement.requirement_id,
+                title: requirement.title ?? requirement.requirement_id,
+              };
+          return [column.id, column] as const;
+        })
+      ).values(),
+    ].sort(
+      (a, b) =>
+        (byGroup ? rank(a) - rank(b) : 0) || compareRequirementIds(target_standard, a.id, b.id)
+    );
+
+    // Step 3: Each mapping between the standards, as seen from the source standard
+    const coverage = new Map<string, Map<string, CoverageMapping[]>>();
+    const coveredSource = new Set<string>();
+    const coveredTarget = new Set<string>();
+    const counted: Array<{ mapping_type: MappingType; confidence: number | null }> = [];
+    for (const mapping of mappings) {
+      const forward =
+        mapping.source_standard === source_standard && mapping.target_standard === target_standard;
+      const backward =
+        mapping.source_standard === target_standard && mapping.target_standard === source_standard;
+      if (!forward && !backward) {
+        continue;
+      }
+      // 'supersedes' mappings are not selected, so the inverse is a mapping type
+      const [sourceId, targetId, mappingType] = forward
+        ? [mapping.source_requirement, mapping.target_requirement, mapping.mapping_type]
+        : [
+            mapping.target_requirement,
+            mapping.source_requirement,
+            inverseRelationship(mapping.mapping_type) as MappingType,
+          ];
+      const sourceKey = requirementKey(sourceId);
+      const targetKey = requirementKey(targetId);
+      const targetRequirement = targetRequirements.get(targetKey);
+      if (!sourceRequirements.has(sourceKey) || !targetRequirement) {
+        // An enhancement left out with include_enhancements: false
+        continue;
+      }
+
+      counted.push({ mapping_type: mappingType, confidence: mapping.confidence });
+      coveredSource.add(sourceKey);
+      coveredTarget.add(targetKey);
+      const cells = coverage.get(sourceKey) ?? new Map<string, CoverageMapping[]>();
+      const column = columnOf(targetRequirement.requirement_id).id;
+      cells.set(column, [
+        ...(cells.get(column) ?? []),
+        {
+          requirement_id: targetRequirement.requirement_id,
+          mapping_type: mappingType,
+          confidence: mapping.confidence,
+        },
+      ]);
+      coverage.set(sourceKey, cells);
+    }
+
+    // Step 4: Rows, strongest mapping of each cell first
+    const strength = (type: MappingType) => {
+      const index = MAPPING_STRENGTH.indexOf(type);
+      return index >= 0 ? index : MAPPING_STRENGTH.length;
+    };
+    const rows: CoverageMatrixRow[] = [...sourceRequirements]
+      .sort(([, a], [, b]) =>
+        compareRequirementIds(source_standard, a.requirement_id, b.requirement_id)
+      )
+      .map(([key, requirement]) => {
+        const cells: Record<string, CoverageCell> = {};
+        for (const [column, cellMappings] of coverage.get(key) ?? []) {
+          const sorted = [...cellMappings].sort(
+            (a, b) =>
+              strength(a.mapping_type) - strength(b.mapping_type) ||
+              (b.confidence ?? -1) - (a.confidence ?? -1) ||
+              compareRequirementIds(target_standard, a.requirement_id, b.requirement_id)
+          );
+          const confidences = sorted.flatMap((m) => (m.confidence === null ? [] : [m.confidence]));
+          cells[column] = {
+            mapping_type: sorted[0]?.mapping_type ?? 'related',
+            confidence: confidences.length > 0 ? Math.max(...confidences) : null,
+            mappings: sorted,
+          };
+        }
+        return { requirement_id: requirement.requirement_id, title: requirement.title, cells };
+      });
+
+    // Step 5: Summary statistics
+    const mappingsByType: Partial<Record<MappingType, number>> = {};
+    for (const mapping of counted) {
+      mappingsByType[mapping.mapping_type] = (mappingsByType[mapping.mapping_type] ?? 0) + 1;
+    }
+    const confidences = counted.flatMap((m) => (m.confidence === null ? [] : [m.confidence]));
+
+    return {
+      source: sideCoverage(source_standard, sourceSide, coveredSource),
+      target: sideCoverage(target_standard, targetSide, coveredTarget),
+      columns,
+      rows,
+      summary: {
+        mapping_count: counted.length,
+        mappings_by_type: mappingsByType,
+        average_confidence:
+          confidences.length > 0
+            ? Math.round((confidences.reduce((sum, c) => sum + c, 0) / confidences.length) * 1000) /
+              1000
+            : null,
+      },
+    };
+  } catch (error) {
+    // Log error and return null for graceful degradation
+    console.error('Error computing coverage matrix:', error);
+    return null;
+  }
+}
+
+/**
+ * Text of a covered cell: strongest relationship, highest confidence and,
+ * for several mappings, their number (e.g., "exact_match 0.9 (2)")
+ */
+function cellLabel(cell: CoverageCell | undefined): string {
+  if (!cell) {
+    return '';
+  }
+  return (
+    cell.mapping_type +
+    (cell.confidence !== null ? ` ${cell.confidence}` : '') +
+    (cell.mappings.length > 1 ? ` (${cell.mappings.length})` : '')
+  );
+}
+
+/**
+ * Format a coverage matrix as CSV: one line per source requirement, one
+ * column per matrix column, covered cells labelled with their strongest mapping
+ *
+ * @param matrix - Result of getCoverageMatrix
+ * @returns CSV text (RFC 4180 quoting)
+ */
+export function formatCoverageMatrixCsv(matrix: CoverageMatrix): string {
+  const field = (value: string | null) =>
+    value !== null && /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : (value ?? '');
+
+  const lines = [
+    ['requirement_id', 'title', ...matrix.columns.map((column) => column.id)].map(field).join(','),
+    ...matrix.rows.map((row) =>
+      [
+        row.requirement_id,
+        row.title,
+        ...matrix.columns.map((column) => cellLabel(row.cells[column.id])),
+      ]
+        .map(field)
+        .join(',')
+    ),
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+/**
+ * Format a coverage matrix as markdown: summary, the matrix as a table and
+ * the unmapped requirements of each side
+ *
+ * @param matrix - Result of getCoverageMatrix
+ * @returns Markdown text
+ */
+export function formatCoverageMatrixMarkdown(matrix: CoverageMatrix): string {
+  const side = (coverage: CoverageSide) =>
+    coverage.loaded
+      ? `- **${coverage.standard_id}**: ${coverage.covered} of ${coverage.total} requirements covered (${coverage.percent_covered}%)`
+      : `- **${coverage.standard_id}**: ${coverage.covered} requirements covered; coverage unknown (not loaded, requirements only known through mappings)`;
+
+  const parts: string[] = [];
+  parts.push(`# Coverage of ${matrix.source.standard_id} by ${matrix.target.standard_id}`);
+  parts.push('');
+  parts.push(side(matrix.source));
+  parts.push(side(matrix.target));
+  parts.push(
+    `- **Mappings**: ${matrix.summary.mapping_count}` +
+      (matrix.summary.average_confidence !== null
+        ? `, average confidence ${matrix.summary.average_confidence}`
+        : '')
+  );
+  parts.push('');
+  parts.push(`| Requirement | ${matrix.columns.map((column) => column.id).join(' | ')} |`);
+  parts.push(`|-------------|${matrix.columns.map(() => '---').join('|')}|`);
+  for (const row of matrix.rows) {
+    parts.push(
+      `| ${row.requirement_id} | ${matrix.columns
+        .map((column) => cellLabel(row.cells[column.id]))
+        .join(' | ')} |`
+    );
+  }
+
+  for (const coverage of [matrix.source, matrix.target]) {
+    if (coverage.unmapped && coverage.unmapped.length > 0) {
+      parts.push('');
+      parts.push(`## Unmapped in ${coverage.standard_id}`);
+      parts.push('');
+      parts.push(coverage.unmapped.join(', '));
+    }
+  }
+
+  return parts.join('\n');
+}
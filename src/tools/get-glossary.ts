@@ -0,0 +1,85 @@
+/**
+ * Get OT glossary tool implementation
+ * Returns OT/ICS acronym definitions and the expansions used by search
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import {
+  GlossaryEntry,
+  GlossaryOptions,
+  GlossaryResult,
+  GlossaryTermType,
+} from '../types/index.js';
+
+/**
+ * Look up OT/ICS glossary terms
+ *
+ * Returns the same vocabulary that search_ot_requirements uses for synonym
+ * expansion. A term lookup matches the glossary term or any of its expansions
+ * case-insensitively, so both "HMI" and "human machine interface" return the
+ * HMI entry. Without a term, all entries (optionally filtered by category)
+ * are returned.
+ *
+ * @param db - Database client instance
+ * @param options - Optional term and category filters
+ * @returns GlossaryResult with the glossary version and matching entries
+ */
+export async function getGlossary(
+  db: DatabaseClient,
+  options: GlossaryOptions = {}
+): Promise<GlossaryResult> {
+  const { term, category } = options;
+
+  try {
+    let sql = `SELECT g.id, g.term, g.term_type, g.category, g.definition
+               FROM ot_glossary g
+               WHERE 1=1`;
+    const params: any[] = [];
+
+    if (term && term.trim() !== '') {
+      sql += ` AND (g.term = ? COLLATE NOCASE
+                    OR EXISTS (SELECT 1 FROM ot_glossary_expansions e
+                               WHERE e.glossary_id = g.id AND e.expansion = ? COLLATE NOCASE))`;
+      params.push(term.trim(), term.trim());
+    }
+
+    if (category) {
+      sql += ` AND g.category = ? COLLATE NOCASE`;
+      params.push(category);
+    }
+
+    sql += ` ORDER BY g.term COLLATE NOCASE`;
+
+    const rows = db.query<{
+      id: number;
+      term: string;
+      term_type: GlossaryTermType;
+      category: string | null;
+      definition: string | null;
+    }>(sql, params);
+
+    const entries: GlossaryEntry[] = rows.map((row) => ({
+      term: row.term,
+      term_type: row.term_type,
+      category: row.category,
+      definition: row.definition,
+      expansions: db
+        .query<{
+          expansion: string;
+        }>(`SELECT expansion FROM ot_glossary_expansions WHERE glossary_id = ? ORDER BY id`, [
+          row.id,
+        ])
+        .map((e) => e.expansion),
+    }));
+
+    const version = db.queryOne<{ value: string }>(
+      `SELECT value FROM db_metadata WHERE key = 'glossary_version'`
+    );
+
+    return { version: version?.value ?? null, entries };
+  } catch (error) {
+    // Log error and return empty result for graceful degradation
+    console.error('Error getting glossary:', error);
+    return { version: null, entries: [] };
+  }
+}
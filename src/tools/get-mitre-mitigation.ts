@@ -0,0 +1,62 @@
+/**
+ * Get MITRE mitigation tool implementation for MITRE ATT&CK for ICS mitigations
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { normalizeMitreId } from '../database/requirement-ids.js';
+import { MitreMitigation, MitreMitigationDetail, MitreTechnique } from '../types/index.js';
+
+/**
+ * Get MITRE mitigation parameters interface
+ */
+export interface GetMitreMitigationParams {
+  mitigation_id: string;
+}
+
+/**
+ * Retrieve a MITRE ATT&CK for ICS mitigation with the techniques it addresses
+ *
+ * @param db - Database client instance
+ * @param params - Parameters including mitigation_id
+ * @returns MitreMitigationDetail object, or null if not found
+ */
+export async function getMitreMitigation(
+  db: DatabaseClient,
+  params: GetMitreMitigationParams
+): Promise<MitreMitigationDetail | null> {
+  const { mitigation_id } = params;
+
+  // Validate required parameters
+  if (!mitigation_id || mitigation_id.trim() === '') {
+    return null;
+  }
+
+  try {
+    const mitigation = db.queryOne<MitreMitigation>(
+      `SELECT mitigation_id, name, description
+       FROM mitre_ics_mitigations
+       WHERE mitigation_id = ?
+       LIMIT 1`,
+      [normalizeMitreId(mitigation_id)]
+    );
+
+    if (!mitigation) {
+      return null;
+    }
+
+    const techniques = db.query<Pick<MitreTechnique, 'technique_id' | 'name' | 'tactic'>>(
+      `SELECT DISTINCT t.technique_id, t.name, t.tactic
+       FROM mitre_ics_techniques t
+       INNER JOIN mitre_technique_mitigations mtm ON t.technique_id = mtm.technique_id
+       WHERE mtm.mitigation_id = ?
+       ORDER BY t.technique_id`,
+      [mitigation.mitigation_id]
+    );
+
+    return { ...mitigation, techniques };
+  } catch (error) {
+    // Log error and return null for graceful degradation
+    console.error('Error getting MITRE mitigation:', error);
+    return null;
+  }
+}
@@ -3,6 +3,8 @@
  */
 
 import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { normalizeMitreId } from '../database/requirement-ids.js';
 import {
   MitreTechnique,
   MitreTechniqueDetail,
@@ -44,6 +46,9 @@ export async function getMitreTechnique(
     return null;
   }
 
+  // "t0800" and "MITRE ATT&CK T0800" are T0800
+  const techniqueId = normalizeMitreId(technique_id);
+
   try {
     // Step 1: Get the technique
     const rawTechnique = db.queryOne<{
@@ -57,7 +62,7 @@ export async function getMitreTechnique(
       `SELECT * FROM mitre_ics_techniques
        WHERE technique_id = ?
        LIMIT 1`,
-      [technique_id]
+      [techniqueId]
     );
 
     if (!rawTechnique) {
@@ -104,7 +109,7 @@ export async function getMitreTechnique(
          FROM mitre_ics_mitigations m
          INNER JOIN mitre_technique_mitigations mtm ON m.mitigation_id = mtm.mitigation_id
          WHERE mtm.technique_id = ?`,
-        [technique_id]
+        [techniqueId]
       );
     }
 
@@ -113,14 +118,16 @@ export async function getMitreTechnique(
     if (map_to_standards && map_to_standards.length > 0) {
       // Build placeholders for IN clause
       const placeholders = map_to_standards.map(() => '?').join(', ');
+      const currentVersion = versionCondition();
 
       mapped_requirements = db.query<OTRequirement>(
         `SELECT DISTINCT r.*
          FROM ot_requirements r
          INNER JOIN mitre_technique_mitigations mtm ON r.requirement_id = mtm.ot_requirement_id
          WHERE mtm.technique_id = ?
-           AND r.standard_id IN (${placeholders})`,
-        [technique_id, ...map_to_standards]
+           AND r.standard_id IN (${placeholders})
+           AND ${currentVersion.sql}`,
+        [techniqueId, ...map_to_standards, ...currentVersion.params]
       );
     }
 
@@ -4,12 +4,18 @@
  */
 
 import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { requirementMappings, resolveRequirementId } from '../database/requirement-ids.js';
+import { withProvenance } from '../database/mapping-provenance.js';
+import { fromPerspective } from '../database/mapping-perspective.js';
 import {
   OTRequirement,
   OTStandard,
   SecurityLevel,
   SectorApplicability,
-  OTMapping,
+  MappingDirection,
+  MappingProvenance,
+  MappingRelationship,
 } from '../types/index.js';
 
 /**
@@ -18,6 +24,8 @@ import {
 export interface GetRequirementRationaleParams {
   requirement_id: string;
   standard: string;
+  /** Only relate requirements through reviewed mappings */
+  reviewed_only?: boolean;
 }
 
 /**
@@ -38,8 +46,15 @@ export interface RequirementRationale {
   readonly related_standards: Array<{
     standard: string;
     requirement_id: string;
+    /** Title of the related requirement, null if it is not loaded */
+    title: string | null;
+    /** Stored mapping type */
     mapping_type: string;
+    /** Relationship of this requirement to the related one (see fromPerspective()) */
+    relationship: MappingRelationship;
+    direction: MappingDirection;
     confidence: number | null;
+    provenance: MappingProvenance;
   }>;
 }
 
@@ -60,7 +75,7 @@ export async function getRequirementRationale(
   db: DatabaseClient,
   params: GetRequirementRationaleParams
 ): Promise<RequirementRationale | null> {
-  const { requirement_id, standard } = params;
+  const { requirement_id, standard, reviewed_only = false } = params;
 
   // Validate required parameters
   if (!requirement_id || requirement_id.trim() === '') {
@@ -72,12 +87,18 @@ export async function getRequirementRationale(
   }
 
   try {
-    // Step 1: Get the requirement
+    // Step 1: Get the requirement (in the standard's current version), under its stored ID
+    const canonicalId = resolveRequirementId(db, standard, requirement_id);
+    if (!canonicalId) {
+      return null;
+    }
+    const currentVersion = versionCondition();
     const requirement = db.queryOne<OTRequirement>(
-      `SELECT * FROM ot_requirements
-       WHERE requirement_id = ? AND standard_id = ?
+      `SELECT r.* FROM ot_requirements r
+       WHERE r.requirement_id = ? AND r.standard_id = ? AND ${currentVersion.sql}
+       ORDER BY r.id DESC
        LIMIT 1`,
-      [requirement_id, standard]
+      [canonicalId, standard, ...currentVersion.params]
     );
 
     if (!requirement) {
@@ -109,27 +130,24 @@ export async function getRequirementRationale(
     );
 
     // Step 5: Get related standards via mappings
-    const mappings = db.query<OTMapping>(
-      `SELECT * FROM ot_mappings
-       WHERE (source_standard = ? AND source_requirement = ?)
-          OR (target_standard = ? AND target_requirement = ?)
-       ORDER BY confidence DESC`,
-      [standard, requirement_id, standard, requirement_id]
-    );
-
-    // Transform mappings into related_standards format
-    const related_standards = mappings.map((mapping) => {
-      // Determine which side is the "other" standard
-      const isSource =
-        mapping.source_standard === standard && mapping.source_requirement === requirement_id;
-
-      return {
-        standard: isSource ? mapping.target_standard : mapping.source_standard,
-        requirement_id: isSource ? mapping.target_requirement : mapping.source_requirement,
-        mapping_type: mapping.mapping_type,
-        confidence: mapping.confidence,
-      };
-    });
+    const mappings = fromPerspective(
+      db,
+      standard,
+      canonicalId,
+      withProvenance(db, requirementMappings(db, standard, canonicalId, reviewed_only))
+    ).sort((a, b) => (b.confidence ?? -1) - (a.confidence ?? -1));
+
+    // Transform mappings into related_standards format, read from this requirement
+    const related_standards = mappings.map((mapping) => ({
+      standard: mapping.counterpart.standard_id,
+      requirement_id: mapping.counterpart.requirement_id,
+      title: mapping.counterpart.title,
+      mapping_type: mapping.mapping_type,
+      relationship: mapping.relationship,
+      direction: mapping.direction,
+      confidence: mapping.confidence,
+      provenance: mapping.provenance,
+    }));
 
     // Step 6: Construct and return RequirementRationale
     const result: RequirementRationale = {
@@ -0,0 +1,222 @@
+/**
+ * Get requirement tree tool: a requirement's base requirement, enhancements,
+ * siblings and foundational requirement or control family
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { requirementKey, resolveRequirementId } from '../database/requirement-ids.js';
+import { compareRequirementIds, requirementGroup } from '../database/requirement-groups.js';
+import {
+  OTRequirement,
+  OTStandard,
+  RequirementTree,
+  RequirementTreeNode,
+  RequirementTreeOptions,
+  SecurityLevel,
+} from '../types/index.js';
+
+/**
+ * Get requirement tree parameters interface
+ */
+export interface GetRequirementTreeParams {
+  requirement_id: string;
+  standard: string;
+  options?: RequirementTreeOptions;
+}
+
+/**
+ * Retrieve the requirement hierarchy around an OT security requirement
+ *
+ * Walks parent_requirement_id up from the requested requirement to its base
+ * requirement and returns the base with every enhancement nested below it,
+ * each node with its own security levels. Siblings are the requirements with
+ * the same parent; a base requirement's siblings are the other base
+ * requirements of its group (see requirementGroup()). Parents are
+ * matched by requirementKey(), in the requested (or current) version.
+ *
+ * @param db - Database client instance
+ * @param params - Requirement ID, standard and optional version
+ * @returns RequirementTree, or null if the requirement is not found
+ */
+export async function getRequirementTree(
+  db: DatabaseClient,
+  params: GetRequirementTreeParams
+): Promise<RequirementTree | null> {
+  const { requirement_id, standard, options = {} } = params;
+  const { version } = options;
+
+  // Validate required parameters
+  if (!requirement_id || requirement_id.trim() === '') {
+    return null;
+  }
+
+  if (!standard || standard.trim() === '') {
+    return null;
+  }
+
+  try {
+    // Step 1: Resolve the requirement and load its standard
+    const canonicalId = resolveRequirementId(db, standard, requirement_id, version);
+    if (!canonicalId) {
+      return null;
+    }
+    const standardData = db.queryOne<OTStandard>(`SELECT * FROM ot_standards WHERE id = ?`, [
+      standard,
+    ]);
+    if (!standardData) {
+      return null;
+    }
+
+    // Step 2: Every requirement of the version, the latest row per requirement key
+    const versionFilter = versionCondition(version);
+    const rows = db.query<OTRequirement>(
+      `SELECT r.* FROM ot_requirements r
+       WHERE r.standard_id = ? AND ${versionFilter.sql}
+       ORDER BY r.id DESC`,
+      [standard, ...versionFilter.params]
+    );
+    const rowsByKey = new Map<string, OTRequirement>();
+    for (const row of rows) {
+      const key = requirementKey(row.requirement_id);
+      if (!rowsByKey.has(key)) {
+        rowsByKey.set(key, row);
+      }
+    }
+
+    const requested = rowsByKey.get(requirementKey(canonicalId));
+    if (!requested) {
+      return null;
+    }
+
+    // Enhancements by parent, in document order ("SR 1.10" after "SR 1.9")
+    const parentOf = (row: OTRequirement) =>
+      row.parent_requirement_id
+        ? rowsByKey.get(requirementKey(row.parent_requirement_id))
+        : undefined;
+    const ordered = [...rowsByKey.values()].sort((a, b) =>
+      compareRequirementIds(standard, a.requirement_id, b.requirement_id)
+    );
+    const children = new Map<number, OTRequirement[]>();
+    for (const row of ordered) {
+      const parent = parentOf(row);
+      if (parent) {
+        children.set(parent.id, [...(children.get(parent.id) ?? []), row]);
+      }
+    }
+
+    // Step 3: Walk up to the base requirement (a parent cycle stops the walk)
+    let root = requested;
+    const visited = new Set([root.id]);
+    for (let parent = parentOf(root); parent && !visited.has(parent.id); parent = parentOf(root)) {
+      visited.add(parent.id);
+      root = parent;
+    }
+
+    // Step 4: Siblings share the requested requirement's parent; base requirements share a group
+    const group = requirementGroup(standard, root.requirement_id);
+    const requestedParent = parentOf(requested);
+    const siblings = requestedParent
+      ? (children.get(requestedParent.id) ?? []).filter((row) => row.id !== requested.id)
+      : group
+        ? ordered.filter(
+            (row) =>
+              row.id !== requested.id &&
+              !parentOf(row) &&
+              requirementGroup(standard, row.requirement_id)?.id === group.id
+          )
+        : [];
+
+    // Step 5: Security levels of every requirement in the tree and of the siblings
+    const treeRows: OTRequirement[] = [];
+    const collected = new Set<number>();
+    const collect = (row: OTRequirement) => {
+      collected.add(row.id);
+      treeRows.push(row);
+      (children.get(row.id) ?? []).filter((child) => !collected.has(child.id)).forEach(collect);
+    };
+    collect(root);
+    const levelRows = [...new Set([...treeRows, ...siblings])];
+    const securityLevels = db.query<SecurityLevel>(
+      `SELECT * FROM security_levels
+       WHERE requirement_db_id IN (${levelRows.map(() => '?').join(', ')})
+       ORDER BY security_level ASC`,
+      levelRows.map((row) => row.id)
+    );
+
+    // Step 6: Construct the nodes
+    const node = (
+      row: OTRequirement,
+      enhancements: RequirementTreeNode[] = []
+    ): RequirementTreeNode => ({
+      requirement_id: row.requirement_id,
+      title: row.title,
+      parent_requirement_id: row.parent_requirement_id,
+      status: row.status,
+      security_levels: securityLevels.filter((level) => level.requirement_db_id === row.id),
+      enhancements,
+    });
+    const placed = new Set<number>();
+    const subtree = (row: OTRequirement): RequirementTreeNode => {
+      placed.add(row.id);
+      return node(
+        row,
+        (children.get(row.id) ?? []).filter((child) => !placed.has(child.id)).map(subtree)
+      );
+    };
+
+    return {
+      standard_id: standard,
+      standard_name: standardData.name,
+      version: requested.version ?? standardData.version,
+      requirement_id: requested.requirement_id,
+      group,
+      root: subtree(root),
+      siblings: siblings.map((row) => node(row)),
+    };
+  } catch (error) {
+    // Log error and return null for graceful degradation
+    console.error('Error getting requirement tree:', error);
+    return null;
+  }
+}
+
+/**
+ * Render a requirement tree as an indented markdown outline
+ *
+ * Each line lists a requirement, its title and its security levels; the
+ * requested requirement is marked.
+ */
+export function formatRequirementTree(tree: RequirementTree): string {
+  const line = (node: RequirementTreeNode, depth: number) => {
+    const levels = node.security_levels.map((level) => `SL-${level.security_level}`);
+    return (
+      `${'  '.repeat(depth)}- **${node.requirement_id}**` +
+      (node.title ? ` ${node.title}` : '') +
+      (levels.length > 0 ? ` (${[...new Set(levels)].join(', ')})` : '') +
+      (node.status === 'withdrawn' ? ' [withdrawn]' : '') +
+      (node.requirement_id === tree.requirement_id ? ' ← requested' : '')
+    );
+  };
+  const outline = (node: RequirementTreeNode, depth: number): string[] => [
+    line(node, depth),
+    ...node.enhancements.flatMap((enhancement) => outline(enhancement, depth + 1)),
+  ];
+
+  const parts: string[] = [];
+  parts.push(
+    `# ${tree.standard_name}${tree.version ? ` (${tree.version})` : ''}` +
+      (tree.group ? ` — ${tree.group.id}: ${tree.group.title}` : '')
+  );
+  parts.push('');
+  parts.push(...outline(tree.root, 0));
+
+  if (tree.siblings.length > 0) {
+    parts.push('');
+    parts.push(`## Siblings`);
+    parts.push('');
+    parts.push(...tree.siblings.map((sibling) => line(sibling, 0)));
+  }
+
+  return parts.join('\n');
+}
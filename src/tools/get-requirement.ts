@@ -3,12 +3,18 @@
  */
 
 import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { requirementMappings, resolveRequirementId } from '../database/requirement-ids.js';
+import { withProvenance } from '../database/mapping-provenance.js';
+import { fromPerspective } from '../database/mapping-perspective.js';
 import {
   RequirementDetail,
   GetRequirementOptions,
   OTRequirement,
   OTStandard,
-  OTMapping,
+  OTStandardVersion,
+  RequirementMapping,
+  RequirementWithdrawal,
   SecurityLevel,
 } from '../types/index.js';
 
@@ -25,8 +31,14 @@ export interface GetRequirementParams {
  * Retrieve detailed information about a specific OT security requirement
  *
  * Fetches a requirement by ID and standard, including standard metadata,
- * security level mappings, and cross-standard mappings. Supports filtering
- * by version and optional inclusion/exclusion of mappings.
+ * security level mappings, and cross-standard mappings. Without a version,
+ * the standard's current version answers; `version` on the result and the
+ * standard metadata report the version that answered. Each mapping carries
+ * its provenance (source document, mapping file and review status) and reads
+ * from the requested requirement: its relationship to the other requirement,
+ * whichever way the mapping is stored (see fromPerspective()); retired
+ * mappings are left out, and reviewed_only keeps only reviewed mappings.
+ * Mappings can be optionally excluded.
  *
  * @param db - Database client instance
  * @param params - Parameters including requirement_id, standard, and optional filters
@@ -39,11 +51,7 @@ export async function getRequirement(
   const { requirement_id, standard, options = {} } = params;
 
   // Extract options with defaults
-  const {
-    include_mappings = true,
-    // TODO: Stage 1 - version parameter will be implemented when multi-version support is added
-    // version
-  } = options;
+  const { include_mappings = true, version, reviewed_only = false } = options;
 
   // Validate required parameters
   if (!requirement_id || requirement_id.trim() === '') {
@@ -55,15 +63,21 @@ export async function getRequirement(
   }
 
   try {
-    // Step 1: Get the requirement
-    const requirement = db.queryOne<OTRequirement>(
-      `SELECT * FROM ot_requirements
-       WHERE requirement_id = ? AND standard_id = ?
+    // Step 1: Get the requirement in the requested (or current) version, under its stored ID
+    const canonicalId = resolveRequirementId(db, standard, requirement_id, version);
+    if (!canonicalId) {
+      return null;
+    }
+    const versionFilter = versionCondition(version);
+    const row = db.queryOne<OTRequirement>(
+      `SELECT r.* FROM ot_requirements r
+       WHERE r.requirement_id = ? AND r.standard_id = ? AND ${versionFilter.sql}
+       ORDER BY r.id DESC
        LIMIT 1`,
-      [requirement_id, standard]
+      [canonicalId, standard, ...versionFilter.params]
     );
 
-    if (!requirement) {
+    if (!row) {
       return null;
     }
 
@@ -77,6 +91,13 @@ export async function getRequirement(
       return null;
     }
 
+    // Requirements without a version belong to the version recorded on the standard
+    const requirement: OTRequirement = { ...row, version: row.version ?? standardData.version };
+    const versionData = db.queryOne<OTStandardVersion>(
+      `SELECT * FROM ot_standard_versions WHERE standard_id = ? AND version = ?`,
+      [standard, requirement.version]
+    );
+
     // Step 3: Get security levels
     const security_levels = db.query<SecurityLevel>(
       `SELECT * FROM security_levels WHERE requirement_db_id = ?`,
@@ -84,23 +105,53 @@ export async function getRequirement(
     );
 
     // Step 4: Get mappings (if requested)
-    let mappings: OTMapping[] = [];
+    let mappings: RequirementMapping[] = [];
     if (include_mappings) {
       // Get bidirectional mappings: where this requirement is source OR target
-      mappings = db.query<OTMapping>(
-        `SELECT * FROM ot_mappings
-         WHERE (source_standard = ? AND source_requirement = ?)
-            OR (target_standard = ? AND target_requirement = ?)`,
-        [standard, requirement_id, standard, requirement_id]
+      mappings = fromPerspective(
+        db,
+        standard,
+        canonicalId,
+        withProvenance(db, requirementMappings(db, standard, canonicalId, reviewed_only))
       );
     }
 
-    // Step 5: Construct and return RequirementDetail
+    // Step 5: For a withdrawn requirement, the requirements that superseded it
+    let withdrawal: RequirementWithdrawal | undefined;
+    if (requirement.status === 'withdrawn') {
+      const successorVersion = versionCondition(requirement.version ?? undefined);
+      withdrawal = {
+        notice: requirement.description ?? 'Withdrawn.',
+        superseded_by: db.query<RequirementWithdrawal['superseded_by'][number]>(
+          `SELECT m.source_standard AS standard_id, m.source_requirement AS requirement_id,
+                  (SELECT r.title FROM ot_requirements r
+                   WHERE r.standard_id = m.source_standard
+                     AND r.requirement_id = m.source_requirement AND ${successorVersion.sql}
+                   ORDER BY r.id DESC LIMIT 1) AS title
+           FROM ot_mappings m
+           WHERE m.target_standard = ? AND m.target_requirement = ?
+             AND m.mapping_type = 'supersedes' AND m.review_status != 'retired'
+           ORDER BY m.id`,
+          [...successorVersion.params, standard, canonicalId]
+        ),
+      };
+    }
+
+    // Step 6: Construct and return RequirementDetail
     const result: RequirementDetail = {
       ...requirement,
-      standard: standardData,
+      standard: versionData
+        ? {
+            ...standardData,
+            version: versionData.version,
+            status: versionData.status,
+            published_date: versionData.published_date,
+            url: versionData.url,
+          }
+        : standardData,
       mappings,
       security_levels,
+      ...(withdrawal ? { withdrawal } : {}),
     };
 
     return result;
@@ -0,0 +1,269 @@
+/**
+ * Get requirements tool implementation: batch lookup of OT security requirements
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { parseRequirementReference, requirementKey } from '../database/requirement-ids.js';
+import { mappingReviewCondition, withProvenance } from '../database/mapping-provenance.js';
+import { fromPerspective } from '../database/mapping-perspective.js';
+import {
+  RequirementBatchResult,
+  RequirementDetail,
+  RequirementNotFound,
+  RequirementWithdrawal,
+  GetRequirementOptions,
+  OTRequirement,
+  OTStandard,
+  OTStandardVersion,
+  OTMapping,
+  ProvenancedMapping,
+  SecurityLevel,
+} from '../types/index.js';
+
+/**
+ * Most requirements one call may request
+ */
+export const MAX_BATCH_REQUIREMENTS = 100;
+
+/**
+ * Get requirements parameters interface
+ */
+export interface GetRequirementsParams {
+  /** Requirement ID and standard pairs */
+  requirements?: Array<{ requirement_id: string; standard: string }>;
+  /** Free-form references such as "IEC 62443-3-3 SR 1.1" or "AC-2" */
+  references?: string[];
+  options?: GetRequirementOptions;
+}
+
+/**
+ * A requested requirement: what was asked for and where to look for it
+ */
+interface BatchItem {
+  readonly requested: RequirementNotFound;
+  /** Standard to look in, or null to look in every standard */
+  readonly standard: string | null;
+  /** requirementKey() of the requested ID, or null for a request that cannot match */
+  readonly key: string | null;
+}
+
+/**
+ * Retrieve several OT security requirements at once
+ *
+ * Answers each requested requirement as get_ot_requirement would (same ID
+ * notations, version selection and mappings), but reads each table once for
+ * the whole batch. A reference without a standard prefix is looked up in every
+ * standard and found only if exactly one standard has it. Requirements that
+ * are not found, or requested twice, do not fail the batch: they are listed
+ * in `not_found` or returned once.
+ *
+ * @param db - Database client instance
+ * @param params - Requirement/standard pairs and/or free-form references, and optional filters
+ * @returns Found requirements and the requests that were not found, in request order
+ */
+export async function getRequirements(
+  db: DatabaseClient,
+  params: GetRequirementsParams
+): Promise<RequirementBatchResult> {
+  const { requirements = [], references = [], options = {} } = params;
+  const { include_mappings = true, version, reviewed_only = false } = options;
+
+  const items: BatchItem[] = [
+    ...requirements.map(({ requirement_id = '', standard = '' }): BatchItem => {
+      // A prefix naming another standard does not match, as in get_ot_requirement
+      const reference = parseRequirementReference(requirement_id);
+      const matchable =
+        reference.requirement_id !== '' &&
+        standard.trim() !== '' &&
+        (!reference.standard || reference.standard === standard);
+      return {
+        requested: { requirement_id, standard: standard || null },
+        standard,
+        key: matchable ? requirementKey(reference.requirement_id) : null,
+      };
+    }),
+    ...references.map((input = ''): BatchItem => {
+      const reference = parseRequirementReference(input);
+      return {
+        requested: { requirement_id: input, standard: reference.standard },
+        standard: reference.standard,
+        key: reference.requirement_id !== '' ? requirementKey(reference.requirement_id) : null,
+      };
+    }),
+  ];
+
+  if (items.every((item) => item.key === null)) {
+    return { requirements: [], not_found: items.map((item) => item.requested) };
+  }
+
+  try {
+    // A reference without a standard is looked up in every standard
+    const standards = items.some((item) => item.key !== null && item.standard === null)
+      ? null
+      : [
+          ...new Set(
+            items.flatMap((item) => (item.key !== null && item.standard ? [item.standard] : []))
+          ),
+        ];
+    const inList = (column: string, values: readonly unknown[]) =>
+      `${column} IN (${values.map(() => '?').join(', ')})`;
+
+    // Step 1: Mappings of the requested standards (only 'supersedes' mappings
+    // when mappings are excluded: they name the successors of withdrawn requirements)
+    const mappings = withProvenance(
+      db,
+      db.query<OTMapping>(
+        `SELECT * FROM ot_mappings
+         WHERE ${
+           standards
+             ? `(${inList('source_standard', standards)} OR ${inList('target_standard', standards)})`
+             : '1 = 1'
+         } AND ${mappingReviewCondition(reviewed_only)}
+           ${include_mappings ? '' : `AND mapping_type = 'supersedes'`}
+         ORDER BY id`,
+        standards ? [...standards, ...standards] : []
+      )
+    );
+
+    // Step 2: Requirements of the requested standards and of the successors of
+    // withdrawn requirements, in the requested (or current) version
+    const requirementStandards = standards && [
+      ...new Set([
+        ...standards,
+        ...mappings
+          .filter((mapping) => mapping.mapping_type === 'supersedes')
+          .map((mapping) => mapping.source_standard),
+      ]),
+    ];
+    const versionFilter = versionCondition(version);
+    const rows = db.query<OTRequirement>(
+      `SELECT r.* FROM ot_requirements r
+       WHERE ${requirementStandards ? inList('r.standard_id', requirementStandards) : '1 = 1'}
+         AND ${versionFilter.sql}
+       ORDER BY r.id DESC`,
+      [...(requirementStandards ?? []), ...versionFilter.params]
+    );
+
+    // Latest row per standard and requirement key, as get_ot_requirement picks it
+    const rowsByKey = new Map<string, OTRequirement>();
+    for (const row of rows) {
+      const rowKey = `${row.standard_id}:${requirementKey(row.requirement_id)}`;
+      if (!rowsByKey.has(rowKey)) {
+        rowsByKey.set(rowKey, row);
+      }
+    }
+
+    // Step 3: Match each request to a requirement
+    const matched = items.map((item) => {
+      if (item.key === null) {
+        return undefined;
+      }
+      if (item.standard) {
+        return rowsByKey.get(`${item.standard}:${item.key}`);
+      }
+      const matches = [...rowsByKey.values()].filter(
+        (row) => requirementKey(row.requirement_id) === item.key
+      );
+      return matches.length === 1 ? matches[0] : undefined;
+    });
+    const found = [
+      ...new Map(matched.flatMap((row) => (row ? [[row.id, row] as const] : []))).values(),
+    ];
+    const not_found = items.filter((_item, i) => !matched[i]).map((item) => item.requested);
+
+    if (found.length === 0) {
+      return { requirements: [], not_found };
+    }
+
+    // Step 4: Standard metadata, versions and security levels of the found requirements
+    const foundStandards = [...new Set(found.map((row) => row.standard_id))];
+    const standardsById = new Map(
+      db
+        .query<OTStandard>(
+          `SELECT * FROM ot_standards WHERE ${inList('id', foundStandards)}`,
+          foundStandards
+        )
+        .map((standard) => [standard.id, standard])
+    );
+    const versions = db.query<OTStandardVersion>(
+      `SELECT * FROM ot_standard_versions WHERE ${inList('standard_id', foundStandards)}`,
+      foundStandards
+    );
+    const securityLevels = db.query<SecurityLevel>(
+      `SELECT * FROM security_levels WHERE ${inList('requirement_db_id', found)}`,
+      found.map((row) => row.id)
+    );
+
+    // Step 5: Construct a RequirementDetail per found requirement
+    const requirementDetails = found.flatMap((row): RequirementDetail[] => {
+      const standardData = standardsById.get(row.standard_id);
+      if (!standardData) {
+        // This shouldn't happen if FK constraints are working, but handle gracefully
+        return [];
+      }
+
+      // Requirements without a version belong to the version recorded on the standard
+      const requirement: OTRequirement = { ...row, version: row.version ?? standardData.version };
+      const versionData = versions.find(
+        (v) => v.standard_id === row.standard_id && v.version === requirement.version
+      );
+
+      // Bidirectional mappings, whichever way they write the requirement ID
+      const key = requirementKey(row.requirement_id);
+      const isTarget = (mapping: ProvenancedMapping) =>
+        mapping.target_standard === row.standard_id &&
+        requirementKey(mapping.target_requirement) === key;
+      const requirementMappings = mappings.filter(
+        (mapping) =>
+          isTarget(mapping) ||
+          (mapping.source_standard === row.standard_id &&
+            requirementKey(mapping.source_requirement) === key)
+      );
+
+      // For a withdrawn requirement, the requirements that superseded it
+      let withdrawal: RequirementWithdrawal | undefined;
+      if (requirement.status === 'withdrawn') {
+        withdrawal = {
+          notice: requirement.description ?? 'Withdrawn.',
+          superseded_by: requirementMappings
+            .filter((mapping) => mapping.mapping_type === 'supersedes' && isTarget(mapping))
+            .map((mapping) => ({
+              standard_id: mapping.source_standard,
+              requirement_id: mapping.source_requirement,
+              title:
+                rowsByKey.get(
+                  `${mapping.source_standard}:${requirementKey(mapping.source_requirement)}`
+                )?.title ?? null,
+            })),
+        };
+      }
+
+      return [
+        {
+          ...requirement,
+          standard: versionData
+            ? {
+                ...standardData,
+                version: versionData.version,
+                status: versionData.status,
+                published_date: versionData.published_date,
+                url: versionData.url,
+              }
+            : standardData,
+          mappings: include_mappings
+            ? fromPerspective(db, row.standard_id, row.requirement_id, requirementMappings)
+            : [],
+          security_levels: securityLevels.filter((level) => level.requirement_db_id === row.id),
+          ...(withdrawal ? { withdrawal } : {}),
+        },
+      ];
+    });
+
+    return { requirements: requirementDetails, not_found };
+  } catch (error) {
+    // Log error and report every request as not found for graceful degradation
+    console.error('Error getting requirements:', error);
+    return { requirements: [], not_found: items.map((item) => item.requested) };
+  }
+}
@@ -29,13 +29,30 @@ function annotateTools(tools: Tool[]): Tool[] {
 }
 
 // Export tool implementations
-export { searchRequirements } from './search.js';
+export { searchRequirements, searchRequirementsDetailed } from './search.js';
 export { getRequirement } from './get-requirement.js';
 export { listStandards } from './list-standards.js';
 export { getMitreTechnique } from './get-mitre-technique.js';
 export { mapSecurityLevelRequirements } from './map-security-level-requirements.js';
 export { getZoneConduitGuidance } from './get-zone-conduit-guidance.js';
 export { getRequirementRationale } from './get-requirement-rationale.js';
+export { getGlossary } from './get-glossary.js';
+export { searchKnowledge } from './search-knowledge.js';
+export { getMitreMitigation } from './get-mitre-mitigation.js';
+export { findSimilarRequirements } from './find-similar-requirements.js';
+export { diffStandardVersions } from './diff-standard-versions.js';
+export { getRequirements } from './get-requirements.js';
+export { getRequirementTree, formatRequirementTree } from './get-requirement-tree.js';
+export { browseStandard } from './browse-standard.js';
+export { resolveMappingPath } from './resolve-mapping-path.js';
+export { compareRequirements, formatComparison } from './compare-requirements.js';
+export {
+  getCoverageMatrix,
+  formatCoverageMatrixCsv,
+  formatCoverageMatrixMarkdown,
+} from './get-coverage-matrix.js';
+export { suggestMappings } from './suggest-mappings.js';
+export { validateMappings } from './validate-mappings.js';
 
 /**
  * Register all Stage 1 tools for the MCP server
@@ -46,14 +63,14 @@ export function registerTools(): Tool[] {
     {
       name: 'search_ot_requirements',
       description:
-        'Full-text search across all OT security standards (IEC 62443, NIST 800-53, NIST 800-82, MITRE ATT&CK for ICS). Returns ranked results with snippet and relevance score (0-1). Use this as an entry point for discovery when you do not know the exact requirement ID. Chain results into get_ot_requirement for full details. Returns empty array (not error) when no matches found. NOT for retrieving a specific known requirement by ID - use get_ot_requirement instead.',
+        'Full-text search across all OT security standards (IEC 62443, NIST 800-53, NIST 800-82, MITRE ATT&CK for ICS). Returns {data, total_count, has_more, next_cursor, facets, did_you_mean, mode}: one page of ranked results with snippet and relevance score (0-1); the total number of matches; a cursor for the next page; match counts per standard_id, component_type, purdue_level and security_level to refine the query; the corrected query when misspelled words were fixed (e.g. "firmwear" -> "firmware"); and the ranking mode used. Set mode to "semantic" or "hybrid" to find requirements that describe the same concept in different words. Use this as an entry point for discovery when you do not know the exact requirement ID. Chain results into get_ot_requirement for full details. Returns empty data (not error) when no matches found. NOT for retrieving a specific known requirement by ID - use get_ot_requirement instead.',
       inputSchema: {
         type: 'object',
         properties: {
           query: {
             type: 'string',
             description:
-              'Search query for finding requirements (searches in title, description, and rationale)',
+              'Search query (searches requirement ID, title, description, and rationale; words are stemmed and ranked by BM25). Plain words must all match, in any order; if none match together, any-word matches are returned. Syntax: "exact phrase"; AND (implicit between terms), OR, NOT or a leading - to exclude (e.g. plc -wireless; needs at least one positive term); parentheses for grouping; field prefixes id:, requirement_id:, title:, description:, rationale: (e.g. title:"audit", rationale:(log OR event)); trailing * for prefix match (e.g. auth*; not after a phrase). Other word: prefixes are searched as text. Escape spaces in IDs with a backslash: id:SR\\ 3.* matches SR 3.1, SR 3.2, etc. Keywords must be uppercase. Malformed queries return an error object with message and position.',
           },
           standards: {
             type: 'array',
@@ -74,12 +91,79 @@ export function registerTools(): Tool[] {
             enum: ['host', 'network', 'embedded', 'application'],
             description: 'Optional: Filter by component type',
           },
+          purdue_levels: {
+            type: 'array',
+            items: {
+              type: 'number',
+              minimum: 0,
+              maximum: 5,
+            },
+            description:
+              'Optional: Filter by Purdue Model levels 0-5 (e.g., [1, 2] for control devices and supervisory systems). Requirements without a Purdue level are excluded.',
+          },
+          only_base_requirements: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only return base requirements, not their enhancements (e.g., SR 1.1 but not SR 1.1 RE 1)',
+          },
+          only_enhancements: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only return requirement enhancements (IEC 62443 REs, NIST control enhancements)',
+          },
+          parent_requirement_id: {
+            type: 'string',
+            description:
+              'Optional: Only return enhancements of this base requirement (e.g., "SR 1.1")',
+          },
+          sector: {
+            type: 'string',
+            description:
+              'Optional: Filter by industry sector (e.g., "energy", "water", "manufacturing"): only standards that apply to the sector are searched',
+          },
+          version: {
+            type: 'string',
+            description:
+              'Optional: Search this version of the standards (e.g., "Rev 4"). Default: each standard\'s current version; every result reports its version',
+          },
+          expand_synonyms: {
+            type: 'boolean',
+            default: true,
+            description:
+              'Optional: Expand OT acronyms and synonyms from the glossary, e.g. "MFA" also matches "multifactor authentication", "DoS" matches "denial of service" (default: true). See get_ot_glossary for the vocabulary.',
+          },
+          fuzzy: {
+            type: 'boolean',
+            default: true,
+            description:
+              'Optional: When the query finds fewer than 3 results, correct misspelled words against the indexed vocabulary, include the corrected results and report the corrected query as did_you_mean (default: true)',
+          },
+          mode: {
+            type: 'string',
+            enum: ['keyword', 'semantic', 'hybrid'],
+            default: 'keyword',
+            description:
+              'Optional: Ranking. "keyword" ranks exact word matches by BM25; "semantic" ranks requirements by similarity of locally computed text vectors, so "stolen login credentials" also finds authenticator management; "hybrid" fuses both rankings (default: "keyword"). Falls back to "keyword" if no vectors have been built; the response reports the mode used.',
+          },
           limit: {
             type: 'number',
             minimum: 1,
             maximum: 100,
             default: 10,
-            description: 'Optional: Maximum number of results to return (default: 10)',
+            description: 'Optional: Maximum number of results per page (default: 10)',
+          },
+          cursor: {
+            type: 'string',
+            description:
+              'Optional: next_cursor from a previous response to fetch the following page. Repeat the same query and filters; the cursor is rejected otherwise.',
+          },
+          explain: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Explain the ranking, for tuning queries and reporting ranking bugs. Adds explain {match_expression, terms, relaxed, candidates, filters: [{filter, value, excluded}]} to the response and explanation {matched_fields, matched_terms, field_scores, keyword_score, semantic_similarity} to each hit (default: false)',
           },
         },
         required: ['query'],
@@ -88,13 +172,14 @@ export function registerTools(): Tool[] {
     {
       name: 'get_ot_requirement',
       description:
-        'Get detailed information about a specific OT security requirement by ID and standard. Returns null (not error) when requirement not found. Includes cross-standard mappings by default (e.g., NIST 800-53 AC-2 mapped to IEC 62443 SR 1.1). Use after search_ot_requirements to get full details, or directly when you know the exact requirement_id and standard. Output includes mappings to other frameworks - chain into get_ot_requirement for mapped requirements. Available standards: "iec62443-3-3", "iec62443-4-2", "iec62443-3-2", "nist-800-53", "nist-800-82".',
+        'Get detailed information about a specific OT security requirement by ID and standard. Returns null (not error) when requirement not found. Includes cross-standard mappings by default (e.g., NIST 800-53 AC-2 mapped to IEC 62443 SR 1.1). Use after search_ot_requirements to get full details, or directly when you know the exact requirement_id and standard. Output includes mappings to other frameworks, each with its provenance (source document, mapping file, review status, reviewer and review date) and read from the requested requirement: relationship is how this requirement relates to the counterpart (broader/narrower and supersedes/superseded_by are inverted for mappings stored towards it; direction says which), counterpart is the other requirement with its title - chain into get_ot_requirement for mapped requirements; set reviewed_only to keep only reviewed mappings. Withdrawn controls (e.g., NIST 800-53 AC-13) return status "withdrawn" and a withdrawal field with the notice and the controls that superseded them. Available standards: "iec62443-3-3", "iec62443-4-2", "iec62443-3-2", "nist-800-53", "nist-800-82".',
       inputSchema: {
         type: 'object',
         properties: {
           requirement_id: {
             type: 'string',
-            description: 'Requirement identifier (e.g., "SR 1.1", "SR 1.1 RE 1")',
+            description:
+              'Requirement identifier (e.g., "SR 1.1", "SR 1.1 RE 1", "AC-2"). Other notations ("SR1.1", "AC-02") and standard prefixes ("IEC 62443-3-3 SR 1.1") resolve to the canonical ID',
           },
           standard: {
             type: 'string',
@@ -102,7 +187,8 @@ export function registerTools(): Tool[] {
           },
           version: {
             type: 'string',
-            description: 'Optional: Specific version of the standard',
+            description:
+              'Optional: Version of the standard (e.g., "Rev 4"). Default: the current version. The response reports the version that answered in its version field',
           },
           include_mappings: {
             type: 'boolean',
@@ -110,6 +196,12 @@ export function registerTools(): Tool[] {
             description:
               'Optional: Include cross-standard mappings in the response (default: true)',
           },
+          reviewed_only: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only return mappings whose review status is "reviewed" (withdrawal successors are always returned; retired mappings never are) (default: false)',
+          },
         },
         required: ['requirement_id', 'standard'],
       },
@@ -117,10 +209,16 @@ export function registerTools(): Tool[] {
     {
       name: 'list_ot_standards',
       description:
-        'List all available OT security standards with requirement counts and metadata. Use this first to discover available standards and their IDs before calling other tools. Returns standard ID, name, version, and requirement count. Note: IEC 62443 data is user-supplied and may not be present in all installations - check the returned list to see what is available.',
+        'List all available OT security standards with requirement counts and metadata. Use this first to discover available standards and their IDs before calling other tools. Returns standard ID, name, version, requirement count and all recorded versions. Note: IEC 62443 data is user-supplied and may not be present in all installations - check the returned list to see what is available.',
       inputSchema: {
         type: 'object',
-        properties: {},
+        properties: {
+          version: {
+            type: 'string',
+            description:
+              'Optional: Describe this version of each standard (e.g., "Rev 4") and leave out standards without it. Default: each standard\'s current version',
+          },
+        },
         required: [],
       },
     },
@@ -133,7 +231,7 @@ export function registerTools(): Tool[] {
         properties: {
           technique_id: {
             type: 'string',
-            description: 'MITRE technique ID (e.g., "T0800", "T0801")',
+            description: 'MITRE technique ID (e.g., "T0800", "T0801"; "t0800" also accepted)',
           },
           include_mitigations: {
             type: 'boolean',
@@ -209,22 +307,566 @@ export function registerTools(): Tool[] {
     {
       name: 'get_requirement_rationale',
       description:
-        'Get comprehensive rationale for why a specific OT security requirement exists. Returns: threats it addresses, regulatory drivers (NIS2, IEC 62443 certification), sector applicability (energy, manufacturing, water), and related requirements from other standards. Requires both requirement_id and standard. Returns null when not found. Use after get_ot_requirement when you need to explain or justify a requirement to stakeholders. NOT a substitute for get_ot_requirement - this provides the "why", not the "what".',
+        'Get comprehensive rationale for why a specific OT security requirement exists. Returns: threats it addresses, regulatory drivers (NIS2, IEC 62443 certification), sector applicability (energy, manufacturing, water), and related requirements from other standards with their titles, the provenance and review status of each mapping, and the relationship read from this requirement (e.g., "narrower" for a mapping stored as "broader" towards it). Requires both requirement_id and standard. Returns null when not found. Use after get_ot_requirement when you need to explain or justify a requirement to stakeholders. NOT a substitute for get_ot_requirement - this provides the "why", not the "what".',
       inputSchema: {
         type: 'object',
         properties: {
           requirement_id: {
             type: 'string',
-            description: 'Requirement identifier (e.g., "SR 1.1", "AC-2")',
+            description:
+              'Requirement identifier (e.g., "SR 1.1", "AC-2"; "SR1.1", "AC-02" also accepted)',
           },
           standard: {
             type: 'string',
             description: 'Standard identifier (e.g., "iec62443-3-3", "nist-800-53")',
           },
+          reviewed_only: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only relate requirements through mappings whose review status is "reviewed" (default: false)',
+          },
         },
         required: ['requirement_id', 'standard'],
       },
     },
+    {
+      name: 'get_ot_glossary',
+      description:
+        'Look up OT/ICS acronyms and jargon (HMI, RTU, SIS, EWS, MFA, DoS, ...) with definitions and equivalent expansions. This is the same vocabulary search_ot_requirements uses for synonym expansion, so use it to explain terms to users or to understand why a search matched. Lookup is case-insensitive and matches either the acronym or any expansion (e.g. "engineering workstation" returns EWS). Omit term to list the whole glossary, optionally filtered by category. Returns an empty entries array (not error) when nothing matches.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          term: {
+            type: 'string',
+            description:
+              'Optional: Acronym, term or expansion to look up (e.g., "HMI", "denial of service")',
+          },
+          category: {
+            type: 'string',
+            enum: [
+              'asset',
+              'attack',
+              'data',
+              'general',
+              'identity',
+              'monitoring',
+              'network',
+              'protocol',
+              'resilience',
+              'safety',
+              'system',
+            ],
+            description: 'Optional: Filter by category',
+          },
+        },
+        required: [],
+      },
+    },
+    {
+      name: 'search_ot_knowledge',
+      description:
+        'Search all OT security knowledge in one call: requirements (IEC 62443, NIST 800-53), NIST 800-82 guidance, MITRE ATT&CK for ICS techniques and mitigations, and IEC 62443 zones (including typical assets) and conduits. Returns {data, total_count, has_more, type_counts}; each hit has a type (requirement, technique, mitigation, zone, conduit, guidance), id, title, snippet, a score (0-1) comparable across types, and follow_up: the tool call that returns the entity in full. Use this when a topic (e.g. "engineering workstation") may appear in threats and architecture as well as requirements; use search_ot_requirements for requirement-only search with filters, pagination and facets.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description:
+              'Search query, same syntax as search_ot_requirements (phrases, AND/OR/NOT, -exclusion, parentheses, trailing *). Field prefixes: id: (requirement/technique/mitigation ID), title:, description: or rationale: (body text). Malformed queries return an error object with message and position.',
+          },
+          entity_types: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['requirement', 'technique', 'mitigation', 'zone', 'conduit', 'guidance'],
+            },
+            description: 'Optional: Only return these entity types (default: all)',
+          },
+          expand_synonyms: {
+            type: 'boolean',
+            default: true,
+            description:
+              'Optional: Expand OT acronyms and synonyms from the glossary (default: true)',
+          },
+          limit: {
+            type: 'number',
+            minimum: 1,
+            maximum: 100,
+            default: 10,
+            description: 'Optional: Maximum number of results to return (default: 10)',
+          },
+        },
+        required: ['query'],
+      },
+    },
+    {
+      name: 'get_mitre_ics_mitigation',
+      description:
+        'Get a MITRE ATT&CK for ICS mitigation by ID with its description and the techniques it addresses. Returns an error object when the mitigation is not found. Mitigation IDs follow the pattern M0800-M0899. Use get_mitre_ics_technique for technique details.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          mitigation_id: {
+            type: 'string',
+            description: 'MITRE mitigation ID (e.g., "M0801", "M0930"; "m0801" also accepted)',
+          },
+        },
+        required: ['mitigation_id'],
+      },
+    },
+    {
+      name: 'find_similar_requirements',
+      description:
+        'Find the requirements in other standards most similar to a given requirement ("more like this"), including neighbours nobody has curated into a cross-standard mapping yet. Returns {source, method, similar}: each similar requirement has a similarity score (0-1), the key terms both requirements share, and curated_mapping / mapping_type showing whether a curated mapping already links them. Similarity uses locally built semantic vectors (method "semantic") or TF-IDF text similarity when the requirement has no vector (method "tfidf"). Returns an error object when the requirement is not found. Use get_ot_requirement for the full text of a hit.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirement_id: {
+            type: 'string',
+            description:
+              'Requirement identifier (e.g., "AC-17", "SR 1.1", "G-6.11"; "AC-017", "SR1.1" also accepted)',
+          },
+          standard: {
+            type: 'string',
+            description:
+              'Standard the requirement belongs to (e.g., "nist-800-53", "iec62443-3-3")',
+          },
+          standards: {
+            type: 'array',
+            items: {
+              type: 'string',
+            },
+            description:
+              'Optional: Only return requirements from these standards (default: every standard except the source standard)',
+          },
+          min_similarity: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            default: 0.2,
+            description: 'Optional: Minimum similarity score to include (default: 0.2)',
+          },
+          limit: {
+            type: 'number',
+            minimum: 1,
+            maximum: 100,
+            default: 10,
+            description: 'Optional: Maximum number of results (default: 10)',
+          },
+        },
+        required: ['requirement_id', 'standard'],
+      },
+    },
+    {
+      name: 'diff_standard_versions',
+      description:
+        'Report what changed between two versions of a standard (e.g., NIST 800-53 Rev 4 to Rev 5): requirements added, withdrawn, renamed (new title) and changed (new description or rationale), with word-level diffs of title, description and rationale. Returns {standard_id, from, to, summary, changes, truncated}; summary counts every kind of change, including unchanged. Pass requirement_id for a single requirement ("what changed in AC-17?"), or change_types to list e.g. only added requirements. Versions default to the current version and the one before it - see the versions field of list_ot_standards. Returns an error object when the standard or a version is not found.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          standard: {
+            type: 'string',
+            description: 'Standard identifier (e.g., "nist-800-53", "iec62443-3-3")',
+          },
+          from_version: {
+            type: 'string',
+            description:
+              'Optional: Older version (e.g., "Rev 4"). Default: the version published before to_version',
+          },
+          to_version: {
+            type: 'string',
+            description: 'Optional: Newer version (e.g., "Rev 5"). Default: the current version',
+          },
+          requirement_id: {
+            type: 'string',
+            description:
+              'Optional: Diff only this requirement (e.g., "AC-17"); it is reported even if unchanged',
+          },
+          change_types: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['added', 'withdrawn', 'renamed', 'changed', 'unchanged'],
+            },
+            description:
+              'Optional: Only list these kinds of change (default: added, withdrawn, renamed and changed)',
+          },
+          limit: {
+            type: 'number',
+            minimum: 1,
+            maximum: 500,
+            default: 100,
+            description: 'Optional: Maximum number of changes to list (default: 100)',
+          },
+        },
+        required: ['standard'],
+      },
+    },
+    {
+      name: 'get_ot_requirements',
+      description:
+        'Get detailed information about several OT security requirements in one call (up to 100), e.g., every requirement cited in an audit finding or returned by a mapping. Each found requirement has the same fields as get_ot_requirement plus its own _citation; requirements that do not exist are listed in not_found instead of failing the call. Pass requirement_id/standard pairs, free-form references with a standard prefix ("IEC 62443-3-3 SR 1.1", "NIST SP 800-53 AC-2"), or both. A reference without a prefix ("AC-2") is found only if exactly one standard has that ID.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirements: {
+            type: 'array',
+            maxItems: 100,
+            items: {
+              type: 'object',
+              properties: {
+                requirement_id: {
+                  type: 'string',
+                  description: 'Requirement identifier (e.g., "SR 1.1", "AC-2")',
+                },
+                standard: {
+                  type: 'string',
+                  description: 'Standard identifier (e.g., "iec62443-3-3", "nist-800-53")',
+                },
+              },
+              required: ['requirement_id', 'standard'],
+            },
+            description: 'Optional: Requirement ID and standard pairs',
+          },
+          references: {
+            type: 'array',
+            maxItems: 100,
+            items: { type: 'string' },
+            description:
+              'Optional: Free-form requirement references (e.g., "IEC 62443-3-3 SR 1.1", "NIST SP 800-53 Rev 5 AC-2(1)")',
+          },
+          version: {
+            type: 'string',
+            description:
+              'Optional: Version of the standards (e.g., "Rev 4"). Default: the current version of each standard',
+          },
+          include_mappings: {
+            type: 'boolean',
+            default: true,
+            description:
+              'Optional: Include cross-standard mappings in the response (default: true)',
+          },
+          reviewed_only: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only return mappings whose review status is "reviewed" (withdrawal successors are always returned; retired mappings never are) (default: false)',
+          },
+        },
+        required: [],
+      },
+    },
+    {
+      name: 'get_requirement_tree',
+      description:
+        'Get the hierarchy around an OT security requirement: its base requirement with every enhancement nested below it (IEC 62443 REs, NIST control enhancements), the group it belongs to (IEC 62443 foundational requirement, NIST 800-53 control family or NIST 800-82 chapter, e.g., "FR 1" Identification and authentication control, "AC" Access Control; see browse_standard), its siblings, and the security levels attached at each node. Works from a base requirement or any of its enhancements. Siblings are the enhancements of the same base requirement, or for a base requirement the other base requirements of its group. Set format to "markdown" for an indented outline instead of JSON. Returns an error object when the requirement is not found.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirement_id: {
+            type: 'string',
+            description:
+              'Requirement identifier, base requirement or enhancement (e.g., "SR 1.1", "SR 1.1 RE 2", "AC-2(1)")',
+          },
+          standard: {
+            type: 'string',
+            description: 'Standard identifier (e.g., "iec62443-3-3", "nist-800-53")',
+          },
+          version: {
+            type: 'string',
+            description:
+              'Optional: Version of the standard (e.g., "Rev 4"). Default: the current version',
+          },
+          format: {
+            type: 'string',
+            enum: ['json', 'markdown'],
+            default: 'json',
+            description:
+              'Optional: "json" for the tree as an object, "markdown" for an indented outline (default: "json")',
+          },
+        },
+        required: ['requirement_id', 'standard'],
+      },
+    },
+    {
+      name: 'browse_standard',
+      description:
+        'Browse a standard by its structure. Without a group, lists the standard\'s groups in document order with requirement_count for each: IEC 62443 foundational requirements (FR 1-7), NIST 800-53 control families (AC, SC, ...), NIST 800-82 chapters, or MITRE ATT&CK for ICS tactics. With a group (ID or title, e.g., "FR 3", "System integrity", "SC", "initial-access"), returns that group\'s requirements in document order, one page at a time ({group, requirements, has_more, next_cursor}). Use to answer "show me everything under FR 3" or "list the SC family"; chain into get_ot_requirement or get_mitre_ics_technique for details. Returns an error object listing the available groups when the group is not found.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          standard: {
+            type: 'string',
+            description:
+              'Standard identifier (e.g., "iec62443-3-3", "iec62443-4-2", "nist-800-53", "nist-800-82", "mitre-ics")',
+          },
+          group: {
+            type: 'string',
+            description:
+              'Optional: Group ID or title to list the requirements of (e.g., "FR 3", "SC", "Chapter 6", "initial-access"). Omit to list the groups',
+          },
+          version: {
+            type: 'string',
+            description:
+              'Optional: Version of the standard (e.g., "Rev 4"). Default: the current version',
+          },
+          limit: {
+            type: 'number',
+            minimum: 1,
+            maximum: 200,
+            default: 50,
+            description: 'Optional: Maximum number of requirements per page (default: 50)',
+          },
+          cursor: {
+            type: 'string',
+            description:
+              'Optional: next_cursor from a previous response to fetch the following page of the same group',
+          },
+        },
+        required: ['standard'],
+      },
+    },
+    {
+      name: 'resolve_mapping_path',
+      description:
+        'Follow cross-standard mappings transitively from one requirement, up to max_hops mappings (e.g., IEC 62443-3-3 SR 1.1 -> NIST 800-53 IA-2 -> NIST 800-82 guidance or MITRE ATT&CK for ICS mitigations). Mappings are followed in both directions ("broader" read backwards is "narrower"); the relationship is composed along the path and confidences are multiplied. Returns the source requirement\'s curated (direct) mappings separately from the inferred ones, each with relationship, confidence, hops, path_count and the full chain of mappings as justification. Inferred relationships are derived, not curated: treat them as leads to verify. Returns an error object when the requirement is not found.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirement_id: {
+            type: 'string',
+            description:
+              'Requirement ID (e.g., "SR 1.1", "AC-2", "M0801" for a MITRE ATT&CK for ICS mitigation)',
+          },
+          standard: {
+            type: 'string',
+            description:
+              'Standard of the requirement (e.g., "iec62443-3-3", "nist-800-53", "nist-800-82", "mitre-ics")',
+          },
+          max_hops: {
+            type: 'number',
+            minimum: 1,
+            maximum: 4,
+            default: 2,
+            description: 'Optional: Most mappings to chain from the requirement (default: 2)',
+          },
+          standards: {
+            type: 'array',
+            items: { type: 'string' },
+            description:
+              'Optional: Only return relationships to requirements of these standards (intermediate steps may be in any standard)',
+          },
+          min_confidence: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            default: 0,
+            description:
+              'Optional: Minimum path confidence (product of the mapping confidences) for inferred relationships (default: 0)',
+          },
+          limit: {
+            type: 'number',
+            minimum: 1,
+            maximum: 200,
+            default: 50,
+            description:
+              'Optional: Maximum number of inferred relationships to return (default: 50)',
+          },
+          reviewed_only: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only follow mappings whose review status is "reviewed" (default: false)',
+          },
+        },
+        required: ['requirement_id', 'standard'],
+      },
+    },
+    {
+      name: 'compare_ot_requirements',
+      description:
+        'Compare 2-10 OT security requirements side by side, from any standards (e.g., IEC 62443-3-3 SR 1.1 vs NIST 800-53 IA-2 vs IEC 62443-4-2 CR 1.1). Returns the requirements with their fields aligned (title, description, rationale, component type, security levels, ... with identical flags), common_themes (key terms every requirement uses), differences (key terms and the distinctive terms of each requirement), the curated mappings between them, and inferred_mappings for pairs linked only through other requirements (as resolve_mapping_path derives them, with the chain as justification). Requirements that do not exist are listed in not_found. Set format to "markdown" for a comparison table instead of JSON. Returns an error object when fewer than two requirements are found.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirements: {
+            type: 'array',
+            maxItems: 10,
+            items: {
+              type: 'object',
+              properties: {
+                requirement_id: {
+                  type: 'string',
+                  description: 'Requirement identifier (e.g., "SR 1.1", "AC-2")',
+                },
+                standard: {
+                  type: 'string',
+                  description: 'Standard identifier (e.g., "iec62443-3-3", "nist-800-53")',
+                },
+              },
+              required: ['requirement_id', 'standard'],
+            },
+            description: 'Optional: Requirement ID and standard pairs',
+          },
+          references: {
+            type: 'array',
+            maxItems: 10,
+            items: { type: 'string' },
+            description:
+              'Optional: Free-form requirement references (e.g., "IEC 62443-3-3 SR 1.1", "NIST SP 800-53 IA-2")',
+          },
+          version: {
+            type: 'string',
+            description:
+              'Optional: Version of the standards (e.g., "Rev 4"). Default: the current version of each standard',
+          },
+          max_hops: {
+            type: 'number',
+            minimum: 1,
+            maximum: 4,
+            default: 2,
+            description:
+              'Optional: Most mappings chained when inferring relationships between the requirements (default: 2)',
+          },
+          reviewed_only: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only use mappings whose review status is "reviewed" (default: false)',
+          },
+          format: {
+            type: 'string',
+            enum: ['json', 'markdown'],
+            default: 'json',
+            description: 'Optional: Output format (default: json)',
+          },
+        },
+        required: [],
+      },
+    },
+    {
+      name: 'get_coverage_matrix',
+      description:
+        'Compute how the curated mappings between two standards cover each of them, for program planning (e.g., every IEC 62443-3-3 SR against the NIST 800-53 control families). Rows are the source standard\'s requirements; columns are the target standard\'s groups (IEC 62443 FRs, NIST 800-53 families, NIST 800-82 chapters) or, with columns "requirement", its individual requirements. Each covered cell gives the strongest mapping type, the highest confidence and the mappings behind it. Returns summary statistics: percent covered and unmapped requirements on each side, mapping count by type and average confidence. A side whose standard is not loaded (e.g., licensed IEC 62443 only known through mappings) has loaded: false and null total, percent covered and unmapped, since its gaps are unknown. Set format to "csv" or "markdown" for a spreadsheet or table instead of JSON.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          source_standard: {
+            type: 'string',
+            description:
+              'Standard whose requirements are the rows (e.g., "iec62443-3-3", "nist-800-82", "mitre-ics")',
+          },
+          target_standard: {
+            type: 'string',
+            description:
+              'Standard whose groups or requirements are the columns (e.g., "nist-800-53")',
+          },
+          columns: {
+            type: 'string',
+            enum: ['group', 'requirement'],
+            default: 'group',
+            description:
+              'Optional: Columns per group of the target standard or per target requirement (default: group; requirement for standards without groups)',
+          },
+          include_enhancements: {
+            type: 'boolean',
+            default: true,
+            description:
+              'Optional: Include requirement enhancements (IEC 62443 REs, NIST control enhancements) as rows and columns (default: true)',
+          },
+          reviewed_only: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only count mappings whose review status is "reviewed" (default: false)',
+          },
+          format: {
+            type: 'string',
+            enum: ['json', 'csv', 'markdown'],
+            default: 'json',
+            description: 'Optional: Output format (default: json)',
+          },
+        },
+        required: ['source_standard', 'target_standard'],
+      },
+    },
+    {
+      name: 'suggest_mappings',
+      description:
+        'Suggest candidate mappings from a requirement to another standard, for requirements curated mappings do not cover yet (e.g., which NIST 800-53 controls a MITRE mitigation or an 800-82 guidance item should map to). Runs entirely offline. Candidates are ranked by a score (0-1) combining TF-IDF text similarity, shared title keywords, family affinity (the target groups that curated mappings of the requirement and its neighbours already point to) and neighbour support (how many neighbours are already mapped to the candidate); each suggestion lists these scores and the shared terms. Targets already mapped to the requirement and suggestions a reviewer rejected are left out. Suggestions are not curated mappings and need human review; this tool only reads, and suggestions are stored for review by the suggest:mappings and curate:mappings scripts, never from MCP. Returns an error object when the requirement is not found.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          requirement_id: {
+            type: 'string',
+            description:
+              'Requirement identifier (e.g., "G-6.11", "AC-17", "M0801"; "AC-017" also accepted)',
+          },
+          standard: {
+            type: 'string',
+            description:
+              'Standard the requirement belongs to (e.g., "nist-800-82", "nist-800-53", "mitre-ics")',
+          },
+          target_standard: {
+            type: 'string',
+            description:
+              'Standard to suggest mappings into; must differ from standard (e.g., "nist-800-53")',
+          },
+          min_score: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            default: 0.1,
+            description: 'Optional: Minimum score to include (default: 0.1)',
+          },
+          limit: {
+            type: 'number',
+            minimum: 1,
+            maximum: 50,
+            default: 10,
+            description: 'Optional: Maximum number of suggestions (default: 10)',
+          },
+          reviewed_only: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only use mappings whose review status is "reviewed" for family affinity and neighbour support (default: false)',
+          },
+        },
+        required: ['requirement_id', 'standard', 'target_standard'],
+      },
+    },
+    {
+      name: 'validate_mappings',
+      description:
+        'Check the curated mappings for integrity problems, since mappings are not tied to requirements by foreign keys. Reports mappings whose source or target requirement does not exist (including IDs written in another form, e.g., "IA-02" when the requirement is stored as "IA-2"), mappings in both directions between the same requirements that disagree on the relationship, broader/narrower pairs that are not inverses of each other, repeated mappings, and requirements whose mapping confidences are far apart. Each issue has a severity (error, warning, info), the mappings involved and suggested fixes (rename a requirement ID, change a mapping type, remove a mapping, review a confidence); nothing is changed. Standards with no requirements in the database (IEC 62443 is user-supplied) are reported once, and only the form of their IDs is checked. Retired mappings are not checked.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          standard: {
+            type: 'string',
+            description:
+              'Optional: Only check mappings with this standard as source or target (e.g., "nist-800-53", "mitre-ics")',
+          },
+          reviewed_only: {
+            type: 'boolean',
+            default: false,
+            description:
+              'Optional: Only check mappings whose review status is "reviewed" (default: false)',
+          },
+          confidence_spread: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            default: 0.4,
+            description:
+              "Optional: Largest tolerated difference between the confidences of one requirement's mappings (default: 0.4)",
+          },
+        },
+        required: [],
+      },
+    },
   ];
 
   return annotateTools(tools);
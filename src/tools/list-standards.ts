@@ -3,7 +3,8 @@
  */
 
 import { DatabaseClient } from '../database/client.js';
-import { OTStandard } from '../types/index.js';
+import { versionCondition } from '../database/versions.js';
+import { OTStandard, OTStandardVersion } from '../types/index.js';
 
 /**
  * Standard with requirement count
@@ -11,6 +12,18 @@ import { OTStandard } from '../types/index.js';
 export interface OTStandardWithCount extends OTStandard {
   /** Number of requirements/controls for this standard */
   readonly requirement_count: number;
+  /** All recorded versions of the standard, newest first */
+  readonly versions: ReadonlyArray<
+    Pick<OTStandardVersion, 'version' | 'status' | 'published_date'>
+  >;
+}
+
+/**
+ * List standards parameters interface
+ */
+export interface ListStandardsParams {
+  /** Describe this version of each standard (default: the current version) */
+  version?: string;
 }
 
 /**
@@ -18,26 +31,71 @@ export interface OTStandardWithCount extends OTStandard {
  *
  * Returns all standards ordered alphabetically by name with requirement counts.
  * For MITRE ICS, the count includes techniques from mitre_ics_techniques table.
+ * Version, status, publication date, URL and count describe the version that
+ * answered: the requested version, or the standard's current version. With a
+ * version, standards that do not have it are left out.
  *
  * @param db - Database client instance
+ * @param params - Optional version
  * @returns Array of OTStandardWithCount objects, ordered by name
  */
-export async function listStandards(db: DatabaseClient): Promise<OTStandardWithCount[]> {
+export async function listStandards(
+  db: DatabaseClient,
+  params: ListStandardsParams = {}
+): Promise<OTStandardWithCount[]> {
+  const { version } = params;
+
   try {
-    // Query all standards with requirement counts
-    // For MITRE ICS, count from mitre_ics_techniques; for others, from ot_requirements
-    const standards = db.query<OTStandardWithCount>(
-      `SELECT
-        s.*,
-        CASE
-          WHEN s.id = 'mitre-ics' THEN (SELECT COUNT(*) FROM mitre_ics_techniques)
-          ELSE (SELECT COUNT(*) FROM ot_requirements WHERE standard_id = s.id)
-        END as requirement_count
-      FROM ot_standards s
-      ORDER BY s.name ASC`
+    const standards = db.query<OTStandard>(`SELECT * FROM ot_standards ORDER BY name ASC`);
+    const versions = db.query<OTStandardVersion>(
+      `SELECT * FROM ot_standard_versions
+       ORDER BY standard_id, published_date DESC, version DESC`
     );
+    const versionFilter = versionCondition(version);
+
+    const results: OTStandardWithCount[] = [];
+    for (const standard of standards) {
+      const standardVersions = versions.filter((v) => v.standard_id === standard.id);
+
+      // The version answering for this standard, if it is recorded in ot_standard_versions
+      const answering = version
+        ? standardVersions.find((v) => v.version.toLowerCase() === version.toLowerCase())
+        : (standardVersions.find((v) => v.version === standard.version) ??
+          standardVersions.find((v) => v.status === 'current'));
+      if (version && !answering && standard.version?.toLowerCase() !== version.toLowerCase()) {
+        continue;
+      }
+
+      // For MITRE ICS, count from mitre_ics_techniques; for others, from ot_requirements
+      const count =
+        standard.id === 'mitre-ics'
+          ? db.queryOne<{ count: number }>(`SELECT COUNT(*) AS count FROM mitre_ics_techniques`)
+          : db.queryOne<{ count: number }>(
+              `SELECT COUNT(*) AS count FROM ot_requirements r
+               WHERE r.standard_id = ? AND ${versionFilter.sql}`,
+              [standard.id, ...versionFilter.params]
+            );
+
+      results.push({
+        ...standard,
+        ...(answering
+          ? {
+              version: answering.version,
+              status: answering.status,
+              published_date: answering.published_date,
+              url: answering.url,
+            }
+          : {}),
+        requirement_count: count?.count ?? 0,
+        versions: standardVersions.map(({ version, status, published_date }) => ({
+          version,
+          status,
+          published_date,
+        })),
+      });
+    }
 
-    return standards;
+    return results;
   } catch (error) {
     // Log error and return empty array for graceful degradation
     console.error('Error listing standards:', error);
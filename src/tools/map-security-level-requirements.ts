@@ -3,6 +3,7 @@
  */
 
 import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
 
 export interface MapSecurityLevelOptions {
   security_level: number;
@@ -45,7 +46,8 @@ export async function mapSecurityLevelRequirements(
     throw new Error('Security level must be between 1 and 4');
   }
 
-  // Build query with optional filters
+  // Build query with optional filters, over the current version of each standard
+  const currentVersion = versionCondition();
   let query = `
     SELECT DISTINCT
       r.id,
@@ -58,10 +60,10 @@ export async function mapSecurityLevelRequirements(
       r.component_type
     FROM ot_requirements r
     INNER JOIN security_levels sl ON r.id = sl.requirement_db_id
-    WHERE sl.security_level = ?
+    WHERE sl.security_level = ? AND ${currentVersion.sql}
   `;
 
-  const params: any[] = [security_level];
+  const params: any[] = [security_level, ...currentVersion.params];
 
   // Filter by component type if specified
   if (component_type) {
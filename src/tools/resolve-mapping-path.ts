@@ -0,0 +1,268 @@
+/**
+ * Resolve mapping path tool: relationships between requirements of different
+ * standards that follow from chaining curated mappings
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { mappingReviewCondition } from '../database/mapping-provenance.js';
+import { inverseRelationship } from '../database/mapping-perspective.js';
+import {
+  canonicalRequirementId,
+  normalizeMitreId,
+  parseRequirementReference,
+  requirementKey,
+  resolveRequirementId,
+} from '../database/requirement-ids.js';
+import {
+  DerivedMapping,
+  MappingPathOptions,
+  MappingPathResult,
+  MappingPathStep,
+  MappingType,
+  OTMapping,
+} from '../types/index.js';
+
+/**
+ * Resolve mapping path parameters interface
+ */
+export interface ResolveMappingPathParams {
+  requirement_id: string;
+  standard: string;
+  options?: MappingPathOptions;
+}
+
+/**
+ * Relationship of A to C, given the relationship of A to B and of B to C
+ *
+ * An exact match passes the other relationship through; broader chains stay
+ * broader and narrower chains narrower. A covering B that overlaps C overlaps
+ * C, as does A overlapping B that C covers ('partial'). Everything else
+ * (e.g., two requirements narrower than the same one) is only 'related'.
+ */
+function composeMappingTypes(first: MappingType, second: MappingType): MappingType {
+  if (first === 'exact_match') return second;
+  if (second === 'exact_match') return first;
+  if (first === second && (first === 'broader' || first === 'narrower')) return first;
+  if (
+    (first === 'broader' && second === 'partial') ||
+    (first === 'partial' && second === 'narrower')
+  ) {
+    return 'partial';
+  }
+  return 'related';
+}
+
+/**
+ * Find the requirements related to a requirement through chains of mappings
+ *
+ * Follows the curated mappings in ot_mappings (except 'supersedes', which
+ * links versions of a requirement) in both directions, up to max_hops
+ * mappings and without revisiting a requirement. Retired mappings are never
+ * followed, and with reviewed_only neither are unreviewed ones. A 'broader' mapping means
+ * the source requirement is broader than the target; followed in reverse it
+ * is 'narrower'. Along a path the relationship is composed mapping by mapping
+ * and the confidences are multiplied (rounded to 3 decimals when returned).
+ *
+ * Requirements with a curated mapping to the source requirement are returned
+ * as `curated`, never as `inferred`. Each other reachable requirement is
+ * returned once in `inferred`, with its most confident path (fewest hops on a
+ * tie) and the number of paths found. Requirements of the source's own
+ * standard are passed through but never inferred.
+ *
+ * @param db - Database client instance
+ * @param params - Requirement ID, standard and optional traversal limits
+ * @returns MappingPathResult, or null if the requirement is not found
+ */
+export async function resolveMappingPath(
+  db: DatabaseClient,
+  params: ResolveMappingPathParams
+): Promise<MappingPathResult | null> {
+  const { requirement_id, standard, options = {} } = params;
+
+  // Validate required parameters
+  if (!requirement_id || requirement_id.trim() === '') {
+    return null;
+  }
+
+  if (!standard || standard.trim() === '') {
+    return null;
+  }
+
+  const { standards = [], min_confidence = 0, limit = 50, reviewed_only = false } = options;
+  const maxHops = Math.min(Math.max(Math.trunc(options.max_hops ?? 2), 1), 4);
+  const effectiveLimit = Math.min(limit || 50, 200);
+
+  try {
+    // Step 1: The source requirement (MITRE mitigations are mapped but not in ot_requirements)
+    const reference = parseRequirementReference(requirement_id);
+    if (reference.standard && reference.standard !== standard) {
+      return null;
+    }
+    const sourceId =
+      resolveRequirementId(db, standard, requirement_id) ??
+      (standard === 'mitre-ics'
+        ? normalizeMitreId(reference.requirement_id)
+        : canonicalRequirementId(standard, reference.requirement_id));
+    const nodeKey = (std: string, id: string) => `${std}:${requirementKey(id)}`;
+    const sourceKey = nodeKey(standard, sourceId);
+
+    // Titles of the requirements (current version) and MITRE mitigations
+    const currentVersion = versionCondition();
+    const titles = new Map<string, { requirement_id: string; title: string | null }>();
+    for (const row of db.query<{
+      standard_id: string;
+      requirement_id: string;
+      title: string | null;
+    }>(
+      `SELECT r.standard_id, r.requirement_id, r.title FROM ot_requirements r
+       WHERE ${currentVersion.sql}
+       ORDER BY r.id`,
+      currentVersion.params
+    )) {
+      titles.set(nodeKey(row.standard_id, row.requirement_id), row);
+    }
+    for (const row of db.query<{ mitigation_id: string; name: string | null }>(
+      `SELECT mitigation_id, name FROM mitre_ics_mitigations`
+    )) {
+      titles.set(nodeKey('mitre-ics', row.mitigation_id), {
+        requirement_id: row.mitigation_id,
+        title: row.name,
+      });
+    }
+
+    // Step 2: Every mapping as a step in each direction
+    const mappings = db.query<OTMapping>(
+      `SELECT * FROM ot_mappings
+       WHERE mapping_type != 'supersedes' AND ${mappingReviewCondition(reviewed_only)}
+       ORDER BY id`
+    );
+    const steps = new Map<string, MappingPathStep[]>();
+    const addStep = (from: string, step: MappingPathStep) =>
+      steps.set(from, [...(steps.get(from) ?? []), step]);
+    for (const mapping of mappings) {
+      const source = nodeKey(mapping.source_standard, mapping.source_requirement);
+      const target = nodeKey(mapping.target_standard, mapping.target_requirement);
+      if (source === target) {
+        continue;
+      }
+      const forward: MappingPathStep = {
+        mapping_id: mapping.id,
+        from_standard: mapping.source_standard,
+        from_requirement: mapping.source_requirement,
+        to_standard: mapping.target_standard,
+        to_requirement: mapping.target_requirement,
+        mapping_type: mapping.mapping_type,
+        reversed: false,
+        confidence: mapping.confidence,
+      };
+      addStep(source, forward);
+      addStep(target, {
+        ...forward,
+        from_standard: mapping.target_standard,
+        from_requirement: mapping.target_requirement,
+        to_standard: mapping.source_standard,
+        to_requirement: mapping.source_requirement,
+        // 'supersedes' mappings are not followed, so the inverse is a mapping type
+        mapping_type: inverseRelationship(mapping.mapping_type) as MappingType,
+        reversed: true,
+      });
+    }
+
+    const sourceTitle = titles.get(sourceKey);
+    if (!sourceTitle && !steps.has(sourceKey)) {
+      return null;
+    }
+
+    // Step 3: Walk every simple path of up to maxHops mappings, keeping the best per requirement
+    const best = new Map<string, DerivedMapping>();
+    const isBetter = (candidate: DerivedMapping, current: DerivedMapping) =>
+      (candidate.confidence ?? -1) - (current.confidence ?? -1) || current.hops - candidate.hops;
+    const walk = (
+      key: string,
+      path: MappingPathStep[],
+      relationship: MappingType,
+      confidence: number | null,
+      visited: Set<string>
+    ) => {
+      for (const step of steps.get(key) ?? []) {
+        const next = nodeKey(step.to_standard, step.to_requirement);
+        if (visited.has(next)) {
+          continue;
+        }
+        const nextPath = [...path, step];
+        const nextRelationship =
+          path.length === 0
+            ? step.mapping_type
+            : composeMappingTypes(relationship, step.mapping_type);
+        const nextConfidence =
+          confidence === null || step.confidence === null ? null : confidence * step.confidence;
+
+        const current = best.get(next);
+        const candidate: DerivedMapping = {
+          standard_id: step.to_standard,
+          requirement_id: titles.get(next)?.requirement_id ?? step.to_requirement,
+          title: titles.get(next)?.title ?? null,
+          relationship: nextRelationship,
+          confidence: nextConfidence === null ? null : Math.round(nextConfidence * 1000) / 1000,
+          hops: nextPath.length,
+          path: nextPath,
+          path_count: (current?.path_count ?? 0) + 1,
+        };
+        if (!current) {
+          best.set(next, candidate);
+        } else if (
+          // A curated (one-hop) mapping always wins over a longer path
+          (candidate.hops === 1) !== (current.hops === 1)
+            ? candidate.hops === 1
+            : isBetter(candidate, current) > 0
+        ) {
+          best.set(next, candidate);
+        } else {
+          best.set(next, { ...current, path_count: current.path_count + 1 });
+        }
+
+        if (nextPath.length < maxHops) {
+          walk(next, nextPath, nextRelationship, nextConfidence, new Set([...visited, next]));
+        }
+      }
+    };
+    walk(sourceKey, [], 'exact_match', 1, new Set([sourceKey]));
+
+    // Step 4: Split curated from inferred relationships and apply the filters
+    const related = [...best.values()].filter(
+      (mapping) => standards.length === 0 || standards.includes(mapping.standard_id)
+    );
+    const byConfidence = (a: DerivedMapping, b: DerivedMapping) =>
+      (b.confidence ?? -1) - (a.confidence ?? -1) ||
+      a.hops - b.hops ||
+      a.standard_id.localeCompare(b.standard_id) ||
+      a.requirement_id.localeCompare(b.requirement_id, undefined, { numeric: true });
+    const curated = related.filter((mapping) => mapping.hops === 1).sort(byConfidence);
+    // Paths that lead back into the source's own standard are not cross-standard relationships
+    const inferred = related
+      .filter(
+        (mapping) =>
+          mapping.hops > 1 &&
+          mapping.standard_id !== standard &&
+          (min_confidence <= 0 || (mapping.confidence ?? 0) >= min_confidence)
+      )
+      .sort(byConfidence);
+
+    return {
+      source: {
+        standard_id: standard,
+        requirement_id: sourceTitle?.requirement_id ?? sourceId,
+        title: sourceTitle?.title ?? null,
+      },
+      max_hops: maxHops,
+      curated,
+      inferred: inferred.slice(0, effectiveLimit),
+      truncated: inferred.length > effectiveLimit,
+    };
+  } catch (error) {
+    // Log error and return null for graceful degradation
+    console.error('Error resolving mapping path:', error);
+    return null;
+  }
+}
@@ -0,0 +1,272 @@
+/**
+ * Unified search across requirements, MITRE techniques and mitigations,
+ * zones, conduits and guidance
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import {
+  KnowledgeEntityType,
+  KnowledgeSearchHit,
+  KnowledgeSearchOptions,
+  KnowledgeSearchResponse,
+  ToolCall,
+} from '../types/index.js';
+import {
+  SearchField,
+  compileToFts,
+  isPlainQuery,
+  parseQuery,
+  tokenizeText,
+} from '../search/query-parser.js';
+import { expandSynonyms, loadSynonymIndex } from '../search/synonyms.js';
+import {
+  HIGHLIGHT_CLOSE,
+  HIGHLIGHT_OPEN,
+  SNIPPET_TOKENS,
+  normalizeScore,
+} from '../search/ranking.js';
+
+/**
+ * Search knowledge parameters interface
+ */
+export interface SearchKnowledgeParams {
+  query: string;
+  options?: KnowledgeSearchOptions;
+}
+
+/**
+ * BM25 column weights for ot_knowledge_fts, in FTS column order (the two
+ * UNINDEXED columns entity_type and entity_rowid first). Same emphasis as
+ * search_ot_requirements: IDs over titles over body text.
+ */
+const BM25_WEIGHTS = {
+  entity_type: 0.0,
+  entity_rowid: 0.0,
+  ref: 10.0,
+  title: 5.0,
+  body: 2.0,
+} as const;
+
+/** Index of the title column in ot_knowledge_fts, for highlight() */
+const TITLE_COLUMN = 3;
+
+/** ot_knowledge_fts column each query language field prefix targets */
+const KNOWLEDGE_COLUMNS: Readonly<Record<SearchField, string>> = {
+  requirement_id: 'ref',
+  title: 'title',
+  description: 'body',
+  rationale: 'body',
+};
+
+/**
+ * Row returned by the knowledge query
+ */
+interface KnowledgeMatchRow {
+  type: KnowledgeEntityType;
+  ref: string | null;
+  title: string | null;
+  standard_id: string | null;
+  purdue_level: number | null;
+  score: number;
+  best_score: number;
+  total: number;
+  title_highlight: string | null;
+  fts_snippet: string | null;
+}
+
+/**
+ * Build the tool call that returns a hit in full
+ */
+function buildFollowUp(row: KnowledgeMatchRow, id: string): ToolCall {
+  switch (row.type) {
+    case 'requirement':
+    case 'guidance':
+      return {
+        tool: 'get_ot_requirement',
+        arguments: { requirement_id: id, standard: row.standard_id ?? '' },
+      };
+    case 'technique':
+      return { tool: 'get_mitre_ics_technique', arguments: { technique_id: id } };
+    case 'mitigation':
+      return { tool: 'get_mitre_ics_mitigation', arguments: { mitigation_id: id } };
+    case 'zone':
+      return {
+        tool: 'get_zone_conduit_guidance',
+        arguments: row.purdue_level !== null ? { purdue_level: row.purdue_level } : {},
+      };
+    case 'conduit':
+      // get_zone_conduit_guidance always returns every conduit in full
+      return { tool: 'get_zone_conduit_guidance', arguments: {} };
+  }
+}
+
+/**
+ * Search all OT security knowledge in one call
+ *
+ * Searches the ot_knowledge_fts index, which covers requirements and NIST
+ * 800-82 guidance, MITRE ATT&CK for ICS techniques and mitigations, and
+ * IEC 62443 zones (including typical assets) and conduits. All entity types
+ * share one BM25 ranking, so the score is comparable across types. The query
+ * language and glossary expansion are the same as search_ot_requirements;
+ * field prefixes map to the ID (id:), title (title:) or body text
+ * (description:, rationale:). Plain keyword queries fall back from AND to OR
+ * when nothing matches. Requirements of superseded versions and withdrawn
+ * requirements are left out.
+ *
+ * @param db - Database client instance
+ * @param params - Search parameters including query string and optional filters
+ * @returns KnowledgeSearchResponse with typed hits, each with its follow-up tool call
+ * @throws QuerySyntaxError if the query is malformed
+ */
+export async function searchKnowledge(
+  db: DatabaseClient,
+  params: SearchKnowledgeParams
+): Promise<KnowledgeSearchResponse> {
+  const { query, options = {} } = params;
+  const empty: KnowledgeSearchResponse = {
+    data: [],
+    total_count: 0,
+    has_more: false,
+    type_counts: {},
+  };
+
+  // Return no hits for empty or punctuation-only queries
+  if (!query || tokenizeText(query).length === 0) {
+    return empty;
+  }
+
+  const { entity_types = [], expand_synonyms = true, limit = 10 } = options;
+  const effectiveLimit = Math.min(limit || 10, 100);
+
+  const parsed = parseQuery(query);
+  const ast = expand_synonyms ? expandSynonyms(parsed, loadSynonymIndex(db)) : parsed;
+  const matchExpression = compileToFts(ast, 'AND', KNOWLEDGE_COLUMNS);
+  const relaxedExpression =
+    ast.type === 'and' && isPlainQuery(parsed) ? compileToFts(ast, 'OR', KNOWLEDGE_COLUMNS) : null;
+
+  const typeFilter =
+    entity_types.length > 0 ? `AND type IN (${entity_types.map(() => '?').join(', ')})` : '';
+
+  const weights = Object.values(BM25_WEIGHTS).join(', ');
+
+  // Hits whose source row no longer exists (e.g. replaced by INSERT OR REPLACE,
+  // which skips the delete trigger) are dropped by the source join.
+  // Requirements are searched in their current version, without withdrawn ones.
+  const currentVersion = versionCondition();
+  const hitsCte = `
+    WITH matches AS (
+      SELECT
+        entity_type,
+        entity_rowid,
+        bm25(ot_knowledge_fts, ${weights}) AS score,
+        highlight(ot_knowledge_fts, ${TITLE_COLUMN}, ?, ?) AS title_highlight,
+        snippet(ot_knowledge_fts, -1, ?, ?, '...', ${SNIPPET_TOKENS}) AS fts_snippet
+      FROM ot_knowledge_fts
+      WHERE ot_knowledge_fts MATCH ?
+    ),
+    hits AS (
+      SELECT
+        CASE
+          WHEN m.entity_type = 'requirement' AND r.component_type = 'guidance' THEN 'guidance'
+          ELSE m.entity_type
+        END AS type,
+        COALESCE(r.requirement_id, t.technique_id, mi.mitigation_id, z.name, c.name) AS ref,
+        COALESCE(r.title, t.name, mi.name, z.name, c.name) AS title,
+        r.standard_id,
+        z.purdue_level,
+        m.score,
+        m.title_highlight,
+        m.fts_snippet
+      FROM matches m
+      LEFT JOIN ot_requirements r
+        ON m.entity_type = 'requirement' AND r.id = m.entity_rowid
+      LEFT JOIN mitre_ics_techniques t
+        ON m.entity_type = 'technique' AND t.rowid = m.entity_rowid
+      LEFT JOIN mitre_ics_mitigations mi
+        ON m.entity_type = 'mitigation' AND mi.rowid = m.entity_rowid
+      LEFT JOIN zones z
+        ON m.entity_type = 'zone' AND z.id = m.entity_rowid
+      LEFT JOIN conduits c
+        ON m.entity_type = 'conduit' AND c.id = m.entity_rowid
+      WHERE COALESCE(r.id, t.rowid, mi.rowid, z.id, c.id) IS NOT NULL
+        AND (r.id IS NULL OR (${currentVersion.sql} AND r.status IS NULL))
+    )`;
+
+  const pageSql = `${hitsCte}
+    SELECT
+      *,
+      MIN(score) OVER () AS best_score,
+      COUNT(*) OVER () AS total
+    FROM hits
+    WHERE 1 = 1 ${typeFilter}
+    ORDER BY score ASC, type ASC, ref ASC
+    LIMIT ?
+  `;
+
+  const countSql = `${hitsCte}
+    SELECT type, COUNT(*) AS count
+    FROM hits
+    WHERE 1 = 1 ${typeFilter}
+    GROUP BY type
+  `;
+
+  const highlightParams = [HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE, HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE];
+  const runQuery = (expression: string) =>
+    db.query<KnowledgeMatchRow>(pageSql, [
+      ...highlightParams,
+      expression,
+      ...currentVersion.params,
+      ...entity_types,
+      effectiveLimit,
+    ]);
+
+  try {
+    let expression = matchExpression;
+    let rows = runQuery(expression);
+    if (rows.length === 0 && relaxedExpression) {
+      expression = relaxedExpression;
+      rows = runQuery(expression);
+    }
+
+    const typeCounts: Partial<Record<KnowledgeEntityType, number>> = {};
+    for (const row of db.query<{ type: KnowledgeEntityType; count: number }>(countSql, [
+      ...highlightParams,
+      expression,
+      ...currentVersion.params,
+      ...entity_types,
+    ])) {
+      typeCounts[row.type] = row.count;
+    }
+
+    const data: KnowledgeSearchHit[] = rows.map((row) => {
+      const id = row.ref ?? '';
+      const titleHit =
+        row.title && row.title_highlight && row.title_highlight !== row.title
+          ? row.title_highlight
+          : null;
+
+      return {
+        type: row.type,
+        id,
+        title: row.title,
+        standard_id: row.standard_id,
+        snippet: titleHit ?? row.fts_snippet ?? row.title ?? '',
+        score: normalizeScore(row.score, row.best_score),
+        follow_up: buildFollowUp(row, id),
+      };
+    });
+
+    const totalCount = rows[0]?.total ?? 0;
+    return {
+      data,
+      total_count: totalCount,
+      has_more: totalCount > data.length,
+      type_counts: typeCounts,
+    };
+  } catch (error) {
+    // Log error and return no hits for graceful degradation
+    console.error('Error searching knowledge:', error);
+    return empty;
+  }
+}
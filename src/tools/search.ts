@@ -3,7 +3,43 @@
  */
 
 import { DatabaseClient } from '../database/client.js';
-import { OTRequirement, RequirementSearchResult, SearchOptions } from '../types/index.js';
+import {
+  FacetCount,
+  OTRequirement,
+  RequirementSearchResponse,
+  RequirementSearchResult,
+  SearchExplanation,
+  SearchFacets,
+  SearchMode,
+  SearchOptions,
+} from '../types/index.js';
+import {
+  QueryNode,
+  compileToFts,
+  isPlainQuery,
+  parseQuery,
+  tokenizeText,
+} from '../search/query-parser.js';
+import { SynonymIndex, expandSynonyms, loadSynonymIndex } from '../search/synonyms.js';
+import { correctQuery, loadVocabulary } from '../search/fuzzy.js';
+import { decodeCursor, encodeCursor, fingerprintSearch } from '../search/cursor.js';
+import { SearchFilter, explainFilters, explainKeywordMatches } from '../search/explain.js';
+import { versionCondition } from '../database/versions.js';
+import { canonicalRequirementId, parseRequirementReference } from '../database/requirement-ids.js';
+import {
+  HIGHLIGHT_CLOSE,
+  HIGHLIGHT_OPEN,
+  SNIPPET_TOKENS,
+  normalizeScore,
+  normalizeSimilarity,
+} from '../search/ranking.js';
+import {
+  MIN_SIMILARITY,
+  cosineSimilarity,
+  embedQuery,
+  queryText,
+  reciprocalRankFusion,
+} from '../search/vectors.js';
 
 /**
  * Search parameters interface
@@ -14,115 +50,313 @@ export interface SearchRequirementsParams {
 }
 
 /**
- * Extract a snippet showing where the search query matched
- *
- * @param req - The requirement to extract snippet from
- * @param query - The search query
- * @returns A snippet of up to 150 characters showing the match context
+ * BM25 column weights for ot_requirements_fts, in FTS column order.
+ * A hit on the requirement ID or title counts far more than a hit buried in
+ * the description or rationale.
  */
-function extractSnippet(req: OTRequirement, query: string): string {
-  const searchTerm = query.toLowerCase();
+const BM25_WEIGHTS = {
+  requirement_id: 10.0,
+  title: 5.0,
+  description: 2.0,
+  rationale: 1.0,
+} as const;
 
-  // Check title first (highest priority)
-  if (req.title && req.title.toLowerCase().includes(searchTerm)) {
-    return req.title.length > 150 ? req.title.substring(0, 150) + '...' : req.title;
-  }
+/** Below this many hits, misspelled query words are corrected and the search retried */
+const FUZZY_MIN_HITS = 3;
 
-  // Check description
-  if (req.description && req.description.toLowerCase().includes(searchTerm)) {
-    return extractContext(req.description, searchTerm, 150);
+/**
+ * Requirement row with FTS5 highlight values (null when the query's keywords
+ * do not match it, e.g. a semantic-only hit)
+ */
+interface HighlightedRow extends OTRequirement {
+  /** Title with matched terms highlighted via highlight() */
+  title_highlight: string | null;
+  /** Best matching fragment across all columns via snippet() */
+  fts_snippet: string | null;
+}
+
+/**
+ * Row returned by the FTS query: the requirement plus FTS5 auxiliary values
+ */
+interface FtsMatchRow extends HighlightedRow {
+  /** Raw bm25() score (negative; lower is better) */
+  score: number;
+  /** Best (lowest) bm25() score among all filtered matches */
+  best_score: number;
+}
+
+/**
+ * A hit ranked outside SQL (semantic or hybrid mode); higher score is better
+ */
+interface RankedHit {
+  id: number;
+  score: number;
+}
+
+/**
+ * Choose the snippet shown for a hit
+ *
+ * A title hit is shown as the full highlighted title (titles are short and the
+ * most informative context); otherwise the FTS5 snippet() fragment is used.
+ *
+ * @param row - The requirement row with its highlight values
+ * @returns Snippet text with matched terms wrapped in highlight markers
+ */
+function selectSnippet(row: HighlightedRow): string {
+  if (row.title && row.title_highlight && row.title_highlight !== row.title) {
+    return row.title_highlight;
   }
 
-  // Check rationale
-  if (req.rationale && req.rationale.toLowerCase().includes(searchTerm)) {
-    return extractContext(req.rationale, searchTerm, 150);
+  if (row.fts_snippet) {
+    return row.fts_snippet;
   }
 
   // Fallback to title or description
-  return req.title || req.description?.substring(0, 150) || '';
+  return row.title || row.description?.substring(0, 150) || '';
 }
 
 /**
- * Extract context around a search term match
- *
- * @param text - The text to extract from
- * @param searchTerm - The search term to find (lowercase)
- * @param maxLength - Maximum length of the snippet
- * @returns Text snippet with context around the match
+ * Row returned by the facet query
  */
-function extractContext(text: string, searchTerm: string, maxLength: number): string {
-  const lowerText = text.toLowerCase();
-  const index = lowerText.indexOf(searchTerm);
+interface FacetRow {
+  facet: keyof SearchFacets | 'total';
+  value: string | number | null;
+  count: number;
+}
 
-  if (index === -1) {
-    return text.substring(0, maxLength) + (text.length > maxLength ? '...' : '');
-  }
+/**
+ * Response for a search with no hits
+ */
+function emptyResponse(mode: SearchMode): RequirementSearchResponse {
+  return {
+    data: [],
+    total_count: 0,
+    has_more: false,
+    next_cursor: null,
+    facets: { standard_id: [], component_type: [], purdue_level: [], security_level: [] },
+    did_you_mean: null,
+    mode,
+  };
+}
 
-  // Extract text around the match
-  const start = Math.max(0, index - 50);
-  const end = Math.min(text.length, index + searchTerm.length + 100);
+/**
+ * FTS5 MATCH expressions for one query: the query as written and, for plain
+ * keyword queries, the OR-relaxed fallback
+ */
+interface CompiledQuery {
+  strict: string;
+  relaxed: string | null;
+}
 
-  let snippet = text.substring(start, end);
-  if (start > 0) snippet = '...' + snippet;
-  if (end < text.length) snippet = snippet + '...';
+/**
+ * Compile a parsed query, expanding glossary synonyms when an index is given
+ */
+function compileQuery(parsed: QueryNode, synonymIndex: SynonymIndex | null): CompiledQuery {
+  const ast = synonymIndex ? expandSynonyms(parsed, synonymIndex) : parsed;
+  return {
+    strict: compileToFts(ast),
+    relaxed: ast.type === 'and' && isPlainQuery(parsed) ? compileToFts(ast, 'OR') : null,
+  };
+}
 
-  return snippet;
+/**
+ * Requirement the query names by its ID
+ */
+interface NamedRequirement {
+  id: number;
+  requirement_id: string;
 }
 
 /**
- * Calculate relevance score based on where the match occurred
+ * Requirements in scope whose ID the whole query names ("AC-2", "ac 02",
+ * "NIST 800-53 AC-2"): the ID as written or in the canonical form of the
+ * named standard (of any standard without a prefix), looked up by the
+ * requirement_id index
  *
- * @param req - The requirement to score
- * @param query - The search query
- * @returns Relevance score between 0.0 and 1.0
+ * @param whereFilters - Filter clause on the `r` alias (starting with AND, or empty)
+ * @param filterParams - Parameters of the filter clause
  */
-function calculateRelevance(req: OTRequirement, query: string): number {
-  const searchTerm = query.toLowerCase();
-
-  // Title match: highest relevance
-  if (req.title && req.title.toLowerCase().includes(searchTerm)) {
-    return 1.0;
+function namedRequirements(
+  db: DatabaseClient,
+  query: string,
+  whereFilters: string,
+  filterParams: unknown[]
+): NamedRequirement[] {
+  const reference = parseRequirementReference(query);
+  // Requirement IDs always have a number; plain words are never an ID
+  if (!/\d/.test(reference.requirement_id)) {
+    return [];
   }
 
-  // Description match: medium-high relevance
-  if (req.description && req.description.toLowerCase().includes(searchTerm)) {
-    return 0.7;
+  const standards = reference.standard
+    ? [reference.standard]
+    : db.query<{ id: string }>(`SELECT id FROM ot_standards`).map((row) => row.id);
+  const candidates = [
+    ...new Set([
+      reference.requirement_id,
+      ...standards.map((standard) => canonicalRequirementId(standard, reference.requirement_id)),
+    ]),
+  ];
+  const standardFilter = reference.standard ? 'AND r.standard_id = ?' : '';
+
+  return db.query<NamedRequirement>(
+    `SELECT r.id, r.requirement_id FROM ot_requirements r
+     WHERE r.requirement_id IN (${candidates.map(() => '?').join(', ')})
+       ${standardFilter} ${whereFilters}`,
+    [...candidates, ...(reference.standard ? [reference.standard] : []), ...filterParams]
+  );
+}
+
+/**
+ * Widen a MATCH expression to also match the named requirements by their stored ID
+ */
+function matchNamed(expression: string, named: NamedRequirement[]): string {
+  if (named.length === 0) {
+    return expression;
   }
+  const ids = named.map((req) => `requirement_id : "${req.requirement_id.replace(/"/g, '""')}"`);
+  return `(${expression}) OR ${ids.join(' OR ')}`;
+}
+
+/**
+ * Search for OT security requirements across all standards
+ *
+ * Convenience wrapper around searchRequirementsDetailed() for callers that only
+ * need the hits on the first (or cursor-selected) page.
+ *
+ * @param db - Database client instance
+ * @param params - Search parameters including query string and optional filters
+ * @returns Array of RequirementSearchResult objects with relevance scoring and snippets
+ * @throws QuerySyntaxError if the query is malformed
+ */
+export async function searchRequirements(
+  db: DatabaseClient,
+  params: SearchRequirementsParams
+): Promise<RequirementSearchResult[]> {
+  const response = await searchRequirementsDetailed(db, params);
+  return response.data;
+}
 
-  // Rationale match: medium relevance
-  if (req.rationale && req.rationale.toLowerCase().includes(searchTerm)) {
-    return 0.5;
+/**
+ * Rank requirements by cosine similarity to the query's semantic vector
+ *
+ * @param db - Database client instance
+ * @param text - Query words to embed
+ * @param whereFilters - Filter clause on the `r` alias (starting with AND, or empty)
+ * @param filterParams - Parameters of the filter clause
+ * @returns Requirements at least MIN_SIMILARITY similar, most similar first
+ */
+function rankBySimilarity(
+  db: DatabaseClient,
+  text: string,
+  whereFilters: string,
+  filterParams: unknown[]
+): RankedHit[] {
+  const embedding = embedQuery(db, text);
+  if (!embedding) {
+    return [];
   }
 
-  // Fallback for edge cases
-  return 0.3;
+  const rows = db.query<{ id: number; embedding: string }>(
+    `SELECT r.id, v.embedding
+     FROM ot_requirement_vectors v
+     INNER JOIN ot_requirements r ON r.id = v.requirement_db_id
+     WHERE 1 = 1 ${whereFilters}`,
+    filterParams
+  );
+
+  return rows
+    .map((row) => ({
+      id: row.id,
+      score: cosineSimilarity(embedding, JSON.parse(row.embedding) as number[]),
+    }))
+    .filter((hit) => hit.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score || a.id - b.id);
 }
 
 /**
- * Search for OT security requirements across all standards
+ * Facet and total counts over a `hits` CTE with id, standard_id,
+ * component_type and purdue_level columns
+ */
+function facetQuery(hitsCte: string): string {
+  return `${hitsCte}
+    SELECT 'total' AS facet, NULL AS value, COUNT(*) AS count FROM hits
+    UNION ALL
+    SELECT 'standard_id', standard_id, COUNT(*) FROM hits GROUP BY standard_id
+    UNION ALL
+    SELECT 'component_type', component_type, COUNT(*) FROM hits
+    WHERE component_type IS NOT NULL GROUP BY component_type
+    UNION ALL
+    SELECT 'purdue_level', purdue_level, COUNT(*) FROM hits
+    WHERE purdue_level IS NOT NULL GROUP BY purdue_level
+    UNION ALL
+    SELECT 'security_level', sl.security_level, COUNT(DISTINCT h.id)
+    FROM hits h INNER JOIN security_levels sl ON sl.requirement_db_id = h.id
+    GROUP BY sl.security_level
+  `;
+}
+
+/**
+ * Search for OT security requirements, one page at a time
+ *
+ * Performs full-text search against the ot_requirements_fts index (requirement ID,
+ * title, description and rationale) with BM25 ranking weighted per column.
+ * The query is parsed with the search query language (phrases, AND/OR/NOT,
+ * field prefixes, prefix wildcards; see src/search/query-parser.ts). Plain
+ * keyword queries combine terms with AND; if that finds nothing, the search is
+ * retried with OR so multi-word queries still return the closest matches.
+ * Unless expand_synonyms is false, OT acronyms and synonyms from the glossary
+ * are expanded (e.g. "MFA" also matches "multifactor authentication").
+ * Unless fuzzy is false, a query with fewer than FUZZY_MIN_HITS hits has its
+ * unknown words corrected against the requirement and MITRE technique
+ * vocabulary ("firmwear" -> "firmware"); if the corrected query finds more,
+ * its hits are added and the corrected query is reported as did_you_mean.
+ * A query that names a requirement by its ID, however written ("AC-2",
+ * "ac 02", "NIST 800-53 AC-2"), returns that requirement first, ahead of
+ * requirements that merely mention the ID more often, and is not corrected.
+ * Supports filtering by standard, security level (IEC 62443), component type,
+ * Purdue levels, base requirement vs enhancement, parent requirement and
+ * industry sector.
+ *
+ * With mode 'semantic', hits are instead the requirements whose LSA vector
+ * (see src/search/vectors.ts) is most similar to the query's, so a query can
+ * find requirements that use different words for the same concept. Mode
+ * 'hybrid' fuses the keyword and semantic rankings with reciprocal rank
+ * fusion. Both fall back to keyword ranking (reported in the response's mode)
+ * if no vectors have been built.
  *
- * Performs full-text search across requirement title, description, and rationale fields.
- * Supports filtering by standard, security level (IEC 62443), and component type.
- * Returns results with relevance scoring and snippet extraction.
+ * The response reports the total number of hits and facet counts over all of
+ * them; pass next_cursor back as options.cursor to fetch the following page.
  *
  * Security Level Filtering:
  * - Applies to IEC 62443 standards (3-3, 4-2) via security_levels table
  * - NIST standards don't have security levels, so filter excludes them
- * - Uses LEFT JOIN to support requirements with/without security levels
+ *
+ * Sector Filtering:
+ * - Keeps requirements of standards listed in sector_applicability for the
+ *   sector (case-insensitive), unless marked not_applicable
  *
  * @param db - Database client instance
  * @param params - Search parameters including query string and optional filters
- * @returns Array of RequirementSearchResult objects with relevance scoring and snippets
+ * @returns RequirementSearchResponse with one page of hits, counts and facets
+ * @throws QuerySyntaxError if the query is malformed
+ * @throws InvalidCursorError if options.cursor is malformed or from another search
  */
-export async function searchRequirements(
+export async function searchRequirementsDetailed(
   db: DatabaseClient,
   params: SearchRequirementsParams
-): Promise<RequirementSearchResult[]> {
+): Promise<RequirementSearchResponse> {
   const { query, options = {} } = params;
+  const requestedMode = options.mode ?? 'keyword';
 
-  // Return empty array for empty queries
+  // Return no hits for empty queries
   if (!query || query.trim() === '') {
-    return [];
+    return emptyResponse(requestedMode);
+  }
+
+  // Queries made only of punctuation have nothing to match
+  if (tokenizeText(query).length === 0) {
+    return emptyResponse(requestedMode);
   }
 
   // Extract options with defaults
@@ -130,107 +364,437 @@ export async function searchRequirements(
     standards = [],
     security_level,
     component_type,
+    purdue_levels = [],
+    only_base_requirements = false,
+    only_enhancements = false,
+    parent_requirement_id,
+    sector,
+    expand_synonyms = true,
+    fuzzy = true,
     limit = 10, // Default limit as per design doc
+    cursor,
+    explain = false,
+    version,
   } = options;
 
-  // Enforce max limit of 100
-  const effectiveLimit = Math.min(limit || 10, 100);
-
-  // Build the SQL query dynamically based on filters
-  let sql = `
-    SELECT DISTINCT r.*
-    FROM ot_requirements r
-  `;
-
-  // Add LEFT JOIN for security_level filtering if needed
-  // This allows filtering IEC 62443 requirements by security level (SL 1-4)
-  if (security_level !== undefined) {
-    sql += `
-    LEFT JOIN security_levels sl ON r.id = sl.requirement_db_id
-    `;
-  }
-
-  // Add WHERE clause for search
-  sql += `
-    WHERE (
-      r.title LIKE ? COLLATE NOCASE OR
-      r.description LIKE ? COLLATE NOCASE OR
-      r.rationale LIKE ? COLLATE NOCASE
-    )
-  `;
-
-  // Build parameters array
-  const searchPattern = `%${query}%`;
-  const queryParams: any[] = [searchPattern, searchPattern, searchPattern];
+  const parsed = parseQuery(query);
+  const synonymIndex = expand_synonyms ? loadSynonymIndex(db) : null;
+  const compiled = compileQuery(parsed, synonymIndex);
+
+  // Enforce a page size of 1 to 100 (SQLite treats a negative LIMIT as none)
+  const effectiveLimit = Math.max(1, Math.min(limit || 10, 100));
+
+  // Semantic ranking needs the vectors built by scripts/build-vectors.ts
+  const mode: SearchMode =
+    requestedMode !== 'keyword' &&
+    db.queryOne(`SELECT 1 AS present FROM ot_requirement_vectors LIMIT 1`) === undefined
+      ? 'keyword'
+      : requestedMode;
+
+  // Cursors are tied to the query and filters, not the page size
+  const fingerprint = fingerprintSearch([
+    query,
+    [...standards].sort(),
+    security_level ?? null,
+    component_type ?? null,
+    [...purdue_levels].sort(),
+    only_base_requirements,
+    only_enhancements,
+    parent_requirement_id ?? null,
+    sector ?? null,
+    version || null,
+    expand_synonyms,
+    fuzzy,
+    mode,
+  ]);
+  const offset = cursor ? decodeCursor(cursor, fingerprint) : 0;
+
+  // Build filter clauses once; they apply to every query below
+  const filters: SearchFilter[] = [];
 
-  // Add standards filter
   if (standards && standards.length > 0) {
     const placeholders = standards.map(() => '?').join(', ');
-    sql += ` AND r.standard_id IN (${placeholders})`;
-    queryParams.push(...standards);
+    filters.push({
+      filter: 'standards',
+      value: standards,
+      sql: `r.standard_id IN (${placeholders})`,
+      params: standards,
+    });
   }
 
-  // Add security_level filter (IEC 62443 only)
+  // Security level filter (IEC 62443 only)
   if (security_level !== undefined) {
-    sql += ` AND sl.security_level = ?`;
-    queryParams.push(security_level);
+    filters.push({
+      filter: 'security_level',
+      value: security_level,
+      sql: `EXISTS (SELECT 1 FROM security_levels sl
+                    WHERE sl.requirement_db_id = r.id AND sl.security_level = ?)`,
+      params: [security_level],
+    });
   }
 
-  // Add component_type filter
   if (component_type !== undefined) {
-    sql += ` AND r.component_type = ?`;
-    queryParams.push(component_type);
-  }
-
-  // Add ORDER BY clause for relevance scoring
-  // Title matches get highest priority (1.0), then description (0.7), then rationale (0.5)
-  sql += `
-    ORDER BY
-      CASE
-        WHEN r.title LIKE ? COLLATE NOCASE THEN 1.0
-        WHEN r.description LIKE ? COLLATE NOCASE THEN 0.7
-        WHEN r.rationale LIKE ? COLLATE NOCASE THEN 0.5
-        ELSE 0.3
-      END DESC,
-      r.id ASC
+    filters.push({
+      filter: 'component_type',
+      value: component_type,
+      sql: `r.component_type = ?`,
+      params: [component_type],
+    });
+  }
+
+  if (purdue_levels.length > 0) {
+    filters.push({
+      filter: 'purdue_levels',
+      value: purdue_levels,
+      sql: `r.purdue_level IN (${purdue_levels.map(() => '?').join(', ')})`,
+      params: purdue_levels,
+    });
+  }
+
+  // Base requirements have no parent; enhancements (REs, NIST control enhancements) do
+  if (only_base_requirements) {
+    filters.push({
+      filter: 'only_base_requirements',
+      value: true,
+      sql: `r.parent_requirement_id IS NULL`,
+      params: [],
+    });
+  }
+
+  if (only_enhancements) {
+    filters.push({
+      filter: 'only_enhancements',
+      value: true,
+      sql: `r.parent_requirement_id IS NOT NULL`,
+      params: [],
+    });
+  }
+
+  if (parent_requirement_id !== undefined) {
+    filters.push({
+      filter: 'parent_requirement_id',
+      value: parent_requirement_id,
+      sql: `r.parent_requirement_id = ?`,
+      params: [parent_requirement_id],
+    });
+  }
+
+  // Sector filter: standards that apply to the sector in any jurisdiction
+  if (sector !== undefined) {
+    filters.push({
+      filter: 'sector',
+      value: sector,
+      sql: `r.standard_id IN (SELECT sa.standard FROM sector_applicability sa
+                              WHERE sa.sector = ? COLLATE NOCASE
+                                AND sa.applicability != 'not_applicable')`,
+      params: [sector],
+    });
+  }
+
+  // Search the requested version, or leave out superseded versions of each standard
+  const versionFilter = versionCondition(version);
+  if (version) {
+    filters.push({ filter: 'version', value: version, ...versionFilter });
+  }
+  const scope = version ? '' : `AND ${versionFilter.sql}`;
+  const scopeParams = version ? [] : versionFilter.params;
+
+  const whereFilters = `${filters.map((f) => `AND ${f.sql}`).join(' ')} ${scope}`;
+  const filterParams = [...filters.flatMap((f) => f.params), ...scopeParams];
+
+  // Requirements the query names by ID are hits in every mode and rank first
+  const named = namedRequirements(db, query, whereFilters, filterParams);
+  const namedIds = new Set(named.map((req) => req.id));
+  const namedIdsJson = JSON.stringify([...namedIds]);
+
+  // All filtered hits for an expression, shared by the count and facet queries
+  const hitsCte = `
+    WITH hits AS (
+      SELECT r.id, r.standard_id, r.component_type, r.purdue_level
+      FROM ot_requirements_fts f
+      INNER JOIN ot_requirements r ON r.id = f.rowid
+      WHERE ot_requirements_fts MATCH ? ${whereFilters}
+    )`;
+
+  const countHits = (expression: string) =>
+    db.queryOne<{ count: number }>(`${hitsCte} SELECT COUNT(*) AS count FROM hits`, [
+      expression,
+      ...filterParams,
+    ])?.count ?? 0;
+
+  // Hits ranked outside SQL, passed in as a JSON array of requirement IDs
+  const rankedHitsCte = `
+    WITH hits AS (
+      SELECT r.id, r.standard_id, r.component_type, r.purdue_level
+      FROM ot_requirements r
+      WHERE r.id IN (SELECT value FROM json_each(?))
+    )`;
+
+  const { requirement_id, title, description, rationale } = BM25_WEIGHTS;
+  const matchesCte = `
+    WITH matches AS (
+      SELECT
+        rowid,
+        bm25(ot_requirements_fts, ${requirement_id}, ${title}, ${description}, ${rationale}) AS score,
+        highlight(ot_requirements_fts, 1, ?, ?) AS title_highlight,
+        snippet(ot_requirements_fts, -1, ?, ?, '...', ${SNIPPET_TOKENS}) AS fts_snippet
+      FROM ot_requirements_fts
+      WHERE ot_requirements_fts MATCH ?
+    )`;
+
+  const pageSql = `${matchesCte}
+    SELECT
+      r.*,
+      m.score,
+      MIN(m.score) OVER () AS best_score,
+      m.title_highlight,
+      m.fts_snippet
+    FROM matches m
+    INNER JOIN ot_requirements r ON r.id = m.rowid
+    WHERE 1 = 1 ${whereFilters}
+    ORDER BY r.id IN (SELECT value FROM json_each(?)) DESC, m.score ASC, r.id ASC
+    LIMIT ? OFFSET ?
+  `;
+
+  // Every filtered keyword hit in BM25 order, for rank fusion
+  const keywordRankingSql = `${matchesCte}
+    SELECT r.id
+    FROM matches m
+    INNER JOIN ot_requirements r ON r.id = m.rowid
+    WHERE 1 = 1 ${whereFilters}
+    ORDER BY r.id IN (SELECT value FROM json_each(?)) DESC, m.score ASC, r.id ASC
+  `;
+
+  // Requirements by ID, highlighted where the keywords match them
+  const rankedPageSql = `${matchesCte}
+    SELECT r.*, m.title_highlight, m.fts_snippet
+    FROM ot_requirements r
+    LEFT JOIN matches m ON m.rowid = r.id
+    WHERE r.id IN (SELECT value FROM json_each(?))
   `;
-  queryParams.push(searchPattern, searchPattern, searchPattern);
 
-  // Add limit
-  sql += ` LIMIT ?`;
-  queryParams.push(effectiveLimit);
+  const highlightParams = [HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE, HIGHLIGHT_OPEN, HIGHLIGHT_CLOSE];
+
+  // Words that are not typos even though they are missing from the vocabulary:
+  // inflections the stemmer matches ("authenticates") and glossary terms
+  const isKnown = (word: string) =>
+    (synonymIndex?.variants.has(word) ?? false) ||
+    db.queryOne(`SELECT 1 AS hit FROM ot_requirements_fts WHERE ot_requirements_fts MATCH ?`, [
+      `"${word}"`,
+    ]) !== undefined;
 
   // Execute query
   try {
-    const results = db.query<OTRequirement>(sql, queryParams);
+    // Choose the expression: as written, with typos corrected, or relaxed to OR
+    let expression = matchNamed(compiled.strict, named);
+    let relaxed = compiled.relaxed && matchNamed(compiled.relaxed, named);
+    let total = countHits(expression);
+    let didYouMean: string | null = null;
+
+    // A requirement ID is not a typo
+    if (fuzzy && named.length === 0 && total < FUZZY_MIN_HITS) {
+      const corrected = correctQuery(query, parsed, loadVocabulary(db), isKnown);
+      if (corrected) {
+        const correctedQuery = compileQuery(parseQuery(corrected), synonymIndex);
+        // Hits for the query as typed are kept alongside the corrected ones
+        const combined = `(${expression}) OR (${correctedQuery.strict})`;
+        const combinedTotal = countHits(combined);
+        if (combinedTotal > total) {
+          expression = combined;
+          relaxed = correctedQuery.relaxed;
+          total = combinedTotal;
+          didYouMean = corrected;
+        }
+      }
+    }
+
+    if (total === 0 && relaxed) {
+      expression = relaxed;
+    }
+    const isRelaxed = expression === relaxed;
+
+    // Words searched for: the (corrected) query with glossary synonyms
+    const effectiveQuery = parseQuery(didYouMean ?? query);
+    const searchText = queryText(
+      synonymIndex ? expandSynonyms(effectiveQuery, synonymIndex) : effectiveQuery
+    );
+
+    // Semantic and hybrid modes rank every hit up front; keyword mode pages in SQL
+    let ranked: RankedHit[] | null = null;
+    const similarities = new Map<number, number>();
+    if (mode !== 'keyword') {
+      const semantic = rankBySimilarity(db, searchText, whereFilters, filterParams);
+      semantic.forEach((hit) => similarities.set(hit.id, hit.score));
+
+      if (mode === 'semantic') {
+        ranked = semantic;
+      } else {
+        const keyword = db
+          .query<{ id: number }>(keywordRankingSql, [
+            ...highlightParams,
+            expression,
+            ...filterParams,
+            namedIdsJson,
+          ])
+          .map((row) => row.id);
+        ranked = reciprocalRankFusion([keyword, semantic.map((hit) => hit.id)]);
+      }
+
+      if (named.length > 0) {
+        const best = ranked[0]?.score ?? 1;
+        ranked = [
+          ...named.map((req) => ({ id: req.id, score: best })),
+          ...ranked.filter((hit) => !namedIds.has(hit.id)),
+        ];
+      }
+    }
+
+    const facetRows = ranked
+      ? db.query<FacetRow>(facetQuery(rankedHitsCte), [JSON.stringify(ranked.map((h) => h.id))])
+      : db.query<FacetRow>(facetQuery(hitsCte), [expression, ...filterParams]);
+    const facets: Record<keyof SearchFacets, FacetCount[]> = {
+      standard_id: [],
+      component_type: [],
+      purdue_level: [],
+      security_level: [],
+    };
+    let totalCount = 0;
+    for (const row of facetRows) {
+      if (row.facet === 'total') {
+        totalCount = row.count;
+      } else if (row.value !== null) {
+        facets[row.facet].push({ value: row.value, count: row.count });
+      }
+    }
+    for (const counts of Object.values(facets)) {
+      counts.sort((a, b) => b.count - a.count || String(a.value).localeCompare(String(b.value)));
+    }
+
+    let page: Array<{ row: HighlightedRow; relevance: number }>;
+    if (ranked) {
+      const best = ranked[0]?.score ?? 0;
+      const slice = ranked.slice(offset, offset + effectiveLimit);
+      const rowsById = new Map(
+        db
+          .query<HighlightedRow>(rankedPageSql, [
+            ...highlightParams,
+            expression,
+            JSON.stringify(slice.map((h) => h.id)),
+          ])
+          .map((row) => [row.id, row])
+      );
+      page = slice.flatMap((hit) => {
+        const row = rowsById.get(hit.id);
+        return row ? [{ row, relevance: normalizeSimilarity(hit.score, best) }] : [];
+      });
+    } else {
+      page = db
+        .query<FtsMatchRow>(pageSql, [
+          ...highlightParams,
+          expression,
+          ...filterParams,
+          namedIdsJson,
+          effectiveLimit,
+          offset,
+        ])
+        .map(({ score, best_score, ...row }) => ({
+          row,
+          relevance: namedIds.has(row.id) ? 1 : normalizeScore(score, best_score),
+        }));
+    }
 
     // Build standards map for quick lookup
-    const standardsMap = new Map<string, string>();
-    const standards_data = db.query<{ id: string; name: string }>(
-      'SELECT id, name FROM ot_standards'
+    const standardsMap = new Map<string, { name: string; version: string | null }>();
+    const standards_data = db.query<{ id: string; name: string; version: string | null }>(
+      'SELECT id, name, version FROM ot_standards'
     );
     for (const std of standards_data) {
-      standardsMap.set(std.id, std.name);
+      standardsMap.set(std.id, std);
     }
 
-    // Transform results to RequirementSearchResult with snippet, relevance, and standard_name
-    const searchResults: RequirementSearchResult[] = results.map((req) => {
-      const snippet = extractSnippet(req, query);
-      const relevance = calculateRelevance(req, query);
-      const standard_name = standardsMap.get(req.standard_id) || req.standard_id;
-
-      return {
+    const keywordExplanations = explain
+      ? explainKeywordMatches(
+          db,
+          expression,
+          page.map(({ row }) => row.id),
+          Object.values(BM25_WEIGHTS)
+        )
+      : null;
+
+    // Transform rows to RequirementSearchResult with snippet, relevance, and standard_name
+    const searchResults: RequirementSearchResult[] = page.map(({ row, relevance }) => {
+      const { title_highlight: _t, fts_snippet: _s, ...req } = row;
+      const standard = standardsMap.get(req.standard_id);
+      const result: RequirementSearchResult = {
         ...req,
-        snippet,
+        // Requirements without a version belong to the version recorded on the standard
+        version: req.version ?? standard?.version ?? null,
+        snippet: selectSnippet(row),
         relevance,
-        standard_name,
+        standard_name: standard?.name || req.standard_id,
+      };
+
+      if (!keywordExplanations) {
+        return result;
+      }
+      const keyword = keywordExplanations.get(row.id);
+      const similarity = similarities.get(row.id);
+      return {
+        ...result,
+        explanation: {
+          matched_fields: keyword?.matched_fields ?? [],
+          matched_terms: keyword?.matched_terms ?? [],
+          field_scores: keyword?.field_scores ?? {},
+          keyword_score: keyword?.keyword_score ?? null,
+          semantic_similarity:
+            similarity !== undefined ? Math.round(similarity * 1000) / 1000 : null,
+        },
       };
     });
 
-    return searchResults;
+    let explanation: SearchExplanation | undefined;
+    if (explain) {
+      // Candidates are the matches before filtering, as ranked in this mode
+      const candidates = new Set<number>();
+      if (mode !== 'semantic') {
+        db.query<{ id: number }>(
+          `SELECT r.id FROM ot_requirements_fts f
+           INNER JOIN ot_requirements r ON r.id = f.rowid
+           WHERE ot_requirements_fts MATCH ? ${scope}`,
+          [expression, ...scopeParams]
+        ).forEach((row) => candidates.add(row.id));
+      }
+      if (mode !== 'keyword') {
+        rankBySimilarity(db, searchText, scope, scopeParams).forEach((hit) =>
+          candidates.add(hit.id)
+        );
+      }
+
+      explanation = {
+        match_expression: expression,
+        terms: [...new Set(searchText.split(' ').filter((word) => word !== ''))],
+        relaxed: isRelaxed,
+        candidates: candidates.size,
+        filters: explainFilters(db, [...candidates], filters),
+      };
+    }
+
+    const nextOffset = offset + searchResults.length;
+    const hasMore = searchResults.length > 0 && nextOffset < totalCount;
+
+    return {
+      data: searchResults,
+      total_count: totalCount,
+      has_more: hasMore,
+      next_cursor: hasMore ? encodeCursor(nextOffset, fingerprint) : null,
+      facets,
+      did_you_mean: didYouMean,
+      mode,
+      ...(explanation ? { explain: explanation } : {}),
+    };
   } catch (error) {
-    // Log error and return empty array for graceful degradation
+    // Log error and return no hits for graceful degradation
     console.error('Error searching requirements:', error);
-    return [];
+    return emptyResponse(mode);
   }
 }
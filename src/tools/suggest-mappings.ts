@@ -0,0 +1,407 @@
+/**
+ * Suggest mappings tool: ranks candidate target requirements for a requirement
+ * that curated mappings do not (fully) cover
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { versionCondition } from '../database/versions.js';
+import { mappingReviewCondition } from '../database/mapping-provenance.js';
+import {
+  canonicalRequirementId,
+  normalizeMitreId,
+  parseRequirementReference,
+  requirementKey,
+  requirementMappings,
+  resolveRequirementId,
+} from '../database/requirement-ids.js';
+import { compareRequirementIds, requirementGroup } from '../database/requirement-groups.js';
+import { analyzeText, inverseDocumentFrequencies, tfidfWeights } from '../search/vectors.js';
+import {
+  MappingSuggestion,
+  MappingSuggestionScores,
+  MappingSuggestionStatus,
+  MappingSuggestionsResult,
+  OTMapping,
+  SuggestMappingsOptions,
+} from '../types/index.js';
+
+/**
+ * Suggest mappings parameters interface
+ */
+export interface SuggestMappingsParams {
+  requirement_id: string;
+  standard: string;
+  target_standard: string;
+  options?: SuggestMappingsOptions;
+}
+
+/** Scoring method recorded with stored suggestions; bump it when the weights change */
+export const SUGGESTION_METHOD = 'tfidf-structural-v1';
+
+/** Weight of each signal in a suggestion's score (they sum to 1) */
+const WEIGHTS: Readonly<Record<keyof MappingSuggestionScores, number>> = {
+  text_similarity: 0.55,
+  keyword_overlap: 0.15,
+  family_affinity: 0.15,
+  neighbour_support: 0.15,
+};
+
+/** Candidates scoring below this are not suggested */
+export const MIN_SUGGESTION_SCORE = 0.1;
+
+/** Number of shared terms reported per suggestion */
+const SHARED_TERMS = 5;
+
+/**
+ * A requirement (or MITRE mitigation) with the text it is compared by
+ */
+interface SuggestionDocument {
+  requirement_id: string;
+  title: string | null;
+  text: string;
+}
+
+/**
+ * Current requirements of a standard, without withdrawn ones; MITRE
+ * mitigations for mitre-ics
+ */
+function standardDocuments(db: DatabaseClient, standard: string): SuggestionDocument[] {
+  if (standard === 'mitre-ics') {
+    return db.query<SuggestionDocument>(
+      `SELECT mitigation_id AS requirement_id, name AS title,
+              COALESCE(name, '') || ' ' || COALESCE(description, '') AS text
+       FROM mitre_ics_mitigations
+       ORDER BY mitigation_id`
+    );
+  }
+
+  const currentVersion = versionCondition();
+  return db.query<SuggestionDocument>(
+    `SELECT r.requirement_id, r.title,
+            COALESCE(r.title, '') || ' ' || COALESCE(r.description, '') || ' ' ||
+              COALESCE(r.rationale, '') AS text
+     FROM ot_requirements r
+     WHERE r.standard_id = ? AND ${currentVersion.sql} AND r.status IS NULL
+     ORDER BY r.id`,
+    [standard, ...currentVersion.params]
+  );
+}
+
+/**
+ * Jaccard overlap of the keywords of two titles
+ */
+function keywordOverlap(a: string | null, b: string | null): number {
+  const x = new Set(analyzeText(a ?? ''));
+  const y = new Set(analyzeText(b ?? ''));
+  const shared = [...x].filter((term) => y.has(term)).length;
+  const union = x.size + y.size - shared;
+  return union === 0 ? 0 : shared / union;
+}
+
+/**
+ * Round a score for output and storage
+ */
+function round(value: number): number {
+  return Math.round(Math.min(1, Math.max(0, value)) * 1000) / 1000;
+}
+
+/**
+ * Rank candidate target requirements for a requirement
+ *
+ * Runs entirely on the local database. Each requirement of the target
+ * standard is scored on four signals:
+ * - text similarity: cosine of TF-IDF vectors of the requirement texts
+ * - keyword overlap: shared title keywords
+ * - family affinity: how many curated mappings of the source and its
+ *   neighbours land in the candidate's group (control family, FR, chapter)
+ * - neighbour support: how many neighbours are already mapped to the candidate
+ *
+ * Neighbours are the requirements in the source's own group and the
+ * requirements curated mappings already link the source to in other
+ * standards. Targets already mapped to the source and suggestions a reviewer
+ * rejected are never suggested.
+ *
+ * With options.save, the suggestions are stored as pending in
+ * mapping_suggestions (never in ot_mappings). Re-saving refreshes the scores
+ * of pending suggestions and leaves accepted and rejected ones alone.
+ *
+ * @param db - Database client instance
+ * @param params - Source requirement, target standard and options
+ * @returns MappingSuggestionsResult, or null if the source requirement is not found
+ */
+export async function suggestMappings(
+  db: DatabaseClient,
+  params: SuggestMappingsParams
+): Promise<MappingSuggestionsResult | null> {
+  const { requirement_id, standard, target_standard, options = {} } = params;
+
+  // Validate required parameters
+  if (!requirement_id || !standard || !target_standard || standard === target_standard) {
+    return null;
+  }
+
+  const { min_score = MIN_SUGGESTION_SCORE, reviewed_only = false, save = false } = options;
+  const effectiveLimit = Math.min(options.limit || 10, 50);
+
+  try {
+    // Step 1: The source requirement
+    const reference = parseRequirementReference(requirement_id);
+    if (reference.standard && reference.standard !== standard) {
+      return null;
+    }
+    const sourceId =
+      resolveRequirementId(db, standard, requirement_id) ??
+      (standard === 'mitre-ics'
+        ? normalizeMitreId(reference.requirement_id)
+        : canonicalRequirementId(standard, reference.requirement_id));
+    const sourceDocuments = standardDocuments(db, standard);
+    const source = sourceDocuments.find(
+      (document) => requirementKey(document.requirement_id) === requirementKey(sourceId)
+    );
+    if (!source) {
+      return null;
+    }
+
+    const candidates = standardDocuments(db, target_standard);
+
+    // Step 2: TF-IDF over every requirement and mitigation
+    const currentVersion = versionCondition();
+    const corpus = db
+      .query<{ text: string }>(
+        `SELECT COALESCE(r.title, '') || ' ' || COALESCE(r.description, '') || ' ' ||
+                COALESCE(r.rationale, '') AS text
+         FROM ot_requirements r
+         WHERE ${currentVersion.sql}
+         UNION ALL
+         SELECT COALESCE(name, '') || ' ' || COALESCE(description, '') FROM mitre_ics_mitigations`,
+        currentVersion.params
+      )
+      .map((row) => row.text);
+    const idf = inverseDocumentFrequencies(corpus);
+    const sourceWeights = tfidfWeights(source.text, idf);
+
+    // Step 3: Curated mappings into the target standard, per mapped requirement
+    const nodeKey = (std: string, id: string) => `${std}:${requirementKey(id)}`;
+    const targetsOf = new Map<string, Set<string>>();
+    const targetGroups = new Map<string, string>();
+    for (const mapping of db.query<OTMapping>(
+      `SELECT * FROM ot_mappings
+       WHERE (source_standard = ? OR target_standard = ?) AND ${mappingReviewCondition(reviewed_only)}`,
+      [target_standard, target_standard]
+    )) {
+      const [other, target] =
+        mapping.target_standard === target_standard
+          ? [
+              nodeKey(mapping.source_standard, mapping.source_requirement),
+              mapping.target_requirement,
+            ]
+          : [
+              nodeKey(mapping.target_standard, mapping.target_requirement),
+              mapping.source_requirement,
+            ];
+      if (other.startsWith(`${target_standard}:`)) {
+        continue;
+      }
+      const targets = targetsOf.get(other) ?? new Set<string>();
+      targets.add(requirementKey(target));
+      targetsOf.set(other, targets);
+      const group = requirementGroup(target_standard, target);
+      if (group) {
+        targetGroups.set(requirementKey(target), group.id);
+      }
+    }
+
+    // Step 4: Neighbours of the source: its group and its curated mappings elsewhere
+    const sourceKey = nodeKey(standard, source.requirement_id);
+    const neighbours = new Set<string>();
+    const sourceGroup = requirementGroup(standard, source.requirement_id);
+    if (sourceGroup) {
+      for (const document of sourceDocuments) {
+        if (requirementGroup(standard, document.requirement_id)?.id === sourceGroup.id) {
+          neighbours.add(nodeKey(standard, document.requirement_id));
+        }
+      }
+    }
+    for (const mapping of requirementMappings(db, standard, source.requirement_id, reviewed_only)) {
+      for (const [std, id] of [
+        [mapping.source_standard, mapping.source_requirement],
+        [mapping.target_standard, mapping.target_requirement],
+      ] as const) {
+        if (std !== target_standard) {
+          neighbours.add(nodeKey(std, id));
+        }
+      }
+    }
+    neighbours.delete(sourceKey);
+
+    // Targets already mapped to the source (reviewed or not) are not suggested
+    const alreadyMappedIds = new Map<string, string>();
+    for (const mapping of requirementMappings(db, standard, source.requirement_id)) {
+      if (mapping.target_standard === target_standard) {
+        alreadyMappedIds.set(
+          requirementKey(mapping.target_requirement),
+          mapping.target_requirement
+        );
+      } else if (mapping.source_standard === target_standard) {
+        alreadyMappedIds.set(
+          requirementKey(mapping.source_requirement),
+          mapping.source_requirement
+        );
+      }
+    }
+    const alreadyMapped = new Set(alreadyMappedIds.keys());
+    const groupCounts = new Map<string, number>();
+    const supporters = new Map<string, number>();
+    let neighboursWithTargets = 0;
+    const countGroups = (targets: Set<string>) => {
+      for (const target of targets) {
+        const group = targetGroups.get(target);
+        if (group) {
+          groupCounts.set(group, (groupCounts.get(group) ?? 0) + 1);
+        }
+      }
+    };
+    // Mapped targets point at a family just as the neighbours' targets do
+    countGroups(targetsOf.get(sourceKey) ?? new Set<string>());
+    for (const neighbour of neighbours) {
+      const targets = targetsOf.get(neighbour);
+      if (!targets || targets.size === 0) {
+        continue;
+      }
+      neighboursWithTargets++;
+      countGroups(targets);
+      for (const target of targets) {
+        supporters.set(target, (supporters.get(target) ?? 0) + 1);
+      }
+    }
+    const maxGroupCount = Math.max(0, ...groupCounts.values());
+
+    // Step 5: Earlier suggestions; rejected ones are not suggested again
+    const statuses = new Map(
+      db
+        .query<{ target_requirement: string; status: MappingSuggestionStatus }>(
+          `SELECT target_requirement, status FROM mapping_suggestions
+           WHERE source_standard = ? AND source_requirement = ? AND target_standard = ?`,
+          [standard, source.requirement_id, target_standard]
+        )
+        .map((row): [string, MappingSuggestionStatus] => [
+          requirementKey(row.target_requirement),
+          row.status,
+        ])
+    );
+
+    // Step 6: Score every candidate
+    const suggestions: MappingSuggestion[] = [];
+    for (const candidate of candidates) {
+      const key = requirementKey(candidate.requirement_id);
+      if (alreadyMapped.has(key) || statuses.get(key) === 'rejected') {
+        continue;
+      }
+
+      const weights = tfidfWeights(candidate.text, idf);
+      const shared = [...sourceWeights]
+        .filter(([term]) => weights.has(term))
+        .map(([term, weight]) => ({ term, score: weight * (weights.get(term) ?? 0) }));
+      const group = requirementGroup(target_standard, candidate.requirement_id);
+
+      const scores: MappingSuggestionScores = {
+        text_similarity: round(shared.reduce((sum, { score }) => sum + score, 0)),
+        keyword_overlap: round(keywordOverlap(source.title, candidate.title)),
+        family_affinity: round(
+          group && maxGroupCount > 0 ? (groupCounts.get(group.id) ?? 0) / maxGroupCount : 0
+        ),
+        neighbour_support: round(
+          neighboursWithTargets > 0 ? (supporters.get(key) ?? 0) / neighboursWithTargets : 0
+        ),
+      };
+      const score = round(
+        (Object.keys(WEIGHTS) as Array<keyof MappingSuggestionScores>).reduce(
+          (sum, signal) => sum + WEIGHTS[signal] * scores[signal],
+          0
+        )
+      );
+      if (score < min_score) {
+        continue;
+      }
+
+      suggestions.push({
+        requirement_id: candidate.requirement_id,
+        title: candidate.title,
+        group: group?.id ?? null,
+        score,
+        scores,
+        shared_terms: shared
+          .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term))
+          .slice(0, SHARED_TERMS)
+          .map(({ term }) => term),
+        status: statuses.get(key) ?? null,
+      });
+    }
+
+    suggestions.sort(
+      (a, b) => b.score - a.score || a.requirement_id.localeCompare(b.requirement_id)
+    );
+    const top = suggestions.slice(0, effectiveLimit);
+
+    // Step 7: Store the suggestions as pending, apart from the curated mappings
+    let saved = 0;
+    if (save && top.length > 0) {
+      db.transaction(() => {
+        for (const suggestion of top) {
+          saved += db.run(
+            `INSERT INTO mapping_suggestions (
+               source_standard, source_requirement, target_standard, target_requirement,
+               score, text_similarity, keyword_overlap, family_affinity, neighbour_support,
+               shared_terms, method
+             ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(source_standard, source_requirement, target_standard, target_requirement)
+             DO UPDATE SET
+               score = excluded.score,
+               text_similarity = excluded.text_similarity,
+               keyword_overlap = excluded.keyword_overlap,
+               family_affinity = excluded.family_affinity,
+               neighbour_support = excluded.neighbour_support,
+               shared_terms = excluded.shared_terms,
+               method = excluded.method,
+               created_date = datetime('now')
+             WHERE mapping_suggestions.status = 'pending'`,
+            [
+              standard,
+              source.requirement_id,
+              target_standard,
+              suggestion.requirement_id,
+              suggestion.score,
+              suggestion.scores.text_similarity,
+              suggestion.scores.keyword_overlap,
+              suggestion.scores.family_affinity,
+              suggestion.scores.neighbour_support,
+              JSON.stringify(suggestion.shared_terms),
+              SUGGESTION_METHOD,
+            ]
+          ).changes;
+        }
+      });
+    }
+
+    return {
+      source: {
+        requirement_id: source.requirement_id,
+        standard_id: standard,
+        title: source.title,
+      },
+      target_standard,
+      method: SUGGESTION_METHOD,
+      already_mapped: [...alreadyMappedIds.values()].sort((a, b) =>
+        compareRequirementIds(target_standard, a, b)
+      ),
+      suggestions: save
+        ? top.map((suggestion) => ({ ...suggestion, status: suggestion.status ?? 'pending' }))
+        : top,
+      saved,
+    };
+  } catch (error) {
+    // Log error and return null for graceful degradation
+    console.error('Error suggesting mappings:', error);
+    return null;
+  }
+}
@@ -0,0 +1,486 @@
+/**
+ * Validate mappings tool: integrity problems in ot_mappings, which has no
+ * foreign keys to the requirements it links
+ */
+
+import { DatabaseClient } from '../database/client.js';
+import { mappingReviewCondition } from '../database/mapping-provenance.js';
+import { versionCondition } from '../database/versions.js';
+import { canonicalRequirementId, requirementKey } from '../database/requirement-ids.js';
+import { inverseRelationship } from '../database/mapping-perspective.js';
+import {
+  MappingFix,
+  MappingIssue,
+  MappingIssueSeverity,
+  MappingIssueType,
+  MappingRelationship,
+  MappingType,
+  MappingValidationReport,
+  OTMapping,
+  ValidateMappingsOptions,
+} from '../types/index.js';
+
+/**
+ * Validate mappings parameters interface
+ */
+export interface ValidateMappingsParams {
+  options?: ValidateMappingsOptions;
+}
+
+/** Confidences of one requirement's mappings may differ by this much */
+export const DEFAULT_CONFIDENCE_SPREAD = 0.4;
+
+const SEVERITY_ORDER: readonly MappingIssueSeverity[] = ['error', 'warning', 'info'];
+
+const ISSUE_TYPE_ORDER: readonly MappingIssueType[] = [
+  'dangling_requirement',
+  'conflicting_pair',
+  'non_inverse_pair',
+  'non_canonical_id',
+  'confidence_spread',
+  'duplicate_pair',
+  'unloaded_standard',
+];
+
+/**
+ * Requirement IDs stored for a standard (any version, withdrawn ones included)
+ */
+export interface StoredRequirements {
+  ids: Set<string>;
+  /** Stored ID by requirementKey() */
+  byKey: Map<string, string>;
+}
+
+/**
+ * Requirement IDs stored for a standard: MITRE techniques and mitigations for
+ * mitre-ics, the standard's current version in ot_requirements otherwise (so
+ * a mapping to a requirement dropped from the current version dangles)
+ *
+ * @returns The stored IDs, or null when no requirement of the standard is loaded
+ */
+export function storedRequirements(
+  db: DatabaseClient,
+  standard: string
+): StoredRequirements | null {
+  const currentVersion = versionCondition();
+  const ids =
+    standard === 'mitre-ics'
+      ? db
+          .query<{ id: string }>(
+            `SELECT mitigation_id AS id FROM mitre_ics_mitigations
+             UNION SELECT technique_id AS id FROM mitre_ics_techniques`
+          )
+          .map((row) => row.id)
+      : db
+          .query<{ id: string }>(
+            `SELECT DISTINCT r.requirement_id AS id FROM ot_requirements r
+             WHERE r.standard_id = ? AND ${currentVersion.sql}`,
+            [standard, ...currentVersion.params]
+          )
+          .map((row) => row.id);
+
+  if (ids.length === 0) {
+    return null;
+  }
+
+  return {
+    ids: new Set(ids),
+    byKey: new Map(ids.map((id) => [requirementKey(id), id])),
+  };
+}
+
+/**
+ * Base requirement of an enhancement ("AC-2(1)" -> "AC-2", "CR 1.1 RE 1" ->
+ * "CR 1.1"), or null for IDs that are not enhancements
+ */
+function baseRequirementId(requirementId: string): string | null {
+  const base = requirementId.replace(/\s*(?:\(\s*\d+\s*\)|\bRE\s*\(?\s*\d+\s*\)?)$/i, '');
+  return base !== requirementId ? base : null;
+}
+
+/**
+ * The parts of a mapping an issue reports
+ */
+function issueMapping(mapping: OTMapping): MappingIssue['mappings'][number] {
+  return {
+    id: mapping.id,
+    source_standard: mapping.source_standard,
+    source_requirement: mapping.source_requirement,
+    target_standard: mapping.target_standard,
+    target_requirement: mapping.target_requirement,
+    mapping_type: mapping.mapping_type,
+    confidence: mapping.confidence,
+    review_status: mapping.review_status,
+  };
+}
+
+/**
+ * Key of a requirement of a standard, the same for every way its ID is written
+ */
+function endpointKey(standard: string, requirementId: string): string {
+  return `${standard}\u0000${requirementKey(requirementId)}`;
+}
+
+/**
+ * Relationship of the requirement `from` to the other requirement of a mapping
+ */
+function relationFrom(mapping: OTMapping, from: string): MappingRelationship {
+  return endpointKey(mapping.source_standard, mapping.source_requirement) === from
+    ? mapping.mapping_type
+    : inverseRelationship(mapping.mapping_type);
+}
+
+/**
+ * The mapping whose type the others of a pair should agree with: reviewed
+ * before unreviewed, then the most confident, then the oldest
+ */
+function preferredMapping(mappings: OTMapping[]): OTMapping {
+  const rank = (a: OTMapping, b: OTMapping) =>
+    Number(b.review_status === 'reviewed') - Number(a.review_status === 'reviewed') ||
+    (b.confidence ?? -1) - (a.confidence ?? -1) ||
+    a.id - b.id;
+  return mappings.reduce((best, mapping) => (rank(mapping, best) < 0 ? mapping : best));
+}
+
+/**
+ * Mappings whose source or target requirement is not in the database
+ *
+ * A mapping naming a requirement in another form ("IA-02" for "IA-2") gets a
+ * rename fix; a missing enhancement can be mapped to its base requirement
+ * instead. Mappings of standards with no requirements loaded (IEC 62443 is
+ * user-supplied) cannot be checked: their IDs are only checked for the
+ * canonical form, and the standard is reported once.
+ */
+function checkRequirements(db: DatabaseClient, mappings: OTMapping[]): MappingIssue[] {
+  const issues: MappingIssue[] = [];
+  const stored = new Map<string, StoredRequirements | null>();
+  const unloaded = new Map<string, number>();
+
+  for (const mapping of mappings) {
+    for (const side of ['source', 'target'] as const) {
+      const standard = mapping[`${side}_standard`];
+      const requirementId = mapping[`${side}_requirement`];
+      const field = `${side}_requirement` as const;
+
+      if (!stored.has(standard)) {
+        stored.set(standard, storedRequirements(db, standard));
+      }
+      const requirements = stored.get(standard);
+
+      if (!requirements) {
+        unloaded.set(standard, (unloaded.get(standard) ?? 0) + 1);
+        const canonical = canonicalRequirementId(standard, requirementId);
+        if (canonical !== requirementId) {
+          issues.push({
+            type: 'non_canonical_id',
+            severity: 'warning',
+            message: `${standard} ${side} "${requirementId}" is not in the canonical form "${canonical}"`,
+            requirement: { standard_id: standard, requirement_id: requirementId },
+            mappings: [issueMapping(mapping)],
+            fixes: [
+              {
+                mapping_id: mapping.id,
+                action: 'rename_requirement',
+                field,
+                from: requirementId,
+                to: canonical,
+                description: `Write ${field} as "${canonical}"`,
+              },
+            ],
+          });
+        }
+        continue;
+      }
+
+      if (requirements.ids.has(requirementId)) {
+        continue;
+      }
+
+      const storedId = requirements.byKey.get(requirementKey(requirementId));
+      const baseId = baseRequirementId(requirementId);
+      const storedBaseId = baseId ? requirements.byKey.get(requirementKey(baseId)) : undefined;
+      const fixes: MappingFix[] = [];
+
+      if (storedId) {
+        fixes.push({
+          mapping_id: mapping.id,
+          action: 'rename_requirement',
+          field,
+          from: requirementId,
+          to: storedId,
+          description: `Rename ${field} to "${storedId}", the ID stored for ${standard}`,
+        });
+      } else {
+        if (storedBaseId) {
+          fixes.push({
+            mapping_id: mapping.id,
+            action: 'rename_requirement',
+            field,
+            from: requirementId,
+            to: storedBaseId,
+            description: `Map the base requirement "${storedBaseId}" instead of the unknown enhancement`,
+          });
+        }
+        fixes.push({
+          mapping_id: mapping.id,
+          action: 'remove_mapping',
+          description: `Remove the mapping: ${standard} has no requirement "${requirementId}"`,
+        });
+      }
+
+      issues.push({
+        type: 'dangling_requirement',
+        severity: 'error',
+        message: storedId
+          ? `${standard} ${side} "${requirementId}" is stored as "${storedId}"`
+          : `${standard} ${side} "${requirementId}" does not exist`,
+        requirement: { standard_id: standard, requirement_id: requirementId },
+        mappings: [issueMapping(mapping)],
+        fixes,
+      });
+    }
+  }
+
+  for (const [standard, count] of unloaded) {
+    issues.push({
+      type: 'unloaded_standard',
+      severity: 'info',
+      message: `${standard} has no requirements in the database; ${count} mapping references to it could not be checked`,
+      mappings: [],
+      fixes: [],
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Mappings between the same two requirements (in either direction) that
+ * disagree on the relationship, or that repeat each other
+ *
+ * Seen from one requirement, "A broader B" and "B narrower A" agree; "A
+ * broader B" and "B broader A" are not inverses. Fixes bring every mapping
+ * of a pair in line with the preferred one (see preferredMapping()).
+ */
+function checkPairs(mappings: OTMapping[]): MappingIssue[] {
+  const pairs = new Map<string, { from: string; mappings: OTMapping[] }>();
+  for (const mapping of mappings) {
+    const source = endpointKey(mapping.source_standard, mapping.source_requirement);
+    const target = endpointKey(mapping.target_standard, mapping.target_requirement);
+    if (source === target) {
+      continue;
+    }
+    const [from, to] = source < target ? [source, target] : [target, source];
+    const pair = pairs.get(`${from}\u0001${to}`) ?? { from, mappings: [] };
+    pair.mappings.push(mapping);
+    pairs.set(`${from}\u0001${to}`, pair);
+  }
+
+  const issues: MappingIssue[] = [];
+  for (const { from, mappings: pairMappings } of pairs.values()) {
+    if (pairMappings.length < 2) {
+      continue;
+    }
+
+    const preferred = preferredMapping(pairMappings);
+    const expected = relationFrom(preferred, from);
+    const others = pairMappings.filter((mapping) => mapping !== preferred);
+    const label = `${preferred.source_standard} ${preferred.source_requirement} and ${preferred.target_standard} ${preferred.target_requirement}`;
+
+    if (others.every((mapping) => relationFrom(mapping, from) === expected)) {
+      issues.push({
+        type: 'duplicate_pair',
+        severity: 'info',
+        message: `${pairMappings.length} mappings link ${label} with the same relationship`,
+        mappings: pairMappings.map(issueMapping),
+        fixes: others.map((mapping) => ({
+          mapping_id: mapping.id,
+          action: 'remove_mapping',
+          description: `Remove the mapping: it repeats mapping ${preferred.id}`,
+        })),
+      });
+      continue;
+    }
+
+    const types = new Set<MappingType>(pairMappings.map((mapping) => mapping.mapping_type));
+    const bothDirections =
+      new Set(
+        pairMappings.map((mapping) =>
+          endpointKey(mapping.source_standard, mapping.source_requirement)
+        )
+      ).size > 1;
+    const nonInverse =
+      bothDirections && [...types].every((type) => type === 'broader' || type === 'narrower');
+
+    const fixes: MappingFix[] = others
+      .filter((mapping) => relationFrom(mapping, from) !== expected)
+      .map((mapping) => {
+        const forward =
+          endpointKey(mapping.source_standard, mapping.source_requirement) ===
+          endpointKey(preferred.source_standard, preferred.source_requirement);
+        if (preferred.mapping_type === 'supersedes' && !forward) {
+          return {
+            mapping_id: mapping.id,
+            action: 'remove_mapping' as const,
+            description: `Remove the mapping: it contradicts the direction of mapping ${preferred.id} ('supersedes')`,
+          };
+        }
+        const type = forward ? preferred.mapping_type : inverseRelationship(preferred.mapping_type);
+        return {
+          mapping_id: mapping.id,
+          action: 'set_mapping_type' as const,
+          field: 'mapping_type' as const,
+          from: mapping.mapping_type,
+          to: type,
+          description: `Set mapping_type to '${type}' to agree with mapping ${preferred.id} ('${preferred.mapping_type}')`,
+        };
+      });
+
+    issues.push({
+      type: nonInverse ? 'non_inverse_pair' : 'conflicting_pair',
+      severity: 'error',
+      message: nonInverse
+        ? `broader/narrower mappings between ${label} are not inverses of each other`
+        : `Mappings between ${label} disagree on the relationship (${[...types].join(', ')})`,
+      mappings: pairMappings.map(issueMapping),
+      fixes,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Requirements whose mappings' confidences are further apart than the
+ * tolerated spread; mappings far from the median confidence are flagged for
+ * review
+ */
+function checkConfidences(mappings: OTMapping[], spread: number): MappingIssue[] {
+  const byRequirement = new Map<
+    string,
+    { standard: string; requirementId: string; mappings: OTMapping[]; confidences: number[] }
+  >();
+  for (const mapping of mappings) {
+    const { confidence } = mapping;
+    if (confidence === null) {
+      continue;
+    }
+    for (const side of ['source', 'target'] as const) {
+      const standard = mapping[`${side}_standard`];
+      const requirementId = mapping[`${side}_requirement`];
+      const key = endpointKey(standard, requirementId);
+      const entry = byRequirement.get(key) ?? {
+        standard,
+        requirementId,
+        mappings: [],
+        confidences: [],
+      };
+      entry.mappings.push(mapping);
+      entry.confidences.push(confidence);
+      byRequirement.set(key, entry);
+    }
+  }
+
+  const issues: MappingIssue[] = [];
+  for (const entry of byRequirement.values()) {
+    const { standard, requirementId, mappings: requirementMappings } = entry;
+    const confidences = [...entry.confidences].sort((a, b) => a - b);
+    const lowest = Math.min(...confidences);
+    const highest = Math.max(...confidences);
+    // Rounded so that floating point noise (0.9 - 0.5) does not exceed an equal spread
+    if (Math.round((highest - lowest) * 1000) / 1000 <= spread) {
+      continue;
+    }
+
+    const middle = Math.floor(confidences.length / 2);
+    const median =
+      confidences.length % 2 === 0
+        ? ((confidences[middle - 1] ?? 0) + (confidences[middle] ?? 0)) / 2
+        : (confidences[middle] ?? 0);
+    const suggested = Math.round(median * 100) / 100;
+
+    issues.push({
+      type: 'confidence_spread',
+      severity: 'warning',
+      message: `Confidences of the ${requirementMappings.length} mappings of ${standard} ${requirementId} range from ${lowest} to ${highest}`,
+      requirement: { standard_id: standard, requirement_id: requirementId },
+      mappings: requirementMappings.map(issueMapping),
+      fixes: requirementMappings
+        .filter((mapping) => Math.abs((mapping.confidence ?? median) - median) > spread / 2)
+        .map((mapping) => ({
+          mapping_id: mapping.id,
+          action: 'review_confidence' as const,
+          field: 'confidence' as const,
+          from: mapping.confidence,
+          to: suggested,
+          description: `Review confidence ${mapping.confidence}: the median of the requirement's mappings is ${suggested}`,
+        })),
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Check ot_mappings for dangling requirements, contradictory and repeated
+ * pairs, and disagreeing confidences
+ *
+ * Retired mappings are not checked. The database is never changed: each issue
+ * lists the fixes a curator can apply to the mapping files.
+ *
+ * @param db - Database client instance
+ * @param params - Optional standard filter, review status filter and confidence spread
+ * @returns Issues found (errors first), or null on a database error
+ */
+export async function validateMappings(
+  db: DatabaseClient,
+  params: ValidateMappingsParams = {}
+): Promise<MappingValidationReport | null> {
+  const { options = {} } = params;
+  const spread = Math.min(Math.max(options.confidence_spread ?? DEFAULT_CONFIDENCE_SPREAD, 0), 1);
+
+  try {
+    // Step 1: Mappings to check
+    const mappings = db.query<OTMapping>(
+      `SELECT * FROM ot_mappings
+       WHERE ${mappingReviewCondition(options.reviewed_only ?? false)}
+         ${options.standard ? 'AND (source_standard = ? OR target_standard = ?)' : ''}
+       ORDER BY id`,
+      options.standard ? [options.standard, options.standard] : []
+    );
+
+    // Step 2: Run the checks
+    const issues = [
+      ...checkRequirements(db, mappings),
+      ...checkPairs(mappings),
+      ...checkConfidences(mappings, spread),
+    ].sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+        ISSUE_TYPE_ORDER.indexOf(a.type) - ISSUE_TYPE_ORDER.indexOf(b.type) ||
+        (a.mappings[0]?.id ?? 0) - (b.mappings[0]?.id ?? 0)
+    );
+
+    // Step 3: Summarize
+    const byType: Partial<Record<MappingIssueType, number>> = {};
+    for (const issue of issues) {
+      byType[issue.type] = (byType[issue.type] ?? 0) + 1;
+    }
+    const count = (severity: MappingIssueSeverity) =>
+      issues.filter((issue) => issue.severity === severity).length;
+
+    return {
+      checked_mappings: mappings.length,
+      summary: {
+        errors: count('error'),
+        warnings: count('warning'),
+        info: count('info'),
+        by_type: byType,
+      },
+      issues,
+    };
+  } catch (error) {
+    console.error('Error validating mappings:', error);
+    return null;
+  }
+}
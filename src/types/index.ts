@@ -45,11 +45,34 @@ export type MappingType =
   | 'broader'
   | 'narrower';
 
+/**
+ * Review status of a mapping: drafts have not been reviewed yet, disputed
+ * mappings were challenged in review and retired mappings are no longer used
+ */
+export type MappingReviewStatus = 'draft' | 'reviewed' | 'disputed' | 'retired';
+
+/**
+ * Requirement status (NULL in the database while a requirement is in force)
+ */
+export type RequirementStatus = 'withdrawn';
+
 /**
  * Sector applicability levels
  */
 export type ApplicabilityLevel = 'mandatory' | 'recommended' | 'optional' | 'not_applicable';
 
+/**
+ * Glossary term types
+ */
+export type GlossaryTermType = 'acronym' | 'synonym';
+
+/**
+ * Entity types returned by search_ot_knowledge
+ * ('guidance' is an ot_requirements row with component_type 'guidance')
+ */
+export type KnowledgeEntityType =
+  'requirement' | 'technique' | 'mitigation' | 'zone' | 'conduit' | 'guidance';
+
 /**
  * Threat frameworks supported
  */
@@ -97,6 +120,25 @@ export interface OTStandard {
   readonly notes: string | null;
 }
 
+/**
+ * Published version of a standard (e.g., NIST 800-53 "Rev 4" and "Rev 5")
+ * Table: ot_standard_versions
+ */
+export interface OTStandardVersion {
+  /** Foreign key to ot_standards.id */
+  readonly standard_id: string;
+  /** Version string (e.g., "Rev 5") */
+  readonly version: string;
+  /** Version status; only 'current' versions answer queries without a version */
+  readonly status: StandardStatus | null;
+  /** Publication date (ISO 8601 string) */
+  readonly published_date: string | null;
+  /** Official URL for this version */
+  readonly url: string | null;
+  /** Additional notes about this version */
+  readonly notes: string | null;
+}
+
 /**
  * Requirements/controls with granular metadata
  * Table: ot_requirements
@@ -124,6 +166,10 @@ export interface OTRequirement {
    * @maximum 5
    */
   readonly purdue_level: number | null;
+  /** Standard version this requirement belongs to */
+  readonly version: string | null;
+  /** 'withdrawn' if the requirement was withdrawn, null while in force */
+  readonly status: RequirementStatus | null;
 }
 
 /**
@@ -176,6 +222,43 @@ export interface OTMapping {
   readonly notes: string | null;
   /** Creation timestamp (ISO 8601 string) */
   readonly created_date: string;
+  /** Mapping file the mapping was ingested from (mapping_sources.id) */
+  readonly mapping_source_id: number | null;
+  /** Document the mapping was taken from */
+  readonly source_document: string | null;
+  /** Version of the source document */
+  readonly source_version: string | null;
+  /** Review status */
+  readonly review_status: MappingReviewStatus;
+  /** Reviewer */
+  readonly reviewed_by: string | null;
+  /** Review date (ISO 8601 date) */
+  readonly reviewed_date: string | null;
+}
+
+/**
+ * Mapping files ingested into ot_mappings
+ * Table: mapping_sources
+ *
+ * Note: sources is stored as a JSON string in the database
+ */
+export interface MappingSource {
+  /** Auto-incremented database ID */
+  readonly id: number;
+  /** Path of the mapping file, relative to the repository root */
+  readonly mapping_file: string;
+  /** Title of the mapping file */
+  readonly title: string | null;
+  /** Version of the mapping file */
+  readonly version: string | null;
+  /** Date the mapping file was created */
+  readonly created_date: string | null;
+  /** Documents the mapping file draws on (JSON array) */
+  readonly sources: string | null;
+  /** How the confidence scores of the mapping file were assigned */
+  readonly confidence_basis: string | null;
+  /** Additional notes about the mapping file */
+  readonly notes: string | null;
 }
 
 /**
@@ -284,6 +367,23 @@ export interface SectorApplicability {
   readonly notes: string | null;
 }
 
+/**
+ * OT/ICS glossary term with its equivalent expansions
+ * Tables: ot_glossary, ot_glossary_expansions
+ */
+export interface GlossaryEntry {
+  /** Acronym or canonical term (e.g., "MFA", "malware") */
+  readonly term: string;
+  /** Whether the term is an acronym or a synonym group */
+  readonly term_type: GlossaryTermType;
+  /** Topic category (e.g., "identity", "asset", "network") */
+  readonly category: string | null;
+  /** Short definition of the term */
+  readonly definition: string | null;
+  /** Equivalent forms used for search expansion (e.g., "multifactor authentication") */
+  readonly expansions: string[];
+}
+
 // =============================================================================
 // Tool Parameter Types
 // =============================================================================
@@ -302,20 +402,48 @@ export interface SearchOptions {
   security_level?: SecurityLevelValue;
   /** Filter by component type */
   component_type?: ComponentType;
-  /** Filter by industry sector */
+  /** Filter by Purdue Model levels (0-5); requirements without a level are excluded */
+  purdue_levels?: number[];
+  /** Only return base requirements (no parent_requirement_id) */
+  only_base_requirements?: boolean;
+  /** Only return requirement enhancements (with a parent_requirement_id) */
+  only_enhancements?: boolean;
+  /** Only return enhancements of this base requirement (e.g., "SR 1.1") */
+  parent_requirement_id?: string;
+  /** Filter by industry sector, via the standards sector_applicability lists for it */
   sector?: string;
+  /** Search this version of the standards (default: each standard's current version) */
+  version?: string;
+  /** Expand OT acronyms and synonyms from the glossary (default: true) */
+  expand_synonyms?: boolean;
+  /** Correct misspelled words when the query finds few hits (default: true) */
+  fuzzy?: boolean;
+  /** Ranking: BM25 keywords, semantic vectors, or both fused (default: 'keyword') */
+  mode?: SearchMode;
   /** Maximum number of results to return */
   limit?: number;
+  /** Cursor from a previous response's next_cursor, to fetch the next page */
+  cursor?: string;
+  /** Explain the ranking: matched fields and terms, score contributions, filter effects */
+  explain?: boolean;
 }
 
+/**
+ * How search_ot_requirements ranks hits: BM25 keyword matching, similarity of
+ * locally computed semantic vectors, or reciprocal rank fusion of the two
+ */
+export type SearchMode = 'keyword' | 'semantic' | 'hybrid';
+
 /**
  * Options for get_ot_requirement tool
  */
 export interface GetRequirementOptions {
-  /** Specific version of the standard to query */
+  /** Version of the standard to query (default: the current version) */
   version?: string;
   /** Include cross-standard mappings in the response */
   include_mappings?: boolean;
+  /** Only return mappings whose review status is 'reviewed' */
+  reviewed_only?: boolean;
 }
 
 /**
@@ -348,6 +476,165 @@ export interface ZoneConduitOptions {
   reference_architecture?: string;
 }
 
+/**
+ * Options for get_ot_glossary tool
+ */
+export interface GlossaryOptions {
+  /** Look up a term, acronym or expansion (case-insensitive) */
+  term?: string;
+  /** Filter by category (e.g., "asset", "attack") */
+  category?: string;
+}
+
+/**
+ * Options for search_ot_knowledge tool
+ */
+export interface KnowledgeSearchOptions {
+  /** Only return these entity types (default: all) */
+  entity_types?: KnowledgeEntityType[];
+  /** Expand OT acronyms and synonyms from the glossary (default: true) */
+  expand_synonyms?: boolean;
+  /** Maximum number of results to return */
+  limit?: number;
+}
+
+/**
+ * Options for find_similar_requirements tool
+ */
+export interface SimilarRequirementsOptions {
+  /** Only consider requirements from these standards (default: every other standard) */
+  standards?: string[];
+  /**
+   * Minimum similarity for a requirement to be returned (default: 0.2)
+   * @minimum 0
+   * @maximum 1
+   */
+  min_similarity?: number;
+  /** Maximum number of results to return */
+  limit?: number;
+}
+
+/**
+ * Options for diff_standard_versions tool
+ */
+export interface DiffStandardVersionsOptions {
+  /** Diff only this requirement (per-requirement mode) */
+  requirement_id?: string;
+  /** Only report these kinds of change (default: all except 'unchanged') */
+  change_types?: RequirementChangeType[];
+  /** Maximum number of changes to return */
+  limit?: number;
+}
+
+/**
+ * Options for get_requirement_tree tool
+ */
+export interface RequirementTreeOptions {
+  /** Version of the standard (default: the current version) */
+  version?: string;
+}
+
+/**
+ * Options for browse_standard tool
+ */
+export interface BrowseStandardOptions {
+  /** Group to list the requirements of (e.g., "FR 3", "SC"); omit to list the groups */
+  group?: string;
+  /** Version of the standard (default: the current version) */
+  version?: string;
+  /** Maximum number of requirements per page */
+  limit?: number;
+  /** next_cursor from a previous call, to fetch the following page */
+  cursor?: string;
+}
+
+/**
+ * Options for resolve_mapping_path tool
+ */
+export interface MappingPathOptions {
+  /**
+   * Most mappings to follow from the requirement (default: 2)
+   * @minimum 1
+   * @maximum 4
+   */
+  max_hops?: number;
+  /** Only return relationships to these standards (default: every standard) */
+  standards?: string[];
+  /**
+   * Minimum path confidence for an inferred relationship (default: 0)
+   * @minimum 0
+   * @maximum 1
+   */
+  min_confidence?: number;
+  /** Maximum number of inferred relationships to return */
+  limit?: number;
+  /** Only follow mappings whose review status is 'reviewed' */
+  reviewed_only?: boolean;
+}
+
+/**
+ * Options for compare_ot_requirements tool
+ */
+export interface CompareRequirementsOptions {
+  /** Version of the standards (default: the current version of each standard) */
+  version?: string;
+  /**
+   * Most mappings chained when inferring relationships between the requirements (default: 2)
+   * @minimum 1
+   * @maximum 4
+   */
+  max_hops?: number;
+  /** Only use mappings whose review status is 'reviewed' */
+  reviewed_only?: boolean;
+}
+
+/**
+ * Options for get_coverage_matrix tool
+ */
+export interface CoverageMatrixOptions {
+  /** Matrix columns: the target standard's groups (default) or its requirements */
+  columns?: 'group' | 'requirement';
+  /** Include requirement enhancements as rows and columns (default: true) */
+  include_enhancements?: boolean;
+  /** Only count mappings whose review status is 'reviewed' */
+  reviewed_only?: boolean;
+}
+
+/**
+ * Options for suggest_mappings tool
+ */
+export interface SuggestMappingsOptions {
+  /**
+   * Minimum score for a candidate to be suggested (default: 0.1)
+   * @minimum 0
+   * @maximum 1
+   */
+  min_score?: number;
+  /** Maximum number of suggestions to return */
+  limit?: number;
+  /** Only use mappings whose review status is 'reviewed' as structural hints */
+  reviewed_only?: boolean;
+  /** Store the suggestions as pending in mapping_suggestions (default: false; scripts only, never over MCP) */
+  save?: boolean;
+}
+
+/**
+ * Options for validate_mappings tool
+ */
+export interface ValidateMappingsOptions {
+  /** Only check mappings with this standard as source or target */
+  standard?: string;
+  /** Only check mappings whose review status is 'reviewed' */
+  reviewed_only?: boolean;
+  /**
+   * Largest tolerated difference between the confidences of a requirement's
+   * mappings (default: 0.4)
+   * @minimum 0
+   * @maximum 1
+   */
+  confidence_spread?: number;
+}
+
 /**
  * Options for get_mitre_ics_technique tool
  */
@@ -412,6 +699,54 @@ export interface ImplementationGuidanceOptions {
 // Tool Result Types
 // =============================================================================
 
+/**
+ * Searchable text fields of a requirement (the ot_requirements_fts columns)
+ */
+export type RequirementTextField = 'requirement_id' | 'title' | 'description' | 'rationale';
+
+/**
+ * Why a search hit matched and how it scored (search explain option)
+ */
+export interface HitExplanation {
+  /** Fields that contain a match */
+  readonly matched_fields: RequirementTextField[];
+  /** Text that matched, as it appears in the requirement (lowercased) */
+  readonly matched_terms: string[];
+  /** BM25 score of each matched field alone, with its field weight applied */
+  readonly field_scores: Partial<Record<RequirementTextField, number>>;
+  /** Overall BM25 score (higher is better), null if the keywords do not match */
+  readonly keyword_score: number | null;
+  /** Cosine similarity to the query vector, null in keyword mode */
+  readonly semantic_similarity: number | null;
+}
+
+/**
+ * How many candidates a search filter removed
+ */
+export interface FilterEffect {
+  /** Option name, e.g. "standards" or "purdue_levels" */
+  readonly filter: string;
+  readonly value: unknown;
+  /** Candidates (matches before filtering) this filter alone excludes */
+  readonly excluded: number;
+}
+
+/**
+ * How a search query was interpreted and filtered (search explain option)
+ */
+export interface SearchExplanation {
+  /** FTS5 MATCH expression after synonym expansion, typo correction and relaxation */
+  readonly match_expression: string;
+  /** Query words searched for, including glossary synonyms; excluded words are left out */
+  readonly terms: string[];
+  /** Whether the AND query found nothing and any-word (OR) matching was used */
+  readonly relaxed: boolean;
+  /** Matches before filters were applied */
+  readonly candidates: number;
+  /** Effect of each filter that was set */
+  readonly filters: FilterEffect[];
+}
+
 /**
  * Search result for requirements (extends OTRequirement with search metadata)
  */
@@ -426,6 +761,43 @@ export interface RequirementSearchResult extends OTRequirement {
   readonly relevance: number;
   /** Name of the standard (denormalized for convenience) */
   readonly standard_name: string;
+  /** Ranking explanation, only with the explain option */
+  readonly explanation?: HitExplanation;
+}
+
+/**
+ * Number of search hits sharing one value of a facet
+ */
+export interface FacetCount {
+  readonly value: string | number;
+  readonly count: number;
+}
+
+/**
+ * Hit counts per facet value across all matches (not just the current page).
+ * Hits without a value for a facet are not counted in it.
+ */
+export interface SearchFacets {
+  readonly standard_id: FacetCount[];
+  readonly component_type: FacetCount[];
+  readonly purdue_level: FacetCount[];
+  readonly security_level: FacetCount[];
+}
+
+/**
+ * search_ot_requirements response: one page of matching requirements
+ */
+export interface RequirementSearchResponse extends QueryResult<RequirementSearchResult> {
+  /** Cursor for the next page, null on the last page */
+  readonly next_cursor: string | null;
+  /** Hit counts per standard, component type, Purdue level and security level */
+  readonly facets: SearchFacets;
+  /** Corrected query whose hits were included, if any words looked misspelled */
+  readonly did_you_mean: string | null;
+  /** Ranking actually used ('keyword' when no semantic vectors have been built) */
+  readonly mode: SearchMode;
+  /** Query interpretation and filter effects, only with the explain option */
+  readonly explain?: SearchExplanation;
 }
 
 /**
@@ -434,10 +806,126 @@ export interface RequirementSearchResult extends OTRequirement {
 export interface RequirementDetail extends OTRequirement {
   /** Standard information */
   readonly standard: OTStandard;
-  /** Cross-standard mappings */
-  readonly mappings: OTMapping[];
+  /** Cross-standard mappings, with their provenance, read from this requirement */
+  readonly mappings: RequirementMapping[];
   /** Security level mappings */
   readonly security_levels: SecurityLevel[];
+  /** Withdrawal notice and successors (withdrawn requirements only) */
+  readonly withdrawal?: RequirementWithdrawal;
+}
+
+/**
+ * Where a mapping comes from and how far it has been reviewed
+ */
+export interface MappingProvenance {
+  /** Document the mapping was taken from */
+  readonly source_document: string | null;
+  /** Version of the source document */
+  readonly source_version: string | null;
+  /** Mapping file the mapping was ingested from */
+  readonly mapping_file: string | null;
+  /** Version of the mapping file */
+  readonly mapping_file_version: string | null;
+  /** Documents the mapping file draws on */
+  readonly sources: string[];
+  /** How the confidence scores of the mapping file were assigned */
+  readonly confidence_basis: string | null;
+  /** Review status */
+  readonly review_status: MappingReviewStatus;
+  /** Reviewer */
+  readonly reviewed_by: string | null;
+  /** Review date */
+  readonly reviewed_date: string | null;
+}
+
+/**
+ * Cross-standard mapping with its provenance (the provenance columns of
+ * ot_mappings are returned in the provenance object)
+ */
+export interface ProvenancedMapping extends Omit<
+  OTMapping,
+  | 'mapping_source_id'
+  | 'source_document'
+  | 'source_version'
+  | 'review_status'
+  | 'reviewed_by'
+  | 'reviewed_date'
+> {
+  /** Where the mapping comes from and its review status */
+  readonly provenance: MappingProvenance;
+}
+
+/**
+ * Relationship of one requirement to another, read from the first: a mapping
+ * type, or 'superseded_by' (the inverse of 'supersedes')
+ */
+export type MappingRelationship = MappingType | 'superseded_by';
+
+/**
+ * Which side of a stored mapping a requirement is on: the source ('outgoing')
+ * or the target ('incoming')
+ */
+export type MappingDirection = 'outgoing' | 'incoming';
+
+/**
+ * A mapping read from one of its requirements: the other requirement and
+ * how the requirement relates to it
+ */
+export interface MappingPerspective {
+  /**
+   * Relationship of the requirement to the counterpart ("AC-2 is broader
+   * than G-6.1"); inverted for incoming mappings
+   */
+  readonly relationship: MappingRelationship;
+  /** Whether the mapping is stored from the requirement (outgoing) or to it (incoming) */
+  readonly direction: MappingDirection;
+  /** The requirement on the other side of the mapping */
+  readonly counterpart: {
+    readonly standard_id: string;
+    readonly requirement_id: string;
+    /** Title in the current version (MITRE: technique or mitigation name), null if not loaded */
+    readonly title: string | null;
+  };
+}
+
+/**
+ * Mapping of a requirement, with its provenance, read from the requirement
+ */
+export interface RequirementMapping extends ProvenancedMapping, MappingPerspective {}
+
+/**
+ * Requirement requested from get_ot_requirements that was not found
+ */
+export interface RequirementNotFound {
+  /** Requirement ID or free-form reference, as requested */
+  readonly requirement_id: string;
+  /** Standard as requested or named in the reference (null if neither) */
+  readonly standard: string | null;
+}
+
+/**
+ * get_ot_requirements result
+ */
+export interface RequirementBatchResult {
+  /** Requirements found, in request order (each requirement once) */
+  readonly requirements: RequirementDetail[];
+  /** Requested requirements that were not found, in request order */
+  readonly not_found: RequirementNotFound[];
+}
+
+/**
+ * Why a requirement was withdrawn and which requirements took it over
+ */
+export interface RequirementWithdrawal {
+  /** Withdrawal notice (e.g., "Withdrawn: incorporated into AC-2, AU-6.") */
+  readonly notice: string;
+  /** Requirements superseding the withdrawn one ('supersedes' mappings) */
+  readonly superseded_by: Array<{
+    readonly standard_id: string;
+    readonly requirement_id: string;
+    /** Title in the same version, or null if the successor is not in the database */
+    readonly title: string | null;
+  }>;
 }
 
 /**
@@ -450,18 +938,612 @@ export interface MitreTechniqueDetail extends MitreTechnique {
   readonly mapped_requirements: OTRequirement[];
 }
 
+/**
+ * MITRE mitigation with the techniques it mitigates
+ */
+export interface MitreMitigationDetail extends MitreMitigation {
+  /** Techniques this mitigation addresses */
+  readonly techniques: Pick<MitreTechnique, 'technique_id' | 'name' | 'tactic'>[];
+}
+
+/**
+ * A tool call that fetches an entity in full
+ */
+export interface ToolCall {
+  readonly tool: string;
+  readonly arguments: Record<string, string | number>;
+}
+
+/**
+ * One hit from search_ot_knowledge
+ */
+export interface KnowledgeSearchHit {
+  /** Entity type of the hit */
+  readonly type: KnowledgeEntityType;
+  /** Requirement, technique or mitigation ID; zone or conduit name */
+  readonly id: string;
+  /** Title or name */
+  readonly title: string | null;
+  /** Standard of a requirement or guidance hit, null for other types */
+  readonly standard_id: string | null;
+  /** Relevant text excerpt with matched terms highlighted */
+  readonly snippet: string;
+  /**
+   * BM25 relevance relative to the best hit of any type (0.0-1.0)
+   * @minimum 0.0
+   * @maximum 1.0
+   */
+  readonly score: number;
+  /** Tool call that returns the full entity */
+  readonly follow_up: ToolCall;
+}
+
+/**
+ * search_ot_knowledge response
+ */
+export interface KnowledgeSearchResponse extends QueryResult<KnowledgeSearchHit> {
+  /** Number of hits per entity type across all matches */
+  readonly type_counts: Partial<Record<KnowledgeEntityType, number>>;
+}
+
+/**
+ * How find_similar_requirements measured similarity: cosine of the LSA
+ * vectors from build:vectors, or of plain TF-IDF vectors when the source
+ * requirement has no vector
+ */
+export type SimilarityMethod = 'semantic' | 'tfidf';
+
+/**
+ * A requirement similar to the one find_similar_requirements was asked about
+ */
+export interface SimilarRequirement {
+  readonly requirement_id: string;
+  readonly standard_id: string;
+  readonly standard_name: string;
+  readonly title: string | null;
+  /** Cosine similarity to the source requirement (0.0-1.0) */
+  readonly similarity: number;
+  /** Most distinctive terms both requirements use, strongest first */
+  readonly shared_terms: string[];
+  /** Whether ot_mappings already links the two requirements (either direction) */
+  readonly curated_mapping: boolean;
+  /** Type of the curated mapping, if there is one */
+  readonly mapping_type: MappingType | null;
+}
+
+/**
+ * find_similar_requirements result
+ */
+export interface SimilarRequirementsResult {
+  /** The requirement the neighbours were found for */
+  readonly source: Pick<OTRequirement, 'requirement_id' | 'standard_id' | 'title'>;
+  readonly method: SimilarityMethod;
+  /** Most similar requirements first */
+  readonly similar: SimilarRequirement[];
+}
+
+/**
+ * Review status of a stored mapping suggestion
+ */
+export type MappingSuggestionStatus = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * Signals a mapping suggestion's score is made of, each from 0.0 to 1.0
+ */
+export interface MappingSuggestionScores {
+  /** Cosine similarity of the requirements' TF-IDF vectors */
+  readonly text_similarity: number;
+  /** Share of title keywords the requirements have in common (Jaccard) */
+  readonly keyword_overlap: number;
+  /** How strongly curated mappings of the source and its neighbours point at the candidate's group */
+  readonly family_affinity: number;
+  /** Share of the source's neighbours that are already mapped to the candidate */
+  readonly neighbour_support: number;
+}
+
+/**
+ * A candidate target requirement suggested by suggest_mappings
+ */
+export interface MappingSuggestion {
+  readonly requirement_id: string;
+  readonly title: string | null;
+  /** Group of the candidate in the target standard (e.g., "AC"), if it has one */
+  readonly group: string | null;
+  /** Weighted sum of the component scores (0.0-1.0) */
+  readonly score: number;
+  readonly scores: MappingSuggestionScores;
+  /** Most distinctive terms both requirements use, strongest first */
+  readonly shared_terms: string[];
+  /** Status of the stored suggestion, or null if it has never been saved */
+  readonly status: MappingSuggestionStatus | null;
+}
+
+/**
+ * suggest_mappings result
+ */
+export interface MappingSuggestionsResult {
+  /** The requirement mappings were suggested for */
+  readonly source: { requirement_id: string; standard_id: string; title: string | null };
+  readonly target_standard: string;
+  /** Scoring method, stored with saved suggestions */
+  readonly method: string;
+  /** Target requirements curated mappings already link to the source (never suggested) */
+  readonly already_mapped: string[];
+  /** Best candidates first */
+  readonly suggestions: MappingSuggestion[];
+  /** Number of suggestions stored as pending (0 unless save was set) */
+  readonly saved: number;
+}
+
+/**
+ * Status of a mapping proposed for curation
+ */
+export type PendingMappingStatus = 'pending' | 'accepted' | 'rejected';
+
+/**
+ * pending_mappings row: a mapping proposed by a curator, awaiting a decision
+ */
+export interface PendingMapping {
+  readonly id: number;
+  readonly source_standard: string;
+  readonly source_requirement: string;
+  readonly target_standard: string;
+  readonly target_requirement: string;
+  readonly mapping_type: MappingType;
+  readonly confidence: number | null;
+  readonly notes: string | null;
+  readonly source_document: string | null;
+  readonly source_version: string | null;
+  /** Suggestion the proposal was made from (mapping_suggestions.id) */
+  readonly suggestion_id: number | null;
+  readonly status: PendingMappingStatus;
+  readonly proposed_by: string;
+  readonly proposed_date: string;
+  readonly decided_by: string | null;
+  readonly decided_date: string | null;
+}
+
+/**
+ * Curation action recorded in mapping_curation_log
+ */
+export type CurationAction = 'propose' | 'accept' | 'reject' | 'annotate';
+
+/**
+ * mapping_curation_log row
+ */
+export interface CurationLogEntry {
+  readonly id: number;
+  readonly pending_mapping_id: number;
+  readonly action: CurationAction;
+  readonly actor: string;
+  readonly comment: string | null;
+  /** JSON object of changed fields, each with its old and new value */
+  readonly changes: string | null;
+  readonly created_date: string;
+}
+
+/**
+ * mapping_suggestions row
+ */
+export interface MappingSuggestionRow extends MappingSuggestionScores {
+  readonly id: number;
+  readonly source_standard: string;
+  readonly source_requirement: string;
+  readonly target_standard: string;
+  readonly target_requirement: string;
+  readonly score: number;
+  /** JSON array of shared terms */
+  readonly shared_terms: string | null;
+  readonly method: string;
+  readonly status: MappingSuggestionStatus;
+  readonly created_date: string;
+}
+
+/**
+ * Kind of mapping integrity problem: a requirement missing from the database
+ * (or written in a non-canonical form), contradictory mapping types between
+ * the same two requirements, a repeated mapping, or confidences of one
+ * requirement's mappings far apart
+ */
+export type MappingIssueType =
+  | 'dangling_requirement'
+  | 'non_canonical_id'
+  | 'unloaded_standard'
+  | 'conflicting_pair'
+  | 'non_inverse_pair'
+  | 'duplicate_pair'
+  | 'confidence_spread';
+
+/**
+ * Severity of a mapping integrity problem
+ */
+export type MappingIssueSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Change that would resolve a mapping integrity problem
+ */
+export interface MappingFix {
+  /** ot_mappings.id of the mapping to change */
+  readonly mapping_id: number;
+  readonly action:
+    'rename_requirement' | 'set_mapping_type' | 'remove_mapping' | 'review_confidence';
+  /** Column to change (rename_requirement, set_mapping_type, review_confidence) */
+  readonly field?: 'source_requirement' | 'target_requirement' | 'mapping_type' | 'confidence';
+  readonly from?: string | number | null;
+  readonly to?: string | number | null;
+  readonly description: string;
+}
+
+/**
+ * Mapping integrity problem, with the mappings involved and suggested fixes
+ */
+export interface MappingIssue {
+  readonly type: MappingIssueType;
+  readonly severity: MappingIssueSeverity;
+  readonly message: string;
+  /** Requirement the problem is about, when it is about one */
+  readonly requirement?: { readonly standard_id: string; readonly requirement_id: string };
+  readonly mappings: ReadonlyArray<
+    Pick<
+      OTMapping,
+      | 'id'
+      | 'source_standard'
+      | 'source_requirement'
+      | 'target_standard'
+      | 'target_requirement'
+      | 'mapping_type'
+      | 'confidence'
+      | 'review_status'
+    >
+  >;
+  readonly fixes: readonly MappingFix[];
+}
+
+/**
+ * Result of validate_mappings: every integrity problem found in ot_mappings
+ */
+export interface MappingValidationReport {
+  /** Number of mappings checked */
+  readonly checked_mappings: number;
+  readonly summary: {
+    readonly errors: number;
+    readonly warnings: number;
+    readonly info: number;
+    readonly by_type: Partial<Record<MappingIssueType, number>>;
+  };
+  /** Problems, errors first */
+  readonly issues: readonly MappingIssue[];
+}
+
+/**
+ * How a requirement differs between two versions of a standard: only in the
+ * newer version, only in the older one, a new title, or new text
+ */
+export type RequirementChangeType = 'added' | 'withdrawn' | 'renamed' | 'changed' | 'unchanged';
+
+/**
+ * A run of words that both texts share, or that only one of them has
+ */
+export interface WordDiffSegment {
+  readonly op: 'equal' | 'insert' | 'delete';
+  readonly text: string;
+}
+
+/**
+ * Word-level difference of one requirement text field between two versions
+ */
+export interface RequirementFieldDiff {
+  readonly field: Exclude<RequirementTextField, 'requirement_id'>;
+  readonly from: string | null;
+  readonly to: string | null;
+  /** Segments in reading order; 'delete' text is only in from, 'insert' text only in to */
+  readonly diff: WordDiffSegment[];
+}
+
+/**
+ * A requirement as it changed between two versions of a standard
+ */
+export interface RequirementChange {
+  readonly requirement_id: string;
+  readonly change: RequirementChangeType;
+  /** Title in the older version (null if added) */
+  readonly from_title: string | null;
+  /** Title in the newer version (null if withdrawn) */
+  readonly to_title: string | null;
+  /** Text fields that differ (renamed and changed requirements only) */
+  readonly fields: RequirementFieldDiff[];
+}
+
+/**
+ * A version of a standard taking part in a diff
+ */
+export interface DiffVersion {
+  readonly version: string;
+  readonly status: StandardStatus | null;
+  readonly published_date: string | null;
+}
+
+/**
+ * diff_standard_versions result
+ */
+export interface StandardVersionDiff {
+  readonly standard_id: string;
+  readonly from: DiffVersion;
+  readonly to: DiffVersion;
+  /** Number of requirements per kind of change, over the whole standard or requirement */
+  readonly summary: Record<RequirementChangeType, number>;
+  /** Changes matching change_types, ordered by requirement ID */
+  readonly changes: RequirementChange[];
+  /** Whether changes were cut off at the limit */
+  readonly truncated: boolean;
+}
+
+/**
+ * Grouping a requirement belongs to: an IEC 62443 foundational requirement
+ * (e.g., "FR 1") or a NIST 800-53 control family (e.g., "AC")
+ */
+export interface RequirementGroup {
+  readonly id: string;
+  readonly title: string;
+}
+
+/**
+ * A group of a standard and the number of requirements in it
+ */
+export interface StandardGroupSummary extends RequirementGroup {
+  readonly requirement_count: number;
+}
+
+/**
+ * A requirement listed by browse_standard (MITRE techniques: technique ID and name)
+ */
+export type BrowsedRequirement = Pick<
+  OTRequirement,
+  'requirement_id' | 'title' | 'parent_requirement_id' | 'status'
+>;
+
+/**
+ * browse_standard result: the standard's groups, or one page of a group's requirements
+ */
+export interface StandardBrowseResult {
+  readonly standard_id: string;
+  readonly standard_name: string;
+  /** Standard version browsed (null for unversioned frameworks) */
+  readonly version: string | null;
+  /** Groups with requirements, in document order (group listing only) */
+  readonly groups?: StandardGroupSummary[];
+  /** Requirements that belong to no group (group listing only) */
+  readonly ungrouped_count?: number;
+  /** The requested group (group drill-down only) */
+  readonly group?: StandardGroupSummary;
+  /** One page of the group's requirements, in document order (group drill-down only) */
+  readonly requirements?: BrowsedRequirement[];
+  readonly has_more?: boolean;
+  /** Cursor for the next page, null on the last page */
+  readonly next_cursor?: string | null;
+}
+
+/**
+ * A requirement in a requirement hierarchy, with the enhancements below it
+ */
+export interface RequirementTreeNode {
+  readonly requirement_id: string;
+  readonly title: string | null;
+  readonly parent_requirement_id: string | null;
+  readonly status: RequirementStatus | null;
+  /** Security levels attached to this requirement (not to its enhancements) */
+  readonly security_levels: SecurityLevel[];
+  /** Enhancements whose parent is this requirement, in document order */
+  readonly enhancements: RequirementTreeNode[];
+}
+
+/**
+ * get_requirement_tree result
+ */
+export interface RequirementTree {
+  readonly standard_id: string;
+  readonly standard_name: string;
+  /** Standard version the hierarchy was read from */
+  readonly version: string | null;
+  /** The requested requirement, under its stored ID */
+  readonly requirement_id: string;
+  /** Foundational requirement or control family, null if the standard has none */
+  readonly group: RequirementGroup | null;
+  /** Base requirement of the requested one, with its enhancements nested */
+  readonly root: RequirementTreeNode;
+  /**
+   * Requirements sharing the requested requirement's parent (enhancements of
+   * the same base requirement), or for a base requirement the other base
+   * requirements of its group; without their enhancements
+   */
+  readonly siblings: RequirementTreeNode[];
+}
+
+/**
+ * One mapping followed on a mapping path, in the direction it was followed
+ */
+export interface MappingPathStep {
+  /** ot_mappings.id of the curated mapping */
+  readonly mapping_id: number;
+  readonly from_standard: string;
+  readonly from_requirement: string;
+  readonly to_standard: string;
+  readonly to_requirement: string;
+  /** Relationship from the 'from' to the 'to' requirement ('broader'/'narrower' swap when reversed) */
+  readonly mapping_type: MappingType;
+  /** Whether the mapping was followed from its target to its source */
+  readonly reversed: boolean;
+  readonly confidence: number | null;
+}
+
+/**
+ * A requirement related to the source requirement through one or more mappings
+ */
+export interface DerivedMapping {
+  readonly standard_id: string;
+  readonly requirement_id: string;
+  /** Requirement title or MITRE mitigation name, null if not in the database */
+  readonly title: string | null;
+  /** Relationship of the source requirement to this one, composed along the path */
+  readonly relationship: MappingType;
+  /** Product of the confidences along the path (null if a mapping has none) */
+  readonly confidence: number | null;
+  /** Number of mappings on the path */
+  readonly hops: number;
+  /** The mappings followed, from the source requirement to this one */
+  readonly path: MappingPathStep[];
+  /** Number of distinct paths within max_hops (the most confident is shown) */
+  readonly path_count: number;
+}
+
+/**
+ * resolve_mapping_path result
+ */
+export interface MappingPathResult {
+  readonly source: {
+    readonly standard_id: string;
+    readonly requirement_id: string;
+    readonly title: string | null;
+  };
+  readonly max_hops: number;
+  /** Curated mappings of the source requirement (one hop) */
+  readonly curated: DerivedMapping[];
+  /** Relationships inferred by chaining mappings (two or more hops), most confident first */
+  readonly inferred: DerivedMapping[];
+  /** Whether inferred relationships were cut off at the limit */
+  readonly truncated: boolean;
+}
+
+/**
+ * One field of the compared requirements, side by side
+ */
+export interface ComparedField {
+  /** Field name (e.g., "title", "security_levels") */
+  readonly field: string;
+  /** Value for each requirement, in the order of ComparisonResult.requirements */
+  readonly values: Array<string | null>;
+  /** Whether every requirement has the same value */
+  readonly identical: boolean;
+}
+
+/**
+ * Key terms of one compared requirement
+ */
+export interface RequirementTerms {
+  readonly standard_id: string;
+  readonly requirement_id: string;
+  /** Most characteristic terms of the requirement text (TF-IDF), strongest first */
+  readonly key_terms: string[];
+  /** Key terms that no other compared requirement uses */
+  readonly distinctive_terms: string[];
+}
+
+/**
+ * Relationship between two compared requirements inferred from a chain of mappings
+ */
+export interface ComparedInferredMapping extends DerivedMapping {
+  /** Compared requirement the path starts from */
+  readonly from_standard: string;
+  readonly from_requirement: string;
+}
+
+/**
+ * Mapping between a source requirement and a target requirement, as seen from the source
+ */
+export interface CoverageMapping {
+  /** Target requirement */
+  readonly requirement_id: string;
+  /** Relationship of the source requirement to the target ('broader'/'narrower' swap for mappings written the other way) */
+  readonly mapping_type: MappingType;
+  readonly confidence: number | null;
+}
+
+/**
+ * One covered cell of a coverage matrix
+ */
+export interface CoverageCell {
+  /** Strongest relationship in the cell (exact_match, broader, narrower, partial, related) */
+  readonly mapping_type: MappingType;
+  /** Highest confidence in the cell */
+  readonly confidence: number | null;
+  readonly mappings: CoverageMapping[];
+}
+
+/**
+ * Row of a coverage matrix: one requirement of the source standard
+ */
+export interface CoverageMatrixRow {
+  readonly requirement_id: string;
+  /** Requirement title, null if the requirement is only known from mappings */
+  readonly title: string | null;
+  /** Covered cells by column ID (uncovered columns are left out) */
+  readonly cells: Record<string, CoverageCell>;
+}
+
+/**
+ * Coverage of one side of a coverage matrix
+ */
+export interface CoverageSide {
+  readonly standard_id: string;
+  /**
+   * Whether the standard's requirements are in the database; if not, they are
+   * only known through mappings and the side's gaps cannot be computed
+   */
+  readonly loaded: boolean;
+  /**
+   * Requirements in the database or named by a mapping (withdrawn requirements
+   * only if mapped); null if the standard is not loaded
+   */
+  readonly total: number | null;
+  /** Requirements with at least one mapping to the other standard */
+  readonly covered: number;
+  /** covered / total as a percentage, one decimal; null if the standard is not loaded */
+  readonly percent_covered: number | null;
+  /**
+   * Requirements without a mapping to the other standard, in document order;
+   * null if the standard is not loaded
+   */
+  readonly unmapped: string[] | null;
+}
+
+/**
+ * get_coverage_matrix result
+ */
+export interface CoverageMatrix {
+  readonly source: CoverageSide;
+  readonly target: CoverageSide;
+  /** Matrix columns: target groups or target requirements, in document order */
+  readonly columns: RequirementGroup[];
+  /** One row per source requirement, in document order */
+  readonly rows: CoverageMatrixRow[];
+  readonly summary: {
+    /** Mappings between the two standards, in either direction */
+    readonly mapping_count: number;
+    /** Mappings per relationship, as seen from the source standard */
+    readonly mappings_by_type: Partial<Record<MappingType, number>>;
+    /** Average confidence of the mappings that have one (null if none has) */
+    readonly average_confidence: number | null;
+  };
+}
+
 /**
  * Comparison result for multiple requirements
  */
 export interface ComparisonResult {
-  /** Requirements being compared */
+  /** Requirements being compared, in request order */
   readonly requirements: RequirementDetail[];
-  /** Common themes across requirements */
+  /** Fields of the requirements, aligned side by side */
+  readonly fields: ComparedField[];
+  /** Terms every compared requirement uses, most characteristic first */
   readonly common_themes: string[];
-  /** Differences between requirements */
-  readonly differences: string[];
-  /** Cross-standard mappings between the requirements */
-  readonly mappings: OTMapping[];
+  /** Key terms of each requirement and the ones that set it apart */
+  readonly differences: RequirementTerms[];
+  /** Curated mappings between the compared requirements */
+  readonly mappings: ProvenancedMapping[];
+  /** Relationships between compared requirements without a curated mapping between them */
+  readonly inferred_mappings: ComparedInferredMapping[];
+  /** Requested requirements that were not found, in request order */
+  readonly not_found: RequirementNotFound[];
 }
 
 /**
@@ -514,6 +1596,16 @@ export interface Rationale {
   readonly impact_of_non_compliance: string;
 }
 
+/**
+ * Glossary lookup result
+ */
+export interface GlossaryResult {
+  /** Glossary version (from db_metadata), null if no glossary is loaded */
+  readonly version: string | null;
+  /** Matching glossary entries */
+  readonly entries: GlossaryEntry[];
+}
+
 /**
  * Zone and conduit guidance response
  */
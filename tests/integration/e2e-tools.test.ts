@@ -307,6 +307,22 @@ describe('E2E Tool Integration Tests', () => {
         expect(result?.security_levels.length).toBe(0);
       }
     });
+
+    it('should report withdrawn NIST 800-53 AC-13 with its successors', async () => {
+      const result = await getRequirement(db, {
+        requirement_id: 'AC-13',
+        standard: 'nist-800-53',
+        options: {},
+      });
+
+      expect(result?.status).toBe('withdrawn');
+      expect(result?.withdrawal?.notice).toBe('Withdrawn: incorporated into AC-2, AU-6.');
+      expect(result?.withdrawal?.superseded_by.map((s) => s.requirement_id)).toEqual([
+        'AC-2',
+        'AU-6',
+      ]);
+      expect(result?.withdrawal?.superseded_by.every((s) => s.title !== null)).toBe(true);
+    });
   });
 
   describe('Full Workflow Test', () => {
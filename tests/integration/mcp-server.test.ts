@@ -69,11 +69,11 @@ describe('McpServer', () => {
   });
 
   describe('Tool Registry', () => {
-    it('should return 7 tools (Stage 1 + Stage 2)', () => {
+    it('should return 20 tools (Stage 1 + Stage 2 + search extensions)', () => {
       const tools = registerTools();
 
       expect(tools).toBeDefined();
-      expect(tools).toHaveLength(7);
+      expect(tools).toHaveLength(20);
 
       const toolNames = tools.map((t) => t.name);
       expect(toolNames).toContain('search_ot_requirements');
@@ -83,6 +83,19 @@ describe('McpServer', () => {
       expect(toolNames).toContain('map_security_level_requirements');
       expect(toolNames).toContain('get_zone_conduit_guidance');
       expect(toolNames).toContain('get_requirement_rationale');
+      expect(toolNames).toContain('get_ot_glossary');
+      expect(toolNames).toContain('search_ot_knowledge');
+      expect(toolNames).toContain('get_mitre_ics_mitigation');
+      expect(toolNames).toContain('find_similar_requirements');
+      expect(toolNames).toContain('diff_standard_versions');
+      expect(toolNames).toContain('get_ot_requirements');
+      expect(toolNames).toContain('get_requirement_tree');
+      expect(toolNames).toContain('browse_standard');
+      expect(toolNames).toContain('resolve_mapping_path');
+      expect(toolNames).toContain('compare_ot_requirements');
+      expect(toolNames).toContain('get_coverage_matrix');
+      expect(toolNames).toContain('suggest_mappings');
+      expect(toolNames).toContain('validate_mappings');
     });
 
     it('should have valid JSON schemas for all tools', () => {
@@ -98,6 +111,16 @@ describe('McpServer', () => {
       });
     });
 
+    it('should only register read-only tools', () => {
+      const tools = registerTools();
+
+      tools.forEach((tool) => {
+        expect(tool.annotations?.readOnlyHint).toBe(true);
+      });
+      const suggestTool = tools.find((t) => t.name === 'suggest_mappings');
+      expect(suggestTool?.inputSchema.properties?.save).toBeUndefined();
+    });
+
     it('should have correct required parameters for search_ot_requirements', () => {
       const tools = registerTools();
       const searchTool = tools.find((t) => t.name === 'search_ot_requirements');
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for browse_standard tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { browseStandard } from '../../src/tools/browse-standard.js';
+import { InvalidCursorError } from '../../src/search/cursor.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('browseStandard', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const insert = (standard: string, requirementId: string, parentId: string | null = null) =>
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, parent_requirement_id, title)
+       VALUES (?, ?, ?, ?)`,
+      [standard, requirementId, parentId, `Title of ${requirementId}`]
+    );
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('browse-standard');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name, version, status) VALUES (?, ?, ?, ?)`, [
+      'iec62443-4-2',
+      'IEC 62443-4-2',
+      'v1.0',
+      'current',
+    ]);
+    insert('iec62443-4-2', 'CR 3.10');
+    insert('iec62443-4-2', 'EDR 3.2');
+    insert('iec62443-4-2', 'CR 3.2 RE 1', 'CR 3.2');
+    insert('iec62443-4-2', 'CR 3.2');
+    insert('iec62443-4-2', 'CR 1.1');
+    insert('iec62443-4-2', 'CR 7.1');
+    insert('iec62443-4-2', 'Annex A');
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return null for an unknown standard', async () => {
+    expect(await browseStandard(db, { standard: 'std-x' })).toBeNull();
+    expect(await browseStandard(db, { standard: '' })).toBeNull();
+  });
+
+  it('should list groups with requirement counts in document order', async () => {
+    const result = await browseStandard(db, { standard: 'iec62443-4-2' });
+
+    expect(result?.standard_name).toBe('IEC 62443-4-2');
+    expect(result?.version).toBe('v1.0');
+    expect(result?.groups).toEqual([
+      { id: 'FR 1', title: 'Identification and authentication control', requirement_count: 1 },
+      { id: 'FR 3', title: 'System integrity', requirement_count: 4 },
+      { id: 'FR 7', title: 'Resource availability', requirement_count: 1 },
+    ]);
+    expect(result?.ungrouped_count).toBe(1);
+    expect(result?.requirements).toBeUndefined();
+  });
+
+  it('should list the requirements of a group in document order', async () => {
+    const result = await browseStandard(db, {
+      standard: 'iec62443-4-2',
+      options: { group: 'fr3' },
+    });
+
+    expect(result?.group?.id).toBe('FR 3');
+    expect(result?.requirements?.map((r) => r.requirement_id)).toEqual([
+      'CR 3.2',
+      'CR 3.2 RE 1',
+      'EDR 3.2',
+      'CR 3.10',
+    ]);
+    expect(result?.requirements?.[1]?.parent_requirement_id).toBe('CR 3.2');
+    expect(result?.has_more).toBe(false);
+    expect(result?.next_cursor).toBeNull();
+  });
+
+  it('should find a group by its title', async () => {
+    const result = await browseStandard(db, {
+      standard: 'iec62443-4-2',
+      options: { group: 'Resource Availability' },
+    });
+
+    expect(result?.group?.id).toBe('FR 7');
+  });
+
+  it('should leave group unset when the group is not found', async () => {
+    const result = await browseStandard(db, {
+      standard: 'iec62443-4-2',
+      options: { group: 'FR 5' },
+    });
+
+    expect(result?.group).toBeUndefined();
+    expect(result?.groups?.map((g) => g.id)).toEqual(['FR 1', 'FR 3', 'FR 7']);
+  });
+
+  it('should page through a group with cursors', async () => {
+    const first = await browseStandard(db, {
+      standard: 'iec62443-4-2',
+      options: { group: 'FR 3', limit: 3 },
+    });
+    expect(first?.requirements).toHaveLength(3);
+    expect(first?.has_more).toBe(true);
+
+    const second = await browseStandard(db, {
+      standard: 'iec62443-4-2',
+      options: { group: 'FR 3', limit: 3, cursor: first?.next_cursor ?? undefined },
+    });
+    expect(second?.requirements?.map((r) => r.requirement_id)).toEqual(['CR 3.10']);
+    expect(second?.has_more).toBe(false);
+
+    await expect(
+      browseStandard(db, {
+        standard: 'iec62443-4-2',
+        options: { group: 'FR 1', cursor: first?.next_cursor ?? undefined },
+      })
+    ).rejects.toThrow(InvalidCursorError);
+  });
+
+  it('should group NIST 800-53 controls by family', async () => {
+    db.run(`INSERT INTO ot_standards (id, name, version, status) VALUES (?, ?, ?, ?)`, [
+      'nist-800-53',
+      'NIST SP 800-53',
+      'Rev 5',
+      'current',
+    ]);
+    insert('nist-800-53', 'SC-7');
+    insert('nist-800-53', 'AC-10');
+    insert('nist-800-53', 'AC-2(1)');
+    insert('nist-800-53', 'AC-2');
+
+    const groups = await browseStandard(db, { standard: 'nist-800-53' });
+    expect(groups?.groups?.map((g) => [g.id, g.requirement_count])).toEqual([
+      ['AC', 3],
+      ['SC', 1],
+    ]);
+
+    const family = await browseStandard(db, {
+      standard: 'nist-800-53',
+      options: { group: 'ac' },
+    });
+    expect(family?.requirements?.map((r) => r.requirement_id)).toEqual([
+      'AC-2',
+      'AC-2(1)',
+      'AC-10',
+    ]);
+  });
+
+  it('should group MITRE ATT&CK for ICS techniques by tactic', async () => {
+    db.run(`INSERT INTO ot_standards (id, name, version, status) VALUES (?, ?, ?, ?)`, [
+      'mitre-ics',
+      'MITRE ATT&CK for ICS',
+      'v16.0',
+      'current',
+    ]);
+    db.run(
+      `INSERT INTO mitre_ics_techniques (technique_id, tactic, name) VALUES
+       ('T0826', 'impact', 'Loss of Availability'),
+       ('T0819', 'initial-access', 'Exploit Public-Facing Application'),
+       ('T0817', 'initial-access', 'Drive-by Compromise')`
+    );
+
+    const tactics = await browseStandard(db, { standard: 'mitre-ics' });
+    expect(tactics?.groups?.map((g) => [g.id, g.title, g.requirement_count])).toEqual([
+      ['initial-access', 'Initial Access', 2],
+      ['impact', 'Impact', 1],
+    ]);
+
+    const initialAccess = await browseStandard(db, {
+      standard: 'mitre-ics',
+      options: { group: 'Initial Access' },
+    });
+    expect(initialAccess?.requirements).toEqual([
+      {
+        requirement_id: 'T0817',
+        title: 'Drive-by Compromise',
+        parent_requirement_id: null,
+        status: null,
+      },
+      {
+        requirement_id: 'T0819',
+        title: 'Exploit Public-Facing Application',
+        parent_requirement_id: null,
+        status: null,
+      },
+    ]);
+  });
+});
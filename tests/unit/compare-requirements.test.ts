@@ -0,0 +1,196 @@
+/**
+ * Unit tests for compare_ot_requirements tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { compareRequirements, formatComparison } from '../../src/tools/compare-requirements.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('compareRequirements', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const insertRequirement = (
+    standard: string,
+    requirementId: string,
+    title: string,
+    description: string
+  ) =>
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, title, description)
+       VALUES (?, ?, ?, ?)`,
+      [standard, requirementId, title, description]
+    );
+
+  const insertMapping = (
+    source: [string, string],
+    target: [string, string],
+    type: string,
+    confidence: number
+  ) =>
+    db.run(
+      `INSERT INTO ot_mappings
+       (source_standard, source_requirement, target_standard, target_requirement, mapping_type, confidence)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [...source, ...target, type, confidence]
+    );
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('compare-requirements');
+    db = new DatabaseClient(testDbPath);
+
+    for (const [id, name] of [
+      ['iec62443-3-3', 'IEC 62443-3-3'],
+      ['iec62443-4-2', 'IEC 62443-4-2'],
+      ['nist-800-53', 'NIST SP 800-53'],
+    ]) {
+      db.run(`INSERT INTO ot_standards (id, name, version) VALUES (?, ?, ?)`, [id, name, 'v1']);
+    }
+    const sr = insertRequirement(
+      'iec62443-3-3',
+      'SR 1.1',
+      'Human user identification and authentication',
+      'The control system shall identify and authenticate all human users on all interfaces.'
+    );
+    insertRequirement(
+      'iec62443-4-2',
+      'CR 1.1',
+      'Human user identification and authentication',
+      'Components shall identify and authenticate all human users on all interfaces.'
+    );
+    insertRequirement(
+      'nist-800-53',
+      'IA-2',
+      'Identification and Authentication (Organizational Users)',
+      'Uniquely identify and authenticate organizational users with multifactor tokens.'
+    );
+    insertRequirement(
+      'nist-800-53',
+      'SC-7',
+      'Boundary Protection',
+      'Monitor and control communications at the external managed interfaces of the system.'
+    );
+    db.run(
+      `INSERT INTO security_levels (requirement_db_id, security_level, sl_type) VALUES (?, ?, ?)`,
+      [sr.lastInsertRowid, 1, 'SL-C']
+    );
+
+    // SR 1.1 -> IA-2 <- CR 1.1
+    insertMapping(['iec62443-3-3', 'SR 1.1'], ['nist-800-53', 'IA-2'], 'exact_match', 0.9);
+    insertMapping(['iec62443-4-2', 'CR 1.1'], ['nist-800-53', 'IA-2'], 'related', 0.8);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should align the fields of the requirements', async () => {
+    const result = await compareRequirements(db, {
+      requirements: [
+        { requirement_id: 'SR 1.1', standard: 'iec62443-3-3' },
+        { requirement_id: 'CR1.1', standard: 'iec62443-4-2' },
+      ],
+    });
+
+    expect(result.requirements.map((r) => r.requirement_id)).toEqual(['SR 1.1', 'CR 1.1']);
+    const field = (name: string) => result.fields.find((f) => f.field === name);
+    expect(field('title')).toEqual({
+      field: 'title',
+      values: [
+        'Human user identification and authentication',
+        'Human user identification and authentication',
+      ],
+      identical: true,
+    });
+    expect(field('standard')?.values).toEqual(['IEC 62443-3-3', 'IEC 62443-4-2']);
+    expect(field('standard')?.identical).toBe(false);
+    expect(field('security_levels')?.values).toEqual(['SL-1', null]);
+    expect(result.not_found).toEqual([]);
+  });
+
+  it('should report common themes and distinctive terms', async () => {
+    const result = await compareRequirements(db, {
+      references: ['IEC 62443-3-3 SR 1.1', 'NIST SP 800-53 IA-2'],
+    });
+
+    expect(result.common_themes).toEqual(
+      expect.arrayContaining(['identification', 'authenticate', 'identify'])
+    );
+    const [sr, ia] = result.differences;
+    expect(sr?.distinctive_terms).toContain('interface');
+    expect(sr?.distinctive_terms).not.toContain('authenticate');
+    expect(ia?.distinctive_terms).toContain('multifactor');
+  });
+
+  it('should return curated and inferred mappings between the requirements', async () => {
+    const result = await compareRequirements(db, {
+      requirements: [
+        { requirement_id: 'SR 1.1', standard: 'iec62443-3-3' },
+        { requirement_id: 'CR 1.1', standard: 'iec62443-4-2' },
+        { requirement_id: 'IA-2', standard: 'nist-800-53' },
+      ],
+    });
+
+    expect(result.mappings.map((m) => [m.source_requirement, m.target_requirement])).toEqual([
+      ['SR 1.1', 'IA-2'],
+      ['CR 1.1', 'IA-2'],
+    ]);
+    expect(result.inferred_mappings).toHaveLength(1);
+    const [inferred] = result.inferred_mappings;
+    expect(inferred?.from_requirement).toBe('SR 1.1');
+    expect(inferred?.requirement_id).toBe('CR 1.1');
+    expect(inferred?.relationship).toBe('related');
+    expect(inferred?.confidence).toBeCloseTo(0.72);
+    expect(inferred?.path.map((step) => step.to_requirement)).toEqual(['IA-2', 'CR 1.1']);
+  });
+
+  it('should list requirements that were not found', async () => {
+    const result = await compareRequirements(db, {
+      requirements: [
+        { requirement_id: 'SR 1.1', standard: 'iec62443-3-3' },
+        { requirement_id: 'SC-7', standard: 'nist-800-53' },
+        { requirement_id: 'SR 9.9', standard: 'iec62443-3-3' },
+      ],
+    });
+
+    expect(result.requirements).toHaveLength(2);
+    expect(result.not_found).toEqual([{ requirement_id: 'SR 9.9', standard: 'iec62443-3-3' }]);
+    expect(result.mappings).toEqual([]);
+    expect(result.inferred_mappings).toEqual([]);
+  });
+
+  it('should skip the analysis when fewer than two requirements are found', async () => {
+    const result = await compareRequirements(db, {
+      requirements: [
+        { requirement_id: 'SR 1.1', standard: 'iec62443-3-3' },
+        { requirement_id: 'SR 9.9', standard: 'iec62443-3-3' },
+      ],
+    });
+
+    expect(result.requirements).toHaveLength(1);
+    expect(result.common_themes).toEqual([]);
+    expect(result.differences).toEqual([]);
+  });
+
+  it('should format the comparison as a markdown table', async () => {
+    const result = await compareRequirements(db, {
+      requirements: [
+        { requirement_id: 'SR 1.1', standard: 'iec62443-3-3' },
+        { requirement_id: 'IA-2', standard: 'nist-800-53' },
+        { requirement_id: 'SC-7', standard: 'nist-800-53' },
+      ],
+    });
+    const markdown = formatComparison(result);
+
+    expect(markdown).toContain('| Field | SR 1.1 | IA-2 | SC-7 |');
+    expect(markdown).toContain('| security_levels | SL-1 | — | — |');
+    expect(markdown).toContain('## Distinctive Terms');
+    expect(markdown).toContain(
+      '- SR 1.1 (iec62443-3-3) → IA-2 (nist-800-53): exact_match (confidence 0.9)'
+    );
+  });
+});
@@ -0,0 +1,408 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DatabaseClient } from '../../src/database/client.js';
+import { MappingAnnotation, MappingCurator, MappingFiles } from '../../scripts/curate-mappings.js';
+import { CrossMappingsIngester } from '../../scripts/ingest-cross-mappings.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('MappingCurator', () => {
+  let testDbPath: string;
+  let db: DatabaseClient;
+  let curator: MappingCurator;
+
+  const proposal = {
+    source_standard: 'iec62443-3-3',
+    source_requirement: 'SR1.1',
+    target_standard: 'nist-800-53',
+    target_requirement: 'IA-02',
+    mapping_type: 'related' as const,
+    confidence: 0.85,
+    notes: 'Both address human user authentication',
+  };
+
+  beforeEach(() => {
+    testDbPath = createTestDbPath('curate-mappings');
+    db = new DatabaseClient(testDbPath);
+    curator = new MappingCurator(db);
+  });
+
+  afterEach(async () => {
+    db.close();
+    await cleanupTestDb(testDbPath);
+  });
+
+  describe('propose', () => {
+    it('should store a pending mapping with canonical IDs and audit it', () => {
+      const mapping = curator.propose(proposal, 'alice', 'From the 800-82 crosswalk');
+
+      expect(mapping).toMatchObject({
+        source_requirement: 'SR 1.1',
+        target_requirement: 'IA-2',
+        mapping_type: 'related',
+        confidence: 0.85,
+        status: 'pending',
+        proposed_by: 'alice',
+        decided_by: null,
+      });
+      expect(curator.history(mapping.id)).toMatchObject([
+        { action: 'propose', actor: 'alice', comment: 'From the 800-82 crosswalk' },
+      ]);
+      expect(db.queryOne<{ n: number }>(`SELECT COUNT(*) AS n FROM ot_mappings`)?.n).toBe(0);
+    });
+
+    it('should reject invalid proposals', () => {
+      expect(() => curator.propose(proposal, '')).toThrow(/actor/);
+      expect(() => curator.propose({ ...proposal, confidence: 1.5 }, 'alice')).toThrow(
+        /confidence/
+      );
+      expect(() => curator.propose({ ...proposal, mapping_type: 'supersedes' }, 'alice')).toThrow(
+        /mapping_type/
+      );
+      expect(() =>
+        curator.propose({ ...proposal, target_standard: 'iec62443-3-3' }, 'alice')
+      ).toThrow(/different standards/);
+    });
+
+    it('should only check requirements of loaded standards', () => {
+      db.run(`INSERT INTO ot_standards (id, name) VALUES ('nist-800-53', 'NIST SP 800-53')`);
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title)
+         VALUES ('nist-800-53', 'IA-2', 'Identification and Authentication')`
+      );
+
+      // IEC 62443 is not loaded, so SR 1.1 cannot be checked
+      expect(curator.propose(proposal, 'alice').target_requirement).toBe('IA-2');
+      expect(() => curator.propose({ ...proposal, target_requirement: 'IA-99' }, 'alice')).toThrow(
+        'nist-800-53 has no requirement "IA-99"'
+      );
+    });
+
+    it('should only propose mappings the mapping files can hold', () => {
+      expect(() =>
+        curator.propose(
+          { ...proposal, source_standard: 'nist-800-82', source_requirement: 'G-6.1' },
+          'alice'
+        )
+      ).toThrow(/can be exported/);
+
+      const mitre = {
+        source_standard: 'mitre-ics',
+        source_requirement: 'M0802',
+        target_standard: 'nist-800-53',
+        target_requirement: 'SC-8',
+        mapping_type: 'related' as const,
+      };
+      expect(() => curator.propose({ ...mitre, mapping_type: 'partial' }, 'alice')).toThrow(
+        /can be exported/
+      );
+      expect(() => curator.propose({ ...mitre, confidence: 0.6 }, 'alice')).toThrow(
+        /ingested with confidence 0.8/
+      );
+
+      const { id } = curator.propose({ ...mitre, confidence: 0.8 }, 'alice');
+      expect(() => curator.annotate(id, 'bob', { mapping_type: 'broader' })).toThrow(
+        /can be exported/
+      );
+
+      // Proposed before proposals were checked
+      db.run(
+        `INSERT INTO pending_mappings (
+           source_standard, source_requirement, target_standard, target_requirement,
+           mapping_type, proposed_by
+         ) VALUES ('nist-800-82', 'G-6.1', 'nist-800-53', 'IA-2', 'related', 'alice')`
+      );
+      expect(() => curator.accept(id + 1, 'bob')).toThrow(/can be exported/);
+    });
+
+    it('should not propose a mapping twice or one that is already curated', () => {
+      curator.propose(proposal, 'alice');
+      expect(() => curator.propose(proposal, 'bob')).toThrow(/already proposed/);
+
+      db.run(
+        `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+         VALUES ('nist-800-53', 'AC-7', 'iec62443-3-3', 'SR 1.11', 'related')`
+      );
+      expect(() =>
+        curator.propose(
+          { ...proposal, source_requirement: 'SR 1.11', target_requirement: 'AC-07' },
+          'alice'
+        )
+      ).toThrow(/already mapped/);
+    });
+
+    it('should reopen a rejected mapping when it is proposed again', () => {
+      const first = curator.propose(proposal, 'alice');
+      curator.reject(first.id, 'bob', 'Too broad');
+
+      const reopened = curator.propose({ ...proposal, mapping_type: 'partial' }, 'carol');
+
+      expect(reopened).toMatchObject({
+        id: first.id,
+        status: 'pending',
+        mapping_type: 'partial',
+        proposed_by: 'carol',
+        decided_by: null,
+      });
+      expect(curator.history(first.id).map((entry) => entry.action)).toEqual([
+        'propose',
+        'reject',
+        'propose',
+      ]);
+    });
+
+    it('should propose a stored suggestion and pass the decision on to it', () => {
+      db.run(
+        `INSERT INTO mapping_suggestions (
+           source_standard, source_requirement, target_standard, target_requirement,
+           score, text_similarity, keyword_overlap, family_affinity, neighbour_support, method
+         ) VALUES ('mitre-ics', 'M0801', 'nist-800-53', 'AC-24', 0.4, 0.3, 0.2, 1, 0, 'test')`
+      );
+
+      const mapping = curator.proposeSuggestion(1, 'alice', { notes: 'Access control' });
+      expect(mapping).toMatchObject({
+        source_requirement: 'M0801',
+        target_requirement: 'AC-24',
+        mapping_type: 'related',
+        notes: 'Access control',
+        suggestion_id: 1,
+      });
+      expect(curator.history(mapping.id)[0]?.comment).toBe('From suggestion 1 (score 0.4)');
+
+      curator.accept(mapping.id, 'bob');
+      expect(
+        db.queryOne<{ status: string }>(`SELECT status FROM mapping_suggestions WHERE id = 1`)
+          ?.status
+      ).toBe('accepted');
+      expect(() => curator.proposeSuggestion(1, 'alice')).toThrow(/already accepted/);
+    });
+  });
+
+  describe('decisions', () => {
+    it('should accept a pending mapping once, recording who decided', () => {
+      const { id } = curator.propose(proposal, 'alice');
+
+      const accepted = curator.accept(id, 'bob', 'Matches Annex B');
+
+      expect(accepted).toMatchObject({ status: 'accepted', decided_by: 'bob' });
+      expect(accepted.decided_date).not.toBeNull();
+      expect(curator.history(id)[1]).toMatchObject({
+        action: 'accept',
+        actor: 'bob',
+        comment: 'Matches Annex B',
+      });
+      expect(() => curator.reject(id, 'carol')).toThrow(/already accepted/);
+      expect(() => curator.accept(99, 'bob')).toThrow(/not found/);
+    });
+
+    it('should list pending mappings by status', () => {
+      const first = curator.propose(proposal, 'alice');
+      curator.propose({ ...proposal, target_requirement: 'IA-5' }, 'alice');
+      curator.reject(first.id, 'bob');
+
+      expect(curator.list('pending').map((m) => m.target_requirement)).toEqual(['IA-5']);
+      expect(curator.list().map((m) => m.status)).toEqual(['rejected', 'pending']);
+    });
+  });
+
+  describe('annotate', () => {
+    it('should change fields of a pending mapping and audit the changes', () => {
+      const { id } = curator.propose(proposal, 'alice');
+
+      const annotated = curator.annotate(
+        id,
+        'bob',
+        { confidence: 0.9, source_document: 'IEC 62443-3-3:2013 Annex B' },
+        'Checked the annex'
+      );
+
+      expect(annotated).toMatchObject({
+        confidence: 0.9,
+        source_document: 'IEC 62443-3-3:2013 Annex B',
+      });
+      const entry = curator.history(id)[1];
+      expect(entry).toMatchObject({
+        action: 'annotate',
+        actor: 'bob',
+        comment: 'Checked the annex',
+      });
+      expect(JSON.parse(entry?.changes ?? '{}')).toEqual({
+        confidence: [0.85, 0.9],
+        source_document: [null, 'IEC 62443-3-3:2013 Annex B'],
+      });
+    });
+
+    it('should only change the fields a curator can annotate', () => {
+      const { id } = curator.propose(proposal, 'alice');
+
+      expect(() =>
+        curator.annotate(id, 'bob', { status: 'accepted' } as MappingAnnotation, 'Sneaky')
+      ).toThrow(/Cannot annotate status/);
+      expect(curator.get(id).status).toBe('pending');
+    });
+
+    it('should only allow comments once a mapping is decided', () => {
+      const { id } = curator.propose(proposal, 'alice');
+      curator.accept(id, 'bob');
+
+      expect(() => curator.annotate(id, 'carol', { confidence: 0.5 })).toThrow(/only comments/);
+      expect(curator.annotate(id, 'carol', {}, 'Confirmed in workshop').confidence).toBe(0.85);
+      expect(() => curator.annotate(id, 'carol')).toThrow(/comment or a changed field/);
+    });
+  });
+
+  describe('exportAccepted', () => {
+    let dir: string;
+    let files: MappingFiles;
+
+    const meta = {
+      title: 'Test mappings',
+      description: 'Test',
+      version: '1.0',
+      created_date: '2026-01-01',
+      sources: [],
+      confidence_basis: 'Test',
+    };
+
+    const read = (file: string) => JSON.parse(readFileSync(file, 'utf-8'));
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'ot-mcp-curate-'));
+      files = { iecNist: join(dir, 'iec-nist.json'), mitreNist: join(dir, 'mitre-nist.json') };
+      writeFileSync(
+        files.iecNist,
+        JSON.stringify({
+          meta,
+          mappings: [
+            {
+              source_standard: 'iec62443-3-3',
+              source_requirement: 'SR 1.1',
+              target_standard: 'nist-800-53',
+              target_requirement: 'IA-02',
+              mapping_type: 'related',
+              confidence: 0.5,
+              notes: 'Old entry',
+            },
+          ],
+        })
+      );
+      writeFileSync(
+        files.mitreNist,
+        JSON.stringify({
+          meta,
+          mitigation_mappings: [
+            { mitigation_id: 'M0801', nist_controls: ['AC-02', 'AC-03'], notes: 'Existing' },
+          ],
+        })
+      );
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should write accepted mappings into the mapping files with their review', () => {
+      const iec = curator.propose(proposal, 'alice');
+      curator.accept(iec.id, 'bob');
+      const reversed = curator.propose(
+        {
+          source_standard: 'nist-800-53',
+          source_requirement: 'AC-7',
+          target_standard: 'iec62443-3-3',
+          target_requirement: 'SR 1.11',
+          mapping_type: 'broader',
+        },
+        'alice'
+      );
+      curator.accept(reversed.id, 'bob');
+      const mitre = curator.propose(
+        {
+          source_standard: 'mitre-ics',
+          source_requirement: 'M0801',
+          target_standard: 'nist-800-53',
+          target_requirement: 'AC-24',
+          mapping_type: 'related',
+          notes: 'Access control decisions',
+        },
+        'alice'
+      );
+      curator.accept(mitre.id, 'bob');
+      curator.propose({ ...proposal, target_requirement: 'IA-5' }, 'alice');
+
+      const result = curator.exportAccepted(files);
+
+      expect(result).toEqual({ iec_nist: 2, mitre_nist: 1, skipped: [] });
+      const date = new Date().toISOString().slice(0, 10);
+      const iecNist = read(files.iecNist);
+      expect(iecNist.mappings).toHaveLength(2);
+      expect(iecNist.mappings[0]).toEqual({
+        source_standard: 'iec62443-3-3',
+        source_requirement: 'SR 1.1',
+        target_standard: 'nist-800-53',
+        target_requirement: 'IA-2',
+        mapping_type: 'related',
+        confidence: 0.85,
+        notes: 'Both address human user authentication',
+        review_status: 'reviewed',
+        reviewed_by: 'bob',
+        reviewed_date: date,
+      });
+      expect(iecNist.mappings[1]).toMatchObject({
+        source_requirement: 'SR 1.11',
+        target_requirement: 'AC-7',
+        mapping_type: 'narrower',
+      });
+      expect(iecNist.mappings[1]).not.toHaveProperty('confidence');
+      expect(read(files.mitreNist).mitigation_mappings[1]).toEqual({
+        mitigation_id: 'M0801',
+        nist_controls: ['AC-24'],
+        notes: 'Access control decisions',
+        review_status: 'reviewed',
+        reviewed_by: 'bob',
+        reviewed_date: date,
+      });
+      expect(readFileSync(files.mitreNist, 'utf-8')).toContain(
+        '"nist_controls": ["AC-02", "AC-03"]'
+      );
+    });
+
+    it('should produce files the ingester reads back', () => {
+      const { id } = curator.propose(proposal, 'alice');
+      curator.accept(id, 'bob');
+      curator.exportAccepted(files);
+
+      const ingester = new CrossMappingsIngester(db);
+      ingester.ingestIecNistMappings(read(files.iecNist), files.iecNist);
+
+      expect(
+        db.queryOne(
+          `SELECT review_status, reviewed_by FROM ot_mappings
+           WHERE source_requirement = 'SR 1.1' AND target_requirement = 'IA-2'`
+        )
+      ).toEqual({ review_status: 'reviewed', reviewed_by: 'bob' });
+    });
+
+    it('should skip pairs and types the mapping files cannot hold', () => {
+      // Accepted before proposals were checked against the mapping files
+      const insertAccepted = (source: [string, string], target: [string, string], type: string) =>
+        Number(
+          db.run(
+            `INSERT INTO pending_mappings (
+               source_standard, source_requirement, target_standard, target_requirement,
+               mapping_type, status, proposed_by, decided_by
+             ) VALUES (?, ?, ?, ?, ?, 'accepted', 'alice', 'bob')`,
+            [...source, ...target, type]
+          ).lastInsertRowid
+        );
+      const other = insertAccepted(['nist-800-82', 'G-6.1'], ['nist-800-53', 'IA-2'], 'related');
+      const partial = insertAccepted(['mitre-ics', 'M0802'], ['nist-800-53', 'SC-8'], 'partial');
+      const before = readFileSync(files.iecNist, 'utf-8');
+
+      const result = curator.exportAccepted(files);
+
+      expect(result.skipped.map((m) => m.id)).toEqual([other, partial]);
+      expect(readFileSync(files.iecNist, 'utf-8')).toBe(before);
+    });
+  });
+});
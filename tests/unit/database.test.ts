@@ -34,9 +34,11 @@ describe('DatabaseClient', () => {
       const tableNames = tables.map((t) => t.name);
 
       expect(tableNames).toContain('ot_standards');
+      expect(tableNames).toContain('ot_standard_versions');
       expect(tableNames).toContain('ot_requirements');
       expect(tableNames).toContain('security_levels');
       expect(tableNames).toContain('ot_mappings');
+      expect(tableNames).toContain('mapping_sources');
       expect(tableNames).toContain('zones_conduits');
       expect(tableNames).toContain('mitre_ics_techniques');
       expect(tableNames).toContain('mitre_ics_mitigations');
@@ -321,6 +323,25 @@ describe('DatabaseClient', () => {
         );
       }).toThrow();
     });
+
+    it('should enforce review_status CHECK constraint and default to draft', () => {
+      db.run(
+        `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+         VALUES (?, ?, ?, ?, ?)`,
+        ['iec62443-3-3', 'SR 1.1', 'nist-800-53', 'IA-2', 'related']
+      );
+      expect(
+        db.queryOne<{ review_status: string }>(`SELECT review_status FROM ot_mappings`)
+      ).toEqual({ review_status: 'draft' });
+
+      expect(() => {
+        db.run(
+          `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type, review_status)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          ['iec62443-3-3', 'SR 1.2', 'nist-800-53', 'IA-3', 'related', 'approved']
+        );
+      }).toThrow();
+    });
   });
 
   describe('UNIQUE Constraints', () => {
@@ -347,6 +368,25 @@ describe('DatabaseClient', () => {
       }).toThrow();
     });
 
+    it('should allow the same requirement_id in different versions of a standard', () => {
+      db.run(`INSERT INTO ot_standards (id, name, version) VALUES (?, ?, ?)`, [
+        'nist-800-53',
+        'NIST SP 800-53',
+        'Rev 5',
+      ]);
+
+      const insert = (version: string) =>
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, title, version)
+           VALUES (?, ?, ?, ?)`,
+          ['nist-800-53', 'AC-2', 'Account Management', version]
+        );
+
+      insert('Rev 4');
+      expect(() => insert('Rev 5')).not.toThrow();
+      expect(() => insert('Rev 5')).toThrow();
+    });
+
     it('should enforce unique constraint on MITRE technique_id', () => {
       db.run(
         `INSERT INTO mitre_ics_techniques (technique_id, tactic, name, description)
@@ -473,6 +513,198 @@ describe('DatabaseClient', () => {
     });
   });
 
+  describe('FTS Index Migration', () => {
+    it('should rebuild an outdated FTS index with the rationale column', () => {
+      db.run(`INSERT INTO ot_standards (id, name) VALUES (?, ?)`, ['nist-800-53', 'NIST']);
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, rationale)
+         VALUES (?, ?, ?, ?)`,
+        ['nist-800-53', 'AC-1', 'Policy and Procedures', 'Establishes governance']
+      );
+
+      // Recreate the pre-rationale FTS definition, as found in older databases
+      db.database.exec(`
+        DROP TRIGGER ot_requirements_fts_insert;
+        DROP TRIGGER ot_requirements_fts_delete;
+        DROP TRIGGER ot_requirements_fts_update;
+        DROP TABLE ot_requirements_fts;
+        CREATE VIRTUAL TABLE ot_requirements_fts USING fts5(
+          requirement_id, title, description,
+          content='ot_requirements', content_rowid='id'
+        );
+      `);
+      db.close();
+
+      db = new DatabaseClient(testDbPath);
+
+      const hits = db.query<{ rowid: number }>(
+        `SELECT rowid FROM ot_requirements_fts WHERE ot_requirements_fts MATCH 'governance'`
+      );
+      expect(hits).toHaveLength(1);
+    });
+  });
+
+  describe('Knowledge Index', () => {
+    const knowledgeHits = (match: string) =>
+      db.query<{ entity_type: string }>(
+        `SELECT entity_type FROM ot_knowledge_fts WHERE ot_knowledge_fts MATCH ?
+         ORDER BY entity_type`,
+        [match]
+      );
+
+    it('should index inserted and updated rows of every entity type', () => {
+      db.run(
+        `INSERT INTO mitre_ics_techniques (technique_id, name, description) VALUES (?, ?, ?)`,
+        ['T0871', 'Execution through API', 'Workstation abuse']
+      );
+      db.run(`INSERT INTO mitre_ics_mitigations (mitigation_id, name) VALUES (?, ?)`, [
+        'M0942',
+        'Disable Workstation Services',
+      ]);
+      db.run(`INSERT INTO zones (name, typical_assets) VALUES (?, ?)`, [
+        'Control Zone',
+        'Engineering workstation',
+      ]);
+      db.run(`INSERT INTO conduits (name, conduit_type) VALUES (?, ?)`, ['Vendor VPN', 'remote']);
+
+      expect(knowledgeHits('workstation').map((h) => h.entity_type)).toEqual([
+        'mitigation',
+        'technique',
+        'zone',
+      ]);
+
+      db.run(`UPDATE conduits SET description = 'Workstation access' WHERE name = 'Vendor VPN'`);
+      db.run(`DELETE FROM zones WHERE name = 'Control Zone'`);
+
+      expect(knowledgeHits('workstation').map((h) => h.entity_type)).toEqual([
+        'conduit',
+        'mitigation',
+        'technique',
+      ]);
+    });
+
+    it('should backfill the index when opening a database created without it', () => {
+      db.run(`INSERT INTO ot_standards (id, name) VALUES (?, ?)`, ['nist-800-53', 'NIST']);
+      db.run(`INSERT INTO ot_requirements (standard_id, requirement_id, title) VALUES (?, ?, ?)`, [
+        'nist-800-53',
+        'AC-1',
+        'Policy and Procedures',
+      ]);
+
+      // Remove the index and its triggers, as in databases built before it existed
+      const triggers = db.query<{ name: string }>(
+        `SELECT name FROM sqlite_master WHERE type = 'trigger' AND name LIKE 'ot_knowledge_fts_%'`
+      );
+      for (const trigger of triggers) {
+        db.database.exec(`DROP TRIGGER ${trigger.name}`);
+      }
+      db.database.exec(`DROP TABLE ot_knowledge_fts`);
+      db.close();
+
+      db = new DatabaseClient(testDbPath);
+
+      expect(knowledgeHits('policy').map((h) => h.entity_type)).toEqual(['requirement']);
+    });
+  });
+
+  describe('Requirement Version Migration', () => {
+    it('should add versions to requirements created by an older schema', () => {
+      // Recreate the unversioned ot_requirements definition, as found in older databases
+      db.database.exec(`
+        DROP TABLE ot_requirements;
+        CREATE TABLE ot_requirements (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          standard_id TEXT NOT NULL,
+          requirement_id TEXT NOT NULL,
+          parent_requirement_id TEXT,
+          title TEXT,
+          description TEXT,
+          rationale TEXT,
+          component_type TEXT,
+          purdue_level INTEGER,
+          FOREIGN KEY (standard_id) REFERENCES ot_standards(id) ON DELETE CASCADE,
+          UNIQUE (standard_id, requirement_id)
+        );
+      `);
+      db.run(`INSERT INTO ot_standards (id, name, version, status) VALUES (?, ?, ?, ?)`, [
+        'iec62443-3-3',
+        'IEC 62443-3-3',
+        'v2.0',
+        'current',
+      ]);
+      const { lastInsertRowid } = db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title) VALUES (?, ?, ?)`,
+        ['iec62443-3-3', 'SR 1.1', 'Human user identification and authentication']
+      );
+      db.run(`INSERT INTO security_levels (requirement_db_id, security_level) VALUES (?, ?)`, [
+        lastInsertRowid,
+        1,
+      ]);
+      db.close();
+
+      db = new DatabaseClient(testDbPath);
+
+      const requirement = db.queryOne<{
+        id: number;
+        version: string | null;
+        status: string | null;
+      }>(`SELECT id, version, status FROM ot_requirements WHERE requirement_id = 'SR 1.1'`);
+      expect(requirement).toEqual({ id: Number(lastInsertRowid), version: 'v2.0', status: null });
+
+      // Rows referencing the requirement survive the rebuild
+      const levels = db.queryOne<{ count: number }>(
+        `SELECT COUNT(*) AS count FROM security_levels WHERE requirement_db_id = ?`,
+        [lastInsertRowid]
+      );
+      expect(levels?.count).toBe(1);
+
+      expect(db.query(`SELECT standard_id, version, status FROM ot_standard_versions`)).toEqual([
+        { standard_id: 'iec62443-3-3', version: 'v2.0', status: 'current' },
+      ]);
+    });
+  });
+
+  describe('Mapping Provenance Migration', () => {
+    it('should add provenance and review columns to mappings created by an older schema', () => {
+      // Recreate the ot_mappings definition without provenance, as found in older databases
+      db.database.exec(`
+        DROP TABLE ot_mappings;
+        DROP TABLE mapping_sources;
+        CREATE TABLE ot_mappings (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          source_standard TEXT NOT NULL,
+          source_requirement TEXT NOT NULL,
+          target_standard TEXT NOT NULL,
+          target_requirement TEXT NOT NULL,
+          mapping_type TEXT NOT NULL,
+          confidence REAL,
+          notes TEXT,
+          created_date TEXT DEFAULT (datetime('now'))
+        );
+      `);
+      db.run(
+        `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+         VALUES (?, ?, ?, ?, ?)`,
+        ['iec62443-3-3', 'SR 1.1', 'nist-800-53', 'IA-2', 'related']
+      );
+      db.close();
+
+      db = new DatabaseClient(testDbPath);
+
+      expect(
+        db.queryOne(
+          `SELECT mapping_source_id, source_document, review_status, reviewed_by FROM ot_mappings`
+        )
+      ).toEqual({
+        mapping_source_id: null,
+        source_document: null,
+        review_status: 'draft',
+        reviewed_by: null,
+      });
+      expect(db.query(`SELECT * FROM mapping_sources`)).toEqual([]);
+    });
+  });
+
   describe('Indexes', () => {
     it('should create indexes for common queries', () => {
       const indexes = db.query<{ name: string }>(
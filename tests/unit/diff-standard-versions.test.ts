@@ -0,0 +1,166 @@
+/**
+ * Unit tests for diff_standard_versions tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { registerStandardVersion } from '../../src/database/versions.js';
+import { diffStandardVersions } from '../../src/tools/diff-standard-versions.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('diffStandardVersions', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const insert = (
+    version: string,
+    requirementId: string,
+    title: string,
+    description: string,
+    rationale: string | null = null
+  ) =>
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, rationale, version)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      ['std-a', requirementId, title, description, rationale, version]
+    );
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('diff-standard-versions');
+    db = new DatabaseClient(testDbPath);
+
+    registerStandardVersion(db, {
+      standard_id: 'std-a',
+      name: 'Standard A',
+      version: 'Rev 4',
+      status: 'current',
+      published_date: '2013-04-30',
+      url: 'https://example.org/rev4',
+    });
+    registerStandardVersion(db, {
+      standard_id: 'std-a',
+      name: 'Standard A',
+      version: 'Rev 5',
+      status: 'current',
+      published_date: '2020-09-23',
+      url: 'https://example.org/rev5',
+    });
+
+    insert('Rev 4', 'AC-1', 'Access Control Policy', 'Develop an access control policy.');
+    insert('Rev 4', 'AC-2', 'Account Management', 'Manage information system accounts.');
+    insert('Rev 4', 'AC-10', 'Concurrent Session Control', 'Limit concurrent sessions.');
+    insert('Rev 4', 'AC-13', 'Supervision and Review', 'Supervise and review access.');
+    insert('Rev 5', 'AC-1', 'Access Control Policy', 'Develop an access control policy.');
+    insert('Rev 5', 'AC-2', 'Account Management', 'Manage system accounts and their roles.');
+    insert('Rev 5', 'AC-10', 'Concurrent Session Control', 'Limit  concurrent\nsessions.');
+    insert('Rev 5', 'AC-25', 'Reference Monitor', 'Implement a reference monitor.');
+    db.run(`UPDATE ot_requirements SET title = ? WHERE requirement_id = ? AND version = ?`, [
+      'Policy and Procedures',
+      'AC-1',
+      'Rev 5',
+    ]);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return null for an unknown standard or version', async () => {
+    expect(await diffStandardVersions(db, { standard: 'std-x' })).toBeNull();
+    expect(await diffStandardVersions(db, { standard: 'std-a', from_version: 'Rev 3' })).toBeNull();
+    expect(await diffStandardVersions(db, { standard: '' })).toBeNull();
+  });
+
+  it('should default to the current version and the one before it', async () => {
+    const result = await diffStandardVersions(db, { standard: 'std-a' });
+
+    expect(result?.from).toEqual({
+      version: 'Rev 4',
+      status: 'superseded',
+      published_date: '2013-04-30',
+    });
+    expect(result?.to.version).toBe('Rev 5');
+    expect(result?.to.status).toBe('current');
+  });
+
+  it('should classify every requirement', async () => {
+    const result = await diffStandardVersions(db, {
+      standard: 'std-a',
+      from_version: 'rev 4',
+      to_version: 'Rev 5',
+    });
+
+    expect(result?.summary).toEqual({
+      added: 1,
+      withdrawn: 1,
+      renamed: 1,
+      changed: 1,
+      unchanged: 1,
+    });
+    expect(result?.changes.map((c) => [c.requirement_id, c.change])).toEqual([
+      ['AC-1', 'renamed'],
+      ['AC-2', 'changed'],
+      ['AC-13', 'withdrawn'],
+      ['AC-25', 'added'],
+    ]);
+    expect(result?.truncated).toBe(false);
+
+    const withdrawn = result?.changes.find((c) => c.change === 'withdrawn');
+    expect(withdrawn?.from_title).toBe('Supervision and Review');
+    expect(withdrawn?.to_title).toBeNull();
+    expect(withdrawn?.fields).toEqual([]);
+  });
+
+  it('should include word-level diffs of changed fields', async () => {
+    const result = await diffStandardVersions(db, {
+      standard: 'std-a',
+      options: { requirement_id: 'AC-2' },
+    });
+
+    expect(result?.changes).toHaveLength(1);
+    const [fieldDiff] = result?.changes[0]?.fields ?? [];
+    expect(fieldDiff?.field).toBe('description');
+    expect(fieldDiff?.from).toBe('Manage information system accounts.');
+    expect(fieldDiff?.diff).toEqual([
+      { op: 'equal', text: 'Manage' },
+      { op: 'delete', text: 'information' },
+      { op: 'equal', text: 'system' },
+      { op: 'delete', text: 'accounts.' },
+      { op: 'insert', text: 'accounts and their roles.' },
+    ]);
+  });
+
+  it('should report a single requirement even if unchanged', async () => {
+    const result = await diffStandardVersions(db, {
+      standard: 'std-a',
+      options: { requirement_id: 'AC-10' },
+    });
+
+    expect(result?.summary.unchanged).toBe(1);
+    expect(result?.changes).toEqual([
+      {
+        requirement_id: 'AC-10',
+        change: 'unchanged',
+        from_title: 'Concurrent Session Control',
+        to_title: 'Concurrent Session Control',
+        fields: [],
+      },
+    ]);
+  });
+
+  it('should filter by change type and limit', async () => {
+    const added = await diffStandardVersions(db, {
+      standard: 'std-a',
+      options: { change_types: ['added', 'withdrawn'] },
+    });
+    expect(added?.changes.map((c) => c.requirement_id)).toEqual(['AC-13', 'AC-25']);
+    expect(added?.summary.renamed).toBe(1);
+
+    const limited = await diffStandardVersions(db, { standard: 'std-a', options: { limit: 2 } });
+    expect(limited?.changes).toHaveLength(2);
+    expect(limited?.truncated).toBe(true);
+  });
+});
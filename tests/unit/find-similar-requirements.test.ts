@@ -0,0 +1,130 @@
+/**
+ * Unit tests for find_similar_requirements tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { findSimilarRequirements } from '../../src/tools/find-similar-requirements.js';
+import { VectorIndexBuilder } from '../../scripts/build-vectors.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('findSimilarRequirements', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const insert = (standard: string, requirementId: string, title: string, description: string) =>
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, title, description)
+       VALUES (?, ?, ?, ?)`,
+      [standard, requirementId, title, description]
+    );
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('find-similar-requirements');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name, status) VALUES (?, ?, ?), (?, ?, ?), (?, ?, ?)`, [
+      'std-a',
+      'Standard A',
+      'current',
+      'std-b',
+      'Standard B',
+      'current',
+      'std-c',
+      'Standard C',
+      'current',
+    ]);
+
+    insert('std-a', 'A-1', 'Remote access', 'Encrypt remote access sessions over a VPN tunnel.');
+    insert('std-a', 'A-2', 'Remote maintenance', 'Vendors use remote access for maintenance.');
+    insert('std-a', 'A-3', 'Audit logging', 'Record audit events in a central log.');
+    insert('std-b', 'B-1', 'Remote connections', 'Remote access uses an encrypted VPN tunnel.');
+    insert('std-b', 'B-2', 'Event logging', 'Audit events are written to the log server.');
+    insert('std-b', 'B-3', 'Backups', 'Keep offline backups of controller configuration.');
+    insert('std-c', 'C-1', 'Vendor access', 'Vendor remote access sessions are monitored.');
+    insert('std-c', 'C-2', 'Log retention', 'Retain each audit log for a year.');
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return null when the requirement is not found', async () => {
+    expect(
+      await findSimilarRequirements(db, { requirement_id: 'A-9', standard: 'std-a' })
+    ).toBeNull();
+  });
+
+  it('should return null when parameters are missing', async () => {
+    expect(await findSimilarRequirements(db, { requirement_id: '', standard: 'std-a' })).toBeNull();
+  });
+
+  it('should rank requirements from other standards by TF-IDF similarity', async () => {
+    const result = await findSimilarRequirements(db, { requirement_id: 'A-1', standard: 'std-a' });
+
+    expect(result?.method).toBe('tfidf');
+    expect(result?.source).toEqual({
+      requirement_id: 'A-1',
+      standard_id: 'std-a',
+      title: 'Remote access',
+    });
+    const ids = result?.similar.map((s) => s.requirement_id) ?? [];
+    expect(ids[0]).toBe('B-1');
+    expect(ids).not.toContain('A-2');
+    expect(ids).not.toContain('B-3');
+    expect(result?.similar[0]?.shared_terms).toEqual(expect.arrayContaining(['vpn', 'tunnel']));
+    expect(result?.similar[0]?.standard_name).toBe('Standard B');
+  });
+
+  it('should flag curated mappings in either direction', async () => {
+    db.run(
+      `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+       VALUES (?, ?, ?, ?, ?)`,
+      ['std-b', 'B-1', 'std-a', 'A-1', 'exact_match']
+    );
+
+    const result = await findSimilarRequirements(db, { requirement_id: 'A-1', standard: 'std-a' });
+    const b1 = result?.similar.find((s) => s.requirement_id === 'B-1');
+    const c1 = result?.similar.find((s) => s.requirement_id === 'C-1');
+
+    expect(b1).toMatchObject({ curated_mapping: true, mapping_type: 'exact_match' });
+    expect(c1).toMatchObject({ curated_mapping: false, mapping_type: null });
+  });
+
+  it('should apply the standards, min_similarity and limit options', async () => {
+    const onlyC = await findSimilarRequirements(db, {
+      requirement_id: 'A-1',
+      standard: 'std-a',
+      options: { standards: ['std-c'] },
+    });
+    expect(onlyC?.similar.map((s) => s.requirement_id)).toEqual(['C-1']);
+
+    const strict = await findSimilarRequirements(db, {
+      requirement_id: 'A-1',
+      standard: 'std-a',
+      options: { min_similarity: 0.99 },
+    });
+    expect(strict?.similar).toEqual([]);
+
+    const limited = await findSimilarRequirements(db, {
+      requirement_id: 'A-1',
+      standard: 'std-a',
+      options: { limit: 1, min_similarity: 0 },
+    });
+    expect(limited?.similar).toHaveLength(1);
+  });
+
+  it('should use semantic vectors once they are built', async () => {
+    new VectorIndexBuilder(db).buildVectors(2);
+
+    const result = await findSimilarRequirements(db, { requirement_id: 'A-3', standard: 'std-a' });
+    const ids = result?.similar.map((s) => s.requirement_id) ?? [];
+
+    expect(result?.method).toBe('semantic');
+    expect(ids.slice(0, 2).sort()).toEqual(['B-2', 'C-2']);
+    expect(result?.similar[0]?.shared_terms).toContain('audit');
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Unit tests for get_coverage_matrix tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import {
+  getCoverageMatrix,
+  formatCoverageMatrixCsv,
+  formatCoverageMatrixMarkdown,
+} from '../../src/tools/get-coverage-matrix.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('getCoverageMatrix', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const insertRequirement = (
+    standard: string,
+    requirementId: string,
+    parentId: string | null = null,
+    status: string | null = null
+  ) =>
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, parent_requirement_id, title, status)
+       VALUES (?, ?, ?, ?, ?)`,
+      [standard, requirementId, parentId, `Title of ${requirementId}`, status]
+    );
+
+  const insertMapping = (
+    source: [string, string],
+    target: [string, string],
+    type: string,
+    confidence: number | null
+  ) =>
+    db.run(
+      `INSERT INTO ot_mappings
+       (source_standard, source_requirement, target_standard, target_requirement, mapping_type, confidence)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [...source, ...target, type, confidence]
+    );
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('get-coverage-matrix');
+    db = new DatabaseClient(testDbPath);
+
+    for (const [id, name] of [
+      ['iec62443-3-3', 'IEC 62443-3-3'],
+      ['nist-800-53', 'NIST SP 800-53'],
+    ]) {
+      db.run(`INSERT INTO ot_standards (id, name) VALUES (?, ?)`, [id, name]);
+    }
+    insertRequirement('iec62443-3-3', 'SR 1.1');
+    insertRequirement('iec62443-3-3', 'SR 1.1 RE 1', 'SR 1.1');
+    insertRequirement('iec62443-3-3', 'SR 2.1');
+    insertRequirement('iec62443-3-3', 'SR 3.1');
+    insertRequirement('nist-800-53', 'AC-3');
+    insertRequirement('nist-800-53', 'IA-2');
+    insertRequirement('nist-800-53', 'IA-2(1)', 'IA-2');
+    insertRequirement('nist-800-53', 'SC-7');
+    insertRequirement('nist-800-53', 'CM-2');
+    insertRequirement('nist-800-53', 'AC-13', null, 'withdrawn');
+
+    insertMapping(['iec62443-3-3', 'SR 1.1'], ['nist-800-53', 'IA-2'], 'exact_match', 0.9);
+    insertMapping(['iec62443-3-3', 'SR 1.1 RE 1'], ['nist-800-53', 'IA-2(1)'], 'related', 0.8);
+    // Written from the target standard: SC-7 is broader than SR 1.1, so SR 1.1 is narrower
+    insertMapping(['nist-800-53', 'SC-7'], ['iec62443-3-3', 'SR 1.1'], 'broader', 0.6);
+    insertMapping(['iec62443-3-3', 'SR 2.1'], ['nist-800-53', 'AC-3'], 'partial', null);
+    insertMapping(['iec62443-3-3', 'SR 2.1'], ['nist-800-53', 'AC-6'], 'related', 0.7);
+    insertMapping(['nist-800-53', 'AC-3'], ['nist-800-53', 'AC-13'], 'supersedes', 1.0);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return null when a standard has no requirements', async () => {
+    expect(
+      await getCoverageMatrix(db, { source_standard: 'std-x', target_standard: 'nist-800-53' })
+    ).toBeNull();
+    expect(
+      await getCoverageMatrix(db, { source_standard: 'iec62443-3-3', target_standard: '' })
+    ).toBeNull();
+  });
+
+  it('should cover target groups with the strongest mapping of each cell', async () => {
+    const matrix = await getCoverageMatrix(db, {
+      source_standard: 'iec62443-3-3',
+      target_standard: 'nist-800-53',
+    });
+
+    expect(matrix?.columns.map((column) => column.id)).toEqual(['AC', 'CM', 'IA', 'SC']);
+    expect(matrix?.rows.map((row) => row.requirement_id)).toEqual([
+      'SR 1.1',
+      'SR 1.1 RE 1',
+      'SR 2.1',
+      'SR 3.1',
+    ]);
+
+    const [sr11, , sr21, sr31] = matrix?.rows ?? [];
+    expect(sr11?.cells['IA']).toEqual({
+      mapping_type: 'exact_match',
+      confidence: 0.9,
+      mappings: [{ requirement_id: 'IA-2', mapping_type: 'exact_match', confidence: 0.9 }],
+    });
+    expect(sr11?.cells['SC']?.mapping_type).toBe('narrower');
+    expect(sr21?.cells['AC']).toEqual({
+      mapping_type: 'partial',
+      confidence: 0.7,
+      mappings: [
+        { requirement_id: 'AC-3', mapping_type: 'partial', confidence: null },
+        { requirement_id: 'AC-6', mapping_type: 'related', confidence: 0.7 },
+      ],
+    });
+    expect(sr31?.cells).toEqual({});
+  });
+
+  it('should summarize coverage on each side', async () => {
+    const matrix = await getCoverageMatrix(db, {
+      source_standard: 'iec62443-3-3',
+      target_standard: 'nist-800-53',
+    });
+
+    expect(matrix?.source).toEqual({
+      standard_id: 'iec62443-3-3',
+      loaded: true,
+      total: 4,
+      covered: 3,
+      percent_covered: 75,
+      unmapped: ['SR 3.1'],
+    });
+    // AC-6 is only known from its mapping; withdrawn AC-13 does not count
+    expect(matrix?.target).toEqual({
+      standard_id: 'nist-800-53',
+      loaded: true,
+      total: 6,
+      covered: 5,
+      percent_covered: 83.3,
+      unmapped: ['CM-2'],
+    });
+    expect(matrix?.summary).toEqual({
+      mapping_count: 5,
+      mappings_by_type: { exact_match: 1, related: 2, narrower: 1, partial: 1 },
+      average_confidence: 0.75,
+    });
+  });
+
+  it('should not report coverage for a standard only known through mappings', async () => {
+    db.run(`DELETE FROM ot_requirements WHERE standard_id = 'iec62443-3-3'`);
+
+    const matrix = await getCoverageMatrix(db, {
+      source_standard: 'iec62443-3-3',
+      target_standard: 'nist-800-53',
+    });
+    if (!matrix) throw new Error('expected a matrix');
+
+    expect(matrix.rows.map((row) => row.requirement_id)).toEqual([
+      'SR 1.1',
+      'SR 1.1 RE 1',
+      'SR 2.1',
+    ]);
+    expect(matrix.source).toEqual({
+      standard_id: 'iec62443-3-3',
+      loaded: false,
+      total: null,
+      covered: 3,
+      percent_covered: null,
+      unmapped: null,
+    });
+    expect(matrix.target.loaded).toBe(true);
+    expect(formatCoverageMatrixMarkdown(matrix)).toContain(
+      '- **iec62443-3-3**: 3 requirements covered; coverage unknown'
+    );
+  });
+
+  it('should leave out enhancements and use requirement columns when asked', async () => {
+    const matrix = await getCoverageMatrix(db, {
+      source_standard: 'iec62443-3-3',
+      target_standard: 'nist-800-53',
+      options: { columns: 'requirement', include_enhancements: false },
+    });
+
+    expect(matrix?.rows.map((row) => row.requirement_id)).toEqual(['SR 1.1', 'SR 2.1', 'SR 3.1']);
+    expect(matrix?.columns.map((column) => column.id)).toEqual([
+      'AC-3',
+      'AC-6',
+      'CM-2',
+      'IA-2',
+      'SC-7',
+    ]);
+    expect(Object.keys(matrix?.rows[0]?.cells ?? {})).toEqual(['IA-2', 'SC-7']);
+    expect(matrix?.summary.mapping_count).toBe(4);
+  });
+
+  it('should only count reviewed mappings when reviewed_only is set', async () => {
+    db.run(
+      `UPDATE ot_mappings SET review_status = 'reviewed'
+       WHERE source_requirement = 'SR 1.1' AND target_requirement = 'IA-2'`
+    );
+
+    const matrix = await getCoverageMatrix(db, {
+      source_standard: 'iec62443-3-3',
+      target_standard: 'nist-800-53',
+      options: { reviewed_only: true },
+    });
+
+    expect(matrix?.summary.mapping_count).toBe(1);
+    expect(matrix?.source.unmapped).toEqual(['SR 1.1 RE 1', 'SR 2.1', 'SR 3.1']);
+    expect(Object.keys(matrix?.rows[0]?.cells ?? {})).toEqual(['IA']);
+  });
+
+  it('should format the matrix as CSV and markdown', async () => {
+    const matrix = await getCoverageMatrix(db, {
+      source_standard: 'iec62443-3-3',
+      target_standard: 'nist-800-53',
+    });
+    if (!matrix) throw new Error('expected a matrix');
+
+    expect(formatCoverageMatrixCsv(matrix).split('\r\n')).toEqual([
+      'requirement_id,title,AC,CM,IA,SC',
+      'SR 1.1,Title of SR 1.1,,,exact_match 0.9,narrower 0.6',
+      'SR 1.1 RE 1,Title of SR 1.1 RE 1,,,related 0.8,',
+      'SR 2.1,Title of SR 2.1,partial 0.7 (2),,,',
+      'SR 3.1,Title of SR 3.1,,,,',
+      '',
+    ]);
+
+    const markdown = formatCoverageMatrixMarkdown(matrix);
+    expect(markdown).toContain('- **iec62443-3-3**: 3 of 4 requirements covered (75%)');
+    expect(markdown).toContain('| Requirement | AC | CM | IA | SC |');
+    expect(markdown).toContain('## Unmapped in iec62443-3-3');
+  });
+});
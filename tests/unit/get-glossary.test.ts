@@ -0,0 +1,97 @@
+/**
+ * Unit tests for get_ot_glossary tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { getGlossary } from '../../src/tools/get-glossary.js';
+import { GlossaryIngester } from '../../scripts/ingest-glossary.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('getGlossary', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('get-glossary');
+    db = new DatabaseClient(testDbPath);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  describe('Empty Database', () => {
+    it('should return no entries and a null version', async () => {
+      const result = await getGlossary(db);
+      expect(result).toEqual({ version: null, entries: [] });
+    });
+  });
+
+  describe('With Glossary', () => {
+    beforeEach(() => {
+      new GlossaryIngester(db).ingestEntries({
+        meta: {
+          title: 'Test Glossary',
+          description: 'Test',
+          version: '1.0.0',
+          created_date: '2026-01-01',
+          sources: [],
+        },
+        entries: [
+          {
+            term: 'EWS',
+            term_type: 'acronym',
+            category: 'asset',
+            definition: 'Computer used to program controllers.',
+            expansions: ['engineering workstation'],
+          },
+          {
+            term: 'DoS',
+            term_type: 'acronym',
+            category: 'attack',
+            definition: 'Attack that prevents authorized access.',
+            expansions: ['denial of service', 'denial-of-service'],
+          },
+        ],
+      });
+    });
+
+    it('should list all entries with the glossary version', async () => {
+      const result = await getGlossary(db);
+      expect(result.version).toBe('1.0.0');
+      expect(result.entries.map((e) => e.term)).toEqual(['DoS', 'EWS']);
+    });
+
+    it('should look up an acronym case-insensitively', async () => {
+      const result = await getGlossary(db, { term: 'ews' });
+      expect(result.entries).toHaveLength(1);
+      expect(result.entries[0]).toEqual({
+        term: 'EWS',
+        term_type: 'acronym',
+        category: 'asset',
+        definition: 'Computer used to program controllers.',
+        expansions: ['engineering workstation'],
+      });
+    });
+
+    it('should look up an entry by one of its expansions', async () => {
+      const result = await getGlossary(db, { term: 'Denial of Service' });
+      expect(result.entries.map((e) => e.term)).toEqual(['DoS']);
+    });
+
+    it('should filter by category', async () => {
+      const result = await getGlossary(db, { category: 'attack' });
+      expect(result.entries.map((e) => e.term)).toEqual(['DoS']);
+    });
+
+    it('should return empty entries for unknown terms', async () => {
+      const result = await getGlossary(db, { term: 'XYZ' });
+      expect(result.entries).toEqual([]);
+      expect(result.version).toBe('1.0.0');
+    });
+  });
+});
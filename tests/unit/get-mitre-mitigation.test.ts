@@ -0,0 +1,64 @@
+/**
+ * Unit tests for get_mitre_ics_mitigation tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { getMitreMitigation } from '../../src/tools/get-mitre-mitigation.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('getMitreMitigation', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('get-mitre-mitigation');
+    db = new DatabaseClient(testDbPath);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return null when mitigation not found', async () => {
+    expect(await getMitreMitigation(db, { mitigation_id: 'M0801' })).toBeNull();
+  });
+
+  it('should return null when mitigation_id is empty', async () => {
+    expect(await getMitreMitigation(db, { mitigation_id: '' })).toBeNull();
+  });
+
+  it('should return the mitigation with the techniques it addresses', async () => {
+    db.run(
+      `INSERT INTO mitre_ics_techniques (technique_id, tactic, name) VALUES (?, ?, ?), (?, ?, ?)`,
+      ['T0866', 'initial-access', 'Exploitation of Remote Services', 'T0800', 'inhibit', 'Firmware']
+    );
+    db.run(
+      `INSERT INTO mitre_ics_mitigations (mitigation_id, name, description) VALUES (?, ?, ?)`,
+      ['M0801', 'Access Management', 'Restrict access to devices.']
+    );
+    db.run(
+      `INSERT INTO mitre_technique_mitigations (technique_id, mitigation_id) VALUES (?, ?), (?, ?)`,
+      ['T0866', 'M0801', 'T0800', 'M0801']
+    );
+
+    const result = await getMitreMitigation(db, { mitigation_id: 'M0801' });
+
+    expect(result).toEqual({
+      mitigation_id: 'M0801',
+      name: 'Access Management',
+      description: 'Restrict access to devices.',
+      techniques: [
+        { technique_id: 'T0800', name: 'Firmware', tactic: 'inhibit' },
+        {
+          technique_id: 'T0866',
+          name: 'Exploitation of Remote Services',
+          tactic: 'initial-access',
+        },
+      ],
+    });
+  });
+});
@@ -71,6 +71,13 @@ describe('getMitreTechnique', () => {
       expect(result?.description).toContain('public-facing applications');
     });
 
+    it('should accept other notations of the technique ID', async () => {
+      for (const technique_id of ['t0800', 'T800', 'MITRE ATT&CK T0800']) {
+        const result = await getMitreTechnique(db, { technique_id });
+        expect(result?.technique_id).toBe('T0800');
+      }
+    });
+
     it('should parse platforms JSON array correctly', async () => {
       const result = await getMitreTechnique(db, {
         technique_id: 'T0800',
@@ -473,6 +473,24 @@ describe('getRequirementRationale', () => {
       expect(nist82Mapping?.confidence).toBe(0.8);
     });
 
+    it('should read relationships from the requirement', async () => {
+      db.run(`UPDATE ot_mappings SET mapping_type = 'narrower' WHERE source_requirement = 'AC-2'`);
+
+      const result = await getRequirementRationale(db, {
+        requirement_id: 'SR 1.1',
+        standard: 'iec62443-3-3',
+      });
+
+      const ac2 = result?.related_standards.find((rs) => rs.requirement_id === 'AC-2');
+      const ia2 = result?.related_standards.find((rs) => rs.requirement_id === 'IA-2');
+      expect(ac2).toMatchObject({
+        mapping_type: 'narrower',
+        relationship: 'broader',
+        direction: 'incoming',
+      });
+      expect(ia2).toMatchObject({ relationship: 'exact_match', direction: 'outgoing' });
+    });
+
     it('should include mapping_type for all related standards', async () => {
       const result = await getRequirementRationale(db, {
         requirement_id: 'SR 1.1',
@@ -484,6 +502,42 @@ describe('getRequirementRationale', () => {
         expect(['exact_match', 'partial', 'related']).toContain(rs.mapping_type);
       });
     });
+
+    it('should include the provenance of each related standard', async () => {
+      db.run(
+        `UPDATE ot_mappings SET review_status = 'disputed', reviewed_by = 'J. Smith'
+         WHERE target_requirement = 'IA-8'`
+      );
+
+      const result = await getRequirementRationale(db, {
+        requirement_id: 'SR 1.1',
+        standard: 'iec62443-3-3',
+      });
+
+      const ia8 = result?.related_standards.find((rs) => rs.requirement_id === 'IA-8');
+      expect(ia8?.provenance).toMatchObject({
+        review_status: 'disputed',
+        reviewed_by: 'J. Smith',
+        mapping_file: null,
+        sources: [],
+      });
+    });
+
+    it('should only relate reviewed mappings when reviewed_only is set', async () => {
+      db.run(
+        `UPDATE ot_mappings SET review_status = 'reviewed', reviewed_by = ?, reviewed_date = ?
+         WHERE target_requirement = 'IA-2'`,
+        ['J. Smith', '2026-03-01']
+      );
+
+      const result = await getRequirementRationale(db, {
+        requirement_id: 'SR 1.1',
+        standard: 'iec62443-3-3',
+        reviewed_only: true,
+      });
+
+      expect(result?.related_standards.map((rs) => rs.requirement_id)).toEqual(['IA-2']);
+    });
   });
 
   describe('Parameter Validation', () => {
@@ -0,0 +1,195 @@
+/**
+ * Unit tests for get_requirement_tree tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { registerStandardVersion } from '../../src/database/versions.js';
+import { formatRequirementTree, getRequirementTree } from '../../src/tools/get-requirement-tree.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('getRequirementTree', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const insert = (
+    standard: string,
+    requirementId: string,
+    parentId: string | null,
+    title: string,
+    securityLevels: number[] = [],
+    version: string | null = null
+  ) => {
+    const { lastInsertRowid } = db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, parent_requirement_id, title, version)
+       VALUES (?, ?, ?, ?, ?)`,
+      [standard, requirementId, parentId, title, version]
+    );
+    for (const level of securityLevels) {
+      db.run(
+        `INSERT INTO security_levels (requirement_db_id, security_level, sl_type, capability_level)
+         VALUES (?, ?, ?, ?)`,
+        [lastInsertRowid, level, 'SL-T', level]
+      );
+    }
+  };
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('get-requirement-tree');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name, version, status) VALUES (?, ?, ?, ?)`, [
+      'iec62443-3-3',
+      'IEC 62443-3-3',
+      'v2.0',
+      'current',
+    ]);
+    insert(
+      'iec62443-3-3',
+      'SR 1.1',
+      null,
+      'Human user identification and authentication',
+      [1, 2, 3, 4]
+    );
+    insert('iec62443-3-3', 'SR 1.1 RE 2', 'SR 1.1', 'Multifactor authentication', [4]);
+    insert('iec62443-3-3', 'SR 1.1 RE 1', 'SR 1.1', 'Unique identification', [3, 4]);
+    insert('iec62443-3-3', 'SR 1.10', null, 'Authenticator feedback', [1]);
+    insert('iec62443-3-3', 'SR 1.2', null, 'Software process and device identification', [2]);
+    insert('iec62443-3-3', 'SR 2.1', null, 'Authorization enforcement', [1]);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return null for an unknown requirement or standard', async () => {
+    expect(
+      await getRequirementTree(db, { requirement_id: 'SR 9.9', standard: 'iec62443-3-3' })
+    ).toBeNull();
+    expect(
+      await getRequirementTree(db, { requirement_id: 'SR 1.1', standard: 'std-x' })
+    ).toBeNull();
+    expect(
+      await getRequirementTree(db, { requirement_id: '', standard: 'iec62443-3-3' })
+    ).toBeNull();
+  });
+
+  it('should nest enhancements below the base requirement in ID order', async () => {
+    const tree = await getRequirementTree(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+    });
+
+    expect(tree?.standard_name).toBe('IEC 62443-3-3');
+    expect(tree?.version).toBe('v2.0');
+    expect(tree?.group).toEqual({ id: 'FR 1', title: 'Identification and authentication control' });
+    expect(tree?.root.requirement_id).toBe('SR 1.1');
+    expect(tree?.root.security_levels.map((level) => level.security_level)).toEqual([1, 2, 3, 4]);
+    expect(tree?.root.enhancements.map((node) => node.requirement_id)).toEqual([
+      'SR 1.1 RE 1',
+      'SR 1.1 RE 2',
+    ]);
+    expect(
+      tree?.root.enhancements[0]?.security_levels.map((level) => level.security_level)
+    ).toEqual([3, 4]);
+  });
+
+  it('should list the other base requirements of the group as siblings', async () => {
+    const tree = await getRequirementTree(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+    });
+
+    expect(tree?.siblings.map((node) => node.requirement_id)).toEqual(['SR 1.2', 'SR 1.10']);
+    expect(tree?.siblings[0]?.enhancements).toEqual([]);
+  });
+
+  it('should start the tree at the base requirement of an enhancement', async () => {
+    const tree = await getRequirementTree(db, {
+      requirement_id: 'SR1.1 RE(2)',
+      standard: 'iec62443-3-3',
+    });
+
+    expect(tree?.requirement_id).toBe('SR 1.1 RE 2');
+    expect(tree?.root.requirement_id).toBe('SR 1.1');
+    expect(tree?.siblings.map((node) => node.requirement_id)).toEqual(['SR 1.1 RE 1']);
+  });
+
+  it('should read the hierarchy of the requested version', async () => {
+    registerStandardVersion(db, {
+      standard_id: 'nist-800-53',
+      name: 'NIST SP 800-53',
+      version: 'Rev 4',
+      status: 'current',
+      published_date: '2013-04-30',
+      url: 'https://example.org/rev4',
+    });
+    registerStandardVersion(db, {
+      standard_id: 'nist-800-53',
+      name: 'NIST SP 800-53',
+      version: 'Rev 5',
+      status: 'current',
+      published_date: '2020-09-23',
+      url: 'https://example.org/rev5',
+    });
+    insert('nist-800-53', 'AC-2', null, 'Account Management', [], 'Rev 4');
+    insert('nist-800-53', 'AC-2(1)', 'AC-2', 'Automated Account Management', [], 'Rev 4');
+    insert('nist-800-53', 'AC-2', null, 'Account Management', [], 'Rev 5');
+
+    const current = await getRequirementTree(db, {
+      requirement_id: 'AC-2',
+      standard: 'nist-800-53',
+    });
+    expect(current?.version).toBe('Rev 5');
+    expect(current?.group).toEqual({ id: 'AC', title: 'Access Control' });
+    expect(current?.root.enhancements).toEqual([]);
+
+    const older = await getRequirementTree(db, {
+      requirement_id: 'AC-02',
+      standard: 'nist-800-53',
+      options: { version: 'Rev 4' },
+    });
+    expect(older?.version).toBe('Rev 4');
+    expect(older?.root.enhancements.map((node) => node.requirement_id)).toEqual(['AC-2(1)']);
+  });
+
+  it('should stop at a parent cycle', async () => {
+    insert('iec62443-3-3', 'SR 3.1', 'SR 3.2', 'Communication integrity');
+    insert('iec62443-3-3', 'SR 3.2', 'SR 3.1', 'Malicious code protection');
+
+    const tree = await getRequirementTree(db, {
+      requirement_id: 'SR 3.1',
+      standard: 'iec62443-3-3',
+    });
+
+    expect(tree?.root.requirement_id).toBe('SR 3.2');
+    expect(tree?.root.enhancements.map((node) => node.requirement_id)).toEqual(['SR 3.1']);
+    expect(tree?.root.enhancements[0]?.enhancements).toEqual([]);
+  });
+
+  describe('formatRequirementTree', () => {
+    it('should render an indented outline marking the requested requirement', async () => {
+      const tree = await getRequirementTree(db, {
+        requirement_id: 'SR 1.1 RE 1',
+        standard: 'iec62443-3-3',
+      });
+
+      expect(formatRequirementTree(tree!)).toBe(
+        [
+          '# IEC 62443-3-3 (v2.0) — FR 1: Identification and authentication control',
+          '',
+          '- **SR 1.1** Human user identification and authentication (SL-1, SL-2, SL-3, SL-4)',
+          '  - **SR 1.1 RE 1** Unique identification (SL-3, SL-4) ← requested',
+          '  - **SR 1.1 RE 2** Multifactor authentication (SL-4)',
+          '',
+          '## Siblings',
+          '',
+          '- **SR 1.1 RE 2** Multifactor authentication (SL-4)',
+        ].join('\n')
+      );
+    });
+  });
+});
@@ -5,6 +5,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DatabaseClient } from '../../src/database/client.js';
 import { getRequirement } from '../../src/tools/get-requirement.js';
+import { registerStandardVersion } from '../../src/database/versions.js';
+import { registerMappingSource } from '../../src/database/mapping-provenance.js';
 import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
 
 describe('getRequirement', () => {
@@ -163,6 +165,21 @@ describe('getRequirement', () => {
       expect(Array.isArray(result?.mappings)).toBe(true);
       expect(result?.mappings).toHaveLength(0);
     });
+
+    it('should resolve other notations of the requirement ID', async () => {
+      for (const requirement_id of ['SR1.1', 'sr 1.1', 'IEC 62443-3-3 SR 1.1']) {
+        const result = await getRequirement(db, { requirement_id, standard: 'iec62443-3-3' });
+        expect(result?.requirement_id).toBe('SR 1.1');
+      }
+    });
+
+    it('should not resolve a prefix naming another standard', async () => {
+      const result = await getRequirement(db, {
+        requirement_id: 'IEC 62443-4-2 SR 1.1',
+        standard: 'iec62443-3-3',
+      });
+      expect(result).toBeNull();
+    });
   });
 
   describe('Security Levels', () => {
@@ -366,6 +383,90 @@ describe('getRequirement', () => {
       expect(targetMapping?.source_standard).toBe('nist-800-82');
       expect(targetMapping?.source_requirement).toBe('IA-3');
     });
+
+    it('should read each mapping from the requested requirement', async () => {
+      db.run(`INSERT INTO ot_requirements (standard_id, requirement_id, title) VALUES (?, ?, ?)`, [
+        'nist-800-82',
+        'IA-3',
+        'Device Identification',
+      ]);
+      db.run(`UPDATE ot_mappings SET mapping_type = 'broader' WHERE source_requirement = 'IA-3'`);
+
+      const result = await getRequirement(db, {
+        requirement_id: 'SR 1.1',
+        standard: 'iec62443-3-3',
+      });
+
+      expect(
+        result?.mappings.map((m) => [m.direction, m.mapping_type, m.relationship, m.counterpart])
+      ).toEqual([
+        [
+          'outgoing',
+          'exact_match',
+          'exact_match',
+          { standard_id: 'nist-800-82', requirement_id: 'IA-2', title: null },
+        ],
+        [
+          'incoming',
+          'broader',
+          'narrower',
+          { standard_id: 'nist-800-82', requirement_id: 'IA-3', title: 'Device Identification' },
+        ],
+      ]);
+    });
+
+    it('should return the provenance of each mapping', async () => {
+      const sourceId = registerMappingSource(db, 'data/mappings/test-mappings.json', {
+        title: 'Test Mappings',
+        version: '1.1',
+        sources: ['IEC 62443-3-3:2013'],
+        confidence_basis: 'Expert judgement',
+      });
+      db.run(
+        `UPDATE ot_mappings
+         SET mapping_source_id = ?, source_document = ?, review_status = ?, reviewed_by = ?, reviewed_date = ?
+         WHERE target_requirement = 'IA-2'`,
+        [sourceId, 'IEC 62443-3-3 Annex B', 'reviewed', 'J. Smith', '2026-03-01']
+      );
+
+      const result = await getRequirement(db, {
+        requirement_id: 'SR 1.1',
+        standard: 'iec62443-3-3',
+      });
+
+      const [reviewed, draft] = result?.mappings ?? [];
+      expect(reviewed?.provenance).toEqual({
+        source_document: 'IEC 62443-3-3 Annex B',
+        source_version: null,
+        mapping_file: 'data/mappings/test-mappings.json',
+        mapping_file_version: '1.1',
+        sources: ['IEC 62443-3-3:2013'],
+        confidence_basis: 'Expert judgement',
+        review_status: 'reviewed',
+        reviewed_by: 'J. Smith',
+        reviewed_date: '2026-03-01',
+      });
+      expect(reviewed).not.toHaveProperty('review_status');
+      expect(draft?.provenance.review_status).toBe('draft');
+      expect(draft?.provenance.mapping_file).toBeNull();
+    });
+
+    it('should leave out retired mappings and filter to reviewed mappings', async () => {
+      db.run(`UPDATE ot_mappings SET review_status = 'retired' WHERE target_requirement = 'IA-2'`);
+
+      const result = await getRequirement(db, {
+        requirement_id: 'SR 1.1',
+        standard: 'iec62443-3-3',
+      });
+      expect(result?.mappings.map((m) => m.source_requirement)).toEqual(['IA-3']);
+
+      const reviewed = await getRequirement(db, {
+        requirement_id: 'SR 1.1',
+        standard: 'iec62443-3-3',
+        options: { reviewed_only: true },
+      });
+      expect(reviewed?.mappings).toEqual([]);
+    });
   });
 
   describe('Version Parameter', () => {
@@ -385,8 +486,7 @@ describe('getRequirement', () => {
       );
     });
 
-    it('should accept version parameter without error', async () => {
-      // TODO: Stage 1 - version parameter is ignored for now
+    it('should answer with the version recorded on the standard', async () => {
       const result = await getRequirement(db, {
         requirement_id: 'SR 1.1',
         standard: 'iec62443-3-3',
@@ -395,6 +495,179 @@ describe('getRequirement', () => {
 
       expect(result).not.toBeNull();
       expect(result?.requirement_id).toBe('SR 1.1');
+      expect(result?.version).toBe('v2.0');
+    });
+
+    it('should return null for a version that does not exist', async () => {
+      const result = await getRequirement(db, {
+        requirement_id: 'SR 1.1',
+        standard: 'iec62443-3-3',
+        options: { version: 'v1.0' },
+      });
+
+      expect(result).toBeNull();
+    });
+
+    describe('with several versions', () => {
+      beforeEach(() => {
+        registerStandardVersion(db, {
+          standard_id: 'nist-800-53',
+          name: 'NIST SP 800-53',
+          version: 'Rev 4',
+          status: 'superseded',
+          published_date: '2013-04-30',
+          url: 'https://csrc.nist.gov/rev-4',
+        });
+        registerStandardVersion(db, {
+          standard_id: 'nist-800-53',
+          name: 'NIST SP 800-53',
+          version: 'Rev 5',
+          status: 'current',
+          published_date: '2020-09-01',
+          url: 'https://csrc.nist.gov/rev-5',
+        });
+
+        const insert = (title: string, version: string) =>
+          db.run(
+            `INSERT INTO ot_requirements (standard_id, requirement_id, title, version)
+             VALUES (?, ?, ?, ?)`,
+            ['nist-800-53', 'AC-2', title, version]
+          );
+        insert('Account Management (Rev 5)', 'Rev 5');
+        insert('Account Management (Rev 4)', 'Rev 4');
+      });
+
+      it('should default to the current version', async () => {
+        const result = await getRequirement(db, {
+          requirement_id: 'AC-2',
+          standard: 'nist-800-53',
+        });
+
+        expect(result?.title).toBe('Account Management (Rev 5)');
+        expect(result?.version).toBe('Rev 5');
+        expect(result?.standard.version).toBe('Rev 5');
+        expect(result?.standard.status).toBe('current');
+      });
+
+      it('should return the requested version with its metadata', async () => {
+        const result = await getRequirement(db, {
+          requirement_id: 'AC-2',
+          standard: 'nist-800-53',
+          options: { version: 'rev 4' },
+        });
+
+        expect(result?.title).toBe('Account Management (Rev 4)');
+        expect(result?.version).toBe('Rev 4');
+        expect(result?.standard).toMatchObject({
+          version: 'Rev 4',
+          status: 'superseded',
+          published_date: '2013-04-30',
+          url: 'https://csrc.nist.gov/rev-4',
+        });
+      });
+
+      it('should not answer from a superseded version by default', async () => {
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, title, version)
+           VALUES (?, ?, ?, ?)`,
+          ['nist-800-53', 'AC-99', 'Withdrawn in Rev 5', 'Rev 4']
+        );
+
+        expect(
+          await getRequirement(db, { requirement_id: 'AC-99', standard: 'nist-800-53' })
+        ).toBeNull();
+      });
+    });
+  });
+
+  describe('Withdrawn Requirements', () => {
+    beforeEach(() => {
+      registerStandardVersion(db, {
+        standard_id: 'nist-800-53',
+        name: 'NIST SP 800-53',
+        version: 'Rev 5',
+        status: 'current',
+        published_date: '2020-09-23',
+        url: 'https://csrc.nist.gov/pubs/sp/800/53/r5/upd1/final',
+      });
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, version, status)
+         VALUES (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?)`,
+        [
+          'nist-800-53',
+          'AC-2',
+          'Account Management',
+          'Manage system accounts.',
+          'Rev 5',
+          null,
+          'nist-800-53',
+          'AC-13',
+          'Supervision and Review — Access Control',
+          'Withdrawn: incorporated into AC-2, AU-6.',
+          'Rev 5',
+          'withdrawn',
+        ]
+      );
+      db.run(
+        `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+         VALUES (?, ?, ?, ?, ?), (?, ?, ?, ?, ?)`,
+        [
+          'nist-800-53',
+          'AC-2',
+          'nist-800-53',
+          'AC-13',
+          'supersedes',
+          'nist-800-53',
+          'AU-6',
+          'nist-800-53',
+          'AC-13',
+          'supersedes',
+        ]
+      );
+    });
+
+    it('should return the withdrawal notice and successors', async () => {
+      const result = await getRequirement(db, {
+        requirement_id: 'AC-13',
+        standard: 'nist-800-53',
+        options: { include_mappings: false },
+      });
+
+      expect(result?.status).toBe('withdrawn');
+      expect(result?.withdrawal).toEqual({
+        notice: 'Withdrawn: incorporated into AC-2, AU-6.',
+        superseded_by: [
+          { standard_id: 'nist-800-53', requirement_id: 'AC-2', title: 'Account Management' },
+          { standard_id: 'nist-800-53', requirement_id: 'AU-6', title: null },
+        ],
+      });
+    });
+
+    it('should not add a withdrawal to requirements in force', async () => {
+      const result = await getRequirement(db, {
+        requirement_id: 'AC-2',
+        standard: 'nist-800-53',
+      });
+
+      expect(result?.status).toBeNull();
+      expect(result?.withdrawal).toBeUndefined();
+      expect(result?.mappings).toHaveLength(1);
+      expect(result?.mappings[0]).toMatchObject({ relationship: 'supersedes' });
+    });
+
+    it('should read supersedes mappings of the withdrawn requirement as superseded_by', async () => {
+      const result = await getRequirement(db, {
+        requirement_id: 'AC-13',
+        standard: 'nist-800-53',
+      });
+
+      expect(result?.mappings.map((m) => [m.relationship, m.counterpart])).toEqual([
+        [
+          'superseded_by',
+          { standard_id: 'nist-800-53', requirement_id: 'AC-2', title: 'Account Management' },
+        ],
+        ['superseded_by', { standard_id: 'nist-800-53', requirement_id: 'AU-6', title: null }],
+      ]);
     });
   });
 
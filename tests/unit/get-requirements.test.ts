@@ -0,0 +1,234 @@
+/**
+ * Unit tests for get_ot_requirements tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { getRequirement } from '../../src/tools/get-requirement.js';
+import { getRequirements } from '../../src/tools/get-requirements.js';
+import { registerStandardVersion } from '../../src/database/versions.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('getRequirements', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = createTestDbPath('get-requirements');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(
+      `INSERT INTO ot_standards (id, name, version, status) VALUES (?, ?, ?, ?), (?, ?, ?, ?)`,
+      [
+        'iec62443-3-3',
+        'IEC 62443-3-3',
+        'v2.0',
+        'current',
+        'iec62443-4-2',
+        'IEC 62443-4-2',
+        'v1.0',
+        'current',
+      ]
+    );
+    registerStandardVersion(db, {
+      standard_id: 'nist-800-53',
+      name: 'NIST SP 800-53',
+      version: 'Rev 4',
+      status: 'superseded',
+      published_date: '2013-04-30',
+      url: 'https://csrc.nist.gov/pubs/sp/800/53/r4/upd3/final',
+    });
+    registerStandardVersion(db, {
+      standard_id: 'nist-800-53',
+      name: 'NIST SP 800-53',
+      version: 'Rev 5',
+      status: 'current',
+      published_date: '2020-09-23',
+      url: 'https://csrc.nist.gov/pubs/sp/800/53/r5/upd1/final',
+    });
+
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, version, status)
+       VALUES (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?),
+              (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?)`,
+      [
+        'iec62443-3-3',
+        'SR 1.1',
+        'Human user identification and authentication',
+        null,
+        null,
+        null,
+        'iec62443-4-2',
+        'CR 1.1',
+        'Human user identification and authentication',
+        null,
+        null,
+        null,
+        'nist-800-53',
+        'AC-2',
+        'Account Management (Rev 4)',
+        null,
+        'Rev 4',
+        null,
+        'nist-800-53',
+        'AC-2',
+        'Account Management',
+        null,
+        'Rev 5',
+        null,
+        'nist-800-53',
+        'AC-13',
+        'Supervision and Review - Access Control',
+        'Withdrawn: incorporated into AC-2, AU-6.',
+        'Rev 5',
+        'withdrawn',
+        'nist-800-53',
+        'AU-6',
+        'Audit Record Review, Analysis, and Reporting',
+        null,
+        'Rev 5',
+        null,
+      ]
+    );
+    db.run(
+      `INSERT INTO security_levels (requirement_db_id, security_level, sl_type)
+       SELECT id, 2, 'SL-T' FROM ot_requirements WHERE requirement_id = 'SR 1.1'`
+    );
+    db.run(
+      `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+       VALUES (?, ?, ?, ?, ?), (?, ?, ?, ?, ?), (?, ?, ?, ?, ?)`,
+      [
+        'iec62443-3-3',
+        'SR 1.1',
+        'nist-800-53',
+        'AC-02',
+        'related',
+        'nist-800-53',
+        'AC-2',
+        'nist-800-53',
+        'AC-13',
+        'supersedes',
+        'nist-800-53',
+        'AU-6',
+        'nist-800-53',
+        'AC-13',
+        'supersedes',
+      ]
+    );
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return each requirement as get_ot_requirement does', async () => {
+    const result = await getRequirements(db, {
+      requirements: [
+        { requirement_id: 'SR 1.1', standard: 'iec62443-3-3' },
+        { requirement_id: 'AC-2', standard: 'nist-800-53' },
+        { requirement_id: 'AC-13', standard: 'nist-800-53' },
+      ],
+    });
+
+    expect(result.not_found).toEqual([]);
+    expect(result.requirements).toEqual([
+      await getRequirement(db, { requirement_id: 'SR 1.1', standard: 'iec62443-3-3' }),
+      await getRequirement(db, { requirement_id: 'AC-2', standard: 'nist-800-53' }),
+      await getRequirement(db, { requirement_id: 'AC-13', standard: 'nist-800-53' }),
+    ]);
+    expect(result.requirements[2]?.withdrawal?.superseded_by).toEqual([
+      { standard_id: 'nist-800-53', requirement_id: 'AC-2', title: 'Account Management' },
+      {
+        standard_id: 'nist-800-53',
+        requirement_id: 'AU-6',
+        title: 'Audit Record Review, Analysis, and Reporting',
+      },
+    ]);
+  });
+
+  it('should resolve free-form references', async () => {
+    const result = await getRequirements(db, {
+      references: ['IEC 62443-3-3 SR1.1', 'NIST SP 800-53 Rev 5 ac-02', 'AU-6'],
+    });
+
+    expect(result.requirements.map((r) => `${r.standard_id}:${r.requirement_id}`)).toEqual([
+      'iec62443-3-3:SR 1.1',
+      'nist-800-53:AC-2',
+      'nist-800-53:AU-6',
+    ]);
+    expect(result.not_found).toEqual([]);
+  });
+
+  it('should list requirements that are not found in request order', async () => {
+    const result = await getRequirements(db, {
+      requirements: [
+        { requirement_id: 'SR 9.9', standard: 'iec62443-3-3' },
+        { requirement_id: 'SR 1.1', standard: 'iec62443-3-3' },
+        { requirement_id: 'NIST SP 800-53 AC-2', standard: 'iec62443-3-3' },
+      ],
+      references: ['CR 1.1 RE 1', 'NIST SP 800-53 AC-99'],
+    });
+
+    expect(result.requirements.map((r) => r.requirement_id)).toEqual(['SR 1.1']);
+    expect(result.not_found).toEqual([
+      { requirement_id: 'SR 9.9', standard: 'iec62443-3-3' },
+      { requirement_id: 'NIST SP 800-53 AC-2', standard: 'iec62443-3-3' },
+      { requirement_id: 'CR 1.1 RE 1', standard: null },
+      { requirement_id: 'NIST SP 800-53 AC-99', standard: 'nist-800-53' },
+    ]);
+  });
+
+  it('should not guess the standard of a reference found in several standards', async () => {
+    db.run(`INSERT INTO ot_requirements (standard_id, requirement_id, title) VALUES (?, ?, ?)`, [
+      'iec62443-4-2',
+      'SR 1.1',
+      'Test requirement',
+    ]);
+
+    const result = await getRequirements(db, { references: ['SR 1.1'] });
+
+    expect(result.requirements).toEqual([]);
+    expect(result.not_found).toEqual([{ requirement_id: 'SR 1.1', standard: null }]);
+  });
+
+  it('should return a requirement requested twice once', async () => {
+    const result = await getRequirements(db, {
+      requirements: [{ requirement_id: 'AC-2', standard: 'nist-800-53' }],
+      references: ['NIST SP 800-53 AC-02'],
+    });
+
+    expect(result.requirements).toHaveLength(1);
+    expect(result.not_found).toEqual([]);
+  });
+
+  it('should answer from the requested version', async () => {
+    const result = await getRequirements(db, {
+      references: ['NIST SP 800-53 AC-2', 'NIST SP 800-53 AU-6'],
+      options: { version: 'Rev 4' },
+    });
+
+    expect(result.requirements.map((r) => [r.title, r.standard.version])).toEqual([
+      ['Account Management (Rev 4)', 'Rev 4'],
+    ]);
+    expect(result.not_found).toEqual([
+      { requirement_id: 'NIST SP 800-53 AU-6', standard: 'nist-800-53' },
+    ]);
+  });
+
+  it('should exclude mappings but keep withdrawals when include_mappings is false', async () => {
+    const result = await getRequirements(db, {
+      references: ['NIST SP 800-53 AC-2', 'NIST SP 800-53 AC-13'],
+      options: { include_mappings: false },
+    });
+
+    expect(result.requirements.map((r) => r.mappings)).toEqual([[], []]);
+    expect(result.requirements[1]?.withdrawal?.superseded_by).toHaveLength(2);
+  });
+
+  it('should return empty results without requests', async () => {
+    expect(await getRequirements(db, {})).toEqual({ requirements: [], not_found: [] });
+  });
+});
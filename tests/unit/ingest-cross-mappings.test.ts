@@ -101,6 +101,54 @@ describe('CrossMappingsIngester', () => {
     });
   });
 
+  describe('Mapping review validation', () => {
+    const withReview = (review: Record<string, unknown>) => ({
+      meta: { title: 'Test' },
+      mappings: [
+        {
+          source_standard: 'iec62443-3-3',
+          source_requirement: 'SR 1.1',
+          target_standard: 'nist-800-53',
+          target_requirement: 'IA-02',
+          mapping_type: 'related',
+          ...review,
+        },
+      ],
+    });
+
+    it('should reject unknown review statuses', () => {
+      expect(() => ingester.validateIecNistStructure(withReview({ review_status: 'ok' }))).toThrow(
+        'review_status must be one of draft, reviewed, disputed, retired'
+      );
+    });
+
+    it('should require a reviewer and date for reviewed mappings', () => {
+      expect(() =>
+        ingester.validateIecNistStructure(withReview({ review_status: 'reviewed' }))
+      ).toThrow('reviewed mappings need reviewed_by and reviewed_date');
+      expect(() =>
+        ingester.validateIecNistStructure(
+          withReview({
+            review_status: 'reviewed',
+            reviewed_by: 'J. Smith',
+            reviewed_date: '2026-03-01',
+          })
+        )
+      ).not.toThrow();
+    });
+
+    it('should validate review fields of MITRE mitigation mappings', () => {
+      expect(() =>
+        ingester.validateMitreNistStructure({
+          meta: { title: 'Test' },
+          mitigation_mappings: [
+            { mitigation_id: 'M0801', nist_controls: ['AC-03'], reviewed_by: 42 },
+          ],
+        })
+      ).toThrow('reviewed_by must be a string');
+    });
+  });
+
   describe('MITRE-NIST mapping validation', () => {
     it('should validate valid MITRE-NIST structure', () => {
       const validData = {
@@ -196,7 +244,7 @@ describe('CrossMappingsIngester', () => {
       );
 
       expect(mapping).toBeDefined();
-      expect(mapping.target_requirement).toBe('IA-02');
+      expect(mapping.target_requirement).toBe('IA-2');
       expect(mapping.confidence).toBe(0.85);
     });
 
@@ -236,6 +284,113 @@ describe('CrossMappingsIngester', () => {
     });
   });
 
+  describe('Mapping provenance', () => {
+    const meta = {
+      title: 'IEC 62443 to NIST SP 800-53 Mappings',
+      description: 'Test',
+      version: '1.2',
+      created_date: '2026-01-01',
+      sources: ['IEC 62443-3-3:2013', 'NIST SP 800-53 Rev 5'],
+      confidence_basis: 'Expert judgement',
+    };
+    const mapping = {
+      source_standard: 'iec62443-3-3',
+      source_requirement: 'SR 1.1',
+      target_standard: 'nist-800-53',
+      target_requirement: 'IA-02',
+      mapping_type: 'related',
+      confidence: 0.85,
+      notes: 'Test mapping',
+    };
+
+    it("should record the mapping file and each mapping's review", () => {
+      ingester.ingestIecNistMappings({
+        meta,
+        mappings: [
+          {
+            ...mapping,
+            source_document: 'IEC 62443-3-3 Annex B',
+            source_version: '2013',
+            review_status: 'reviewed' as const,
+            reviewed_by: 'J. Smith',
+            reviewed_date: '2026-03-01',
+          },
+          { ...mapping, source_requirement: 'SR 2.1', target_requirement: 'AC-03' },
+        ],
+      });
+
+      const source = db.queryOne<any>(`SELECT * FROM mapping_sources`);
+      expect(source).toMatchObject({
+        mapping_file: 'data/mappings/iec62443-nist80053-mappings.json',
+        title: 'IEC 62443 to NIST SP 800-53 Mappings',
+        version: '1.2',
+        confidence_basis: 'Expert judgement',
+      });
+      expect(JSON.parse(source.sources)).toEqual(meta.sources);
+
+      const rows = db.query<any>(
+        `SELECT source_requirement, mapping_source_id, source_document, source_version,
+                review_status, reviewed_by, reviewed_date
+         FROM ot_mappings ORDER BY id`
+      );
+      expect(rows).toEqual([
+        {
+          source_requirement: 'SR 1.1',
+          mapping_source_id: source.id,
+          source_document: 'IEC 62443-3-3 Annex B',
+          source_version: '2013',
+          review_status: 'reviewed',
+          reviewed_by: 'J. Smith',
+          reviewed_date: '2026-03-01',
+        },
+        {
+          source_requirement: 'SR 2.1',
+          mapping_source_id: source.id,
+          source_document: null,
+          source_version: null,
+          review_status: 'draft',
+          reviewed_by: null,
+          reviewed_date: null,
+        },
+      ]);
+    });
+
+    it('should keep the mapping file ID when re-ingesting', () => {
+      ingester.ingestIecNistMappings({ meta, mappings: [mapping] });
+      ingester.ingestIecNistMappings({ meta: { ...meta, version: '1.3' }, mappings: [mapping] });
+
+      const sources = db.query<any>(`SELECT id, version FROM mapping_sources`);
+      expect(sources).toHaveLength(1);
+      expect(sources[0].version).toBe('1.3');
+      expect(db.queryOne<any>(`SELECT mapping_source_id FROM ot_mappings`)).toEqual({
+        mapping_source_id: sources[0].id,
+      });
+    });
+
+    it('should record the provenance of MITRE mitigation mappings', () => {
+      ingester.ingestMitreMappings({
+        meta,
+        mitigation_mappings: [
+          {
+            mitigation_id: 'M0801',
+            nist_controls: ['AC-03', 'AC-06'],
+            notes: 'Test',
+            review_status: 'disputed',
+          },
+        ],
+      });
+
+      const rows = db.query<any>(
+        `SELECT m.review_status, s.mapping_file FROM ot_mappings m
+         JOIN mapping_sources s ON s.id = m.mapping_source_id`
+      );
+      expect(rows).toEqual([
+        { review_status: 'disputed', mapping_file: 'data/mappings/mitre-nist80053-linkages.json' },
+        { review_status: 'disputed', mapping_file: 'data/mappings/mitre-nist80053-linkages.json' },
+      ]);
+    });
+  });
+
   describe('MITRE-NIST mapping ingestion', () => {
     it('should insert MITRE-NIST mappings and update linkages', () => {
       // Setup: Create MITRE data
@@ -279,7 +434,7 @@ describe('CrossMappingsIngester', () => {
         `SELECT ot_requirement_id FROM mitre_technique_mitigations
          WHERE mitigation_id = 'M0801'`
       );
-      expect(linkage?.ot_requirement_id).toBe('AC-03'); // Primary NIST control
+      expect(linkage?.ot_requirement_id).toBe('AC-3'); // Primary NIST control, canonical form
     });
 
     it('should not create duplicate MITRE mappings on re-run', () => {
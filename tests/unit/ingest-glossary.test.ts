@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { GlossaryIngester } from '../../scripts/ingest-glossary.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('GlossaryIngester', () => {
+  let testDbPath: string;
+  let db: DatabaseClient;
+  let ingester: GlossaryIngester;
+
+  const validData = {
+    meta: {
+      title: 'Test Glossary',
+      description: 'Test',
+      version: '1.2.0',
+      created_date: '2026-01-01',
+      sources: [],
+    },
+    entries: [
+      {
+        term: 'HMI',
+        term_type: 'acronym' as const,
+        category: 'asset',
+        definition: 'Operator interface',
+        expansions: ['human machine interface', 'human-machine interface'],
+      },
+      {
+        term: 'malware',
+        term_type: 'synonym' as const,
+        expansions: ['malicious code'],
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    testDbPath = createTestDbPath('ingest-glossary');
+    db = new DatabaseClient(testDbPath);
+    ingester = new GlossaryIngester(db);
+  });
+
+  afterEach(async () => {
+    db.close();
+    await cleanupTestDb(testDbPath);
+  });
+
+  describe('validation', () => {
+    it('should accept a valid glossary', () => {
+      expect(() => ingester.validateStructure(validData)).not.toThrow();
+    });
+
+    it('should reject missing meta.version', () => {
+      expect(() => ingester.validateStructure({ meta: { title: 'x' }, entries: [] })).toThrow(
+        'Invalid glossary JSON: missing or invalid meta.version'
+      );
+    });
+
+    it('should reject unknown term types', () => {
+      const data = {
+        ...validData,
+        entries: [{ term: 'X', term_type: 'slang', expansions: ['y'] }],
+      };
+      expect(() => ingester.validateStructure(data)).toThrow('term_type must be one of');
+    });
+
+    it('should reject entries without expansions', () => {
+      const data = {
+        ...validData,
+        entries: [{ term: 'X', term_type: 'acronym', expansions: [] }],
+      };
+      expect(() => ingester.validateStructure(data)).toThrow(
+        'expansions must have at least one entry'
+      );
+    });
+
+    it('should reject duplicate terms regardless of case', () => {
+      const data = {
+        ...validData,
+        entries: [
+          { term: 'DoS', term_type: 'acronym', expansions: ['denial of service'] },
+          { term: 'DOS', term_type: 'acronym', expansions: ['disk operating system'] },
+        ],
+      };
+      expect(() => ingester.validateStructure(data)).toThrow('duplicate term DOS');
+    });
+  });
+
+  describe('ingestion', () => {
+    it('should insert terms, expansions and the glossary version', () => {
+      const result = ingester.ingestEntries(validData);
+      expect(result).toEqual({ terms: 2, expansions: 3 });
+
+      const version = db.queryOne<{ value: string }>(
+        `SELECT value FROM db_metadata WHERE key = 'glossary_version'`
+      );
+      expect(version?.value).toBe('1.2.0');
+    });
+
+    it('should be idempotent', () => {
+      ingester.ingestEntries(validData);
+      ingester.ingestEntries(validData);
+
+      const terms = db.queryOne<{ count: number }>('SELECT COUNT(*) as count FROM ot_glossary');
+      const expansions = db.queryOne<{ count: number }>(
+        'SELECT COUNT(*) as count FROM ot_glossary_expansions'
+      );
+      expect(terms?.count).toBe(2);
+      expect(expansions?.count).toBe(3);
+    });
+
+    it('should ingest the bundled glossary file', async () => {
+      await ingester.ingestAll();
+
+      const terms = db.queryOne<{ count: number }>('SELECT COUNT(*) as count FROM ot_glossary');
+      expect(terms?.count).toBeGreaterThan(40);
+
+      const log = db.queryOne<{ status: string }>(
+        `SELECT status FROM ingestion_log WHERE operation = 'ingest:glossary'`
+      );
+      expect(log?.status).toBe('success');
+    });
+  });
+});
@@ -134,6 +134,48 @@ describe('Nist80053Ingester', () => {
       expect(controls).toHaveLength(1);
       expect(controls[0].control_id).toBe('CM-2');
     });
+
+    it('should parse withdrawn controls and their successors', () => {
+      const mockOscal = {
+        catalog: {
+          metadata: {
+            title: 'NIST SP 800-53 Rev 5',
+            version: 'Rev 5',
+          },
+          groups: [
+            {
+              id: 'ac',
+              title: 'Access Control',
+              controls: [
+                {
+                  id: 'ac-13',
+                  title: 'Supervision and Review — Access Control',
+                  props: [
+                    { name: 'label', value: 'AC-13' },
+                    { name: 'status', value: 'withdrawn' },
+                  ],
+                  links: [
+                    { href: '#ac-2', rel: 'incorporated-into' },
+                    { href: '#au-6', rel: 'incorporated-into' },
+                    { href: '#ac-2.12', rel: 'moved-to' },
+                    { href: 'https://example.org', rel: 'reference' },
+                  ],
+                },
+              ],
+            },
+          ],
+        },
+      };
+
+      const [control] = ingester.parseOscalCatalog(mockOscal);
+      expect(control.control_id).toBe('AC-13');
+      expect(control.status).toBe('withdrawn');
+      expect(control.incorporated_into).toEqual(['AC-2', 'AU-6']);
+      expect(control.moved_to).toEqual(['AC-2(12)']);
+      expect(control.description).toBe(
+        'Withdrawn: incorporated into AC-2, AU-6; moved to AC-2(12).'
+      );
+    });
   });
 
   describe('OT-Relevant Control Filtering', () => {
@@ -310,5 +352,74 @@ describe('Nist80053Ingester', () => {
 
       expect(count).toBe(3);
     });
+
+    it('should ingest withdrawn controls with supersedes mappings', () => {
+      db.run(`
+        INSERT INTO ot_standards (id, name, version, status)
+        VALUES ('nist-800-53', 'NIST SP 800-53', 'Rev 5', 'current')
+      `);
+
+      const mockControls = [
+        {
+          control_id: 'AC-2',
+          title: 'Account Management',
+          description: 'Manage system accounts...',
+          family: 'AC',
+        },
+        {
+          control_id: 'AC-13',
+          title: 'Supervision and Review — Access Control',
+          description: 'Withdrawn: incorporated into AC-2, AU-6.',
+          family: 'AC',
+          status: 'withdrawn' as const,
+          incorporated_into: ['AC-2', 'AU-6'],
+          moved_to: [],
+        },
+        {
+          control_id: 'AU-6',
+          title: 'Audit Record Review, Analysis, and Reporting',
+          description: 'Review and analyze system audit records...',
+          family: 'AU',
+        },
+        {
+          control_id: 'AC-15',
+          title: 'Automated Marking',
+          description: 'Withdrawn: incorporated into MP-3.',
+          family: 'AC',
+          status: 'withdrawn' as const,
+          incorporated_into: ['MP-3'],
+          moved_to: [],
+        },
+      ];
+
+      ingester.ingestControls(mockControls);
+      const before = db.queryOne<{ id: number }>(
+        'SELECT id FROM ot_requirements WHERE standard_id = ? AND requirement_id = ?',
+        ['nist-800-53', 'AC-13']
+      );
+      ingester.ingestControls(mockControls);
+      ingester.ingestWithdrawals(mockControls);
+
+      const withdrawn = db.queryOne<{ id: number; status: string | null }>(
+        'SELECT id, status FROM ot_requirements WHERE standard_id = ? AND requirement_id = ?',
+        ['nist-800-53', 'AC-13']
+      );
+      expect(withdrawn?.status).toBe('withdrawn');
+      // Re-ingestion updates the row in place
+      expect(withdrawn?.id).toBe(before?.id);
+
+      const mappings = db.query<{
+        source_requirement: string;
+        target_requirement: string;
+        mapping_type: string;
+      }>(
+        `SELECT source_requirement, target_requirement, mapping_type FROM ot_mappings
+         ORDER BY source_requirement`
+      );
+      expect(mappings).toEqual([
+        { source_requirement: 'AC-2', target_requirement: 'AC-13', mapping_type: 'supersedes' },
+        { source_requirement: 'AU-6', target_requirement: 'AC-13', mapping_type: 'supersedes' },
+      ]);
+    });
   });
 });
@@ -5,6 +5,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DatabaseClient } from '../../src/database/client.js';
 import { listStandards } from '../../src/tools/list-standards.js';
+import { registerStandardVersion } from '../../src/database/versions.js';
 import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
 
 describe('listStandards', () => {
@@ -241,4 +242,69 @@ describe('listStandards', () => {
       expect(statuses).toContain('superseded');
     });
   });
+
+  describe('Versions', () => {
+    beforeEach(() => {
+      for (const [version, status, published_date] of [
+        ['Rev 4', 'superseded', '2013-04-30'],
+        ['Rev 5', 'current', '2020-09-01'],
+      ] as const) {
+        registerStandardVersion(db, {
+          standard_id: 'nist-800-53',
+          name: 'NIST SP 800-53',
+          version,
+          status,
+          published_date,
+          url: `https://csrc.nist.gov/${version}`,
+        });
+      }
+      db.run(`INSERT INTO ot_standards (id, name, version, status) VALUES (?, ?, ?, ?)`, [
+        'iec62443-3-3',
+        'IEC 62443-3-3',
+        'v2.0',
+        'current',
+      ]);
+
+      const insert = (standard: string, requirement: string, version: string | null) =>
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, version) VALUES (?, ?, ?)`,
+          [standard, requirement, version]
+        );
+      insert('nist-800-53', 'AC-1', 'Rev 4');
+      insert('nist-800-53', 'AC-2', 'Rev 4');
+      insert('nist-800-53', 'AC-1', 'Rev 5');
+      insert('iec62443-3-3', 'SR 1.1', null);
+    });
+
+    it('should describe and count the current version by default', async () => {
+      const nist = (await listStandards(db)).find((s) => s.id === 'nist-800-53');
+
+      expect(nist).toMatchObject({ version: 'Rev 5', status: 'current', requirement_count: 1 });
+      expect(nist?.versions).toEqual([
+        { version: 'Rev 5', status: 'current', published_date: '2020-09-01' },
+        { version: 'Rev 4', status: 'superseded', published_date: '2013-04-30' },
+      ]);
+    });
+
+    it('should describe the requested version and leave out standards without it', async () => {
+      const result = await listStandards(db, { version: 'Rev 4' });
+
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({
+        id: 'nist-800-53',
+        version: 'Rev 4',
+        status: 'superseded',
+        published_date: '2013-04-30',
+        requirement_count: 2,
+      });
+    });
+
+    it('should match the version recorded on a standard without version entries', async () => {
+      const result = await listStandards(db, { version: 'v2.0' });
+
+      expect(result.map((s) => s.id)).toEqual(['iec62443-3-3']);
+      expect(result[0]?.requirement_count).toBe(1);
+      expect(result[0]?.versions).toEqual([]);
+    });
+  });
 });
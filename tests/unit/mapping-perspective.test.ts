@@ -0,0 +1,130 @@
+/**
+ * Unit tests for reading mappings from one of their requirements
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import {
+  fromPerspective,
+  inverseRelationship,
+  mappingDirection,
+} from '../../src/database/mapping-perspective.js';
+import { MappingType, OTMapping } from '../../src/types/index.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('inverseRelationship', () => {
+  it('should swap broader/narrower and supersedes/superseded_by', () => {
+    expect(inverseRelationship('broader')).toBe('narrower');
+    expect(inverseRelationship('narrower')).toBe('broader');
+    expect(inverseRelationship('supersedes')).toBe('superseded_by');
+    expect(inverseRelationship('superseded_by')).toBe('supersedes');
+  });
+
+  it('should keep symmetric relationships', () => {
+    expect(inverseRelationship('exact_match')).toBe('exact_match');
+    expect(inverseRelationship('partial')).toBe('partial');
+    expect(inverseRelationship('related')).toBe('related');
+  });
+});
+
+describe('mappingDirection', () => {
+  const mapping = {
+    source_standard: 'nist-800-53',
+    source_requirement: 'IA-02',
+    target_standard: 'nist-800-82',
+    target_requirement: 'G-6.1',
+    mapping_type: 'broader' as MappingType,
+  };
+
+  it('should tell outgoing from incoming mappings, whichever way the ID is written', () => {
+    expect(mappingDirection(mapping, 'nist-800-53', 'IA-2')).toBe('outgoing');
+    expect(mappingDirection(mapping, 'nist-800-82', 'G-6.1')).toBe('incoming');
+  });
+});
+
+describe('fromPerspective', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const map = (source: [string, string], target: [string, string], mappingType: MappingType) =>
+    db.run(
+      `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+       VALUES (?, ?, ?, ?, ?)`,
+      [...source, ...target, mappingType]
+    );
+  const mappings = () => db.query<OTMapping>(`SELECT * FROM ot_mappings ORDER BY id`);
+
+  beforeEach(() => {
+    testDbPath = createTestDbPath('mapping-perspective');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name) VALUES ('nist-800-53', 'NIST SP 800-53')`);
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, title)
+       VALUES ('nist-800-53', 'AC-2', 'Account Management'),
+              ('nist-800-53', 'AC-13', 'Supervision and Review')`
+    );
+    db.run(
+      `INSERT INTO mitre_ics_mitigations (mitigation_id, name) VALUES ('M0801', 'Access Management')`
+    );
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should keep outgoing mappings as stored and invert incoming ones', () => {
+    map(['nist-800-53', 'AC-2'], ['nist-800-82', 'G-6.1'], 'broader');
+    map(['nist-800-82', 'G-6.2'], ['nist-800-53', 'AC-2'], 'broader');
+
+    const [outgoing, incoming] = fromPerspective(db, 'nist-800-53', 'AC-2', mappings());
+
+    expect(outgoing).toMatchObject({
+      mapping_type: 'broader',
+      relationship: 'broader',
+      direction: 'outgoing',
+      counterpart: { standard_id: 'nist-800-82', requirement_id: 'G-6.1', title: null },
+    });
+    expect(incoming).toMatchObject({
+      mapping_type: 'broader',
+      relationship: 'narrower',
+      direction: 'incoming',
+      counterpart: { standard_id: 'nist-800-82', requirement_id: 'G-6.2' },
+    });
+  });
+
+  it('should read supersedes mappings from the withdrawn requirement as superseded_by', () => {
+    map(['nist-800-53', 'AC-2'], ['nist-800-53', 'AC-13'], 'supersedes');
+
+    const [withdrawn] = fromPerspective(db, 'nist-800-53', 'AC-13', mappings());
+    const [successor] = fromPerspective(db, 'nist-800-53', 'AC-2', mappings());
+
+    expect(withdrawn).toMatchObject({
+      relationship: 'superseded_by',
+      direction: 'incoming',
+      counterpart: { requirement_id: 'AC-2', title: 'Account Management' },
+    });
+    expect(successor).toMatchObject({
+      relationship: 'supersedes',
+      direction: 'outgoing',
+      counterpart: { requirement_id: 'AC-13', title: 'Supervision and Review' },
+    });
+  });
+
+  it('should find counterpart titles whichever way the ID is written, and for MITRE', () => {
+    map(['mitre-ics', 'M0801'], ['nist-800-53', 'AC-02'], 'related');
+
+    const [fromMitigation] = fromPerspective(db, 'mitre-ics', 'M0801', mappings());
+    const [fromControl] = fromPerspective(db, 'nist-800-53', 'AC-2', mappings());
+
+    expect(fromMitigation?.counterpart).toEqual({
+      standard_id: 'nist-800-53',
+      requirement_id: 'AC-02',
+      title: 'Account Management',
+    });
+    expect(fromControl?.counterpart.title).toBe('Access Management');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Unit tests for the requirement ID normalization script
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { RequirementIdNormalizer } from '../../scripts/normalize-requirement-ids.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('RequirementIdNormalizer', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = createTestDbPath('normalize-requirement-ids');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name) VALUES (?, ?), (?, ?), (?, ?)`, [
+      'nist-800-53',
+      'NIST SP 800-53',
+      'iec62443-4-2',
+      'IEC 62443-4-2',
+      'mitre-ics',
+      'MITRE ATT&CK for ICS',
+    ]);
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, parent_requirement_id, title)
+       VALUES (?, ?, ?, ?), (?, ?, ?, ?), (?, ?, ?, ?)`,
+      [
+        'nist-800-53',
+        'AC-02',
+        null,
+        'Account Management',
+        'iec62443-4-2',
+        'CR 1.1 RE(1)',
+        'CR1.1',
+        'Unique identification',
+        'nist-800-53',
+        'SC-7',
+        null,
+        'Boundary Protection',
+      ]
+    );
+    db.run(
+      `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+       VALUES (?, ?, ?, ?, ?), (?, ?, ?, ?, ?), (?, ?, ?, ?, ?)`,
+      [
+        'iec62443-4-2',
+        'CR 1.1 RE(1)',
+        'nist-800-53',
+        'AC-02',
+        'related',
+        'iec62443-4-2',
+        'CR 1.1 RE 1',
+        'nist-800-53',
+        'AC-2',
+        'related',
+        'mitre-ics',
+        'M0801',
+        'nist-800-53',
+        'SC-07',
+        'related',
+      ]
+    );
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should rewrite requirement IDs to their canonical form', () => {
+    const report = new RequirementIdNormalizer(db).normalizeAll();
+
+    expect(report).toEqual({ requirements: 2, mappings: 1, duplicate_mappings: 1, linkages: 0 });
+    expect(
+      db.query(
+        `SELECT requirement_id, parent_requirement_id FROM ot_requirements ORDER BY requirement_id`
+      )
+    ).toEqual([
+      { requirement_id: 'AC-2', parent_requirement_id: null },
+      { requirement_id: 'CR 1.1 RE 1', parent_requirement_id: 'CR 1.1' },
+      { requirement_id: 'SC-7', parent_requirement_id: null },
+    ]);
+    expect(
+      db.query(
+        `SELECT source_requirement, target_requirement FROM ot_mappings ORDER BY target_requirement`
+      )
+    ).toEqual([
+      { source_requirement: 'CR 1.1 RE 1', target_requirement: 'AC-2' },
+      { source_requirement: 'M0801', target_requirement: 'SC-7' },
+    ]);
+  });
+
+  it('should keep the full-text index in step', () => {
+    new RequirementIdNormalizer(db).normalizeAll();
+
+    const hits = db.query<{ requirement_id: string }>(
+      `SELECT requirement_id FROM ot_requirements_fts WHERE ot_requirements_fts MATCH ?`,
+      ['account']
+    );
+    expect(hits).toEqual([{ requirement_id: 'AC-2' }]);
+  });
+
+  it('should change nothing on a second run', () => {
+    const normalizer = new RequirementIdNormalizer(db);
+    normalizer.normalizeAll();
+
+    expect(normalizer.normalizeAll()).toEqual({
+      requirements: 0,
+      mappings: 0,
+      duplicate_mappings: 0,
+      linkages: 0,
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Unit tests for standard structural groups
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  requirementGroup,
+  standardGroups,
+  tacticGroup,
+} from '../../src/database/requirement-groups.js';
+
+describe('requirementGroup', () => {
+  it('should find IEC 62443 foundational requirements', () => {
+    expect(requirementGroup('iec62443-3-3', 'SR 1.1 RE 2')).toEqual({
+      id: 'FR 1',
+      title: 'Identification and authentication control',
+    });
+    expect(requirementGroup('iec62443-4-2', 'CR 7.6')?.id).toBe('FR 7');
+    expect(requirementGroup('iec62443-4-2', 'EDR 3.2 RE 1')?.title).toBe('System integrity');
+    expect(requirementGroup('iec62443-3-3', 'SR 9.1')).toBeNull();
+  });
+
+  it('should find NIST 800-53 control families', () => {
+    expect(requirementGroup('nist-800-53', 'sc-7(3)')).toEqual({
+      id: 'SC',
+      title: 'System and Communications Protection',
+    });
+    expect(requirementGroup('nist-800-53', 'XX-1')).toBeNull();
+  });
+
+  it('should find NIST 800-82 chapters and appendices', () => {
+    expect(requirementGroup('nist-800-82', 'G-6.11')).toEqual({
+      id: 'Chapter 6',
+      title: 'Security Program',
+    });
+    expect(requirementGroup('nist-800-82', 'G-AppG.1')?.id).toBe('Appendix G');
+    expect(requirementGroup('nist-800-82', 'G-4.1')).toEqual({
+      id: 'Chapter 4',
+      title: 'Chapter 4',
+    });
+  });
+
+  it('should return null for standards without groups', () => {
+    expect(requirementGroup('std-x', 'SR 1.1')).toBeNull();
+    expect(standardGroups('std-x')).toEqual([]);
+  });
+});
+
+describe('tacticGroup', () => {
+  it('should name MITRE ATT&CK for ICS tactics', () => {
+    expect(tacticGroup('command-and-control')).toEqual({
+      id: 'command-and-control',
+      title: 'Command and Control',
+    });
+    expect(tacticGroup('new-tactic')).toEqual({ id: 'new-tactic', title: 'New Tactic' });
+    expect(standardGroups('mitre-ics')[0]?.id).toBe('initial-access');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Unit tests for requirement ID normalization
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import {
+  canonicalRequirementId,
+  normalizeMitreId,
+  parseRequirementReference,
+  requirementKey,
+  requirementMappings,
+  resolveRequirementId,
+} from '../../src/database/requirement-ids.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('parseRequirementReference', () => {
+  it('should split standard prefixes off', () => {
+    expect(parseRequirementReference('IEC 62443-3-3 SR 1.1')).toEqual({
+      standard: 'iec62443-3-3',
+      requirement_id: 'SR 1.1',
+    });
+    expect(parseRequirementReference('ISA/IEC 62443-4-2:2019 CR 1.1 RE(1)')).toEqual({
+      standard: 'iec62443-4-2',
+      requirement_id: 'CR 1.1 RE(1)',
+    });
+    expect(parseRequirementReference('NIST SP 800-53 Rev. 5 AC-2(1)')).toEqual({
+      standard: 'nist-800-53',
+      requirement_id: 'AC-2(1)',
+    });
+    expect(parseRequirementReference('MITRE ATT&CK for ICS T0800')).toEqual({
+      standard: 'mitre-ics',
+      requirement_id: 'T0800',
+    });
+  });
+
+  it('should leave IDs without a prefix alone', () => {
+    expect(parseRequirementReference(' AC-2 ')).toEqual({ standard: null, requirement_id: 'AC-2' });
+    expect(parseRequirementReference('NIST 800-53')).toEqual({
+      standard: null,
+      requirement_id: 'NIST 800-53',
+    });
+  });
+});
+
+describe('requirementKey', () => {
+  it('should give equal keys to notations of the same requirement', () => {
+    expect(requirementKey('AC-02')).toBe(requirementKey('ac 2'));
+    expect(requirementKey('SR1.1')).toBe(requirementKey('SR 1.1'));
+    expect(requirementKey('CR 1.1 RE(1)')).toBe(requirementKey('CR 1.1 RE 1'));
+    expect(requirementKey('AC-02(01)')).toBe(requirementKey('AC-2(1)'));
+  });
+
+  it('should keep different requirements apart', () => {
+    expect(requirementKey('G-6.1')).not.toBe(requirementKey('G-6.10'));
+    expect(requirementKey('SR 1.1')).not.toBe(requirementKey('SR 1.1 RE 1'));
+    expect(requirementKey('SR 1.1')).not.toBe(requirementKey('SR 11'));
+  });
+});
+
+describe('canonicalRequirementId', () => {
+  it('should use the published notation of each standard', () => {
+    expect(canonicalRequirementId('nist-800-53', 'AC-02')).toBe('AC-2');
+    expect(canonicalRequirementId('nist-800-53', 'ac-2 (01)')).toBe('AC-2(1)');
+    expect(canonicalRequirementId('iec62443-3-3', 'sr1.1')).toBe('SR 1.1');
+    expect(canonicalRequirementId('iec62443-4-2', 'CR 1.1 RE(1)')).toBe('CR 1.1 RE 1');
+    expect(canonicalRequirementId('mitre-ics', 't800')).toBe('T0800');
+  });
+
+  it('should leave other IDs unchanged', () => {
+    expect(canonicalRequirementId('nist-800-82', ' G-6.1 ')).toBe('G-6.1');
+    expect(canonicalRequirementId('nist-800-53', 'Appendix A')).toBe('Appendix A');
+  });
+});
+
+describe('normalizeMitreId', () => {
+  it('should normalize technique and mitigation IDs', () => {
+    expect(normalizeMitreId('t0800')).toBe('T0800');
+    expect(normalizeMitreId('MITRE ATT&CK T0800.1')).toBe('T0800.001');
+    expect(normalizeMitreId('m801')).toBe('M0801');
+  });
+});
+
+describe('resolveRequirementId', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = createTestDbPath('requirement-ids');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name) VALUES (?, ?), (?, ?)`, [
+      'nist-800-53',
+      'NIST SP 800-53',
+      'iec62443-4-2',
+      'IEC 62443-4-2',
+    ]);
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, title)
+       VALUES (?, ?, ?), (?, ?, ?), (?, ?, ?)`,
+      [
+        'nist-800-53',
+        'AC-2',
+        'Account Management',
+        'nist-800-53',
+        'IA-05',
+        'Authenticator Management',
+        'iec62443-4-2',
+        'CR 1.1 RE 1',
+        'Unique identification',
+      ]
+    );
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should resolve notations to the stored ID', () => {
+    expect(resolveRequirementId(db, 'nist-800-53', 'AC-02')).toBe('AC-2');
+    expect(resolveRequirementId(db, 'nist-800-53', 'NIST SP 800-53 ac 2')).toBe('AC-2');
+    expect(resolveRequirementId(db, 'nist-800-53', 'IA-5')).toBe('IA-05');
+    expect(resolveRequirementId(db, 'iec62443-4-2', 'CR1.1 RE(1)')).toBe('CR 1.1 RE 1');
+  });
+
+  it('should not resolve unknown IDs or a prefix naming another standard', () => {
+    expect(resolveRequirementId(db, 'nist-800-53', 'AC-3')).toBeNull();
+    expect(resolveRequirementId(db, 'iec62443-4-2', 'NIST SP 800-53 AC-2')).toBeNull();
+  });
+
+  it('should find mappings whichever way they write the ID', () => {
+    db.run(
+      `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type)
+       VALUES (?, ?, ?, ?, ?), (?, ?, ?, ?, ?)`,
+      [
+        'iec62443-4-2',
+        'CR 1.1 RE 1',
+        'nist-800-53',
+        'AC-02',
+        'related',
+        'iec62443-4-2',
+        'CR 1.1 RE 1',
+        'nist-800-53',
+        'IA-2',
+        'related',
+      ]
+    );
+
+    expect(requirementMappings(db, 'nist-800-53', 'AC-2').map((m) => m.target_requirement)).toEqual(
+      ['AC-02']
+    );
+    expect(requirementMappings(db, 'iec62443-4-2', 'CR 1.1 RE(1)')).toHaveLength(2);
+  });
+});
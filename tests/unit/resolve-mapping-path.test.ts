@@ -0,0 +1,226 @@
+/**
+ * Unit tests for resolve_mapping_path tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { resolveMappingPath } from '../../src/tools/resolve-mapping-path.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('resolveMappingPath', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const insertRequirement = (standard: string, requirementId: string) =>
+    db.run(`INSERT INTO ot_requirements (standard_id, requirement_id, title) VALUES (?, ?, ?)`, [
+      standard,
+      requirementId,
+      `Title of ${requirementId}`,
+    ]);
+
+  const insertMapping = (
+    source: [string, string],
+    target: [string, string],
+    type: string,
+    confidence: number | null
+  ) =>
+    db.run(
+      `INSERT INTO ot_mappings
+       (source_standard, source_requirement, target_standard, target_requirement, mapping_type, confidence)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [...source, ...target, type, confidence]
+    );
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('resolve-mapping-path');
+    db = new DatabaseClient(testDbPath);
+
+    for (const [id, name] of [
+      ['iec62443-3-3', 'IEC 62443-3-3'],
+      ['nist-800-53', 'NIST SP 800-53'],
+      ['nist-800-82', 'NIST SP 800-82'],
+    ]) {
+      db.run(`INSERT INTO ot_standards (id, name) VALUES (?, ?)`, [id, name]);
+    }
+    insertRequirement('iec62443-3-3', 'SR 1.1');
+    insertRequirement('iec62443-3-3', 'SR 1.2');
+    insertRequirement('nist-800-53', 'IA-2');
+    insertRequirement('nist-800-53', 'AC-3');
+    insertRequirement('nist-800-82', 'G-6.2.1');
+    db.run(`INSERT INTO mitre_ics_mitigations (mitigation_id, name) VALUES (?, ?)`, [
+      'M0804',
+      'Human User Authentication',
+    ]);
+
+    // SR 1.1 -> IA-2 <- G-6.2.1, IA-2 <- M0804, SR 1.1 -> AC-3 -> (withdrawn) AC-2
+    insertMapping(['iec62443-3-3', 'SR 1.1'], ['nist-800-53', 'IA-2'], 'broader', 0.9);
+    insertMapping(['nist-800-82', 'G-6.2.1'], ['nist-800-53', 'IA-2'], 'narrower', 0.9);
+    insertMapping(['mitre-ics', 'M0804'], ['nist-800-53', 'IA-2'], 'related', 0.8);
+    insertMapping(['iec62443-3-3', 'SR 1.1'], ['nist-800-53', 'AC-3'], 'partial', null);
+    insertMapping(['nist-800-53', 'AC-3'], ['nist-800-53', 'AC-2'], 'supersedes', 1.0);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return null for an unknown requirement', async () => {
+    expect(
+      await resolveMappingPath(db, { requirement_id: 'SR 9.9', standard: 'iec62443-3-3' })
+    ).toBeNull();
+    expect(
+      await resolveMappingPath(db, { requirement_id: '', standard: 'iec62443-3-3' })
+    ).toBeNull();
+  });
+
+  it('should keep curated mappings apart from inferred ones', async () => {
+    const result = await resolveMappingPath(db, {
+      requirement_id: 'SR1.1',
+      standard: 'iec62443-3-3',
+    });
+
+    expect(result?.source).toEqual({
+      standard_id: 'iec62443-3-3',
+      requirement_id: 'SR 1.1',
+      title: 'Title of SR 1.1',
+    });
+    expect(result?.curated.map((m) => [m.requirement_id, m.relationship, m.confidence])).toEqual([
+      ['IA-2', 'broader', 0.9],
+      ['AC-3', 'partial', null],
+    ]);
+    expect(result?.inferred.map((m) => m.requirement_id)).toEqual(['G-6.2.1', 'M0804']);
+    expect(result?.truncated).toBe(false);
+  });
+
+  it('should follow mappings in reverse and compose the relationship', async () => {
+    const result = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+    });
+    const guidance = result?.inferred.find((m) => m.requirement_id === 'G-6.2.1');
+
+    // SR 1.1 broader than IA-2, IA-2 broader than G-6.2.1 (its mapping read backwards)
+    expect(guidance?.relationship).toBe('broader');
+    expect(guidance?.confidence).toBeCloseTo(0.81);
+    expect(guidance?.hops).toBe(2);
+    expect(guidance?.title).toBe('Title of G-6.2.1');
+    expect(
+      guidance?.path.map((step) => [step.to_requirement, step.mapping_type, step.reversed])
+    ).toEqual([
+      ['IA-2', 'broader', false],
+      ['G-6.2.1', 'broader', true],
+    ]);
+
+    const mitigation = result?.inferred.find((m) => m.requirement_id === 'M0804');
+    expect(mitigation?.relationship).toBe('related');
+    expect(mitigation?.title).toBe('Human User Authentication');
+  });
+
+  it('should only infer relationships to other standards, with rounded confidences', async () => {
+    insertMapping(['iec62443-3-3', 'SR 1.2'], ['nist-800-53', 'IA-2'], 'related', 0.7);
+
+    const result = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+    });
+
+    expect(result?.inferred.map((m) => m.requirement_id)).toEqual(['G-6.2.1', 'M0804']);
+    // 0.9 * 0.8 is 0.7200000000000001 in floating point
+    expect(result?.inferred.find((m) => m.requirement_id === 'M0804')?.confidence).toBe(0.72);
+  });
+
+  it('should not follow supersedes mappings', async () => {
+    const result = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+      options: { max_hops: 4 },
+    });
+
+    expect(result?.inferred.map((m) => m.requirement_id)).not.toContain('AC-2');
+  });
+
+  it('should filter inferred relationships by standard, confidence and limit', async () => {
+    const byStandard = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+      options: { standards: ['mitre-ics'] },
+    });
+    expect(byStandard?.curated).toEqual([]);
+    expect(byStandard?.inferred.map((m) => m.requirement_id)).toEqual(['M0804']);
+
+    const byConfidence = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+      options: { min_confidence: 0.75 },
+    });
+    expect(byConfidence?.inferred.map((m) => m.requirement_id)).toEqual(['G-6.2.1']);
+
+    const limited = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+      options: { limit: 1 },
+    });
+    expect(limited?.inferred).toHaveLength(1);
+    expect(limited?.truncated).toBe(true);
+  });
+
+  it('should not follow retired or, with reviewed_only, unreviewed mappings', async () => {
+    db.run(`UPDATE ot_mappings SET review_status = 'retired' WHERE source_requirement = 'M0804'`);
+    db.run(
+      `UPDATE ot_mappings SET review_status = 'reviewed'
+       WHERE source_requirement = 'SR 1.1' AND target_requirement = 'IA-2'`
+    );
+
+    const result = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+    });
+    expect(result?.inferred.map((m) => m.requirement_id)).toEqual(['G-6.2.1']);
+
+    const reviewed = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+      options: { reviewed_only: true },
+    });
+    expect(reviewed?.curated.map((m) => m.requirement_id)).toEqual(['IA-2']);
+    expect(reviewed?.inferred).toEqual([]);
+  });
+
+  it('should stop at max_hops and count alternative paths', async () => {
+    insertMapping(['iec62443-3-3', 'SR 1.2'], ['nist-800-82', 'G-6.2.1'], 'exact_match', 0.5);
+    insertMapping(['iec62443-3-3', 'SR 1.2'], ['nist-800-53', 'IA-2'], 'related', 0.5);
+
+    const oneHop = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+      options: { max_hops: 1 },
+    });
+    expect(oneHop?.max_hops).toBe(1);
+    expect(oneHop?.inferred).toEqual([]);
+
+    const threeHops = await resolveMappingPath(db, {
+      requirement_id: 'SR 1.1',
+      standard: 'iec62443-3-3',
+      options: { max_hops: 3 },
+    });
+    const guidance = threeHops?.inferred.find((m) => m.requirement_id === 'G-6.2.1');
+    // SR 1.1 -> IA-2 -> G-6.2.1 and SR 1.1 -> IA-2 -> SR 1.2 -> G-6.2.1
+    expect(guidance?.path_count).toBe(2);
+    expect(guidance?.hops).toBe(2);
+    expect(guidance?.confidence).toBe(0.81);
+  });
+
+  it('should start from a MITRE mitigation', async () => {
+    const result = await resolveMappingPath(db, {
+      requirement_id: 'm804',
+      standard: 'mitre-ics',
+    });
+
+    expect(result?.source.requirement_id).toBe('M0804');
+    expect(result?.curated.map((m) => m.requirement_id)).toEqual(['IA-2']);
+    expect(result?.inferred.map((m) => m.requirement_id)).toContain('SR 1.1');
+  });
+});
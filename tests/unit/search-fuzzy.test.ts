@@ -0,0 +1,83 @@
+/**
+ * Unit tests for typo-tolerant term correction
+ */
+
+import { describe, it, expect } from 'vitest';
+import { correctQuery, editDistance, suggestWord } from '../../src/search/fuzzy.js';
+import { parseQuery } from '../../src/search/query-parser.js';
+
+const vocabulary = new Map<string, number>([
+  ['authentication', 40],
+  ['segmentation', 12],
+  ['firmware', 20],
+  ['firmly', 1],
+  ['update', 30],
+  ['access', 50],
+  ['control', 60],
+  ['wireless', 8],
+]);
+
+function correct(query: string, known: string[] = []): string | null {
+  return correctQuery(query, parseQuery(query), vocabulary, (w) => known.includes(w));
+}
+
+describe('fuzzy term correction', () => {
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('segmantation', 'segmentation', 2)).toBe(1);
+      expect(editDistance('authentification', 'authentication', 2)).toBe(2);
+      expect(editDistance('acess', 'access', 2)).toBe(1);
+    });
+
+    it('should count an adjacent transposition as one edit', () => {
+      expect(editDistance('contorl', 'control', 2)).toBe(1);
+    });
+
+    it('should stop at the bound', () => {
+      expect(editDistance('firmware', 'segmentation', 2)).toBe(3);
+      expect(editDistance('a', 'abcdef', 2)).toBe(3);
+    });
+  });
+
+  describe('suggestWord', () => {
+    it('should return the closest vocabulary word', () => {
+      expect(suggestWord('firmwear', vocabulary)).toBe('firmware');
+      expect(suggestWord('wireles', vocabulary)).toBe('wireless');
+    });
+
+    it('should allow only one edit for short words', () => {
+      expect(suggestWord('acces', vocabulary)).toBe('access');
+      expect(suggestWord('axes', vocabulary)).toBeNull();
+    });
+
+    it('should return null when nothing is close', () => {
+      expect(suggestWord('modbus', vocabulary)).toBeNull();
+    });
+  });
+
+  describe('correctQuery', () => {
+    it('should correct misspelled words', () => {
+      expect(correct('authentification')).toBe('authentication');
+      expect(correct('firmwear update')).toBe('firmware update');
+    });
+
+    it('should preserve operators, fields and quoting', () => {
+      expect(correct('title:"acess control" -wireles')).toBe('title:"access control" -wireless');
+      expect(correct('segmantation OR firmwear')).toBe('segmentation OR firmware');
+    });
+
+    it('should return null when every word is known', () => {
+      expect(correct('access control')).toBeNull();
+    });
+
+    it('should not correct words accepted by isKnown', () => {
+      expect(correct('firmwear', ['firmwear'])).toBeNull();
+    });
+
+    it('should not correct short words, IDs or prefix wildcards', () => {
+      expect(correct('OT')).toBeNull();
+      expect(correct('AC-2')).toBeNull();
+      expect(correct('firmwea*')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * Unit tests for search_ot_knowledge tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { searchKnowledge } from '../../src/tools/search-knowledge.js';
+import { QuerySyntaxError } from '../../src/search/query-parser.js';
+import { registerStandardVersion } from '../../src/database/versions.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('searchKnowledge', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('search-knowledge');
+    db = new DatabaseClient(testDbPath);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  describe('Empty Database', () => {
+    it('should return no hits', async () => {
+      const result = await searchKnowledge(db, { query: 'workstation' });
+      expect(result).toEqual({ data: [], total_count: 0, has_more: false, type_counts: {} });
+    });
+
+    it('should return no hits for an empty query', async () => {
+      const result = await searchKnowledge(db, { query: '  ' });
+      expect(result.data).toEqual([]);
+    });
+  });
+
+  describe('With Data', () => {
+    beforeEach(() => {
+      db.run(`INSERT INTO ot_standards (id, name) VALUES (?, ?), (?, ?)`, [
+        'nist-800-53',
+        'NIST SP 800-53',
+        'nist-800-82',
+        'NIST SP 800-82',
+      ]);
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, component_type)
+         VALUES (?, ?, ?, ?, ?), (?, ?, ?, ?, ?)`,
+        [
+          'nist-800-53',
+          'CM-7',
+          'Least Functionality',
+          'Harden each engineering workstation.',
+          null,
+          'nist-800-82',
+          'G-6.4',
+          'Engineering Workstation Security',
+          'Protect workstations used to program controllers.',
+          'guidance',
+        ]
+      );
+      db.run(
+        `INSERT INTO mitre_ics_techniques (technique_id, tactic, name, description)
+         VALUES (?, ?, ?, ?)`,
+        [
+          'T0873',
+          'persistence',
+          'Project File Infection',
+          'Adversaries may infect project files on an engineering workstation.',
+        ]
+      );
+      db.run(
+        `INSERT INTO mitre_ics_mitigations (mitigation_id, name, description) VALUES (?, ?, ?)`,
+        ['M0947', 'Audit', 'Audit engineering workstation project files.']
+      );
+      db.run(
+        `INSERT INTO zones (name, purdue_level, description, typical_assets) VALUES (?, ?, ?, ?)`,
+        ['Site Operations', 3, 'Site-wide operations', 'Historian, engineering workstation']
+      );
+      db.run(`INSERT INTO conduits (name, conduit_type, description) VALUES (?, ?, ?)`, [
+        'Engineering Access',
+        'remote',
+        'Remote engineering workstation access',
+      ]);
+    });
+
+    it('should return typed hits across all entity types', async () => {
+      const result = await searchKnowledge(db, { query: 'engineering workstation' });
+
+      expect(result.total_count).toBe(6);
+      expect(result.type_counts).toEqual({
+        requirement: 1,
+        guidance: 1,
+        technique: 1,
+        mitigation: 1,
+        zone: 1,
+        conduit: 1,
+      });
+      expect(result.data.map((h) => h.type).sort()).toEqual([
+        'conduit',
+        'guidance',
+        'mitigation',
+        'requirement',
+        'technique',
+        'zone',
+      ]);
+    });
+
+    it('should rank all types on one score scale', async () => {
+      const result = await searchKnowledge(db, { query: 'engineering workstation' });
+
+      expect(result.data[0]?.score).toBe(1);
+      // Title matches rank above body-only matches
+      expect(result.data[0]?.id).toBe('G-6.4');
+      for (let i = 1; i < result.data.length; i++) {
+        expect(result.data[i]?.score).toBeLessThanOrEqual(result.data[i - 1]?.score ?? 1);
+      }
+    });
+
+    it('should give each hit the tool call that fetches it in full', async () => {
+      const result = await searchKnowledge(db, { query: 'engineering workstation' });
+      const followUps = Object.fromEntries(result.data.map((h) => [h.id, h.follow_up]));
+
+      expect(followUps).toEqual({
+        'CM-7': {
+          tool: 'get_ot_requirement',
+          arguments: { requirement_id: 'CM-7', standard: 'nist-800-53' },
+        },
+        'G-6.4': {
+          tool: 'get_ot_requirement',
+          arguments: { requirement_id: 'G-6.4', standard: 'nist-800-82' },
+        },
+        T0873: { tool: 'get_mitre_ics_technique', arguments: { technique_id: 'T0873' } },
+        M0947: { tool: 'get_mitre_ics_mitigation', arguments: { mitigation_id: 'M0947' } },
+        'Site Operations': { tool: 'get_zone_conduit_guidance', arguments: { purdue_level: 3 } },
+        'Engineering Access': { tool: 'get_zone_conduit_guidance', arguments: {} },
+      });
+    });
+
+    it('should filter by entity type', async () => {
+      const result = await searchKnowledge(db, {
+        query: 'engineering workstation',
+        options: { entity_types: ['technique', 'zone'] },
+      });
+
+      expect(result.data.map((h) => h.id).sort()).toEqual(['Site Operations', 'T0873']);
+      expect(result.type_counts).toEqual({ technique: 1, zone: 1 });
+    });
+
+    it('should report has_more when hits exceed the limit', async () => {
+      const result = await searchKnowledge(db, {
+        query: 'engineering workstation',
+        options: { limit: 2 },
+      });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.total_count).toBe(6);
+      expect(result.has_more).toBe(true);
+    });
+
+    it('should map field prefixes to ID, title and body', async () => {
+      const byId = await searchKnowledge(db, { query: 'id:M0947' });
+      expect(byId.data.map((h) => h.id)).toEqual(['M0947']);
+
+      const byTitle = await searchKnowledge(db, { query: 'title:workstation' });
+      expect(byTitle.data.map((h) => h.id)).toEqual(['G-6.4']);
+    });
+
+    it('should highlight matched terms in snippets', async () => {
+      const result = await searchKnowledge(db, { query: 'historian' });
+      expect(result.data[0]?.snippet).toContain('**Historian**');
+    });
+
+    it('should relax plain queries to OR when nothing matches all words', async () => {
+      const result = await searchKnowledge(db, { query: 'historian firmware' });
+      expect(result.data.map((h) => h.id)).toEqual(['Site Operations']);
+    });
+
+    it('should search only current, non-withdrawn requirements', async () => {
+      registerStandardVersion(db, {
+        standard_id: 'nist-800-53',
+        name: 'NIST SP 800-53',
+        version: 'Rev 4',
+        status: 'superseded',
+        published_date: '2013-04-30',
+        url: 'https://csrc.nist.gov/rev-4',
+      });
+      registerStandardVersion(db, {
+        standard_id: 'nist-800-53',
+        name: 'NIST SP 800-53',
+        version: 'Rev 5',
+        status: 'current',
+        published_date: '2020-09-01',
+        url: 'https://csrc.nist.gov/rev-5',
+      });
+      db.run(`UPDATE ot_requirements SET version = 'Rev 5' WHERE standard_id = 'nist-800-53'`);
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, version, status)
+         VALUES (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?)`,
+        [
+          'nist-800-53',
+          'CM-7',
+          'Least Functionality',
+          'Harden each engineering workstation.',
+          'Rev 4',
+          null,
+          'nist-800-53',
+          'SA-7',
+          'User-installed Software',
+          'Withdrawn: engineering workstation software moved to CM-11.',
+          'Rev 5',
+          'withdrawn',
+        ]
+      );
+
+      const result = await searchKnowledge(db, {
+        query: 'engineering workstation',
+        options: { entity_types: ['requirement'] },
+      });
+
+      expect(result.data.map((h) => h.id)).toEqual(['CM-7']);
+      expect(result.type_counts).toEqual({ requirement: 1 });
+    });
+
+    it('should throw QuerySyntaxError for malformed queries', async () => {
+      await expect(searchKnowledge(db, { query: '"unterminated' })).rejects.toThrow(
+        QuerySyntaxError
+      );
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for the search_ot_requirements query language
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  compileToFts,
+  isPlainQuery,
+  parseQuery,
+  QuerySyntaxError,
+} from '../../src/search/query-parser.js';
+
+function compile(query: string): string {
+  return compileToFts(parseQuery(query));
+}
+
+describe('search query parser', () => {
+  describe('Compilation', () => {
+    it('should quote and AND plain words', () => {
+      expect(compile('remote access')).toBe('("remote" AND "access")');
+    });
+
+    it('should relax plain words to OR on request', () => {
+      expect(compileToFts(parseQuery('remote access'), 'OR')).toBe('"remote" OR "access"');
+    });
+
+    it('should compile phrases', () => {
+      expect(compile('"audit log"')).toBe('"audit log"');
+    });
+
+    it('should compile field prefixes', () => {
+      expect(compile('title:"audit"')).toBe('title : "audit"');
+      expect(compile('rationale:segmentation')).toBe('rationale : "segmentation"');
+    });
+
+    it('should search unknown field prefixes as text', () => {
+      expect(compile('author:smith')).toBe('"author smith"');
+      expect(compile('note: audit')).toBe('("note" AND "audit")');
+      expect(compile('constructor:x')).toBe('"constructor x"');
+    });
+
+    it('should map the id field to requirement_id', () => {
+      expect(compile('id:AC-2')).toBe('requirement_id : "ac 2"');
+    });
+
+    it('should support escaped spaces and prefix wildcards in IDs', () => {
+      expect(compile('id:SR\\ 3.*')).toBe('requirement_id : "sr 3" *');
+    });
+
+    it('should compile prefix wildcards', () => {
+      expect(compile('auth*')).toBe('"auth" *');
+    });
+
+    it('should apply a field prefix to a parenthesized group', () => {
+      expect(compile('title:(log OR event)')).toBe('(title : "log" OR title : "event")');
+    });
+
+    it('should compile boolean operators with grouping and exclusion', () => {
+      expect(compile('title:"audit" AND (log OR event) -wireless')).toBe(
+        '(title : "audit" AND ("log" OR "event")) NOT ("wireless")'
+      );
+    });
+
+    it('should treat NOT and - the same', () => {
+      expect(compile('plc NOT wireless')).toBe(compile('plc -wireless'));
+    });
+
+    it('should treat lowercase keywords as search words', () => {
+      expect(compile('audit and logging')).toBe('("audit" AND "and" AND "logging")');
+    });
+
+    it('should keep hyphens inside words as text', () => {
+      expect(compile('denial-of-service')).toBe('"denial of service"');
+    });
+
+    it('should neutralize FTS5 syntax inside words', () => {
+      expect(compile('NEAR(a b)')).toBe('("near" AND ("a" AND "b"))');
+      expect(compile("x'; DROP TABLE t; --")).toBe('("x" AND "drop" AND "table" AND "t")');
+    });
+  });
+
+  describe('Plain query detection', () => {
+    it('should detect plain keyword queries', () => {
+      expect(isPlainQuery(parseQuery('remote access authentication'))).toBe(true);
+    });
+
+    it('should not treat queries with syntax as plain', () => {
+      expect(isPlainQuery(parseQuery('remote OR access'))).toBe(false);
+      expect(isPlainQuery(parseQuery('"remote access"'))).toBe(false);
+      expect(isPlainQuery(parseQuery('title:remote'))).toBe(false);
+      expect(isPlainQuery(parseQuery('remote*'))).toBe(false);
+    });
+  });
+
+  describe('Errors', () => {
+    const expectError = (query: string, message: RegExp, position?: number) => {
+      try {
+        compile(query);
+        expect.fail(`Expected "${query}" to be rejected`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(QuerySyntaxError);
+        expect((error as QuerySyntaxError).message).toMatch(message);
+        if (position !== undefined) {
+          expect((error as QuerySyntaxError).position).toBe(position);
+        }
+      }
+    };
+
+    it('should reject unterminated phrases', () => {
+      expectError('title:"audit', /missing closing quote/, 6);
+    });
+
+    it('should reject unbalanced parentheses', () => {
+      expectError('(log OR event', /Missing closing "\)"/);
+      expectError('log)', /Unbalanced/, 3);
+    });
+
+    it('should reject wildcards after phrases', () => {
+      expectError('"audit log"*', /not quoted phrases/, 11);
+    });
+
+    it('should reject dangling operators', () => {
+      expectError('log OR', /end of query/);
+      expectError('AND log', /found "AND"/, 0);
+    });
+
+    it('should reject queries that only exclude', () => {
+      expectError('-wireless', /at least one term/, 0);
+      expectError('plc OR NOT wireless', /at least one term/, 7);
+    });
+
+    it('should reject empty queries', () => {
+      expectError('   ', /empty/);
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Unit tests for semantic and hybrid search (src/search/vectors.ts,
+ * scripts/build-vectors.ts and the mode option of search_ot_requirements)
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { searchRequirementsDetailed } from '../../src/tools/search.js';
+import {
+  analyzeText,
+  buildVectorModel,
+  embedText,
+  queryText,
+  reciprocalRankFusion,
+} from '../../src/search/vectors.js';
+import { parseQuery } from '../../src/search/query-parser.js';
+import { VectorIndexBuilder } from '../../scripts/build-vectors.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+/**
+ * Two topics: authentication (REQ-1..6) and backup/recovery (REQ-7..12).
+ * Tests build two latent dimensions, one per topic.
+ */
+const CORPUS: Array<[string, string, string]> = [
+  ['REQ-1', 'Password policy', 'Passwords and credentials must be strong.'],
+  ['REQ-2', 'Credential storage', 'Credentials and authenticators are stored protected.'],
+  ['REQ-3', 'Login lockout', 'Lock the login after failed password attempts.'],
+  ['REQ-4', 'Authenticator management', 'Manage each authenticator and credential.'],
+  ['REQ-5', 'Login banner', 'Show a notice before login with a password.'],
+  ['REQ-6', 'Operator sign-on', 'Operators sign on with a password at the login screen.'],
+  ['REQ-7', 'System backup', 'Backups of configuration are restored during recovery.'],
+  ['REQ-8', 'Backup storage', 'Store each backup offline for recovery.'],
+  ['REQ-9', 'Recovery testing', 'Test recovery and restore procedures.'],
+  ['REQ-10', 'Restore integrity', 'Verify the integrity of a backup before restore.'],
+  ['REQ-11', 'Recovery objectives', 'Define recovery time for the backup restore.'],
+  ['REQ-12', 'Reconstitution', 'Rebuild controllers from a backup after an incident.'],
+];
+
+describe('semantic vectors', () => {
+  it('should drop stopwords, short words and numbers and singularize plurals', () => {
+    expect(analyzeText('The policies for 2 PLCs and passwords')).toEqual([
+      'policy',
+      'plc',
+      'password',
+    ]);
+  });
+
+  it('should leave negated terms out of the query text', () => {
+    expect(queryText(parseQuery('backup AND (restore OR recovery) -tape'))).toBe(
+      'backup restore recovery '
+    );
+  });
+
+  it('should build the same model for the same corpus', () => {
+    const texts = CORPUS.map(([, title, description]) => `${title} ${description}`);
+    const first = buildVectorModel(texts, 2);
+    const second = buildVectorModel(texts, 2);
+
+    expect(first.dimensions).toBe(2);
+    expect([...first.terms.entries()]).toEqual([...second.terms.entries()]);
+  });
+
+  it('should embed related terms close together', () => {
+    const model = buildVectorModel(
+      CORPUS.map(([, title, description]) => `${title} ${description}`),
+      2
+    );
+    const dot = (a: number[] | null, b: number[] | null) =>
+      (a ?? []).reduce((sum, x, i) => sum + x * (b?.[i] ?? 0), 0);
+
+    const credential = embedText('credential', model);
+    expect(dot(credential, embedText('login', model))).toBeGreaterThan(
+      dot(credential, embedText('backup', model))
+    );
+    expect(embedText('firmware', model)).toBeNull();
+  });
+
+  it('should fuse rankings by reciprocal rank', () => {
+    const fused = reciprocalRankFusion([
+      [1, 2, 3],
+      [2, 3, 1],
+    ]);
+    expect(fused.map((h) => h.id)).toEqual([2, 1, 3]);
+  });
+});
+
+describe('semantic search modes', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  beforeEach(() => {
+    testDbPath = createTestDbPath('search-semantic');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name, status) VALUES (?, ?, ?)`, [
+      'test-std',
+      'Test Standard',
+      'current',
+    ]);
+    for (const [requirementId, title, description] of CORPUS) {
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, description)
+         VALUES (?, ?, ?, ?)`,
+        ['test-std', requirementId, title, description]
+      );
+    }
+  });
+
+  afterEach(async () => {
+    db.close();
+    await cleanupTestDb(testDbPath);
+  });
+
+  describe('VectorIndexBuilder', () => {
+    it('should store term projections and one vector per requirement', () => {
+      const result = new VectorIndexBuilder(db).buildVectors(2);
+
+      expect(result.documents).toBe(CORPUS.length);
+      expect(result.dimensions).toBe(2);
+      const stored = db.queryOne<{ count: number }>(
+        'SELECT COUNT(*) AS count FROM ot_requirement_vectors'
+      );
+      expect(stored?.count).toBe(CORPUS.length);
+      const term = db.queryOne<{ projection: string }>(
+        `SELECT projection FROM ot_vector_terms WHERE term = 'credential'`
+      );
+      expect(JSON.parse(term?.projection ?? '[]')).toHaveLength(2);
+    });
+
+    it('should replace the previous vectors when rebuilt', () => {
+      const builder = new VectorIndexBuilder(db);
+      builder.buildVectors(2);
+      builder.buildVectors(2);
+
+      const stored = db.queryOne<{ count: number }>(
+        'SELECT COUNT(*) AS count FROM ot_requirement_vectors'
+      );
+      expect(stored?.count).toBe(CORPUS.length);
+    });
+
+    it('should drop vectors of deleted requirements', () => {
+      new VectorIndexBuilder(db).buildVectors(2);
+      db.run(`DELETE FROM ot_requirements WHERE requirement_id = 'REQ-1'`);
+
+      const stored = db.queryOne<{ count: number }>(
+        'SELECT COUNT(*) AS count FROM ot_requirement_vectors'
+      );
+      expect(stored?.count).toBe(CORPUS.length - 1);
+    });
+  });
+
+  describe('mode option', () => {
+    it('should fall back to keyword ranking when no vectors are built', async () => {
+      const response = await searchRequirementsDetailed(db, {
+        query: 'credential',
+        options: { mode: 'semantic' },
+      });
+
+      expect(response.mode).toBe('keyword');
+      expect(response.data.map((r) => r.requirement_id).sort()).toEqual([
+        'REQ-1',
+        'REQ-2',
+        'REQ-4',
+      ]);
+    });
+
+    it('should find requirements that share no words with the query in semantic mode', async () => {
+      new VectorIndexBuilder(db).buildVectors(2);
+
+      const response = await searchRequirementsDetailed(db, {
+        query: 'credential',
+        options: { mode: 'semantic', limit: 20 },
+      });
+      const ids = response.data.map((r) => r.requirement_id);
+
+      expect(response.mode).toBe('semantic');
+      expect(ids).toContain('REQ-3');
+      expect(ids).toContain('REQ-6');
+      expect(ids).not.toContain('REQ-8');
+      expect(response.total_count).toBe(ids.length);
+      expect(response.data[0]?.relevance).toBe(1);
+    });
+
+    it('should rank keyword matches first in hybrid mode and add semantic matches', async () => {
+      new VectorIndexBuilder(db).buildVectors(2);
+
+      const response = await searchRequirementsDetailed(db, {
+        query: 'credential',
+        options: { mode: 'hybrid', limit: 20 },
+      });
+      const ids = response.data.map((r) => r.requirement_id);
+
+      expect(response.mode).toBe('hybrid');
+      expect(ids.slice(0, 3).sort()).toEqual(['REQ-1', 'REQ-2', 'REQ-4']);
+      expect(ids).toContain('REQ-6');
+      // Keyword hits keep their highlighted snippets
+      expect(response.data[0]?.snippet).toContain('**');
+    });
+
+    it('should explain semantic similarity and candidates in semantic mode', async () => {
+      new VectorIndexBuilder(db).buildVectors(2);
+
+      const response = await searchRequirementsDetailed(db, {
+        query: 'credential',
+        options: { mode: 'semantic', limit: 20, explain: true },
+      });
+      const req6 = response.data.find((r) => r.requirement_id === 'REQ-6')?.explanation;
+
+      expect(response.explain?.candidates).toBe(response.total_count);
+      expect(req6?.semantic_similarity).toBeGreaterThan(0.2);
+      expect(req6?.keyword_score).toBeNull();
+      expect(req6?.matched_fields).toEqual([]);
+    });
+
+    it('should apply filters and facets to semantic hits', async () => {
+      db.run(`INSERT INTO ot_standards (id, name, status) VALUES (?, ?, ?)`, [
+        'other-std',
+        'Other Standard',
+        'current',
+      ]);
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, description)
+         VALUES (?, ?, ?, ?)`,
+        ['other-std', 'OTH-1', 'Login password', 'Every login uses a password credential.']
+      );
+      new VectorIndexBuilder(db).buildVectors(2);
+
+      const all = await searchRequirementsDetailed(db, {
+        query: 'credential',
+        options: { mode: 'semantic', limit: 20 },
+      });
+      expect(all.facets.standard_id).toContainEqual({ value: 'other-std', count: 1 });
+
+      const filtered = await searchRequirementsDetailed(db, {
+        query: 'credential',
+        options: { mode: 'semantic', standards: ['other-std'] },
+      });
+      expect(filtered.data.map((r) => r.requirement_id)).toEqual(['OTH-1']);
+      expect(filtered.total_count).toBe(1);
+    });
+
+    it('should page through semantic hits with cursors', async () => {
+      new VectorIndexBuilder(db).buildVectors(2);
+
+      const first = await searchRequirementsDetailed(db, {
+        query: 'backup',
+        options: { mode: 'semantic', limit: 2 },
+      });
+      expect(first.next_cursor).not.toBeNull();
+
+      const second = await searchRequirementsDetailed(db, {
+        query: 'backup',
+        options: { mode: 'semantic', limit: 2, cursor: first.next_cursor ?? undefined },
+      });
+      const firstIds = first.data.map((r) => r.requirement_id);
+      expect(second.data).toHaveLength(2);
+      expect(second.data.some((r) => firstIds.includes(r.requirement_id))).toBe(false);
+    });
+
+    it('should reject a keyword cursor in semantic mode', async () => {
+      new VectorIndexBuilder(db).buildVectors(2);
+
+      const first = await searchRequirementsDetailed(db, {
+        query: 'backup',
+        options: { limit: 2 },
+      });
+      await expect(
+        searchRequirementsDetailed(db, {
+          query: 'backup',
+          options: { mode: 'semantic', limit: 2, cursor: first.next_cursor ?? undefined },
+        })
+      ).rejects.toThrow('different query');
+    });
+  });
+});
@@ -4,7 +4,12 @@
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DatabaseClient } from '../../src/database/client.js';
-import { searchRequirements } from '../../src/tools/search.js';
+import { searchRequirements, searchRequirementsDetailed } from '../../src/tools/search.js';
+import { QuerySyntaxError } from '../../src/search/query-parser.js';
+import { InvalidCursorError } from '../../src/search/cursor.js';
+import { SearchOptions } from '../../src/types/index.js';
+import { registerStandardVersion } from '../../src/database/versions.js';
+import { GlossaryIngester } from '../../scripts/ingest-glossary.js';
 import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
 
 describe('searchRequirements', () => {
@@ -200,6 +205,486 @@ describe('searchRequirements', () => {
     });
   });
 
+  describe('Full-Text Matching', () => {
+    beforeEach(() => {
+      db.run(
+        `INSERT INTO ot_standards (id, name, version, status)
+         VALUES (?, ?, ?, ?)`,
+        ['nist-800-53', 'NIST SP 800-53', 'Rev 5', 'current']
+      );
+
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, rationale)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          'nist-800-53',
+          'AC-17',
+          'Remote Access',
+          'Establish usage restrictions for each type of remote access allowed and authenticate users before connection.',
+          null,
+        ]
+      );
+
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, rationale)
+         VALUES (?, ?, ?, ?, ?)`,
+        [
+          'nist-800-53',
+          'SC-7',
+          'Boundary Protection',
+          'Monitor and control communications at the external boundary of the system.',
+          'Limits exposure of OT networks to enterprise traffic.',
+        ]
+      );
+    });
+
+    it('should match multi-word queries whose terms are not adjacent', async () => {
+      const result = await searchRequirements(db, { query: 'remote access authentication' });
+      expect(result).toHaveLength(1);
+      expect(result[0]?.requirement_id).toBe('AC-17');
+    });
+
+    it('should fall back to matching any term when no requirement has all terms', async () => {
+      const result = await searchRequirements(db, { query: 'remote boundary' });
+      const ids = result.map((r) => r.requirement_id);
+      expect(ids).toContain('AC-17');
+      expect(ids).toContain('SC-7');
+    });
+
+    it('should search the rationale column', async () => {
+      const result = await searchRequirements(db, { query: 'enterprise traffic' });
+      expect(result).toHaveLength(1);
+      expect(result[0]?.requirement_id).toBe('SC-7');
+      expect(result[0]?.snippet).toContain('**enterprise**');
+    });
+
+    it('should treat SQL and punctuation in user input as plain words', async () => {
+      const result = await searchRequirements(db, { query: "boundary'; DROP TABLE x; --" });
+      expect(result.some((r) => r.requirement_id === 'SC-7')).toBe(true);
+    });
+  });
+
+  describe('Query Syntax', () => {
+    beforeEach(() => {
+      db.run(
+        `INSERT INTO ot_standards (id, name, version, status)
+         VALUES (?, ?, ?, ?)`,
+        ['iec62443-3-3', 'IEC 62443-3-3', 'v2.0', 'current']
+      );
+
+      const rows: Array<[string, string, string, string | null]> = [
+        ['SR 2.8', 'Auditable events', 'Generate audit records for security events.', null],
+        ['SR 3.1', 'Communication integrity', 'Protect the integrity of transmitted data.', null],
+        ['SR 3.2', 'Malicious code protection', 'Detect and report malicious code.', null],
+        [
+          'SR 6.1',
+          'Audit log accessibility',
+          'Provide read-only access to audit logs, including wireless gateways.',
+          'Audit log review supports incident response.',
+        ],
+      ];
+      for (const [id, title, description, rationale] of rows) {
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, rationale)
+           VALUES (?, ?, ?, ?, ?)`,
+          ['iec62443-3-3', id, title, description, rationale]
+        );
+      }
+    });
+
+    it('should combine field prefixes, groups and exclusion', async () => {
+      const result = await searchRequirements(db, {
+        query: 'title:"audit" AND (log OR event) -wireless',
+      });
+      expect(result.map((r) => r.requirement_id)).toEqual(['SR 2.8']);
+    });
+
+    it('should match requirement ID prefixes with escaped spaces', async () => {
+      const result = await searchRequirements(db, { query: 'id:SR\\ 3.*' });
+      expect(result.map((r) => r.requirement_id).sort()).toEqual(['SR 3.1', 'SR 3.2']);
+    });
+
+    it('should match exact phrases only', async () => {
+      const result = await searchRequirements(db, { query: '"malicious code"' });
+      expect(result.map((r) => r.requirement_id)).toEqual(['SR 3.2']);
+    });
+
+    it('should support OR between terms', async () => {
+      const result = await searchRequirements(db, { query: 'integrity OR malicious' });
+      expect(result.map((r) => r.requirement_id).sort()).toEqual(['SR 3.1', 'SR 3.2']);
+    });
+
+    it('should not relax explicit syntax to OR when nothing matches', async () => {
+      const result = await searchRequirements(db, { query: 'title:integrity title:audit' });
+      expect(result).toEqual([]);
+    });
+
+    it('should reject malformed queries with QuerySyntaxError', async () => {
+      await expect(searchRequirements(db, { query: 'title:"audit' })).rejects.toBeInstanceOf(
+        QuerySyntaxError
+      );
+    });
+  });
+
+  describe('Requirement ID Queries', () => {
+    beforeEach(() => {
+      db.run(
+        `INSERT INTO ot_standards (id, name, version, status)
+         VALUES (?, ?, ?, ?)`,
+        ['nist-800-53', 'NIST SP 800-53', 'Rev 5', 'current']
+      );
+
+      // Short descriptions citing AC-2 outrank its own long description on BM25 alone
+      const rows: Array<[string, string, string]> = [
+        [
+          'AC-2',
+          'Account Management',
+          'Define and document the types of accounts allowed and specifically prohibited. '.repeat(
+            20
+          ),
+        ],
+        ['PL-9', 'Central Management', 'Centrally manage AC-2, AC-2 (2) and AC-2 (12).'],
+        ['CA-7', 'Continuous Monitoring', 'Monitor AC-2 accounts, see AC-2 and AC-2 (2).'],
+      ];
+      for (const [id, title, description] of rows) {
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, title, description)
+           VALUES (?, ?, ?, ?)`,
+          ['nist-800-53', id, title, description]
+        );
+      }
+    });
+
+    it('should rank the requirement named by the query first', async () => {
+      const response = await searchRequirementsDetailed(db, { query: 'AC-2' });
+      expect(response.data.map((r) => r.requirement_id)).toHaveLength(3);
+      expect(response.data[0]?.requirement_id).toBe('AC-2');
+      expect(response.data[0]?.relevance).toBe(1);
+    });
+
+    it('should find the requirement however its ID is written', async () => {
+      for (const query of ['AC-02', 'ac 2', 'NIST SP 800-53 AC-2']) {
+        const result = await searchRequirements(db, { query });
+        expect(result[0]?.requirement_id).toBe('AC-2');
+      }
+    });
+
+    it('should not name a requirement of another standard', async () => {
+      const result = await searchRequirements(db, { query: 'IEC 62443-3-3 AC-2' });
+      expect(result.map((r) => r.requirement_id)).not.toContain('AC-2');
+    });
+  });
+
+  describe('Synonym Expansion', () => {
+    beforeEach(() => {
+      db.run(
+        `INSERT INTO ot_standards (id, name, version, status)
+         VALUES (?, ?, ?, ?)`,
+        ['nist-800-53', 'NIST SP 800-53', 'Rev 5', 'current']
+      );
+
+      const rows: Array<[string, string, string]> = [
+        ['IA-2', 'Identification and Authentication', 'Implement multifactor authentication.'],
+        ['SC-5', 'Denial-of-service Protection', 'Protect against denial-of-service events.'],
+        ['SC-7', 'Boundary Protection', 'Use a DMZ for publicly accessible components.'],
+      ];
+      for (const [id, title, description] of rows) {
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, title, description)
+           VALUES (?, ?, ?, ?)`,
+          ['nist-800-53', id, title, description]
+        );
+      }
+
+      new GlossaryIngester(db).ingestEntries({
+        meta: {
+          title: 'Test Glossary',
+          description: 'Test',
+          version: '1.0.0',
+          created_date: '2026-01-01',
+          sources: [],
+        },
+        entries: [
+          {
+            term: 'MFA',
+            term_type: 'acronym',
+            expansions: ['multifactor authentication', 'multi-factor authentication'],
+          },
+          { term: 'DoS', term_type: 'acronym', expansions: ['denial of service'] },
+          { term: 'DMZ', term_type: 'acronym', expansions: ['demilitarized zone'] },
+        ],
+      });
+    });
+
+    it('should expand an acronym to its expansions', async () => {
+      const result = await searchRequirements(db, { query: 'MFA' });
+      expect(result.map((r) => r.requirement_id)).toEqual(['IA-2']);
+    });
+
+    it('should expand acronyms case-insensitively', async () => {
+      const result = await searchRequirements(db, { query: 'dos' });
+      expect(result.map((r) => r.requirement_id)).toEqual(['SC-5']);
+    });
+
+    it('should expand a multi-word expansion back to its acronym', async () => {
+      const result = await searchRequirements(db, { query: 'demilitarized zone' });
+      expect(result.map((r) => r.requirement_id)).toEqual(['SC-7']);
+    });
+
+    it('should keep other terms required alongside the expansion', async () => {
+      const result = await searchRequirements(db, { query: 'MFA implement' });
+      expect(result.map((r) => r.requirement_id)).toEqual(['IA-2']);
+
+      // No requirement has both, so the plain query relaxes to OR
+      const relaxed = await searchRequirements(db, { query: 'MFA boundary' });
+      expect(relaxed.map((r) => r.requirement_id).sort()).toEqual(['IA-2', 'SC-7']);
+    });
+
+    it('should expand excluded terms', async () => {
+      const result = await searchRequirements(db, { query: 'protection -DoS' });
+      expect(result.map((r) => r.requirement_id)).toEqual(['SC-7']);
+    });
+
+    it('should not expand quoted phrases', async () => {
+      const result = await searchRequirements(db, { query: '"MFA"' });
+      expect(result).toEqual([]);
+    });
+
+    it('should not expand when expand_synonyms is false', async () => {
+      const result = await searchRequirements(db, {
+        query: 'MFA',
+        options: { expand_synonyms: false },
+      });
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('Typo Tolerance', () => {
+    beforeEach(() => {
+      db.run(
+        `INSERT INTO ot_standards (id, name, version, status)
+         VALUES (?, ?, ?, ?)`,
+        ['nist-800-53', 'NIST SP 800-53', 'Rev 5', 'current']
+      );
+
+      const rows: Array<[string, string, string]> = [
+        ['IA-2', 'Identification and Authentication', 'Uniquely identify and authenticate users.'],
+        ['IA-5', 'Authenticator Management', 'Manage authentication credentials.'],
+        ['SC-7', 'Boundary Protection', 'Implement network segmentation.'],
+        ['SI-7', 'Software Integrity', 'Verify firmware integrity before update.'],
+      ];
+      for (const [id, title, description] of rows) {
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, title, description)
+           VALUES (?, ?, ?, ?)`,
+          ['nist-800-53', id, title, description]
+        );
+      }
+
+      db.run(
+        `INSERT INTO mitre_ics_techniques (technique_id, name, description)
+         VALUES (?, ?, ?)`,
+        ['T0857', 'System Firmware', 'Adversaries may install malicious firmware.']
+      );
+    });
+
+    it('should correct misspelled words and report did_you_mean', async () => {
+      const result = await searchRequirementsDetailed(db, { query: 'authentification' });
+      expect(result.did_you_mean).toBe('authentication');
+      expect(result.data.map((r) => r.requirement_id).sort()).toEqual(['IA-2', 'IA-5']);
+    });
+
+    it('should correct each misspelled word in a multi-word query', async () => {
+      const result = await searchRequirementsDetailed(db, { query: 'firmwear updte' });
+      expect(result.did_you_mean).toBe('firmware update');
+      expect(result.data.map((r) => r.requirement_id)).toEqual(['SI-7']);
+    });
+
+    it('should not report did_you_mean for correctly spelled queries', async () => {
+      const result = await searchRequirementsDetailed(db, { query: 'segmentation' });
+      expect(result.did_you_mean).toBeNull();
+      expect(result.data.map((r) => r.requirement_id)).toEqual(['SC-7']);
+    });
+
+    it('should not correct inflections matched by stemming', async () => {
+      const result = await searchRequirementsDetailed(db, { query: 'authenticates' });
+      expect(result.did_you_mean).toBeNull();
+      expect(result.data.map((r) => r.requirement_id).sort()).toEqual(['IA-2', 'IA-5']);
+    });
+
+    it('should return the corrected hits from searchRequirements', async () => {
+      const result = await searchRequirements(db, { query: 'segmantation' });
+      expect(result.map((r) => r.requirement_id)).toEqual(['SC-7']);
+    });
+
+    it('should not correct when fuzzy is false', async () => {
+      const result = await searchRequirementsDetailed(db, {
+        query: 'authentification',
+        options: { fuzzy: false },
+      });
+      expect(result.data).toEqual([]);
+      expect(result.did_you_mean).toBeNull();
+    });
+  });
+
+  describe('Pagination and Facets', () => {
+    beforeEach(() => {
+      db.run(
+        `INSERT INTO ot_standards (id, name, version, status)
+         VALUES (?, ?, ?, ?), (?, ?, ?, ?)`,
+        [
+          'iec62443-3-3',
+          'IEC 62443-3-3',
+          'v2.0',
+          'current',
+          'nist-800-53',
+          'NIST SP 800-53',
+          'Rev 5',
+          'current',
+        ]
+      );
+
+      const rows: Array<[string, string, string | null, number | null]> = [
+        ['iec62443-3-3', 'SR 5.1', 'network', 2],
+        ['iec62443-3-3', 'SR 5.2', 'network', 3],
+        ['iec62443-3-3', 'SR 5.3', 'host', 3],
+        ['nist-800-53', 'SC-7', null, null],
+        ['nist-800-53', 'SC-32', null, null],
+      ];
+      for (const [standard, id, componentType, purdueLevel] of rows) {
+        const result = db.run(
+          `INSERT INTO ot_requirements
+             (standard_id, requirement_id, title, description, component_type, purdue_level)
+           VALUES (?, ?, ?, ?, ?, ?)`,
+          [standard, id, `Segmentation ${id}`, 'Segment the network.', componentType, purdueLevel]
+        );
+        if (standard === 'iec62443-3-3') {
+          db.run(
+            `INSERT INTO security_levels (requirement_db_id, security_level, sl_type)
+             VALUES (?, 2, 'SL-T'), (?, 3, 'SL-T')`,
+            [result.lastInsertRowid, result.lastInsertRowid]
+          );
+        }
+      }
+    });
+
+    it('should report the total count beyond the page size', async () => {
+      const result = await searchRequirementsDetailed(db, {
+        query: 'segmentation',
+        options: { limit: 2 },
+      });
+
+      expect(result.data).toHaveLength(2);
+      expect(result.total_count).toBe(5);
+      expect(result.has_more).toBe(true);
+      expect(result.next_cursor).toEqual(expect.any(String));
+    });
+
+    it('should keep pages at least one hit long', async () => {
+      const result = await searchRequirementsDetailed(db, {
+        query: 'segmentation',
+        options: { limit: -1 },
+      });
+
+      expect(result.data).toHaveLength(1);
+      expect(result.has_more).toBe(true);
+    });
+
+    it('should page through all results with next_cursor', async () => {
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      let pages = 0;
+
+      do {
+        const page = await searchRequirementsDetailed(db, {
+          query: 'segmentation',
+          options: { limit: 2, cursor },
+        });
+        seen.push(...page.data.map((r) => r.requirement_id));
+        cursor = page.next_cursor ?? undefined;
+        pages++;
+        expect(page.has_more).toBe(cursor !== undefined);
+      } while (cursor);
+
+      expect(pages).toBe(3);
+      expect(new Set(seen).size).toBe(5);
+    });
+
+    it('should keep relevance relative to the best hit on later pages', async () => {
+      const first = await searchRequirementsDetailed(db, {
+        query: 'segmentation',
+        options: { limit: 1 },
+      });
+      const second = await searchRequirementsDetailed(db, {
+        query: 'segmentation',
+        options: { limit: 1, cursor: first.next_cursor ?? undefined },
+      });
+
+      expect(first.data[0]?.relevance).toBe(1);
+      expect(second.data[0]?.relevance).toBeLessThanOrEqual(1);
+    });
+
+    it('should count facets over all hits', async () => {
+      const result = await searchRequirementsDetailed(db, {
+        query: 'segmentation',
+        options: { limit: 1 },
+      });
+
+      expect(result.facets.standard_id).toEqual([
+        { value: 'iec62443-3-3', count: 3 },
+        { value: 'nist-800-53', count: 2 },
+      ]);
+      expect(result.facets.component_type).toEqual([
+        { value: 'network', count: 2 },
+        { value: 'host', count: 1 },
+      ]);
+      expect(result.facets.purdue_level).toEqual([
+        { value: 3, count: 2 },
+        { value: 2, count: 1 },
+      ]);
+      expect(result.facets.security_level).toEqual([
+        { value: 2, count: 3 },
+        { value: 3, count: 3 },
+      ]);
+    });
+
+    it('should apply filters to counts and facets', async () => {
+      const result = await searchRequirementsDetailed(db, {
+        query: 'segmentation',
+        options: { standards: ['nist-800-53'] },
+      });
+
+      expect(result.total_count).toBe(2);
+      expect(result.has_more).toBe(false);
+      expect(result.next_cursor).toBeNull();
+      expect(result.facets.standard_id).toEqual([{ value: 'nist-800-53', count: 2 }]);
+      expect(result.facets.security_level).toEqual([]);
+    });
+
+    it('should reject a malformed cursor', async () => {
+      await expect(
+        searchRequirementsDetailed(db, {
+          query: 'segmentation',
+          options: { cursor: 'not-a-cursor' },
+        })
+      ).rejects.toThrow(InvalidCursorError);
+    });
+
+    it('should reject a cursor issued for a different query', async () => {
+      const first = await searchRequirementsDetailed(db, {
+        query: 'segmentation',
+        options: { limit: 2 },
+      });
+
+      await expect(
+        searchRequirementsDetailed(db, {
+          query: 'network',
+          options: { limit: 2, cursor: first.next_cursor ?? undefined },
+        })
+      ).rejects.toThrow('different query or filters');
+    });
+  });
+
   describe('Security Level Filtering', () => {
     beforeEach(() => {
       // Insert test standard
@@ -351,6 +836,281 @@ describe('searchRequirements', () => {
     });
   });
 
+  describe('Purdue, Enhancement and Sector Filters', () => {
+    beforeEach(() => {
+      db.run(
+        `INSERT INTO ot_standards (id, name, version, status)
+         VALUES (?, ?, ?, ?), (?, ?, ?, ?)`,
+        [
+          'iec62443-3-3',
+          'IEC 62443-3-3',
+          'v2.0',
+          'current',
+          'nist-800-53',
+          'NIST SP 800-53',
+          'Rev 5',
+          'current',
+        ]
+      );
+
+      const rows: Array<[string, string, string | null, number | null]> = [
+        ['iec62443-3-3', 'SR 1.1', null, 2],
+        ['iec62443-3-3', 'SR 1.1 RE 1', 'SR 1.1', 2],
+        ['iec62443-3-3', 'SR 1.1 RE 2', 'SR 1.1', 3],
+        ['iec62443-3-3', 'SR 1.2', null, 1],
+        ['nist-800-53', 'IA-2', null, null],
+        ['nist-800-53', 'IA-2(1)', 'IA-2', null],
+      ];
+      for (const [standard, id, parent, purdueLevel] of rows) {
+        db.run(
+          `INSERT INTO ot_requirements
+             (standard_id, requirement_id, parent_requirement_id, title, purdue_level)
+           VALUES (?, ?, ?, ?, ?)`,
+          [standard, id, parent, `User identification ${id}`, purdueLevel]
+        );
+      }
+
+      db.run(
+        `INSERT INTO sector_applicability (sector, jurisdiction, standard, applicability)
+         VALUES (?, ?, ?, ?), (?, ?, ?, ?)`,
+        [
+          'energy',
+          'EU',
+          'iec62443-3-3',
+          'mandatory',
+          'energy',
+          'US',
+          'nist-800-53',
+          'not_applicable',
+        ]
+      );
+    });
+
+    const search = async (options: SearchOptions) =>
+      (
+        await searchRequirements(db, {
+          query: 'identification',
+          options: { limit: 20, ...options },
+        })
+      )
+        .map((r) => r.requirement_id)
+        .sort();
+
+    it('should filter by Purdue levels', async () => {
+      expect(await search({ purdue_levels: [1, 3] })).toEqual(['SR 1.1 RE 2', 'SR 1.2']);
+    });
+
+    it('should return only base requirements', async () => {
+      expect(await search({ only_base_requirements: true })).toEqual(['IA-2', 'SR 1.1', 'SR 1.2']);
+    });
+
+    it('should return only enhancements', async () => {
+      expect(await search({ only_enhancements: true })).toEqual([
+        'IA-2(1)',
+        'SR 1.1 RE 1',
+        'SR 1.1 RE 2',
+      ]);
+    });
+
+    it('should return the enhancements of a parent requirement', async () => {
+      expect(await search({ parent_requirement_id: 'SR 1.1' })).toEqual([
+        'SR 1.1 RE 1',
+        'SR 1.1 RE 2',
+      ]);
+    });
+
+    it('should filter by sector through sector_applicability', async () => {
+      expect(await search({ sector: 'Energy' })).toEqual([
+        'SR 1.1',
+        'SR 1.1 RE 1',
+        'SR 1.1 RE 2',
+        'SR 1.2',
+      ]);
+      expect(await search({ sector: 'water' })).toEqual([]);
+    });
+
+    it('should reject a cursor issued for different structural filters', async () => {
+      const first = await searchRequirementsDetailed(db, {
+        query: 'identification',
+        options: { limit: 2, only_enhancements: true },
+      });
+
+      await expect(
+        searchRequirementsDetailed(db, {
+          query: 'identification',
+          options: { limit: 2, cursor: first.next_cursor ?? undefined },
+        })
+      ).rejects.toThrow(InvalidCursorError);
+    });
+  });
+
+  describe('Standard Versions', () => {
+    beforeEach(() => {
+      for (const [version, status] of [
+        ['Rev 4', 'superseded'],
+        ['Rev 5', 'current'],
+      ] as const) {
+        registerStandardVersion(db, {
+          standard_id: 'nist-800-53',
+          name: 'NIST SP 800-53',
+          version,
+          status,
+          published_date: '2020-09-01',
+          url: 'https://csrc.nist.gov',
+        });
+      }
+      db.run(`INSERT INTO ot_standards (id, name, version, status) VALUES (?, ?, ?, ?)`, [
+        'iec62443-3-3',
+        'IEC 62443-3-3',
+        'v2.0',
+        'current',
+      ]);
+
+      const rows: Array<[string, string, string, string | null]> = [
+        ['nist-800-53', 'AC-2', 'Account management (Rev 4)', 'Rev 4'],
+        ['nist-800-53', 'AC-2', 'Account management (Rev 5)', 'Rev 5'],
+        ['nist-800-53', 'AC-99', 'Account review (withdrawn)', 'Rev 4'],
+        ['iec62443-3-3', 'SR 1.3', 'Account management', null],
+      ];
+      for (const [standard, requirementId, title, version] of rows) {
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, title, version)
+           VALUES (?, ?, ?, ?)`,
+          [standard, requirementId, title, version]
+        );
+      }
+    });
+
+    it('should search only the current version of each standard by default', async () => {
+      const response = await searchRequirementsDetailed(db, { query: 'account' });
+
+      expect(response.data.map((r) => [r.requirement_id, r.version]).sort()).toEqual([
+        ['AC-2', 'Rev 5'],
+        ['SR 1.3', 'v2.0'],
+      ]);
+      expect(response.total_count).toBe(2);
+    });
+
+    it('should search the requested version', async () => {
+      const response = await searchRequirementsDetailed(db, {
+        query: 'account',
+        options: { version: 'Rev 4', explain: true },
+      });
+
+      expect(response.data.map((r) => r.title).sort()).toEqual([
+        'Account management (Rev 4)',
+        'Account review (withdrawn)',
+      ]);
+      expect(response.data.every((r) => r.version === 'Rev 4')).toBe(true);
+      expect(response.explain?.filters).toEqual([
+        { filter: 'version', value: 'Rev 4', excluded: 2 },
+      ]);
+    });
+  });
+
+  describe('Explain', () => {
+    beforeEach(() => {
+      db.run(
+        `INSERT INTO ot_standards (id, name, version, status)
+         VALUES (?, ?, ?, ?), (?, ?, ?, ?)`,
+        [
+          'iec62443-3-3',
+          'IEC 62443-3-3',
+          'v2.0',
+          'current',
+          'nist-800-53',
+          'NIST SP 800-53',
+          'Rev 5',
+          'current',
+        ]
+      );
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, description, rationale, purdue_level)
+         VALUES (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?), (?, ?, ?, ?, ?, ?)`,
+        [
+          'iec62443-3-3',
+          'SR 1.1',
+          'Human user authentication',
+          'Authenticate all human users.',
+          'Prevents unauthorized access.',
+          2,
+          'iec62443-3-3',
+          'SR 1.2',
+          'Software process identification',
+          'Identify software processes.',
+          'Supports authentication of processes.',
+          3,
+          'nist-800-53',
+          'IA-2',
+          'Identification and Authentication',
+          'Uniquely identify and authenticate users.',
+          null,
+          null,
+        ]
+      );
+      // Unrelated requirements, so matched words are not in every document
+      for (const id of ['SR 2.8', 'SR 2.9', 'SR 2.10', 'SR 2.11']) {
+        db.run(
+          `INSERT INTO ot_requirements (standard_id, requirement_id, title) VALUES (?, ?, ?)`,
+          ['iec62443-3-3', id, `Auditable events ${id}`]
+        );
+      }
+    });
+
+    it('should leave out explanations unless requested', async () => {
+      const result = await searchRequirementsDetailed(db, { query: 'authentication' });
+
+      expect(result.explain).toBeUndefined();
+      expect(result.data[0]?.explanation).toBeUndefined();
+    });
+
+    it('should report matched fields, terms and field scores per hit', async () => {
+      const result = await searchRequirementsDetailed(db, {
+        query: 'authentication',
+        options: { explain: true },
+      });
+      const sr11 = result.data.find((r) => r.requirement_id === 'SR 1.1')?.explanation;
+      const sr12 = result.data.find((r) => r.requirement_id === 'SR 1.2')?.explanation;
+
+      expect(sr11?.matched_fields).toEqual(['title', 'description']);
+      expect(sr11?.matched_terms).toEqual(['authenticate', 'authentication']);
+      expect(sr11?.field_scores.title).toBeGreaterThan(sr11?.field_scores.description ?? 0);
+      expect(sr11?.keyword_score).toBeGreaterThan(0);
+      expect(sr11?.semantic_similarity).toBeNull();
+      expect(sr12?.matched_fields).toEqual(['rationale']);
+      expect(Object.keys(sr12?.field_scores ?? {})).toEqual(['rationale']);
+    });
+
+    it('should report the match expression, terms and relaxation', async () => {
+      const result = await searchRequirementsDetailed(db, {
+        query: 'authentication zzzz',
+        options: { explain: true, fuzzy: false, expand_synonyms: false },
+      });
+
+      expect(result.explain).toMatchObject({
+        match_expression: '"authentication" OR "zzzz"',
+        terms: ['authentication', 'zzzz'],
+        relaxed: true,
+        candidates: 3,
+        filters: [],
+      });
+    });
+
+    it('should count the candidates each filter excludes', async () => {
+      const result = await searchRequirementsDetailed(db, {
+        query: 'authentication',
+        options: { explain: true, standards: ['iec62443-3-3'], purdue_levels: [2] },
+      });
+
+      expect(result.data.map((r) => r.requirement_id)).toEqual(['SR 1.1']);
+      expect(result.explain?.candidates).toBe(3);
+      expect(result.explain?.filters).toEqual([
+        { filter: 'standards', value: ['iec62443-3-3'], excluded: 1 },
+        { filter: 'purdue_levels', value: [2], excluded: 2 },
+      ]);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle invalid component_type gracefully', async () => {
       const result = await searchRequirements(db, {
@@ -465,7 +1225,7 @@ describe('searchRequirements', () => {
       const result = await searchRequirements(db, { query: 'authentication' });
       const titleMatch = result.find((r) => r.requirement_id === 'SR 1.1');
       expect(titleMatch).toBeDefined();
-      expect(titleMatch?.snippet).toBe('Human user authentication');
+      expect(titleMatch?.snippet).toBe('Human user **authentication**');
     });
 
     it('should extract snippet from description with context around match', async () => {
@@ -493,18 +1253,27 @@ describe('searchRequirements', () => {
       expect(titleMatch?.relevance).toBe(1.0);
     });
 
-    it('should assign relevance score 0.7 for description match', async () => {
-      const result = await searchRequirements(db, { query: 'processes and services' });
+    it('should score description matches below title matches', async () => {
+      const result = await searchRequirements(db, { query: 'authentication' });
+      const titleMatch = result.find((r) => r.requirement_id === 'SR 1.1');
       const descMatch = result.find((r) => r.requirement_id === 'SR 1.2');
       expect(descMatch).toBeDefined();
-      expect(descMatch?.relevance).toBe(0.7);
+      expect(descMatch!.relevance).toBeGreaterThan(0);
+      expect(descMatch!.relevance).toBeLessThan(titleMatch!.relevance);
     });
 
-    it('should assign relevance score 0.5 for rationale match', async () => {
-      const result = await searchRequirements(db, { query: 'security incidents' });
+    it('should score rationale-only matches lowest', async () => {
+      const result = await searchRequirements(db, { query: 'authentication' });
       const rationaleMatch = result.find((r) => r.requirement_id === 'SR 2.1');
       expect(rationaleMatch).toBeDefined();
-      expect(rationaleMatch?.relevance).toBe(0.5);
+      expect(rationaleMatch!.relevance).toBeGreaterThan(0);
+      expect(result[result.length - 1]?.requirement_id).toBe('SR 2.1');
+    });
+
+    it('should normalize relevance relative to the best match', async () => {
+      const result = await searchRequirements(db, { query: 'security incidents' });
+      expect(result[0]?.requirement_id).toBe('SR 2.1');
+      expect(result[0]?.relevance).toBe(1.0);
     });
 
     it('should return results ordered by relevance (descending)', async () => {
@@ -0,0 +1,232 @@
+/**
+ * Unit tests for suggest_mappings tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { suggestMappings, SUGGESTION_METHOD } from '../../src/tools/suggest-mappings.js';
+import { MappingSuggestionRow } from '../../src/types/index.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('suggestMappings', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const insert = (standard: string, requirementId: string, title: string, description: string) =>
+    db.run(
+      `INSERT INTO ot_requirements (standard_id, requirement_id, title, description)
+       VALUES (?, ?, ?, ?)`,
+      [standard, requirementId, title, description]
+    );
+
+  const map = (
+    source: [string, string],
+    target: [string, string],
+    reviewStatus: string = 'draft'
+  ) =>
+    db.run(
+      `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type, review_status)
+       VALUES (?, ?, ?, ?, 'related', ?)`,
+      [...source, ...target, reviewStatus]
+    );
+
+  const suggest = (
+    requirement_id: string,
+    options: Parameters<typeof suggestMappings>[1]['options'] = {},
+    standard = 'nist-800-82',
+    target_standard = 'nist-800-53'
+  ) => suggestMappings(db, { requirement_id, standard, target_standard, options });
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('suggest-mappings');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name, status) VALUES (?, ?, ?), (?, ?, ?), (?, ?, ?)`, [
+      'nist-800-82',
+      'NIST SP 800-82',
+      'current',
+      'nist-800-53',
+      'NIST SP 800-53',
+      'current',
+      'mitre-ics',
+      'MITRE ATT&CK for ICS',
+      'current',
+    ]);
+
+    insert(
+      'nist-800-82',
+      'G-6.1',
+      'Remote access',
+      'Encrypt remote access sessions over a VPN tunnel.'
+    );
+    insert('nist-800-82', 'G-6.2', 'Audit logging', 'Record audit events in a central log.');
+    insert('nist-800-82', 'G-5.1', 'Backups', 'Keep offline backups of controller configuration.');
+    insert('nist-800-53', 'AC-17', 'Remote Access', 'Remote access uses an encrypted VPN tunnel.');
+    insert('nist-800-53', 'AU-2', 'Event Logging', 'Audit events are written to the log server.');
+    insert('nist-800-53', 'AU-6', 'Audit Record Review', 'Review audit records for anomalies.');
+    insert('nist-800-53', 'CP-9', 'System Backup', 'Back up controller configuration offline.');
+
+    db.run(
+      `INSERT INTO mitre_ics_mitigations (mitigation_id, name, description) VALUES (?, ?, ?)`,
+      ['M0801', 'Remote Access Management', 'Restrict remote access to an encrypted VPN tunnel.']
+    );
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should return null when parameters are missing or the requirement is not found', async () => {
+    expect(await suggest('')).toBeNull();
+    expect(await suggest('G-9.9')).toBeNull();
+    expect(await suggest('G-6.1', {}, 'nist-800-82', 'nist-800-82')).toBeNull();
+  });
+
+  it('should rank candidates by text similarity and report shared terms', async () => {
+    const result = await suggest('G-6.1');
+
+    expect(result?.source).toEqual({
+      requirement_id: 'G-6.1',
+      standard_id: 'nist-800-82',
+      title: 'Remote access',
+    });
+    expect(result?.method).toBe(SUGGESTION_METHOD);
+    expect(result?.suggestions[0]).toMatchObject({
+      requirement_id: 'AC-17',
+      group: 'AC',
+      status: null,
+    });
+    expect(result?.suggestions[0]?.scores.text_similarity).toBeGreaterThan(0.3);
+    expect(result?.suggestions[0]?.scores.keyword_overlap).toBe(1);
+    expect(result?.suggestions[0]?.shared_terms).toEqual(expect.arrayContaining(['vpn', 'tunnel']));
+    expect(result?.suggestions.map((s) => s.requirement_id)).not.toContain('CP-9');
+  });
+
+  it('should score family affinity and neighbour support from curated mappings', async () => {
+    // G-6.2 is in the same chapter as G-6.1 and already maps to AU-2
+    map(['nist-800-82', 'G-6.2'], ['nist-800-53', 'AU-2']);
+
+    const result = await suggest('G-6.1', { min_score: 0 });
+    const au2 = result?.suggestions.find((s) => s.requirement_id === 'AU-2');
+    const au6 = result?.suggestions.find((s) => s.requirement_id === 'AU-6');
+    const cp9 = result?.suggestions.find((s) => s.requirement_id === 'CP-9');
+
+    expect(au2?.scores).toMatchObject({ family_affinity: 1, neighbour_support: 1 });
+    expect(au6?.scores).toMatchObject({ family_affinity: 1, neighbour_support: 0 });
+    expect(cp9?.scores).toMatchObject({ family_affinity: 0, neighbour_support: 0 });
+    expect(au2?.score).toBeGreaterThan(au6?.score ?? 1);
+  });
+
+  it('should use mappings to other standards as neighbours', async () => {
+    map(['mitre-ics', 'M0801'], ['nist-800-82', 'G-5.1']);
+    map(['mitre-ics', 'M0801'], ['nist-800-53', 'CP-9']);
+
+    const result = await suggest('G-5.1', { min_score: 0 });
+
+    expect(result?.suggestions[0]?.requirement_id).toBe('CP-9');
+    expect(result?.suggestions[0]?.scores.neighbour_support).toBe(1);
+  });
+
+  it('should ignore draft mappings as hints when reviewed_only is set', async () => {
+    map(['nist-800-82', 'G-6.2'], ['nist-800-53', 'AU-2']);
+
+    const result = await suggest('G-6.1', { min_score: 0, reviewed_only: true });
+    const au2 = result?.suggestions.find((s) => s.requirement_id === 'AU-2');
+
+    expect(au2?.scores).toMatchObject({ family_affinity: 0, neighbour_support: 0 });
+  });
+
+  it('should never suggest targets already mapped to the requirement', async () => {
+    map(['nist-800-53', 'AC-17'], ['nist-800-82', 'G-6.1']);
+    map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'SC-8']);
+
+    const result = await suggest('G-6.1', { min_score: 0 });
+
+    expect(result?.already_mapped).toEqual(['AC-17', 'SC-8']);
+    expect(result?.suggestions.map((s) => s.requirement_id)).not.toContain('AC-17');
+  });
+
+  it('should apply min_score and limit', async () => {
+    const all = await suggest('G-6.1', { min_score: 0 });
+    const limited = await suggest('G-6.1', { min_score: 0, limit: 2 });
+    const strict = await suggest('G-6.1', { min_score: 0.5 });
+
+    expect(all?.suggestions).toHaveLength(4);
+    expect(limited?.suggestions.map((s) => s.requirement_id)).toEqual(
+      all?.suggestions.slice(0, 2).map((s) => s.requirement_id)
+    );
+    expect(strict?.suggestions.every((s) => s.score >= 0.5)).toBe(true);
+  });
+
+  it('should suggest mappings for MITRE mitigations', async () => {
+    const result = await suggest('M801', {}, 'mitre-ics', 'nist-800-53');
+
+    expect(result?.source.requirement_id).toBe('M0801');
+    expect(result?.suggestions[0]?.requirement_id).toBe('AC-17');
+  });
+
+  describe('saving suggestions', () => {
+    const rows = () =>
+      db.query<MappingSuggestionRow>(
+        `SELECT * FROM mapping_suggestions ORDER BY target_requirement`
+      );
+
+    it('should not store anything unless save is set', async () => {
+      const result = await suggest('G-6.1');
+
+      expect(result?.saved).toBe(0);
+      expect(rows()).toHaveLength(0);
+    });
+
+    it('should store suggestions as pending, never as curated mappings', async () => {
+      const result = await suggest('G-6.1', { save: true });
+
+      expect(result?.saved).toBe(result?.suggestions.length);
+      expect(result?.suggestions.every((s) => s.status === 'pending')).toBe(true);
+      expect(rows()[0]).toMatchObject({
+        source_standard: 'nist-800-82',
+        source_requirement: 'G-6.1',
+        target_standard: 'nist-800-53',
+        target_requirement: 'AC-17',
+        status: 'pending',
+        method: SUGGESTION_METHOD,
+      });
+      expect(JSON.parse(rows()[0]?.shared_terms ?? '[]')).toContain('vpn');
+      expect(db.queryOne<{ n: number }>(`SELECT COUNT(*) AS n FROM ot_mappings`)?.n).toBe(0);
+    });
+
+    it('should update pending suggestions on re-save without duplicating them', async () => {
+      await suggest('G-6.1', { save: true });
+      const first = rows();
+      const result = await suggest('G-6.1', { save: true });
+
+      expect(rows()).toHaveLength(first.length);
+      expect(result?.saved).toBe(first.length);
+    });
+
+    it('should leave reviewed suggestions alone and not suggest rejected ones again', async () => {
+      await suggest('G-6.1', { min_score: 0, save: true });
+      db.run(
+        `UPDATE mapping_suggestions SET status = 'rejected' WHERE target_requirement = 'AC-17'`
+      );
+      db.run(
+        `UPDATE mapping_suggestions SET status = 'accepted' WHERE target_requirement = 'AU-2'`
+      );
+
+      const result = await suggest('G-6.1', { min_score: 0, save: true });
+
+      expect(result?.suggestions.map((s) => s.requirement_id)).not.toContain('AC-17');
+      expect(result?.suggestions.find((s) => s.requirement_id === 'AU-2')?.status).toBe('accepted');
+      expect(result?.saved).toBe(2);
+      expect(rows().map((row) => row.status)).toEqual([
+        'rejected',
+        'accepted',
+        'pending',
+        'pending',
+      ]);
+    });
+  });
+});
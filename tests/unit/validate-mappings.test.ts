@@ -0,0 +1,285 @@
+/**
+ * Unit tests for validate_mappings tool
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DatabaseClient } from '../../src/database/client.js';
+import { validateMappings } from '../../src/tools/validate-mappings.js';
+import { registerStandardVersion } from '../../src/database/versions.js';
+import { MappingIssueType, ValidateMappingsOptions } from '../../src/types/index.js';
+import { createTestDbPath, cleanupTestDb } from '../helpers/test-db.js';
+
+describe('validateMappings', () => {
+  let db: DatabaseClient;
+  let testDbPath: string;
+
+  const map = (
+    source: [string, string],
+    target: [string, string],
+    mappingType: string = 'related',
+    confidence: number | null = 0.8,
+    reviewStatus: string = 'draft'
+  ) =>
+    Number(
+      db.run(
+        `INSERT INTO ot_mappings (source_standard, source_requirement, target_standard, target_requirement, mapping_type, confidence, review_status)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [...source, ...target, mappingType, confidence, reviewStatus]
+      ).lastInsertRowid
+    );
+
+  const validate = async (options: ValidateMappingsOptions = {}) => {
+    const report = await validateMappings(db, { options });
+    expect(report).not.toBeNull();
+    return report!;
+  };
+
+  const issuesOf = async (type: MappingIssueType, options: ValidateMappingsOptions = {}) =>
+    (await validate(options)).issues.filter((issue) => issue.type === type);
+
+  beforeEach(async () => {
+    testDbPath = createTestDbPath('validate-mappings');
+    db = new DatabaseClient(testDbPath);
+
+    db.run(`INSERT INTO ot_standards (id, name, status) VALUES (?, ?, ?), (?, ?, ?)`, [
+      'nist-800-82',
+      'NIST SP 800-82',
+      'current',
+      'nist-800-53',
+      'NIST SP 800-53',
+      'current',
+    ]);
+    for (const [standard, id] of [
+      ['nist-800-82', 'G-6.1'],
+      ['nist-800-82', 'G-6.2'],
+      ['nist-800-53', 'AC-2'],
+      ['nist-800-53', 'AC-17'],
+      ['nist-800-53', 'IA-2'],
+    ]) {
+      db.run(`INSERT INTO ot_requirements (standard_id, requirement_id, title) VALUES (?, ?, ?)`, [
+        standard,
+        id,
+        id,
+      ]);
+    }
+    db.run(`INSERT INTO mitre_ics_mitigations (mitigation_id, name) VALUES ('M0801', 'Remote')`);
+  });
+
+  afterEach(async () => {
+    if (db) {
+      db.close();
+    }
+    await cleanupTestDb(testDbPath);
+  });
+
+  it('should report no issues for consistent mappings', async () => {
+    map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'AC-17'], 'exact_match');
+    map(['mitre-ics', 'M0801'], ['nist-800-53', 'AC-17']);
+
+    const report = await validate();
+
+    expect(report.checked_mappings).toBe(2);
+    expect(report.issues).toEqual([]);
+    expect(report.summary).toEqual({ errors: 0, warnings: 0, info: 0, by_type: {} });
+  });
+
+  describe('dangling requirements', () => {
+    it('should suggest renaming an ID stored in another form', async () => {
+      const id = map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'IA-02']);
+
+      const [issue] = await issuesOf('dangling_requirement');
+
+      expect(issue).toMatchObject({
+        severity: 'error',
+        requirement: { standard_id: 'nist-800-53', requirement_id: 'IA-02' },
+        fixes: [
+          {
+            mapping_id: id,
+            action: 'rename_requirement',
+            field: 'target_requirement',
+            from: 'IA-02',
+            to: 'IA-2',
+          },
+        ],
+      });
+      expect(issue?.message).toContain('stored as "IA-2"');
+    });
+
+    it('should suggest the base requirement for an unknown enhancement', async () => {
+      map(['nist-800-53', 'AC-2(99)'], ['nist-800-82', 'G-6.2']);
+
+      const [issue] = await issuesOf('dangling_requirement');
+
+      expect(issue?.fixes.map((fix) => [fix.action, fix.to])).toEqual([
+        ['rename_requirement', 'AC-2'],
+        ['remove_mapping', undefined],
+      ]);
+    });
+
+    it('should suggest removing mappings to unknown requirements', async () => {
+      map(['mitre-ics', 'M0999'], ['nist-800-53', 'ZZ-1']);
+
+      const issues = await issuesOf('dangling_requirement');
+
+      expect(issues.map((issue) => issue.requirement?.requirement_id)).toEqual(['M0999', 'ZZ-1']);
+      expect(issues.every((issue) => issue.fixes[0]?.action === 'remove_mapping')).toBe(true);
+    });
+
+    it('should report mappings to requirements missing from the current version', async () => {
+      registerStandardVersion(db, {
+        standard_id: 'nist-800-53',
+        name: 'NIST SP 800-53',
+        version: 'Rev 4',
+        status: 'superseded',
+        published_date: '2013-04-30',
+        url: 'https://csrc.nist.gov/rev-4',
+      });
+      registerStandardVersion(db, {
+        standard_id: 'nist-800-53',
+        name: 'NIST SP 800-53',
+        version: 'Rev 5',
+        status: 'current',
+        published_date: '2020-09-01',
+        url: 'https://csrc.nist.gov/rev-5',
+      });
+      db.run(
+        `INSERT INTO ot_requirements (standard_id, requirement_id, title, version) VALUES (?, ?, ?, ?)`,
+        ['nist-800-53', 'AC-99', 'Dropped in Rev 5', 'Rev 4']
+      );
+      map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'AC-99']);
+
+      const issues = await issuesOf('dangling_requirement');
+
+      expect(issues.map((issue) => issue.requirement?.requirement_id)).toEqual(['AC-99']);
+    });
+
+    it('should only check the ID form for standards without loaded requirements', async () => {
+      const id = map(['iec62443-3-3', 'SR1.1'], ['nist-800-53', 'AC-2']);
+      map(['iec62443-3-3', 'SR 1.2'], ['nist-800-53', 'AC-2']);
+
+      const report = await validate();
+
+      expect(report.issues.map((issue) => [issue.type, issue.severity])).toEqual([
+        ['non_canonical_id', 'warning'],
+        ['unloaded_standard', 'info'],
+      ]);
+      expect(report.issues[0]?.fixes[0]).toMatchObject({ mapping_id: id, to: 'SR 1.1' });
+      expect(report.issues[1]?.message).toContain('iec62443-3-3');
+    });
+  });
+
+  describe('mapping pairs', () => {
+    it('should report reverse mappings with conflicting types', async () => {
+      const reviewed = map(
+        ['nist-800-82', 'G-6.1'],
+        ['nist-800-53', 'AC-17'],
+        'exact_match',
+        0.9,
+        'reviewed'
+      );
+      const draft = map(['nist-800-53', 'AC-17'], ['nist-800-82', 'G-6.1'], 'partial');
+
+      const [issue] = await issuesOf('conflicting_pair');
+
+      expect(issue?.severity).toBe('error');
+      expect(issue?.mappings.map((mapping) => mapping.id)).toEqual([reviewed, draft]);
+      expect(issue?.fixes).toEqual([
+        expect.objectContaining({
+          mapping_id: draft,
+          action: 'set_mapping_type',
+          from: 'partial',
+          to: 'exact_match',
+        }),
+      ]);
+    });
+
+    it('should report broader/narrower pairs that are not inverses', async () => {
+      const first = map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'AC-17'], 'broader');
+      const second = map(['nist-800-53', 'AC-17'], ['nist-800-82', 'G-6.1'], 'broader', 0.5);
+
+      const [issue] = await issuesOf('non_inverse_pair');
+
+      expect(issue?.mappings.map((mapping) => mapping.id)).toEqual([first, second]);
+      expect(issue?.fixes).toEqual([
+        expect.objectContaining({ mapping_id: second, to: 'narrower' }),
+      ]);
+    });
+
+    it('should accept inverse broader/narrower pairs as duplicates', async () => {
+      map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'AC-17'], 'broader');
+      const second = map(['nist-800-53', 'AC-17'], ['nist-800-82', 'G-6.1'], 'narrower');
+
+      const report = await validate();
+
+      expect(report.summary.errors).toBe(0);
+      expect(report.issues).toEqual([
+        expect.objectContaining({
+          type: 'duplicate_pair',
+          severity: 'info',
+          fixes: [expect.objectContaining({ mapping_id: second, action: 'remove_mapping' })],
+        }),
+      ]);
+    });
+
+    it('should match pair endpoints whichever way the IDs are written', async () => {
+      map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'IA-2'], 'exact_match');
+      map(['nist-800-53', 'IA-02'], ['nist-800-82', 'G-6.1'], 'related');
+
+      expect(await issuesOf('conflicting_pair')).toHaveLength(1);
+    });
+
+    it('should report supersedes mappings in both directions', async () => {
+      map(['nist-800-53', 'AC-2'], ['nist-800-53', 'IA-2'], 'supersedes');
+      map(['nist-800-53', 'IA-2'], ['nist-800-53', 'AC-2'], 'supersedes', 0.5);
+
+      const [issue] = await issuesOf('conflicting_pair');
+
+      expect(issue?.fixes[0]?.action).toBe('remove_mapping');
+    });
+  });
+
+  describe('confidence spread', () => {
+    it('should report requirements whose mapping confidences disagree', async () => {
+      map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'AC-17'], 'related', 0.9);
+      map(['nist-800-82', 'G-6.2'], ['nist-800-53', 'AC-17'], 'related', 0.85);
+      const outlier = map(['mitre-ics', 'M0801'], ['nist-800-53', 'AC-17'], 'related', 0.2);
+
+      const issues = await issuesOf('confidence_spread');
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        severity: 'warning',
+        requirement: { standard_id: 'nist-800-53', requirement_id: 'AC-17' },
+      });
+      expect(issues[0]?.fixes).toEqual([
+        expect.objectContaining({
+          mapping_id: outlier,
+          action: 'review_confidence',
+          from: 0.2,
+          to: 0.85,
+        }),
+      ]);
+    });
+
+    it('should respect the confidence_spread option and ignore missing confidences', async () => {
+      map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'AC-17'], 'related', 0.9);
+      map(['nist-800-82', 'G-6.2'], ['nist-800-53', 'AC-17'], 'related', 0.6);
+      map(['mitre-ics', 'M0801'], ['nist-800-53', 'AC-17'], 'related', null);
+
+      expect(await issuesOf('confidence_spread')).toHaveLength(0);
+      expect(await issuesOf('confidence_spread', { confidence_spread: 0.2 })).toHaveLength(1);
+    });
+  });
+
+  it('should filter by standard and review status and skip retired mappings', async () => {
+    map(['nist-800-82', 'G-6.1'], ['nist-800-53', 'IA-02']);
+    map(['mitre-ics', 'M0801'], ['nist-800-53', 'ZZ-1'], 'related', 0.8, 'retired');
+    map(['mitre-ics', 'M0801'], ['nist-800-53', 'ZZ-2'], 'related', 0.8, 'reviewed');
+
+    expect((await validate()).checked_mappings).toBe(2);
+    expect((await validate({ standard: 'nist-800-82' })).checked_mappings).toBe(1);
+    expect((await validate({ reviewed_only: true })).issues).toEqual([
+      expect.objectContaining({ requirement: expect.objectContaining({ requirement_id: 'ZZ-2' }) }),
+    ]);
+  });
+});